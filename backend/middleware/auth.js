@@ -0,0 +1,85 @@
+/**
+ * Express middleware for admin and device authentication
+ */
+const { verifyAccessToken, hashToken } = require('../utils/auth');
+const { hasPermission } = require('../utils/permissions');
+
+/**
+ * Reject requests without a valid admin access token.
+ * The authenticated admin is available as `req.admin`.
+ */
+function requireAuth(req, res, next) {
+  const header = req.headers.authorization || '';
+  const [scheme, token] = header.split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    return res.status(401).json({ message: 'Authentication required' });
+  }
+
+  const claims = verifyAccessToken(token);
+  if (!claims) {
+    return res.status(401).json({ message: 'Session has expired, please sign in again' });
+  }
+
+  req.admin = {
+    id: parseInt(claims.sub, 10),
+    username: claims.username,
+    role: claims.role,
+    agent_id: claims.agent_id || null
+  };
+  next();
+}
+
+/**
+ * Require a signed in admin whose role grants the given permission.
+ * Use in place of requireAuth: router.post('/', requirePermission('agents:manage'), ...)
+ * @param {string} permission - Permission name from utils/permissions
+ */
+function requirePermission(permission) {
+  return [
+    requireAuth,
+    (req, res, next) => {
+      if (!hasPermission(req.admin.role, permission)) {
+        return res.status(403).json({ message: 'You do not have permission to perform this action' });
+      }
+      next();
+    }
+  ];
+}
+
+/**
+ * Reject requests that do not come from a device signed in as an agent.
+ * The device token is sent in the X-Device-Token header; the agent is available as `req.device`.
+ */
+async function requireDevice(req, res, next) {
+  const token = req.headers['x-device-token'];
+  if (!token) {
+    return res.status(401).json({ message: 'Sign in with your agent code and PIN' });
+  }
+
+  try {
+    const [sessions] = await req.db.query(
+      `SELECT s.id, a.agent_id, a.name, a.location FROM agent_device_sessions s
+       JOIN agents a ON a.agent_id = s.agent_id
+       WHERE s.token_hash = ? AND s.revoked_at IS NULL AND s.expires_at > NOW()`,
+      [hashToken(token)]
+    );
+
+    if (sessions.length === 0) {
+      return res.status(401).json({ message: 'Device session has expired, please sign in again' });
+    }
+
+    const { id, ...agent } = sessions[0];
+    req.device = { session_id: id, ...agent };
+    next();
+  } catch (err) {
+    console.error('Error checking device session:', err);
+    res.status(500).json({ message: 'Error checking device session', error: err.message });
+  }
+}
+
+module.exports = {
+  requireAuth,
+  requirePermission,
+  requireDevice
+};
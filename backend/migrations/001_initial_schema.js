@@ -0,0 +1,251 @@
+/**
+ * Schema as it was built by initDb() before migrations were introduced. On databases created by
+ * an older initDb() the tables already exist, so only the columns and keys added since are
+ * applied.
+ */
+const { addColumnIfMissing } = require('../utils/migrations');
+
+const TABLES = [
+  `CREATE TABLE IF NOT EXISTS users (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    email VARCHAR(100) NOT NULL UNIQUE,
+    location VARCHAR(100) NOT NULL,
+    agent_name VARCHAR(100),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS campaigns (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    slug VARCHAR(100) NOT NULL UNIQUE,
+    name VARCHAR(150) NOT NULL,
+    start_date DATETIME NULL,
+    end_date DATETIME NULL,
+    logo_url VARCHAR(500),
+    primary_color VARCHAR(20),
+    secondary_color VARCHAR(20),
+    text_color VARCHAR(20),
+    headline VARCHAR(200),
+    subheadline VARCHAR(500),
+    terms_text TEXT,
+    sectors TEXT,
+    allowed_origin VARCHAR(255),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS spin_results (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    campaign_id INT NULL,
+    name VARCHAR(100) NOT NULL,
+    email VARCHAR(100) NOT NULL,
+    location VARCHAR(100) NOT NULL,
+    agent_id VARCHAR(50),
+    agent_name VARCHAR(100),
+    prize VARCHAR(50) NOT NULL,
+    is_win BOOLEAN NOT NULL,
+    date TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    idempotency_key VARCHAR(64) NULL UNIQUE,
+    source VARCHAR(16) NOT NULL DEFAULT 'online',
+    allowance_id VARCHAR(36) NULL,
+    claim_code VARCHAR(12) NULL UNIQUE,
+    claim_expires_at DATETIME NULL,
+    claimed_at DATETIME NULL,
+    claimed_by_agent VARCHAR(50) NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS agents (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    agent_id VARCHAR(50) NOT NULL UNIQUE,
+    name VARCHAR(100) NOT NULL,
+    email VARCHAR(100) NOT NULL UNIQUE,
+    phone VARCHAR(20),
+    location VARCHAR(100) DEFAULT '',
+    pin_hash VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS products (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    win_probability DECIMAL(6,3) NULL,
+    campaign_id INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS product_inventory (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    product_id VARCHAR(50) NOT NULL,
+    product_name VARCHAR(100) NOT NULL,
+    total_quantity INT NOT NULL DEFAULT 0,
+    available_quantity INT NOT NULL DEFAULT 0,
+    distributed_quantity INT NOT NULL DEFAULT 0,
+    agent_id VARCHAR(50) NULL,
+    agent_name VARCHAR(100) NULL,
+    location VARCHAR(100) NULL,
+    campaign_id INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+    INDEX idx_agent_id (agent_id),
+    INDEX idx_product_id (product_id),
+    INDEX idx_available_qty (available_quantity),
+    INDEX idx_campaign_id (campaign_id),
+    UNIQUE KEY unique_agent_product (agent_id, product_id, campaign_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS admin_users (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    username VARCHAR(100) NOT NULL UNIQUE,
+    password_hash VARCHAR(255) NOT NULL,
+    role VARCHAR(32) NOT NULL DEFAULT 'super_admin',
+    agent_id VARCHAR(50) NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    last_login_at TIMESTAMP NULL DEFAULT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+  )`,
+  `CREATE TABLE IF NOT EXISTS admin_refresh_tokens (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    admin_user_id INT NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP NULL DEFAULT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (admin_user_id) REFERENCES admin_users(id) ON DELETE CASCADE,
+    INDEX idx_expires_at (expires_at)
+  )`,
+  `CREATE TABLE IF NOT EXISTS agent_device_sessions (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    token_hash CHAR(64) NOT NULL UNIQUE,
+    agent_id VARCHAR(50) NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    revoked_at TIMESTAMP NULL DEFAULT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    FOREIGN KEY (agent_id) REFERENCES agents(agent_id) ON DELETE CASCADE ON UPDATE CASCADE,
+    INDEX idx_agent_id (agent_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS offline_allowances (
+    id VARCHAR(36) PRIMARY KEY,
+    agent_id VARCHAR(50) NOT NULL,
+    campaign_id INT NULL,
+    items TEXT NOT NULL,
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    INDEX idx_agent_id (agent_id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS spin_sync_conflicts (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    idempotency_key VARCHAR(64) NOT NULL,
+    spin_result_id INT NULL,
+    agent_id VARCHAR(50) NOT NULL,
+    campaign_id INT NULL,
+    reason VARCHAR(255) NOT NULL,
+    payload TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    resolved_at TIMESTAMP NULL DEFAULT NULL,
+    resolved_by VARCHAR(100) NULL,
+    resolution_note VARCHAR(500) NULL,
+    UNIQUE KEY unique_idempotency_key (idempotency_key),
+    INDEX idx_resolved_at (resolved_at)
+  )`,
+  `CREATE TABLE IF NOT EXISTS spin_tokens (
+    id VARCHAR(64) PRIMARY KEY,
+    sector_index INT NOT NULL,
+    prize_label VARCHAR(100) NOT NULL,
+    is_win BOOLEAN NOT NULL,
+    product_id VARCHAR(50),
+    agent_id VARCHAR(50),
+    campaign_id INT NULL,
+    issued_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    used_at TIMESTAMP NULL DEFAULT NULL,
+    spin_result_id INT NULL,
+    INDEX idx_expires_at (expires_at)
+  )`,
+  // Append-only history of every stock change; agent_id is NULL for the warehouse
+  `CREATE TABLE IF NOT EXISTS inventory_movements (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    agent_id VARCHAR(50) NULL,
+    product_id VARCHAR(50) NOT NULL,
+    product_name VARCHAR(255) NULL,
+    campaign_id INT NULL,
+    movement_type VARCHAR(20) NOT NULL,
+    quantity INT NOT NULL,
+    balance_after INT NULL,
+    actor VARCHAR(100) NOT NULL,
+    reason VARCHAR(255) NULL,
+    spin_result_id INT NULL,
+    transfer_id INT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_movement_stock (agent_id, product_id, campaign_id),
+    INDEX idx_movement_spin (spin_result_id),
+    INDEX idx_movement_created (created_at)
+  )`,
+  // Stock moved between the warehouse and agents; a NULL agent is the warehouse
+  `CREATE TABLE IF NOT EXISTS stock_transfers (
+    id INT AUTO_INCREMENT PRIMARY KEY,
+    product_id VARCHAR(50) NOT NULL,
+    product_name VARCHAR(255) NULL,
+    campaign_id INT NULL,
+    from_agent_id VARCHAR(50) NULL,
+    to_agent_id VARCHAR(50) NULL,
+    quantity INT NOT NULL,
+    actor VARCHAR(100) NOT NULL,
+    reason VARCHAR(255) NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    INDEX idx_transfer_from (from_agent_id),
+    INDEX idx_transfer_to (to_agent_id),
+    INDEX idx_transfer_product (product_id, campaign_id)
+  )`
+];
+
+// Columns added to tables after they were first created
+const ADDED_COLUMNS = [
+  // Admins created before roles existed keep full access
+  ['admin_users', 'role', "VARCHAR(32) NOT NULL DEFAULT 'super_admin'"],
+  ['admin_users', 'agent_id', 'VARCHAR(50) NULL'],
+  ['users', 'agent_name', 'VARCHAR(100)'],
+  ['spin_results', 'agent_name', 'VARCHAR(100)'],
+  ['agents', 'location', "VARCHAR(100) DEFAULT ''"],
+  ['agents', 'phone', 'VARCHAR(20)'],
+  ['products', 'win_probability', 'DECIMAL(6,3) NULL'],
+  ['spin_results', 'campaign_id', 'INT NULL'],
+  ['product_inventory', 'campaign_id', 'INT NULL'],
+  ['products', 'campaign_id', 'INT NULL'],
+  ['spin_tokens', 'campaign_id', 'INT NULL'],
+  ['agents', 'pin_hash', 'VARCHAR(255) NULL'],
+  ['spin_results', 'agent_id', 'VARCHAR(50) NULL'],
+  ['spin_results', 'idempotency_key', 'VARCHAR(64) NULL UNIQUE'],
+  ['spin_results', 'source', "VARCHAR(16) NOT NULL DEFAULT 'online'"],
+  ['spin_results', 'allowance_id', 'VARCHAR(36) NULL'],
+  ['spin_results', 'claim_code', 'VARCHAR(12) NULL UNIQUE'],
+  ['spin_results', 'claim_expires_at', 'DATETIME NULL'],
+  ['spin_results', 'claimed_at', 'DATETIME NULL'],
+  ['spin_results', 'claimed_by_agent', 'VARCHAR(50) NULL']
+];
+
+async function up(connection) {
+  for (const table of TABLES) {
+    await connection.query(table);
+  }
+
+  for (const [table, column, definition] of ADDED_COLUMNS) {
+    await addColumnIfMissing(connection, table, column, definition);
+  }
+
+  // An agent can hold stock of the same product for several campaigns
+  const [inventoryKey] = await connection.query(`
+    SHOW INDEX FROM product_inventory WHERE Key_name = 'unique_agent_product'
+  `);
+  if (inventoryKey.length > 0 && !inventoryKey.some(column => column.Column_name === 'campaign_id')) {
+    await connection.query(`
+      ALTER TABLE product_inventory
+      DROP INDEX unique_agent_product,
+      ADD UNIQUE KEY unique_agent_product (agent_id, product_id, campaign_id)
+    `);
+    console.log('Scoped product_inventory unique key by campaign');
+  }
+}
+
+// No down: the baseline holds live data that existed before migrations were introduced
+
+module.exports = { up };
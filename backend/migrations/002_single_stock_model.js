@@ -0,0 +1,40 @@
+/**
+ * Keep all stock in product_inventory, with warehouse stock on rows without an agent, and give
+ * stock that existed before the ledger an opening balance.
+ */
+const { migrateToSingleStockModel } = require('../utils/stockMigration');
+
+async function up(connection) {
+  const [agentIdColumn] = await connection.query("SHOW COLUMNS FROM product_inventory LIKE 'agent_id'");
+  if (agentIdColumn[0].Null === 'NO') {
+    await connection.query(`
+      ALTER TABLE product_inventory
+      MODIFY agent_id VARCHAR(50) NULL,
+      MODIFY agent_name VARCHAR(100) NULL,
+      MODIFY location VARCHAR(100) NULL
+    `);
+    console.log('Allowed warehouse stock rows in product_inventory');
+  }
+
+  await migrateToSingleStockModel(connection);
+
+  const [opened] = await connection.query(`
+    INSERT INTO inventory_movements
+      (agent_id, product_id, product_name, campaign_id, movement_type, quantity, balance_after, actor, reason)
+    SELECT pi.agent_id, pi.product_id, pi.product_name, pi.campaign_id, 'opening',
+           pi.available_quantity, pi.available_quantity, 'system', 'Balance when the ledger was introduced'
+    FROM product_inventory pi
+    WHERE NOT EXISTS (
+      SELECT 1 FROM inventory_movements m
+      WHERE m.agent_id <=> pi.agent_id AND m.product_id = pi.product_id AND m.campaign_id <=> pi.campaign_id
+    )
+  `);
+  if (opened.affectedRows > 0) {
+    console.log(`Recorded opening balances for ${opened.affectedRows} stock rows`);
+  }
+}
+
+// No down: merged balances cannot be split back into the old tables, which are kept with a
+// _migrated suffix instead
+
+module.exports = { up };
@@ -0,0 +1,48 @@
+/**
+ * Give spin_results the columns spins are saved with. The table was created with name, email and
+ * prize, while spins are inserted as user_name, user_contact and prize_label, and location is
+ * never sent. Databases where the new columns were added by hand keep them, filled in from the
+ * old ones.
+ */
+const { columnExists } = require('../utils/migrations');
+
+const RENAMED_COLUMNS = [
+  ['name', 'user_name', 'VARCHAR(100) NOT NULL'],
+  ['email', 'user_contact', 'VARCHAR(100) NOT NULL'],
+  ['prize', 'prize_label', 'VARCHAR(100) NOT NULL']
+];
+
+async function up(connection) {
+  for (const [oldName, newName, definition] of RENAMED_COLUMNS) {
+    const hasOld = await columnExists(connection, 'spin_results', oldName);
+    const hasNew = await columnExists(connection, 'spin_results', newName);
+
+    if (hasOld && hasNew) {
+      await connection.query(`UPDATE spin_results SET ${newName} = ${oldName} WHERE ${newName} IS NULL`);
+      await connection.query(`ALTER TABLE spin_results DROP COLUMN ${oldName}`);
+      await connection.query(`ALTER TABLE spin_results MODIFY ${newName} ${definition}`);
+    } else if (hasOld) {
+      await connection.query(`ALTER TABLE spin_results CHANGE ${oldName} ${newName} ${definition}`);
+    } else if (!hasNew) {
+      await connection.query(`ALTER TABLE spin_results ADD COLUMN ${newName} ${definition}`);
+    }
+  }
+
+  if (await columnExists(connection, 'spin_results', 'location')) {
+    await connection.query('ALTER TABLE spin_results MODIFY location VARCHAR(100) NULL');
+  }
+}
+
+// Renames the columns back. They stay VARCHAR(100) so no prize labels are cut short.
+async function down(connection) {
+  for (const [oldName, newName, definition] of RENAMED_COLUMNS) {
+    await connection.query(`ALTER TABLE spin_results CHANGE ${newName} ${oldName} ${definition}`);
+  }
+
+  if (await columnExists(connection, 'spin_results', 'location')) {
+    await connection.query("UPDATE spin_results SET location = '' WHERE location IS NULL");
+    await connection.query('ALTER TABLE spin_results MODIFY location VARCHAR(100) NOT NULL');
+  }
+}
+
+module.exports = { up, down };
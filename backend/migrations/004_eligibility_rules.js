@@ -0,0 +1,21 @@
+/**
+ * Eligibility rules per campaign, and the customer each spin token was drawn for so tokens that
+ * have not been recorded yet count against the customer's limits
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+async function up(connection) {
+  await addColumnIfMissing(connection, 'campaigns', 'eligibility_rules', 'TEXT NULL');
+  await addColumnIfMissing(connection, 'spin_tokens', 'user_contact', 'VARCHAR(100) NULL');
+}
+
+async function down(connection) {
+  if (await columnExists(connection, 'spin_tokens', 'user_contact')) {
+    await connection.query('ALTER TABLE spin_tokens DROP COLUMN user_contact');
+  }
+  if (await columnExists(connection, 'campaigns', 'eligibility_rules')) {
+    await connection.query('ALTER TABLE campaigns DROP COLUMN eligibility_rules');
+  }
+}
+
+module.exports = { up, down };
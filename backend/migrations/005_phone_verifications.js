@@ -0,0 +1,28 @@
+/**
+ * One-time codes sent to customers' phones, and the verification tokens issued once a code is
+ * entered correctly
+ */
+
+async function up(connection) {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS phone_verifications (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      phone VARCHAR(20) NOT NULL,
+      code_hash CHAR(64) NOT NULL,
+      attempts INT NOT NULL DEFAULT 0,
+      agent_id VARCHAR(50) NULL,
+      expires_at TIMESTAMP NOT NULL,
+      verified_at TIMESTAMP NULL DEFAULT NULL,
+      token_hash CHAR(64) NULL UNIQUE,
+      token_expires_at TIMESTAMP NULL DEFAULT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_phone_created (phone, created_at)
+    )
+  `);
+}
+
+async function down(connection) {
+  await connection.query('DROP TABLE IF EXISTS phone_verifications');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,61 @@
+/**
+ * Fraud checks: the device and IP address each spin came from, flags raised against suspicious
+ * spins, and wins voided after review
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+const SPIN_RESULT_COLUMNS = [
+  ['device_session_id', 'INT NULL'],
+  ['ip_address', 'VARCHAR(45) NULL'],
+  ['voided_at', 'DATETIME NULL'],
+  ['voided_by', 'VARCHAR(100) NULL'],
+  ['void_reason', 'VARCHAR(500) NULL']
+];
+
+async function up(connection) {
+  for (const [column, definition] of SPIN_RESULT_COLUMNS) {
+    await addColumnIfMissing(connection, 'spin_results', column, definition);
+  }
+
+  // The velocity rules count recent spins per device and per IP address
+  const [indexes] = await connection.query("SHOW INDEX FROM spin_results WHERE Key_name IN ('idx_device_date', 'idx_ip_date')");
+  const existing = new Set(indexes.map(index => index.Key_name));
+  if (!existing.has('idx_device_date')) {
+    await connection.query('ALTER TABLE spin_results ADD INDEX idx_device_date (device_session_id, date)');
+  }
+  if (!existing.has('idx_ip_date')) {
+    await connection.query('ALTER TABLE spin_results ADD INDEX idx_ip_date (ip_address, date)');
+  }
+
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS spin_flags (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      spin_result_id INT NOT NULL,
+      rule VARCHAR(50) NOT NULL,
+      details VARCHAR(500) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'open',
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      reviewed_at TIMESTAMP NULL DEFAULT NULL,
+      reviewed_by VARCHAR(100) NULL,
+      review_note VARCHAR(500) NULL,
+      UNIQUE KEY unique_spin_rule (spin_result_id, rule),
+      INDEX idx_status (status),
+      FOREIGN KEY (spin_result_id) REFERENCES spin_results(id) ON DELETE CASCADE
+    )
+  `);
+}
+
+async function down(connection) {
+  await connection.query('DROP TABLE IF EXISTS spin_flags');
+  const [indexes] = await connection.query("SHOW INDEX FROM spin_results WHERE Key_name IN ('idx_device_date', 'idx_ip_date')");
+  for (const name of new Set(indexes.map(index => index.Key_name))) {
+    await connection.query(`ALTER TABLE spin_results DROP INDEX ${name}`);
+  }
+  for (const [column] of SPIN_RESULT_COLUMNS) {
+    if (await columnExists(connection, 'spin_results', column)) {
+      await connection.query(`ALTER TABLE spin_results DROP COLUMN ${column}`);
+    }
+  }
+}
+
+module.exports = { up, down };
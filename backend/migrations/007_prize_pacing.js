@@ -0,0 +1,17 @@
+/**
+ * Pacing curve per prize, for spreading its stock over the campaign instead of drawing at the
+ * configured odds
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+async function up(connection) {
+  await addColumnIfMissing(connection, 'products', 'pacing_curve', 'VARCHAR(20) NULL');
+}
+
+async function down(connection) {
+  if (await columnExists(connection, 'products', 'pacing_curve')) {
+    await connection.query('ALTER TABLE products DROP COLUMN pacing_curve');
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,31 @@
+/**
+ * Hard limits on how many of a prize can be won per hour or day, across all outlets, per agent
+ * or per outlet, and the reason a spin fell back to a losing sector when one was reached
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+async function up(connection) {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS prize_caps (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      product_id INT NOT NULL,
+      scope VARCHAR(20) NOT NULL,
+      period VARCHAR(10) NOT NULL,
+      max_wins INT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY unique_product_scope_period (product_id, scope, period),
+      FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE
+    )
+  `);
+  await addColumnIfMissing(connection, 'spin_results', 'cap_reason', 'VARCHAR(255) NULL');
+}
+
+async function down(connection) {
+  if (await columnExists(connection, 'spin_results', 'cap_reason')) {
+    await connection.query('ALTER TABLE spin_results DROP COLUMN cap_reason');
+  }
+  await connection.query('DROP TABLE IF EXISTS prize_caps');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,20 @@
+/**
+ * Prize tier per product (grand, standard or consolation) and the tier each spin was won at
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+async function up(connection) {
+  await addColumnIfMissing(connection, 'products', 'prize_tier', "VARCHAR(20) NOT NULL DEFAULT 'standard'");
+  await addColumnIfMissing(connection, 'spin_results', 'prize_tier', 'VARCHAR(20) NULL');
+}
+
+async function down(connection) {
+  if (await columnExists(connection, 'spin_results', 'prize_tier')) {
+    await connection.query('ALTER TABLE spin_results DROP COLUMN prize_tier');
+  }
+  if (await columnExists(connection, 'products', 'prize_tier')) {
+    await connection.query('ALTER TABLE products DROP COLUMN prize_tier');
+  }
+}
+
+module.exports = { up, down };
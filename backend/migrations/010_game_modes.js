@@ -0,0 +1,16 @@
+/**
+ * Game a campaign is played with: the spin wheel, a scratch card, pick-a-box or a slot machine
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+async function up(connection) {
+  await addColumnIfMissing(connection, 'campaigns', 'game_mode', "VARCHAR(20) NOT NULL DEFAULT 'wheel'");
+}
+
+async function down(connection) {
+  if (await columnExists(connection, 'campaigns', 'game_mode')) {
+    await connection.query('ALTER TABLE campaigns DROP COLUMN game_mode');
+  }
+}
+
+module.exports = { up, down };
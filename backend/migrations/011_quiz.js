@@ -0,0 +1,53 @@
+/**
+ * Product quiz before the game: the question bank, each campaign's quiz settings and the
+ * answers customers gave, linked to the spin they went on to play
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+async function up(connection) {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS quiz_questions (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      campaign_id INT NULL,
+      question VARCHAR(500) NOT NULL,
+      options TEXT NOT NULL,
+      correct_option INT NOT NULL,
+      is_active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      INDEX idx_quiz_questions_campaign (campaign_id),
+      FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE
+    )
+  `);
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS quiz_attempts (
+      id VARCHAR(36) PRIMARY KEY,
+      campaign_id INT NOT NULL,
+      agent_id VARCHAR(50) NOT NULL,
+      user_contact VARCHAR(255) NULL,
+      answers TEXT NOT NULL,
+      correct_count INT NOT NULL,
+      question_count INT NOT NULL,
+      passed BOOLEAN NOT NULL,
+      expires_at DATETIME NOT NULL,
+      used_at DATETIME NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      INDEX idx_quiz_attempts_campaign (campaign_id, created_at)
+    )
+  `);
+  await addColumnIfMissing(connection, 'campaigns', 'quiz_settings', 'TEXT NULL');
+  await addColumnIfMissing(connection, 'spin_results', 'quiz_attempt_id', 'VARCHAR(36) NULL');
+}
+
+async function down(connection) {
+  if (await columnExists(connection, 'spin_results', 'quiz_attempt_id')) {
+    await connection.query('ALTER TABLE spin_results DROP COLUMN quiz_attempt_id');
+  }
+  if (await columnExists(connection, 'campaigns', 'quiz_settings')) {
+    await connection.query('ALTER TABLE campaigns DROP COLUMN quiz_settings');
+  }
+  await connection.query('DROP TABLE IF EXISTS quiz_attempts');
+  await connection.query('DROP TABLE IF EXISTS quiz_questions');
+}
+
+module.exports = { up, down };
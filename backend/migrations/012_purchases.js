@@ -0,0 +1,44 @@
+/**
+ * Proof of purchase: each campaign's purchase settings and the receipts customers played with,
+ * linked to the spin they were used for
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+async function up(connection) {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS purchases (
+      id INT AUTO_INCREMENT PRIMARY KEY,
+      campaign_id INT NOT NULL,
+      agent_id VARCHAR(50) NOT NULL,
+      user_contact VARCHAR(255) NULL,
+      receipt_number VARCHAR(64) NOT NULL,
+      receipt_key VARCHAR(64) NOT NULL,
+      till VARCHAR(64) NULL,
+      till_key VARCHAR(64) NOT NULL DEFAULT '',
+      skus TEXT NOT NULL,
+      amount DECIMAL(10,2) NOT NULL,
+      photo_key VARCHAR(255) NULL,
+      photo_content_type VARCHAR(50) NULL,
+      used_at DATETIME NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+      UNIQUE KEY uniq_purchases_receipt (campaign_id, receipt_key, till_key),
+      INDEX idx_purchases_campaign (campaign_id, created_at),
+      FOREIGN KEY (campaign_id) REFERENCES campaigns(id) ON DELETE CASCADE
+    )
+  `);
+  await addColumnIfMissing(connection, 'campaigns', 'purchase_settings', 'TEXT NULL');
+  await addColumnIfMissing(connection, 'spin_results', 'purchase_id', 'INT NULL');
+}
+
+async function down(connection) {
+  if (await columnExists(connection, 'spin_results', 'purchase_id')) {
+    await connection.query('ALTER TABLE spin_results DROP COLUMN purchase_id');
+  }
+  if (await columnExists(connection, 'campaigns', 'purchase_settings')) {
+    await connection.query('ALTER TABLE campaigns DROP COLUMN purchase_settings');
+  }
+  await connection.query('DROP TABLE IF EXISTS purchases');
+}
+
+module.exports = { up, down };
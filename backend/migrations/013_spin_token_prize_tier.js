@@ -0,0 +1,17 @@
+/**
+ * The tier each spin token was drawn at, so consolation prizes that have not been recorded yet
+ * stay out of a customer's win limit
+ */
+const { addColumnIfMissing, columnExists } = require('../utils/migrations');
+
+async function up(connection) {
+  await addColumnIfMissing(connection, 'spin_tokens', 'prize_tier', 'VARCHAR(20) NULL');
+}
+
+async function down(connection) {
+  if (await columnExists(connection, 'spin_tokens', 'prize_tier')) {
+    await connection.query('ALTER TABLE spin_tokens DROP COLUMN prize_tier');
+  }
+}
+
+module.exports = { up, down };
@@ -0,0 +1,20 @@
+/**
+ * Wrong PINs per agent code, so device sign in lockouts hold across restarts and server instances
+ */
+
+async function up(connection) {
+  await connection.query(`
+    CREATE TABLE IF NOT EXISTS device_login_attempts (
+      agent_code VARCHAR(50) PRIMARY KEY,
+      failed_count INT NOT NULL DEFAULT 0,
+      last_failed_at DATETIME NOT NULL,
+      INDEX idx_last_failed_at (last_failed_at)
+    )
+  `);
+}
+
+async function down(connection) {
+  await connection.query('DROP TABLE IF EXISTS device_login_attempts');
+}
+
+module.exports = { up, down };
@@ -0,0 +1,57 @@
+/**
+ * Storage for the routes that do not need MySQL: users, admins, agents, products, inventory and
+ * spin result listings. The game routes still query MySQL and are not available under the memory
+ * driver (see server.js). Each driver provides the same repositories with the same methods and
+ * row shapes:
+ *
+ * - users: list, findById, create
+ * - admins: count, create, findActiveByUsername, recordLogin, saveRefreshToken, useRefreshToken,
+ *   revokeRefreshToken
+ * - agents: list, findById, create, update, setPin, remove, getPrizeStats
+ * - products: list, findById, create, update, remove
+ * - inventory: list, findById, findAvailable, getSummary, assign, update, distribute, restock,
+ *   writeOff, listMovements, findLedgerDrift
+ * - spinResults: list, getStats, listPrizeLabels, countByAgentAndPrize, remove. list leaves out claim
+ *   codes, idempotency keys and IP addresses; pass withClaimCodes for exports
+ *
+ * Lookups resolve to undefined when nothing matches. Changes that can be refused resolve to
+ * { ok: false, status, message } instead of throwing, and a taken unique value throws an error
+ * with code ER_DUP_ENTRY. Stock filters take agentId undefined for every holder and null for the
+ * warehouse.
+ */
+const createMysqlRepositories = require('./mysql');
+const createMemoryRepositories = require('./memory');
+
+const DRIVERS = {
+  MYSQL: 'mysql',
+  // Nothing persists; for local development without a database server
+  MEMORY: 'memory'
+};
+
+/**
+ * Read the storage driver from DB_DRIVER
+ * @returns {string} - One of DRIVERS, mysql by default
+ */
+function getDriver() {
+  const driver = (process.env.DB_DRIVER || DRIVERS.MYSQL).toLowerCase();
+  if (!Object.values(DRIVERS).includes(driver)) {
+    throw new Error(`Unknown DB_DRIVER "${process.env.DB_DRIVER}". Use one of: ${Object.values(DRIVERS).join(', ')}`);
+  }
+  return driver;
+}
+
+/**
+ * Create the repositories for a driver
+ * @param {string} driver - One of DRIVERS
+ * @param {object} [pool] - MySQL pool, for the mysql driver
+ * @returns {object} - Repositories by name
+ */
+function createRepositories(driver, pool) {
+  return driver === DRIVERS.MEMORY ? createMemoryRepositories() : createMysqlRepositories(pool);
+}
+
+module.exports = {
+  DRIVERS,
+  getDriver,
+  createRepositories
+};
@@ -0,0 +1,77 @@
+const { duplicateEntry } = require('./store');
+
+const toSessionUser = ({ id, username, role, agent_id }) => ({ id, username, role, agent_id });
+
+/**
+ * Admin dashboard accounts and their refresh tokens
+ * @param {object} store - In-memory store
+ */
+function createAdminRepository(store) {
+  const findActive = (predicate) => store.tables.admin_users.find(user => user.is_active && predicate(user));
+
+  return {
+    async count() {
+      return store.tables.admin_users.length;
+    },
+
+    async create({ username, passwordHash, role, agentId = null }) {
+      if (store.tables.admin_users.some(user => user.username === username)) {
+        throw duplicateEntry('username');
+      }
+      return store.insert('admin_users', {
+        username,
+        password_hash: passwordHash,
+        role,
+        agent_id: agentId,
+        is_active: true,
+        last_login_at: null
+      }).id;
+    },
+
+    async findActiveByUsername(username) {
+      const user = findActive(candidate => candidate.username === username);
+      return user && { ...toSessionUser(user), password_hash: user.password_hash };
+    },
+
+    async recordLogin(id) {
+      const user = store.tables.admin_users.find(candidate => candidate.id === id);
+      if (user) {
+        user.last_login_at = new Date();
+      }
+    },
+
+    async saveRefreshToken({ tokenHash, adminUserId, expiresAt }) {
+      store.insert('admin_refresh_tokens', {
+        token_hash: tokenHash,
+        admin_user_id: adminUserId,
+        expires_at: expiresAt,
+        revoked_at: null
+      });
+    },
+
+    // Revoke the token first so it cannot be used twice
+    async useRefreshToken(tokenHash) {
+      const token = store.tables.admin_refresh_tokens.find(candidate => (
+        candidate.token_hash === tokenHash && !candidate.revoked_at && candidate.expires_at > new Date()
+      ));
+      if (!token) {
+        return undefined;
+      }
+      token.revoked_at = new Date();
+
+      const user = findActive(candidate => candidate.id === token.admin_user_id);
+      return user && toSessionUser(user);
+    },
+
+    async revokeRefreshToken(tokenHash) {
+      const token = store.tables.admin_refresh_tokens.find(candidate => (
+        candidate.token_hash === tokenHash && !candidate.revoked_at
+      ));
+      if (token) {
+        token.revoked_at = new Date();
+      }
+    }
+  };
+}
+
+module.exports = createAdminRepository;
@@ -0,0 +1,106 @@
+const { duplicateEntry, newestFirst } = require('./store');
+
+// PIN hashes never leave the server; admins only see whether a PIN is set
+const toAgent = ({ pin_hash, ...agent }) => ({ ...agent, has_pin: pin_hash ? 1 : 0 });
+
+/**
+ * Brand ambassadors (agents) who run the wheel
+ * @param {object} store - In-memory store
+ */
+function createAgentRepository(store) {
+  const find = (id) => store.tables.agents.find(agent => agent.id === Number(id));
+
+  // Throws an error with code ER_DUP_ENTRY when another agent has the agent ID or email
+  const checkUnique = ({ agent_id, email }, id) => {
+    const others = store.tables.agents.filter(agent => agent.id !== id);
+    if (others.some(agent => agent.agent_id === agent_id)) {
+      throw duplicateEntry('agent_id');
+    }
+    if (others.some(agent => agent.email === email)) {
+      throw duplicateEntry('email');
+    }
+  };
+
+  return {
+    async list() {
+      return [...store.tables.agents].sort(newestFirst).map(toAgent);
+    },
+
+    async findById(id) {
+      const agent = find(id);
+      return agent && toAgent(agent);
+    },
+
+    async create({ agent_id, name, email, phone, location, pin_hash }) {
+      checkUnique({ agent_id, email });
+      return toAgent(store.insert('agents', {
+        agent_id,
+        name,
+        email,
+        phone: phone || null,
+        location: location || '',
+        pin_hash: pin_hash || null
+      }));
+    },
+
+    async update(id, { agent_id, name, email, phone, location }) {
+      const agent = find(id);
+      if (!agent) {
+        return undefined;
+      }
+      checkUnique({ agent_id, email }, agent.id);
+      Object.assign(agent, { agent_id, name, email, phone: phone || null, location: location || '', updated_at: new Date() });
+      return toAgent(agent);
+    },
+
+    // There are no device sessions to revoke; devices need the MySQL driver
+    async setPin(id, pinHash) {
+      const agent = find(id);
+      if (agent) {
+        agent.pin_hash = pinHash;
+      }
+    },
+
+    async remove(id) {
+      return store.removeWhere('agents', agent => agent.id === Number(id)) > 0;
+    },
+
+    // Spins per agent, and the prizes each agent has given out. Spins recorded before device
+    // sign in only have the typed agent name.
+    async getPrizeStats() {
+      const spins = store.tables.spin_results;
+
+      const agentStats = store.tables.agents.map(agent => {
+        const agentSpins = spins.filter(spin => spin.agent_id === agent.agent_id
+          || (!spin.agent_id && (spin.agent_name === agent.agent_id || spin.agent_name === agent.name)));
+        const wins = agentSpins.filter(spin => spin.is_win).length;
+        return {
+          agent_id: agent.agent_id,
+          agent_name: agent.name,
+          total_spins: agentSpins.length,
+          total_wins: wins,
+          win_rate: agentSpins.length > 0 ? (wins / agentSpins.length) * 100 : 0
+        };
+      }).sort((a, b) => b.total_spins - a.total_spins);
+
+      const counts = new Map();
+      for (const spin of spins.filter(result => result.is_win)) {
+        const key = JSON.stringify([spin.agent_id, spin.agent_name, spin.prize_label]);
+        const stat = counts.get(key) || {
+          agent_id: spin.agent_id,
+          agent_name: spin.agent_name || 'Unknown',
+          prize: spin.prize_label,
+          count: 0
+        };
+        stat.count++;
+        counts.set(key, stat);
+      }
+      const prizeStats = [...counts.values()]
+        .sort((a, b) => a.agent_name.localeCompare(b.agent_name) || b.count - a.count);
+
+      return { agentStats, prizeStats };
+    }
+  };
+}
+
+module.exports = createAgentRepository;
@@ -0,0 +1,25 @@
+const { createStore } = require('./store');
+const createUserRepository = require('./users');
+const createAdminRepository = require('./admins');
+const createAgentRepository = require('./agents');
+const createProductRepository = require('./products');
+const createInventoryRepository = require('./inventory');
+const createSpinResultRepository = require('./spinResults');
+
+/**
+ * Repositories kept in process memory, sharing one store
+ * @returns {object} - Repositories by name
+ */
+function createMemoryRepositories() {
+  const store = createStore();
+  return {
+    users: createUserRepository(store),
+    admins: createAdminRepository(store),
+    agents: createAgentRepository(store),
+    products: createProductRepository(store),
+    inventory: createInventoryRepository(store),
+    spinResults: createSpinResultRepository(store)
+  };
+}
+
+module.exports = createMemoryRepositories;
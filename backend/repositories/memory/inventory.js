@@ -0,0 +1,240 @@
+const { MOVEMENT_TYPES } = require('../../utils/inventoryLedger');
+const { copy, newestFirst, toId } = require('./store');
+const { recordMovement, findLedgerDrift } = require('./ledger');
+
+/**
+ * Match rows by stock holder and campaign
+ * @param {{agentId?: ?string, campaignId?: number}} filters - agentId null is the warehouse
+ * @returns {Function} - Predicate for stock or movement rows
+ */
+const byHolder = ({ agentId, campaignId }) => (row) => (
+  (agentId === undefined || row.agent_id === agentId)
+  && (!campaignId || row.campaign_id === toId(campaignId))
+);
+
+const sum = (rows, column) => rows.reduce((total, row) => total + row[column], 0);
+
+/**
+ * Stock rows for the warehouse and agents, and the ledger of their movements. Every change to a
+ * balance is written to the ledger with it.
+ * @param {object} store - In-memory store
+ */
+function createInventoryRepository(store) {
+  const rows = () => store.tables.product_inventory;
+  const find = (id) => rows().find(row => row.id === Number(id));
+
+  // Move a balance and record the movement. Callers check the stock is there first.
+  const changeStock = (item, { type, available, total = 0, distributed = 0, actor, reason }) => {
+    item.available_quantity += available;
+    item.total_quantity += total;
+    item.distributed_quantity += distributed;
+    item.updated_at = new Date();
+
+    recordMovement(store, {
+      agentId: item.agent_id,
+      productId: item.product_id,
+      productName: item.product_name,
+      campaignId: item.campaign_id,
+      type,
+      quantity: available,
+      balanceAfter: item.available_quantity,
+      actor,
+      reason
+    });
+  };
+
+  return {
+    async list({ agentId, productId, campaignId, availableOnly } = {}) {
+      return rows()
+        .filter(byHolder({ agentId, campaignId }))
+        .filter(row => (!productId || row.product_id === String(productId)) && (!availableOnly || row.available_quantity > 0))
+        .sort(newestFirst)
+        .map(copy);
+    },
+
+    async findById(id) {
+      return copy(find(id));
+    },
+
+    // Stock an agent still has of a product, in any campaign
+    async findAvailable({ productId, agentId }) {
+      return copy(rows().find(row => (
+        row.product_id === String(productId) && row.agent_id === agentId && row.available_quantity > 0
+      )));
+    },
+
+    async getSummary(filters = {}) {
+      const matching = rows().filter(byHolder(filters));
+
+      const byProduct = new Map();
+      for (const row of matching) {
+        const key = JSON.stringify([row.product_id, row.product_name]);
+        byProduct.set(key, [...(byProduct.get(key) || []), row]);
+      }
+      const products = [...byProduct.values()]
+        .map(productRows => ({
+          product_id: productRows[0].product_id,
+          product_name: productRows[0].product_name,
+          total_quantity: sum(productRows, 'total_quantity'),
+          available_quantity: sum(productRows, 'available_quantity'),
+          distributed_quantity: sum(productRows, 'distributed_quantity'),
+          locations: productRows.length
+        }))
+        .sort((a, b) => String(a.product_name).localeCompare(String(b.product_name)));
+
+      return {
+        total_products: matching.length,
+        total_quantity: sum(matching, 'total_quantity'),
+        available_quantity: sum(matching, 'available_quantity'),
+        distributed_quantity: sum(matching, 'distributed_quantity'),
+        out_of_stock_products: matching.filter(row => row.available_quantity === 0).length,
+        products
+      };
+    },
+
+    // Give an agent a new stock row of a product, in the product's campaign
+    async assign({ productId, agentId, agentName, location, quantity, actor, reason }) {
+      const product = store.tables.products.find(candidate => candidate.id === Number(productId));
+      if (!product) {
+        return { ok: false, status: 400, message: 'Product not found' };
+      }
+
+      if (rows().some(row => row.agent_id === agentId && row.product_id === String(productId) && row.campaign_id === product.campaign_id)) {
+        return { ok: false, status: 400, message: 'Inventory item already exists for this agent and product. Use PUT to update.' };
+      }
+
+      const item = store.insert('product_inventory', {
+        product_id: String(productId),
+        product_name: product.name,
+        total_quantity: 0,
+        available_quantity: 0,
+        distributed_quantity: 0,
+        agent_id: agentId,
+        agent_name: agentName,
+        location,
+        campaign_id: product.campaign_id
+      });
+      changeStock(item, { type: MOVEMENT_TYPES.ASSIGN, available: quantity, total: quantity, actor, reason });
+
+      return { ok: true, item: copy(item) };
+    },
+
+    // Any change to the quantities is a manual adjustment in the ledger
+    async update(id, { totalQuantity, availableQuantity, agentName, location, actor, reason }) {
+      if (totalQuantity === undefined && availableQuantity === undefined && !agentName && !location) {
+        return { ok: false, status: 400, message: 'No fields to update' };
+      }
+
+      const item = find(id);
+      if (!item) {
+        return { ok: false, status: 404, message: 'Inventory item not found' };
+      }
+
+      if (agentName) item.agent_name = agentName;
+      if (location) item.location = location;
+      item.updated_at = new Date();
+
+      if (totalQuantity !== undefined || availableQuantity !== undefined) {
+        const newTotal = totalQuantity !== undefined ? Number(totalQuantity) : item.total_quantity;
+        const newAvailable = availableQuantity !== undefined ? Number(availableQuantity) : item.available_quantity;
+        const changes = [];
+        if (totalQuantity !== undefined) changes.push(`total ${item.total_quantity} -> ${totalQuantity}`);
+        if (availableQuantity !== undefined) changes.push(`available ${item.available_quantity} -> ${availableQuantity}`);
+
+        changeStock(item, {
+          type: MOVEMENT_TYPES.ADJUST,
+          available: newAvailable - item.available_quantity,
+          total: newTotal - item.total_quantity,
+          distributed: availableQuantity !== undefined
+            ? (newTotal - newAvailable) - item.distributed_quantity
+            : 0,
+          actor,
+          reason: reason || `Manual edit: ${changes.join(', ')}`
+        });
+      }
+
+      return { ok: true, item: copy(item) };
+    },
+
+    // Prizes an agent handed out
+    async distribute({ productId, agentId, quantity, actor, reason }) {
+      const item = rows().find(row => row.product_id === String(productId) && row.agent_id === agentId);
+      if (!item) {
+        return { ok: false, status: 404, message: 'Inventory item not found' };
+      }
+      if (item.available_quantity < quantity) {
+        return { ok: false, status: 400, message: 'Insufficient stock', available: item.available_quantity, requested: quantity };
+      }
+
+      changeStock(item, { type: MOVEMENT_TYPES.DISTRIBUTE, available: -quantity, distributed: quantity, actor, reason });
+      return {
+        ok: true,
+        remaining_quantity: item.available_quantity,
+        distributed_quantity: item.distributed_quantity,
+        product_name: item.product_name
+      };
+    },
+
+    // Without an agent the warehouse is restocked; it gets a stock row for any product the first
+    // time it is restocked
+    async restock({ productId, agentId = null, quantity, actor, reason }) {
+      let item = rows().find(row => row.product_id === String(productId) && row.agent_id === agentId);
+
+      if (!item && !agentId) {
+        const product = store.tables.products.find(candidate => candidate.id === Number(productId));
+        if (product) {
+          item = store.insert('product_inventory', {
+            product_id: String(product.id),
+            product_name: product.name,
+            total_quantity: 0,
+            available_quantity: 0,
+            distributed_quantity: 0,
+            agent_id: null,
+            agent_name: null,
+            location: null,
+            campaign_id: product.campaign_id
+          });
+        }
+      }
+
+      if (!item) {
+        return { ok: false, status: 404, message: 'Inventory item not found' };
+      }
+
+      changeStock(item, { type: MOVEMENT_TYPES.RESTOCK, available: quantity, total: quantity, actor, reason });
+      return { ok: true, new_available: item.available_quantity, new_total: item.total_quantity, restocked_quantity: quantity };
+    },
+
+    // Written off stock was never given out, so it leaves the total as well
+    async writeOff({ productId, agentId, campaignId = null, quantity, actor, reason }) {
+      const item = rows().find(row => (
+        row.product_id === String(productId) && row.agent_id === agentId && row.campaign_id === toId(campaignId)
+      ));
+      if (!item) {
+        return { ok: false, status: 404, message: 'Inventory item not found' };
+      }
+      if (item.available_quantity < quantity) {
+        return { ok: false, status: 400, message: 'Insufficient stock', available: item.available_quantity, requested: quantity };
+      }
+
+      changeStock(item, { type: MOVEMENT_TYPES.WRITE_OFF, available: -quantity, total: -quantity, actor, reason });
+      return { ok: true, new_available: item.available_quantity, written_off_quantity: quantity };
+    },
+
+    async listMovements({ agentId, productId, campaignId, type, limit }) {
+      const agentNames = new Map(store.tables.agents.map(agent => [agent.agent_id, agent.name]));
+      return store.tables.inventory_movements
+        .filter(byHolder({ agentId, campaignId }))
+        .filter(m => (!productId || m.product_id === String(productId)) && (!type || m.movement_type === type))
+        .sort(newestFirst)
+        .slice(0, limit)
+        .map(m => ({ ...m, agent_name: agentNames.get(m.agent_id) || null }));
+    },
+
+    async findLedgerDrift(filters = {}) {
+      return findLedgerDrift(store, filters);
+    }
+  };
+}
+
+module.exports = createInventoryRepository;
@@ -0,0 +1,59 @@
+/**
+ * The stock ledger for the in-memory driver, with the same rows utils/inventoryLedger.js writes
+ */
+
+/**
+ * Write a stock movement
+ * @param {object} store - In-memory store
+ * @param {object} movement - Same fields as recordMovement in utils/inventoryLedger.js
+ * @returns {number} - ID of the movement
+ */
+function recordMovement(store, movement) {
+  return store.insert('inventory_movements', {
+    agent_id: movement.agentId || null,
+    product_id: String(movement.productId),
+    product_name: movement.productName || null,
+    campaign_id: movement.campaignId || null,
+    movement_type: movement.type,
+    quantity: movement.quantity,
+    balance_after: movement.balanceAfter === undefined ? null : movement.balanceAfter,
+    actor: movement.actor || 'system',
+    reason: movement.reason || null,
+    spin_result_id: movement.spinResultId || null,
+    transfer_id: movement.transferId || null
+  }).id;
+}
+
+/**
+ * Compare each stock balance with the sum of its movements
+ * @param {object} store - In-memory store
+ * @param {{agentId?: ?string, campaignId?: number}} [filters] - agentId null checks the warehouse only
+ * @returns {object[]} - Balances that do not match their ledger, with the difference
+ */
+function findLedgerDrift(store, { agentId, campaignId } = {}) {
+  return store.tables.product_inventory
+    .filter(row => (agentId === undefined || row.agent_id === agentId)
+      && (!campaignId || row.campaign_id === Number(campaignId)))
+    .map(row => {
+      const ledgerQuantity = store.tables.inventory_movements
+        .filter(m => m.agent_id === row.agent_id && m.product_id === row.product_id && m.campaign_id === row.campaign_id)
+        .reduce((sum, m) => sum + m.quantity, 0);
+      return {
+        agent_id: row.agent_id,
+        product_id: row.product_id,
+        product_name: row.product_name,
+        campaign_id: row.campaign_id,
+        available_quantity: row.available_quantity,
+        ledger_quantity: ledgerQuantity,
+        difference: row.available_quantity - ledgerQuantity
+      };
+    })
+    .filter(row => row.difference !== 0)
+    .sort((a, b) => String(a.agent_id ?? '').localeCompare(String(b.agent_id ?? ''))
+      || String(a.product_name).localeCompare(String(b.product_name)));
+}
+
+module.exports = {
+  recordMovement,
+  findLedgerDrift
+};
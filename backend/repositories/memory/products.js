@@ -0,0 +1,117 @@
+const { MOVEMENT_TYPES } = require('../../utils/inventoryLedger');
+const { copy, newestFirst, toId } = require('./store');
+const { recordMovement } = require('./ledger');
+
+/**
+ * Prizes, with their stock summed over the warehouse and every agent holding them
+ * @param {object} store - In-memory store
+ */
+function createProductRepository(store) {
+  const find = (id) => store.tables.products.find(product => product.id === Number(id));
+
+  return {
+    async list({ campaignId } = {}) {
+      return store.tables.products
+        .filter(product => !campaignId || product.campaign_id === toId(campaignId))
+        .sort(newestFirst)
+        .map(product => {
+          const stock = store.tables.product_inventory.filter(row => row.product_id === String(product.id));
+          const sum = (rows, column) => rows.reduce((total, row) => total + row[column], 0);
+          return {
+            ...product,
+            total_quantity: sum(stock, 'total_quantity'),
+            available_quantity: sum(stock, 'available_quantity'),
+            distributed_quantity: sum(stock, 'distributed_quantity'),
+            warehouse_quantity: sum(stock.filter(row => row.agent_id === null), 'available_quantity')
+          };
+        });
+    },
+
+    async findById(id) {
+      return copy(find(id));
+    },
+
+    // An initial quantity goes to the warehouse, ready to be allocated to agents
+    async create({ name, description, win_probability, pacing_curve, prize_tier, campaign_id }, { quantity, actor } = {}) {
+      const product = store.insert('products', {
+        name,
+        description,
+        win_probability,
+        pacing_curve,
+        prize_tier,
+        campaign_id: toId(campaign_id)
+      });
+
+      if (quantity !== undefined) {
+        store.insert('product_inventory', {
+          product_id: String(product.id),
+          product_name: name,
+          total_quantity: quantity,
+          available_quantity: quantity,
+          distributed_quantity: 0,
+          agent_id: null,
+          agent_name: null,
+          location: null,
+          campaign_id: product.campaign_id
+        });
+
+        recordMovement(store, {
+          agentId: null,
+          productId: product.id,
+          productName: name,
+          campaignId: product.campaign_id,
+          type: MOVEMENT_TYPES.RESTOCK,
+          quantity,
+          balanceAfter: quantity,
+          actor,
+          reason: 'Initial stock'
+        });
+      }
+      return copy(product);
+    },
+
+    async update(id, { name, description, win_probability, pacing_curve, prize_tier, campaign_id }) {
+      const product = find(id);
+      if (!product) {
+        return undefined;
+      }
+
+      // Agent wheels are labelled from the stock rows, so they follow a rename
+      if (name !== product.name) {
+        store.tables.product_inventory
+          .filter(row => row.product_id === String(product.id))
+          .forEach(row => { row.product_name = name; });
+      }
+
+      Object.assign(product, { name, description, win_probability, pacing_curve, prize_tier, campaign_id: toId(campaign_id), updated_at: new Date() });
+      return copy(product);
+    },
+
+    // Stock of a deleted product is written off so the ledger still adds up
+    async remove(id, { actor } = {}) {
+      const product = find(id);
+      if (!product) {
+        return false;
+      }
+
+      const productId = String(product.id);
+      for (const row of store.tables.product_inventory.filter(stock => stock.product_id === productId && stock.available_quantity > 0)) {
+        recordMovement(store, {
+          agentId: row.agent_id,
+          productId: row.product_id,
+          productName: row.product_name,
+          campaignId: row.campaign_id,
+          type: MOVEMENT_TYPES.WRITE_OFF,
+          quantity: -row.available_quantity,
+          balanceAfter: 0,
+          actor,
+          reason: 'Product deleted'
+        });
+      }
+      store.removeWhere('product_inventory', row => row.product_id === productId);
+      return store.removeWhere('products', row => row.id === product.id) > 0;
+    }
+  };
+}
+
+module.exports = createProductRepository;
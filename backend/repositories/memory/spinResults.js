@@ -0,0 +1,112 @@
+const { toId } = require('./store');
+
+// Calendar day of a timestamp in local time, as MySQL's DATE() gives it
+const toDay = (date) => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// spin_results columns, plus the names the results API has always returned them under
+const withLegacyNames = (spin) => ({ ...spin, name: spin.user_name, email: spin.user_contact, prize: spin.prize_label });
+
+// Columns the results list leaves out, as SPIN_RESULT_COLUMNS does for MySQL
+const withoutPrivateColumns = ({ claim_code, idempotency_key, ip_address, ...spin }) => spin;
+
+const newestSpinFirst = (a, b) => new Date(b.date) - new Date(a.date) || b.id - a.id;
+
+/**
+ * Count spins and wins per group, in order of first appearance
+ * @param {object[]} spins - Spin results
+ * @param {Function} keyOf - Group key of a spin
+ * @returns {Map<string, {spins: object[], wins: number}>} - Spins and win count per key
+ */
+function groupSpins(spins, keyOf) {
+  const groups = new Map();
+  for (const spin of spins) {
+    const key = keyOf(spin);
+    const group = groups.get(key) || { spins: [], wins: 0 };
+    group.spins.push(spin);
+    group.wins += spin.is_win ? 1 : 0;
+    groups.set(key, group);
+  }
+  return groups;
+}
+
+/**
+ * Recorded spins and the statistics built from them. Spins are only recorded through the MySQL
+ * driver, so here the store starts and stays empty unless seeded.
+ * @param {object} store - In-memory store
+ */
+function createSpinResultRepository(store) {
+  const inCampaign = (campaignId) => store.tables.spin_results
+    .filter(spin => !campaignId || spin.campaign_id === toId(campaignId));
+
+  return {
+    async list({ fromDate, toDate, campaignId, withClaimCodes = false } = {}) {
+      return inCampaign(campaignId)
+        .filter(spin => (!fromDate || toDay(spin.date) >= fromDate) && (!toDate || toDay(spin.date) <= toDate))
+        .sort(newestSpinFirst)
+        .map(spin => {
+          const { claim_code } = spin;
+          const listed = withLegacyNames(withoutPrivateColumns(spin));
+          return withClaimCodes ? { ...listed, claim_code } : listed;
+        });
+    },
+
+    async getStats({ campaignId } = {}) {
+      const spins = inCampaign(campaignId);
+      const byPrize = [...groupSpins(spins, spin => spin.prize_label)];
+
+      const prizeCounts = byPrize
+        .map(([prize, group]) => ({ prize, count: group.spins.length }))
+        .sort((a, b) => b.count - a.count);
+
+      const prizeWinRates = byPrize
+        .map(([prize, group]) => ({
+          prize,
+          total_count: group.spins.length,
+          win_count: group.wins,
+          loss_count: group.spins.length - group.wins,
+          win_percentage: (group.wins / group.spins.length) * 100
+        }))
+        .sort((a, b) => b.win_count - a.win_count);
+
+      // Spins per day over the last 7 days
+      const since = new Date();
+      since.setHours(0, 0, 0, 0);
+      since.setDate(since.getDate() - 7);
+      const timeData = [...groupSpins(spins.filter(spin => new Date(spin.date) >= since), spin => toDay(spin.date))]
+        .map(([spin_date, group]) => ({ spin_date, total: group.spins.length, wins: group.wins }))
+        .sort((a, b) => a.spin_date.localeCompare(b.spin_date));
+
+      return {
+        totalSpins: spins.length,
+        wins: spins.filter(spin => spin.is_win).length,
+        uniqueUsers: new Set(spins.map(spin => spin.user_contact)).size,
+        prizeCounts,
+        prizeWinRates,
+        timeData
+      };
+    },
+
+    async listPrizeLabels({ campaignId } = {}) {
+      return inCampaign(campaignId).sort(newestSpinFirst).map(spin => spin.prize_label);
+    },
+
+    // Spins and wins per agent and prize
+    async countByAgentAndPrize() {
+      return [...groupSpins(store.tables.spin_results, spin => JSON.stringify([spin.agent_name || 'N/A', spin.prize_label]))]
+        .map(([key, group]) => {
+          const [agent_name, prize] = JSON.parse(key);
+          return { agent_name, prize, total_given: group.spins.length, wins: group.wins, losses: group.spins.length - group.wins };
+        })
+        .sort((a, b) => a.agent_name.localeCompare(b.agent_name) || b.total_given - a.total_given);
+    },
+
+    async remove(id) {
+      return store.removeWhere('spin_results', spin => spin.id === Number(id)) > 0;
+    }
+  };
+}
+
+module.exports = createSpinResultRepository;
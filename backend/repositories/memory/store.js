@@ -0,0 +1,84 @@
+/**
+ * Tables for the in-memory driver. Rows are plain objects with the same columns as the MySQL
+ * tables; ids are assigned per table, starting from 1.
+ */
+const TABLES = [
+  'users',
+  'admin_users',
+  'admin_refresh_tokens',
+  'agents',
+  'products',
+  'product_inventory',
+  'inventory_movements',
+  'spin_results'
+];
+
+/**
+ * Create an empty store. Everything is lost when the process exits.
+ * @returns {object} - Store with one array of rows per table
+ */
+function createStore() {
+  const tables = Object.fromEntries(TABLES.map(name => [name, []]));
+  const nextIds = Object.fromEntries(TABLES.map(name => [name, 1]));
+
+  return {
+    tables,
+
+    /**
+     * Add a row, stamping its id and timestamps
+     * @param {string} table - Table name
+     * @param {object} row - Column values
+     * @returns {object} - The stored row
+     */
+    insert(table, row) {
+      const now = new Date();
+      const stored = { id: nextIds[table]++, created_at: now, updated_at: now, ...row };
+      tables[table].push(stored);
+      return stored;
+    },
+
+    /**
+     * Remove the rows matching a predicate
+     * @param {string} table - Table name
+     * @param {Function} predicate - Receives each row
+     * @returns {number} - Number of rows removed
+     */
+    removeWhere(table, predicate) {
+      const before = tables[table].length;
+      tables[table] = tables[table].filter(row => !predicate(row));
+      return before - tables[table].length;
+    }
+  };
+}
+
+/**
+ * Copy rows out of the store so callers cannot change them in place
+ * @param {object} row - Stored row
+ * @returns {object} - Shallow copy, or undefined
+ */
+const copy = (row) => (row ? { ...row } : undefined);
+
+// Newest first, as the MySQL queries order by created_at DESC
+const newestFirst = (a, b) => b.created_at - a.created_at || b.id - a.id;
+
+// Ids arrive from request bodies and query strings as strings or numbers
+const toId = (value) => (value === undefined || value === null || value === '' ? null : Number(value));
+
+/**
+ * Error for a unique key violation, with the code the MySQL driver uses so routes handle both alike
+ * @param {string} key - Column that already has the value
+ * @returns {Error} - Error with code ER_DUP_ENTRY
+ */
+function duplicateEntry(key) {
+  const err = new Error(`Duplicate entry for key '${key}'`);
+  err.code = 'ER_DUP_ENTRY';
+  return err;
+}
+
+module.exports = {
+  createStore,
+  copy,
+  newestFirst,
+  toId,
+  duplicateEntry
+};
@@ -0,0 +1,27 @@
+const { copy, duplicateEntry } = require('./store');
+
+/**
+ * Players who registered to spin
+ * @param {object} store - In-memory store
+ */
+function createUserRepository(store) {
+  return {
+    async list() {
+      return store.tables.users.map(copy);
+    },
+
+    async findById(id) {
+      return copy(store.tables.users.find(user => user.id === Number(id)));
+    },
+
+    // Throws an error with code ER_DUP_ENTRY when the email is taken
+    async create({ name, email, location }) {
+      if (store.tables.users.some(user => user.email === email)) {
+        throw duplicateEntry('email');
+      }
+      return copy(store.insert('users', { name, email, location }));
+    }
+  };
+}
+
+module.exports = createUserRepository;
@@ -0,0 +1,68 @@
+/**
+ * Admin dashboard accounts and their refresh tokens
+ * @param {object} pool - MySQL pool
+ */
+function createAdminRepository(pool) {
+  return {
+    async count() {
+      const [rows] = await pool.query('SELECT COUNT(*) as count FROM admin_users');
+      return rows[0].count;
+    },
+
+    async create({ username, passwordHash, role, agentId = null }) {
+      const [result] = await pool.query(
+        'INSERT INTO admin_users (username, password_hash, role, agent_id) VALUES (?, ?, ?, ?)',
+        [username, passwordHash, role, agentId]
+      );
+      return result.insertId;
+    },
+
+    async findActiveByUsername(username) {
+      const [users] = await pool.query(
+        'SELECT id, username, password_hash, role, agent_id FROM admin_users WHERE username = ? AND is_active = true',
+        [username]
+      );
+      return users[0];
+    },
+
+    async recordLogin(id) {
+      await pool.query('UPDATE admin_users SET last_login_at = NOW() WHERE id = ?', [id]);
+    },
+
+    async saveRefreshToken({ tokenHash, adminUserId, expiresAt }) {
+      await pool.query(
+        'INSERT INTO admin_refresh_tokens (token_hash, admin_user_id, expires_at) VALUES (?, ?, ?)',
+        [tokenHash, adminUserId, expiresAt]
+      );
+    },
+
+    // Revoke the token first so it cannot be used twice
+    async useRefreshToken(tokenHash) {
+      const [revoked] = await pool.query(
+        `UPDATE admin_refresh_tokens SET revoked_at = NOW()
+         WHERE token_hash = ? AND revoked_at IS NULL AND expires_at > NOW()`,
+        [tokenHash]
+      );
+      if (revoked.affectedRows === 0) {
+        return undefined;
+      }
+
+      const [users] = await pool.query(
+        `SELECT u.id, u.username, u.role, u.agent_id FROM admin_refresh_tokens t
+         JOIN admin_users u ON u.id = t.admin_user_id
+         WHERE t.token_hash = ? AND u.is_active = true`,
+        [tokenHash]
+      );
+      return users[0];
+    },
+
+    async revokeRefreshToken(tokenHash) {
+      await pool.query(
+        'UPDATE admin_refresh_tokens SET revoked_at = NOW() WHERE token_hash = ? AND revoked_at IS NULL',
+        [tokenHash]
+      );
+    }
+  };
+}
+
+module.exports = createAdminRepository;
@@ -0,0 +1,95 @@
+// PIN hashes never leave the server; admins only see whether a PIN is set
+const AGENT_COLUMNS = `id, agent_id, name, email, phone, location, pin_hash IS NOT NULL as has_pin,
+  created_at, updated_at`;
+
+/**
+ * Brand ambassadors (agents) who run the wheel
+ * @param {object} pool - MySQL pool
+ */
+function createAgentRepository(pool) {
+  return {
+    async list() {
+      const [agents] = await pool.query(`SELECT ${AGENT_COLUMNS} FROM agents ORDER BY created_at DESC`);
+      return agents;
+    },
+
+    async findById(id) {
+      const [agents] = await pool.query(`SELECT ${AGENT_COLUMNS} FROM agents WHERE id = ?`, [id]);
+      return agents[0];
+    },
+
+    // Throws an error with code ER_DUP_ENTRY when the agent ID or email is taken
+    async create({ agent_id, name, email, phone, location, pin_hash }) {
+      const [result] = await pool.query(
+        'INSERT INTO agents (agent_id, name, email, phone, location, pin_hash) VALUES (?, ?, ?, ?, ?, ?)',
+        [agent_id, name, email, phone || null, location || '', pin_hash || null]
+      );
+      return this.findById(result.insertId);
+    },
+
+    async update(id, { agent_id, name, email, phone, location }) {
+      const [result] = await pool.query(
+        'UPDATE agents SET agent_id = ?, name = ?, email = ?, phone = ?, location = ? WHERE id = ?',
+        [agent_id, name, email, phone || null, location || '', id]
+      );
+      return result.affectedRows === 0 ? undefined : this.findById(id);
+    },
+
+    // Devices signed in with the old PIN have to sign in again
+    async setPin(id, pinHash) {
+      await pool.query('UPDATE agents SET pin_hash = ? WHERE id = ?', [pinHash, id]);
+      await pool.query(
+        `UPDATE agent_device_sessions s JOIN agents a ON a.agent_id = s.agent_id
+         SET s.revoked_at = NOW()
+         WHERE a.id = ? AND s.revoked_at IS NULL`,
+        [id]
+      );
+    },
+
+    async remove(id) {
+      const [result] = await pool.query('DELETE FROM agents WHERE id = ?', [id]);
+      return result.affectedRows > 0;
+    },
+
+    // Spins per agent, and the prizes each agent has given out. Spins recorded before device
+    // sign in only have the typed agent name.
+    async getPrizeStats() {
+      const [agentStats] = await pool.query(`
+        SELECT
+          a.agent_id,
+          a.name as agent_name,
+          COALESCE(COUNT(sr.id), 0) as total_spins,
+          COALESCE(SUM(CASE WHEN sr.is_win = true THEN 1 ELSE 0 END), 0) as total_wins,
+          COALESCE(
+            CASE
+              WHEN COUNT(sr.id) > 0
+              THEN (SUM(CASE WHEN sr.is_win = true THEN 1 ELSE 0 END) / COUNT(sr.id)) * 100
+              ELSE 0
+            END,
+            0
+          ) as win_rate
+        FROM agents a
+        LEFT JOIN spin_results sr ON sr.agent_id = a.agent_id
+          OR (sr.agent_id IS NULL AND (a.agent_id = sr.agent_name OR a.name = sr.agent_name))
+        GROUP BY a.agent_id, a.name
+        ORDER BY total_spins DESC
+      `);
+
+      const [prizeStats] = await pool.query(`
+        SELECT
+          sr.agent_id,
+          COALESCE(sr.agent_name, 'Unknown') as agent_name,
+          sr.prize_label as prize,
+          COUNT(*) as count
+        FROM spin_results sr
+        WHERE sr.is_win = true
+        GROUP BY sr.agent_id, sr.agent_name, sr.prize_label
+        ORDER BY sr.agent_name, count DESC
+      `);
+
+      return { agentStats, prizeStats };
+    }
+  };
+}
+
+module.exports = createAgentRepository;
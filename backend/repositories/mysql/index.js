@@ -0,0 +1,24 @@
+const createUserRepository = require('./users');
+const createAdminRepository = require('./admins');
+const createAgentRepository = require('./agents');
+const createProductRepository = require('./products');
+const createInventoryRepository = require('./inventory');
+const createSpinResultRepository = require('./spinResults');
+
+/**
+ * Repositories backed by MySQL
+ * @param {object} pool - MySQL pool
+ * @returns {object} - Repositories by name
+ */
+function createMysqlRepositories(pool) {
+  return {
+    users: createUserRepository(pool),
+    admins: createAdminRepository(pool),
+    agents: createAgentRepository(pool),
+    products: createProductRepository(pool),
+    inventory: createInventoryRepository(pool),
+    spinResults: createSpinResultRepository(pool)
+  };
+}
+
+module.exports = createMysqlRepositories;
@@ -0,0 +1,372 @@
+const { MOVEMENT_TYPES, recordMovement, findLedgerDrift } = require('../../utils/inventoryLedger');
+const { withTransaction } = require('./transaction');
+
+const INVENTORY_COLUMNS = `id, product_id, product_name, total_quantity, available_quantity,
+  distributed_quantity, agent_id, agent_name, location, campaign_id, created_at, updated_at`;
+
+/**
+ * Build the WHERE clause for a stock holder and campaign
+ * @param {{agentId?: ?string, campaignId?: number}} filters - agentId null is the warehouse
+ * @param {string} [prefix] - Table alias, with its dot
+ * @returns {{conditions: string[], params: Array}} - Conditions and their parameters
+ */
+function holderConditions({ agentId, campaignId }, prefix = '') {
+  const conditions = [];
+  const params = [];
+  if (agentId === null) {
+    conditions.push(`${prefix}agent_id IS NULL`);
+  } else if (agentId !== undefined) {
+    conditions.push(`${prefix}agent_id = ?`);
+    params.push(agentId);
+  }
+  if (campaignId) {
+    conditions.push(`${prefix}campaign_id = ?`);
+    params.push(campaignId);
+  }
+  return { conditions, params };
+}
+
+const toWhereClause = (conditions) => (conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '');
+
+/**
+ * Stock rows for the warehouse and agents, and the ledger of their movements. Every change to a
+ * balance is written to the ledger in the same transaction.
+ * @param {object} pool - MySQL pool
+ */
+function createInventoryRepository(pool) {
+  return {
+    async list({ agentId, productId, campaignId, availableOnly } = {}) {
+      const { conditions, params } = holderConditions({ agentId, campaignId });
+      if (productId) {
+        conditions.push('product_id = ?');
+        params.push(productId);
+      }
+      if (availableOnly) {
+        conditions.push('available_quantity > 0');
+      }
+
+      const [inventory] = await pool.query(
+        `SELECT ${INVENTORY_COLUMNS} FROM product_inventory ${toWhereClause(conditions)} ORDER BY created_at DESC`,
+        params
+      );
+      return inventory;
+    },
+
+    async findById(id) {
+      const [items] = await pool.query('SELECT * FROM product_inventory WHERE id = ?', [id]);
+      return items[0];
+    },
+
+    // Stock an agent still has of a product, in any campaign
+    async findAvailable({ productId, agentId }) {
+      const [items] = await pool.query(
+        'SELECT * FROM product_inventory WHERE product_id = ? AND agent_id = ? AND available_quantity > 0',
+        [productId, agentId]
+      );
+      return items[0];
+    },
+
+    async getSummary(filters = {}) {
+      const { conditions, params } = holderConditions(filters);
+      const whereClause = toWhereClause(conditions);
+
+      const [summary] = await pool.query(`
+        SELECT
+          COUNT(*) as total_products,
+          SUM(total_quantity) as total_quantity,
+          SUM(available_quantity) as available_quantity,
+          SUM(distributed_quantity) as distributed_quantity,
+          SUM(CASE WHEN available_quantity = 0 THEN 1 ELSE 0 END) as out_of_stock_products
+        FROM product_inventory ${whereClause}
+      `, params);
+
+      const [products] = await pool.query(`
+        SELECT product_id, product_name,
+               SUM(total_quantity) as total_quantity,
+               SUM(available_quantity) as available_quantity,
+               SUM(distributed_quantity) as distributed_quantity,
+               COUNT(*) as locations
+        FROM product_inventory ${whereClause}
+        GROUP BY product_id, product_name
+        ORDER BY product_name
+      `, params);
+
+      return { ...summary[0], products };
+    },
+
+    // Give an agent a new stock row of a product, in the product's campaign
+    async assign({ productId, agentId, agentName, location, quantity, actor, reason }) {
+      const [products] = await pool.query('SELECT id, name, campaign_id FROM products WHERE id = ?', [productId]);
+      if (products.length === 0) {
+        return { ok: false, status: 400, message: 'Product not found' };
+      }
+      const { name, campaign_id } = products[0];
+
+      const [existing] = await pool.query(
+        'SELECT id FROM product_inventory WHERE agent_id = ? AND product_id = ? AND campaign_id <=> ?',
+        [agentId, productId, campaign_id]
+      );
+      if (existing.length > 0) {
+        return { ok: false, status: 400, message: 'Inventory item already exists for this agent and product. Use PUT to update.' };
+      }
+
+      const id = await withTransaction(pool, async (connection) => {
+        const [result] = await connection.query(
+          `INSERT INTO product_inventory
+           (product_id, product_name, total_quantity, available_quantity, distributed_quantity,
+            agent_id, agent_name, location, campaign_id)
+           VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?)`,
+          [productId, name, quantity, quantity, agentId, agentName, location, campaign_id]
+        );
+
+        await recordMovement(connection, {
+          agentId,
+          productId,
+          productName: name,
+          campaignId: campaign_id,
+          type: MOVEMENT_TYPES.ASSIGN,
+          quantity,
+          balanceAfter: quantity,
+          actor,
+          reason
+        });
+        return result.insertId;
+      });
+
+      return { ok: true, item: await this.findById(id) };
+    },
+
+    // Any change to the quantities is a manual adjustment in the ledger
+    async update(id, { totalQuantity, availableQuantity, agentName, location, actor, reason }) {
+      const fields = [];
+      const values = [];
+
+      if (totalQuantity !== undefined) {
+        fields.push('total_quantity = ?');
+        values.push(totalQuantity);
+      }
+      if (agentName) {
+        fields.push('agent_name = ?');
+        values.push(agentName);
+      }
+      if (location) {
+        fields.push('location = ?');
+        values.push(location);
+      }
+      if (fields.length === 0 && availableQuantity === undefined) {
+        return { ok: false, status: 400, message: 'No fields to update' };
+      }
+
+      const updated = await withTransaction(pool, async (connection) => {
+        const [existing] = await connection.query('SELECT * FROM product_inventory WHERE id = ? FOR UPDATE', [id]);
+        if (existing.length === 0) {
+          return false;
+        }
+        const item = existing[0];
+
+        if (availableQuantity !== undefined) {
+          fields.push('available_quantity = ?', 'distributed_quantity = ?');
+          values.push(availableQuantity, (totalQuantity || item.total_quantity) - availableQuantity);
+        }
+
+        await connection.query(
+          `UPDATE product_inventory SET ${fields.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
+          [...values, id]
+        );
+
+        if (totalQuantity !== undefined || availableQuantity !== undefined) {
+          const newAvailable = availableQuantity !== undefined ? Number(availableQuantity) : item.available_quantity;
+          const changes = [];
+          if (totalQuantity !== undefined) changes.push(`total ${item.total_quantity} -> ${totalQuantity}`);
+          if (availableQuantity !== undefined) changes.push(`available ${item.available_quantity} -> ${availableQuantity}`);
+
+          await recordMovement(connection, {
+            agentId: item.agent_id,
+            productId: item.product_id,
+            productName: item.product_name,
+            campaignId: item.campaign_id,
+            type: MOVEMENT_TYPES.ADJUST,
+            quantity: newAvailable - item.available_quantity,
+            balanceAfter: newAvailable,
+            actor,
+            reason: reason || `Manual edit: ${changes.join(', ')}`
+          });
+        }
+        return true;
+      });
+
+      if (!updated) {
+        return { ok: false, status: 404, message: 'Inventory item not found' };
+      }
+      return { ok: true, item: await this.findById(id) };
+    },
+
+    // Prizes an agent handed out
+    async distribute({ productId, agentId, quantity, actor, reason }) {
+      return withTransaction(pool, async (connection) => {
+        const [inventory] = await connection.query(
+          'SELECT * FROM product_inventory WHERE product_id = ? AND agent_id = ? FOR UPDATE',
+          [productId, agentId]
+        );
+        if (inventory.length === 0) {
+          return { ok: false, status: 404, message: 'Inventory item not found' };
+        }
+
+        const item = inventory[0];
+        if (item.available_quantity < quantity) {
+          return { ok: false, status: 400, message: 'Insufficient stock', available: item.available_quantity, requested: quantity };
+        }
+
+        const newAvailable = item.available_quantity - quantity;
+        const newDistributed = item.distributed_quantity + quantity;
+        await connection.query(
+          `UPDATE product_inventory
+           SET available_quantity = ?, distributed_quantity = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`,
+          [newAvailable, newDistributed, item.id]
+        );
+
+        await recordMovement(connection, {
+          agentId: item.agent_id,
+          productId: item.product_id,
+          productName: item.product_name,
+          campaignId: item.campaign_id,
+          type: MOVEMENT_TYPES.DISTRIBUTE,
+          quantity: -quantity,
+          balanceAfter: newAvailable,
+          actor,
+          reason
+        });
+
+        return {
+          ok: true,
+          remaining_quantity: newAvailable,
+          distributed_quantity: newDistributed,
+          product_name: item.product_name
+        };
+      });
+    },
+
+    // Without an agent the warehouse is restocked; it gets a stock row for any product the first
+    // time it is restocked
+    async restock({ productId, agentId = null, quantity, actor, reason }) {
+      return withTransaction(pool, async (connection) => {
+        const [inventory] = await connection.query(
+          'SELECT * FROM product_inventory WHERE product_id = ? AND agent_id <=> ? FOR UPDATE',
+          [productId, agentId]
+        );
+
+        if (inventory.length === 0 && !agentId) {
+          const [products] = await connection.query('SELECT id, name, campaign_id FROM products WHERE id = ?', [productId]);
+          if (products.length > 0) {
+            const [created] = await connection.query(
+              `INSERT INTO product_inventory
+               (product_id, product_name, total_quantity, available_quantity, distributed_quantity,
+                agent_id, agent_name, location, campaign_id)
+               VALUES (?, ?, 0, 0, 0, NULL, NULL, NULL, ?)`,
+              [String(products[0].id), products[0].name, products[0].campaign_id]
+            );
+            const [rows] = await connection.query('SELECT * FROM product_inventory WHERE id = ?', [created.insertId]);
+            inventory.push(rows[0]);
+          }
+        }
+
+        if (inventory.length === 0) {
+          return { ok: false, status: 404, message: 'Inventory item not found' };
+        }
+
+        const item = inventory[0];
+        const newAvailable = item.available_quantity + quantity;
+        const newTotal = item.total_quantity + quantity;
+        await connection.query(
+          `UPDATE product_inventory
+           SET available_quantity = ?, total_quantity = ?, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`,
+          [newAvailable, newTotal, item.id]
+        );
+
+        await recordMovement(connection, {
+          agentId: item.agent_id,
+          productId: item.product_id,
+          productName: item.product_name,
+          campaignId: item.campaign_id,
+          type: MOVEMENT_TYPES.RESTOCK,
+          quantity,
+          balanceAfter: newAvailable,
+          actor,
+          reason
+        });
+
+        return { ok: true, new_available: newAvailable, new_total: newTotal, restocked_quantity: quantity };
+      });
+    },
+
+    // Written off stock was never given out, so it leaves the total as well
+    async writeOff({ productId, agentId, campaignId = null, quantity, actor, reason }) {
+      return withTransaction(pool, async (connection) => {
+        const [inventory] = await connection.query(
+          'SELECT * FROM product_inventory WHERE product_id = ? AND agent_id = ? AND campaign_id <=> ? FOR UPDATE',
+          [productId, agentId, campaignId]
+        );
+        if (inventory.length === 0) {
+          return { ok: false, status: 404, message: 'Inventory item not found' };
+        }
+
+        const item = inventory[0];
+        if (item.available_quantity < quantity) {
+          return { ok: false, status: 400, message: 'Insufficient stock', available: item.available_quantity, requested: quantity };
+        }
+
+        const newAvailable = item.available_quantity - quantity;
+        await connection.query(
+          `UPDATE product_inventory
+           SET available_quantity = ?, total_quantity = total_quantity - ?, updated_at = CURRENT_TIMESTAMP
+           WHERE id = ?`,
+          [newAvailable, quantity, item.id]
+        );
+
+        await recordMovement(connection, {
+          agentId: item.agent_id,
+          productId: item.product_id,
+          productName: item.product_name,
+          campaignId: item.campaign_id,
+          type: MOVEMENT_TYPES.WRITE_OFF,
+          quantity: -quantity,
+          balanceAfter: newAvailable,
+          actor,
+          reason
+        });
+
+        return { ok: true, new_available: newAvailable, written_off_quantity: quantity };
+      });
+    },
+
+    async listMovements({ agentId, productId, campaignId, type, limit }) {
+      const { conditions, params } = holderConditions({ agentId, campaignId }, 'm.');
+      if (productId) {
+        conditions.push('m.product_id = ?');
+        params.push(productId);
+      }
+      if (type) {
+        conditions.push('m.movement_type = ?');
+        params.push(type);
+      }
+
+      const [movements] = await pool.query(`
+        SELECT m.*, a.name as agent_name
+        FROM inventory_movements m
+        LEFT JOIN agents a ON a.agent_id = m.agent_id
+        ${toWhereClause(conditions)}
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT ?
+      `, [...params, limit]);
+      return movements;
+    },
+
+    async findLedgerDrift(filters = {}) {
+      return findLedgerDrift(pool, filters);
+    }
+  };
+}
+
+module.exports = createInventoryRepository;
@@ -0,0 +1,112 @@
+const { MOVEMENT_TYPES, recordMovement } = require('../../utils/inventoryLedger');
+const { withTransaction } = require('./transaction');
+
+/**
+ * Prizes, with their stock summed over the warehouse and every agent holding them
+ * @param {object} pool - MySQL pool
+ */
+function createProductRepository(pool) {
+  return {
+    async list({ campaignId } = {}) {
+      const [products] = await pool.query(`
+        SELECT
+          p.id, p.name, p.description, p.win_probability, p.pacing_curve, p.prize_tier, p.campaign_id, p.created_at, p.updated_at,
+          CAST(COALESCE(SUM(pi.total_quantity), 0) AS SIGNED) AS total_quantity,
+          CAST(COALESCE(SUM(pi.available_quantity), 0) AS SIGNED) AS available_quantity,
+          CAST(COALESCE(SUM(pi.distributed_quantity), 0) AS SIGNED) AS distributed_quantity,
+          CAST(COALESCE(SUM(CASE WHEN pi.agent_id IS NULL THEN pi.available_quantity END), 0) AS SIGNED) AS warehouse_quantity
+        FROM products p
+        LEFT JOIN product_inventory pi ON pi.product_id = CAST(p.id AS CHAR)
+        ${campaignId ? 'WHERE p.campaign_id = ?' : ''}
+        GROUP BY p.id, p.name, p.description, p.win_probability, p.pacing_curve, p.prize_tier, p.campaign_id, p.created_at, p.updated_at
+        ORDER BY p.created_at DESC
+      `, campaignId ? [campaignId] : []);
+      return products;
+    },
+
+    async findById(id) {
+      const [products] = await pool.query('SELECT * FROM products WHERE id = ?', [id]);
+      return products[0];
+    },
+
+    // An initial quantity goes to the warehouse, ready to be allocated to agents
+    async create({ name, description, win_probability, pacing_curve, prize_tier, campaign_id }, { quantity, actor } = {}) {
+      const id = await withTransaction(pool, async (connection) => {
+        const [result] = await connection.query(
+          'INSERT INTO products (name, description, win_probability, pacing_curve, prize_tier, campaign_id) VALUES (?, ?, ?, ?, ?, ?)',
+          [name, description, win_probability, pacing_curve, prize_tier, campaign_id]
+        );
+
+        if (quantity !== undefined) {
+          await connection.query(
+            `INSERT INTO product_inventory
+             (product_id, product_name, total_quantity, available_quantity, distributed_quantity,
+              agent_id, agent_name, location, campaign_id)
+             VALUES (?, ?, ?, ?, 0, NULL, NULL, NULL, ?)`,
+            [String(result.insertId), name, quantity, quantity, campaign_id]
+          );
+
+          await recordMovement(connection, {
+            agentId: null,
+            productId: result.insertId,
+            productName: name,
+            campaignId: campaign_id,
+            type: MOVEMENT_TYPES.RESTOCK,
+            quantity,
+            balanceAfter: quantity,
+            actor,
+            reason: 'Initial stock'
+          });
+        }
+        return result.insertId;
+      });
+      return this.findById(id);
+    },
+
+    async update(id, { name, description, win_probability, pacing_curve, prize_tier, campaign_id }) {
+      const existing = await this.findById(id);
+      if (!existing) {
+        return undefined;
+      }
+
+      await pool.query(
+        'UPDATE products SET name = ?, description = ?, win_probability = ?, pacing_curve = ?, prize_tier = ?, campaign_id = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?',
+        [name, description, win_probability, pacing_curve, prize_tier, campaign_id, id]
+      );
+
+      // Agent wheels are labelled from the stock rows, so they follow a rename
+      if (name !== existing.name) {
+        await pool.query('UPDATE product_inventory SET product_name = ? WHERE product_id = ?', [name, String(id)]);
+      }
+      return this.findById(id);
+    },
+
+    // Stock of a deleted product is written off so the ledger still adds up
+    async remove(id, { actor } = {}) {
+      return withTransaction(pool, async (connection) => {
+        const [stockRows] = await connection.query(
+          'SELECT * FROM product_inventory WHERE product_id = ? FOR UPDATE',
+          [String(id)]
+        );
+        for (const row of stockRows.filter(stock => stock.available_quantity > 0)) {
+          await recordMovement(connection, {
+            agentId: row.agent_id,
+            productId: row.product_id,
+            productName: row.product_name,
+            campaignId: row.campaign_id,
+            type: MOVEMENT_TYPES.WRITE_OFF,
+            quantity: -row.available_quantity,
+            balanceAfter: 0,
+            actor,
+            reason: 'Product deleted'
+          });
+        }
+        await connection.query('DELETE FROM product_inventory WHERE product_id = ?', [String(id)]);
+        const [result] = await connection.query('DELETE FROM products WHERE id = ?', [id]);
+        return result.affectedRows > 0;
+      });
+    }
+  };
+}
+
+module.exports = createProductRepository;
@@ -0,0 +1,116 @@
+const { SPIN_RESULT_COLUMNS, CLAIM_CODE_COLUMNS } = require('../../utils/spinRecorder');
+
+/**
+ * Recorded spins and the statistics built from them
+ * @param {object} pool - MySQL pool
+ */
+function createSpinResultRepository(pool) {
+  return {
+    async list({ fromDate, toDate, campaignId, withClaimCodes = false } = {}) {
+      const conditions = [];
+      const params = [];
+
+      if (fromDate) {
+        conditions.push('DATE(date) >= ?');
+        params.push(fromDate);
+      }
+      if (toDate) {
+        conditions.push('DATE(date) <= ?');
+        params.push(toDate);
+      }
+      if (campaignId) {
+        conditions.push('campaign_id = ?');
+        params.push(campaignId);
+      }
+
+      const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+      const columns = withClaimCodes ? `${SPIN_RESULT_COLUMNS}, ${CLAIM_CODE_COLUMNS}` : SPIN_RESULT_COLUMNS;
+      const [results] = await pool.query(
+        `SELECT ${columns} FROM spin_results ${whereClause} ORDER BY date DESC`,
+        params
+      );
+      return results;
+    },
+
+    async getStats({ campaignId } = {}) {
+      const scope = campaignId ? 'campaign_id = ?' : '1=1';
+      const scopeParams = campaignId ? [campaignId] : [];
+
+      const [[totals]] = await pool.query(
+        `SELECT COUNT(*) as total, COALESCE(SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END), 0) as wins,
+           COUNT(DISTINCT user_contact) as unique_users
+         FROM spin_results WHERE ${scope}`,
+        scopeParams
+      );
+
+      const [prizeCounts] = await pool.query(
+        `SELECT prize_label as prize, COUNT(*) as count FROM spin_results WHERE ${scope} GROUP BY prize_label ORDER BY count DESC`,
+        scopeParams
+      );
+
+      const [prizeWinRates] = await pool.query(`
+        SELECT
+          prize_label as prize,
+          COUNT(*) as total_count,
+          SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) as win_count,
+          SUM(CASE WHEN is_win = false THEN 1 ELSE 0 END) as loss_count,
+          (SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) / COUNT(*)) * 100 as win_percentage
+        FROM spin_results
+        WHERE ${scope}
+        GROUP BY prize_label
+        ORDER BY win_count DESC
+      `, scopeParams);
+
+      // Spins per day over the last 7 days
+      const [timeData] = await pool.query(`
+        SELECT
+          DATE(date) as spin_date,
+          COUNT(*) as total,
+          SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) as wins
+        FROM spin_results
+        WHERE date >= DATE_SUB(CURDATE(), INTERVAL 7 DAY) AND ${scope}
+        GROUP BY DATE(date)
+        ORDER BY spin_date ASC
+      `, scopeParams);
+
+      return {
+        totalSpins: totals.total,
+        wins: Number(totals.wins),
+        uniqueUsers: totals.unique_users,
+        prizeCounts,
+        prizeWinRates,
+        timeData
+      };
+    },
+
+    async listPrizeLabels({ campaignId } = {}) {
+      const [results] = campaignId
+        ? await pool.query('SELECT prize_label FROM spin_results WHERE campaign_id = ? ORDER BY date DESC', [campaignId])
+        : await pool.query('SELECT prize_label FROM spin_results ORDER BY date DESC');
+      return results.map(result => result.prize_label);
+    },
+
+    // Spins and wins per agent and prize
+    async countByAgentAndPrize() {
+      const [rows] = await pool.query(`
+        SELECT
+          COALESCE(agent_name, 'N/A') as agent_name,
+          prize_label as prize,
+          COUNT(*) as total_given,
+          SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) as wins,
+          SUM(CASE WHEN is_win = false THEN 1 ELSE 0 END) as losses
+        FROM spin_results
+        GROUP BY COALESCE(agent_name, 'N/A'), prize_label
+        ORDER BY agent_name, total_given DESC
+      `);
+      return rows;
+    },
+
+    async remove(id) {
+      const [result] = await pool.query('DELETE FROM spin_results WHERE id = ?', [id]);
+      return result.affectedRows > 0;
+    }
+  };
+}
+
+module.exports = createSpinResultRepository;
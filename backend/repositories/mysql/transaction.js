@@ -0,0 +1,25 @@
+/**
+ * Run work in a MySQL transaction. It is committed when fn returns and rolled back when fn throws,
+ * so operations that can be refused check everything before their first write.
+ * @param {object} pool - MySQL pool
+ * @param {Function} fn - Receives the connection holding the transaction
+ * @returns {Promise<*>} - Whatever fn returns
+ */
+async function withTransaction(pool, fn) {
+  const connection = await pool.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await fn(connection);
+    await connection.commit();
+    return result;
+  } catch (err) {
+    await connection.rollback();
+    throw err;
+  } finally {
+    connection.release();
+  }
+}
+
+module.exports = {
+  withTransaction
+};
@@ -0,0 +1,28 @@
+/**
+ * Players who registered to spin
+ * @param {object} pool - MySQL pool
+ */
+function createUserRepository(pool) {
+  return {
+    async list() {
+      const [users] = await pool.query('SELECT * FROM users');
+      return users;
+    },
+
+    async findById(id) {
+      const [users] = await pool.query('SELECT * FROM users WHERE id = ?', [id]);
+      return users[0];
+    },
+
+    // Throws an error with code ER_DUP_ENTRY when the email is taken
+    async create({ name, email, location }) {
+      const [result] = await pool.query(
+        'INSERT INTO users (name, email, location) VALUES (?, ?, ?)',
+        [name, email, location]
+      );
+      return this.findById(result.insertId);
+    }
+  };
+}
+
+module.exports = createUserRepository;
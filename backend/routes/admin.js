@@ -1,11 +1,15 @@
 const express = require('express');
 const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { getClaimStatus } = require('../utils/claimCodes');
 /**
  * @swagger
  * /api/admin/users/export:
  *   get:
  *     summary: Export all users data
  *     description: Get users data in various formats (json, csv)
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: format
@@ -21,10 +25,10 @@ const router = express.Router();
  *         description: Server error
  */
 
-router.get('/users/export', async (req, res) => {
+router.get('/users/export', requirePermission('results:export'), async (req, res) => {
   try {
     const format = req.query.format || 'json';
-    const [users] = await req.db.query('SELECT * FROM users');
+    const users = await req.repos.users.list();
     
     if (format === 'csv') {
       res.setHeader('Content-Type', 'text/csv');
@@ -53,6 +57,8 @@ router.get('/users/export', async (req, res) => {
  *   get:
  *     summary: Export all spin results data
  *     description: Get spin results data in various formats (json, csv)
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: format
@@ -61,23 +67,29 @@ router.get('/users/export', async (req, res) => {
  *           enum: [json, csv]
  *         required: false
  *         description: Export format (defaults to json)
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         required: false
+ *         description: Only export spins from this campaign
  *     responses:
  *       200:
  *         description: Spin results data in requested format
  *       500:
  *         description: Server error
  */
-router.get('/results/export', async (req, res) => {
+router.get('/results/export', requirePermission('results:export'), async (req, res) => {
   try {
     const format = req.query.format || 'json';
-    const [results] = await req.db.query('SELECT * FROM spin_results ORDER BY date DESC');
+    const results = await req.repos.spinResults.list({ campaignId: req.query.campaign_id, withClaimCodes: true });
     
     if (format === 'csv') {
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', 'attachment; filename=spin-results.csv');
       
       // Create CSV header - match the table column order
-      let csv = 'ID,Name,Email,Location,Agent Name,Prize,Result,Date\n';
+      let csv = 'ID,Name,Email,Location,Agent Name,Prize,Result,Date,Claim Code,Claim Status,Claimed At,Claimed By\n';
       
       // Add data rows with proper CSV escaping
       results.forEach(result => {
@@ -99,7 +111,11 @@ router.get('/results/export', async (req, res) => {
           escapeCsvValue(result.agent_name),
           escapeCsvValue(result.prize),
           result.is_win ? 'Win' : 'Loss',
-          new Date(result.date).toLocaleString()
+          new Date(result.date).toLocaleString(),
+          escapeCsvValue(result.claim_code),
+          escapeCsvValue(getClaimStatus(result)),
+          result.claimed_at ? new Date(result.claimed_at).toLocaleString() : 'N/A',
+          escapeCsvValue(result.claimed_by_agent)
         ];
         
         csv += row.join(',') + '\n';
@@ -120,6 +136,8 @@ router.get('/results/export', async (req, res) => {
  *   get:
  *     summary: Export agent prize distribution data
  *     description: Get agent prize distribution data in various formats (json, csv)
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: format
@@ -134,22 +152,12 @@ router.get('/results/export', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.get('/agent-prizes/export', async (req, res) => {
+router.get('/agent-prizes/export', requirePermission('results:export'), async (req, res) => {
   try {
     const format = req.query.format || 'json';
     
     // Get detailed agent prize data
-    const [agentPrizeData] = await req.db.query(`
-      SELECT 
-        COALESCE(agent_name, 'N/A') as agent_name,
-        prize,
-        COUNT(*) as total_given,
-        SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) as wins,
-        SUM(CASE WHEN is_win = false THEN 1 ELSE 0 END) as losses
-      FROM spin_results 
-      GROUP BY COALESCE(agent_name, 'N/A'), prize
-      ORDER BY agent_name, total_given DESC
-    `);
+    const agentPrizeData = await req.repos.spinResults.countByAgentAndPrize();
     
     if (format === 'csv') {
       res.setHeader('Content-Type', 'text/csv');
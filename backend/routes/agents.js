@@ -1,24 +1,33 @@
 const express = require('express');
 const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { hashPassword, isValidPin } = require('../utils/auth');
+
 /**
  * @swagger
  * /agents:
  *   get:
  *     summary: Retrieve all business agents
- *     description: Get a list of all business agents
+ *     description: Get a list of all business agents. Agent ids are the codes devices sign in with, so only signed in admins get them
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: A list of business agents
+ *       401:
+ *         description: Not signed in
+ *       403:
+ *         description: The admin's role does not grant stats:view
  *       500:
  *         description: Server error
  */
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('stats:view'), async (req, res) => {
   try {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
     
     console.log('Fetching all agents...');
-    const [agents] = await req.db.query('SELECT * FROM agents ORDER BY created_at DESC');
+    const agents = await req.repos.agents.list();
     console.log(`Successfully fetched ${agents.length} agents`);
     res.json(agents);
   } catch (err) {
@@ -33,61 +42,38 @@ router.get('/', async (req, res) => {
  *   get:
  *     summary: Get prize statistics for all agents
  *     description: Returns detailed statistics of prizes distributed by each agent
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: Agent prize statistics
+ *       401:
+ *         description: Not signed in
+ *       403:
+ *         description: The admin's role does not grant stats:view
  *       500:
  *         description: Server error
  */
-router.get('/prize-stats', async (req, res) => {
+router.get('/prize-stats', requirePermission('stats:view'), async (req, res) => {
   try {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
     
     console.log('Fetching agent prize statistics...');
     
-    // Get all agents with their spin statistics
-    const [agentStats] = await req.db.query(`
-      SELECT 
-        a.agent_id,
-        a.name as agent_name,
-        COALESCE(COUNT(sr.id), 0) as total_spins,
-        COALESCE(SUM(CASE WHEN sr.is_win = true THEN 1 ELSE 0 END), 0) as total_wins,
-        COALESCE(
-          CASE 
-            WHEN COUNT(sr.id) > 0 
-            THEN (SUM(CASE WHEN sr.is_win = true THEN 1 ELSE 0 END) / COUNT(sr.id)) * 100 
-            ELSE 0 
-          END, 
-          0
-        ) as win_rate
-      FROM agents a
-      LEFT JOIN spin_results sr ON a.agent_id = sr.agent_name OR a.name = sr.agent_name
-      GROUP BY a.agent_id, a.name
-      ORDER BY total_spins DESC
-    `);
-
-    // Get prize distribution for each agent
-    const [prizeStats] = await req.db.query(`
-      SELECT 
-        COALESCE(sr.agent_name, 'Unknown') as agent_name,
-        sr.prize,
-        COUNT(*) as count
-      FROM spin_results sr
-      WHERE sr.is_win = true
-      GROUP BY sr.agent_name, sr.prize
-      ORDER BY sr.agent_name, count DESC
-    `);
+    const { agentStats, prizeStats } = await req.repos.agents.getPrizeStats();
 
     // Combine the data
     const result = agentStats.map(agent => {
-      const agentPrizes = prizeStats.filter(p => 
-        p.agent_name === agent.agent_id || p.agent_name === agent.agent_name
+      // Spins recorded before device sign in only have the typed agent name
+      const agentPrizes = prizeStats.filter(p => p.agent_id
+        ? p.agent_id === agent.agent_id
+        : p.agent_name === agent.agent_id || p.agent_name === agent.agent_name
       );
       
       const prizes_won = {};
       agentPrizes.forEach(prize => {
-        prizes_won[prize.prize] = prize.count;
+        prizes_won[prize.prize] = (prizes_won[prize.prize] || 0) + prize.count;
       });
 
       return {
@@ -95,7 +81,7 @@ router.get('/prize-stats', async (req, res) => {
         agent_name: agent.agent_name,
         total_spins: parseInt(agent.total_spins),
         total_wins: parseInt(agent.total_wins),
-        win_rate: parseFloat(agent.win_rate.toFixed(2)),
+        win_rate: parseFloat(Number(agent.win_rate).toFixed(2)),
         prizes_won
       };
     });
@@ -114,6 +100,8 @@ router.get('/prize-stats', async (req, res) => {
  *   post:
  *     summary: Create a new business agent
  *     description: Add a new business agent to the system
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -135,6 +123,9 @@ router.get('/prize-stats', async (req, res) => {
  *                 type: string
  *               location:
  *                 type: string
+ *               pin:
+ *                 type: string
+ *                 description: 4 to 6 digit PIN the agent uses to sign in a device
  *     responses:
  *       201:
  *         description: Agent created successfully
@@ -143,24 +134,30 @@ router.get('/prize-stats', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('agents:manage'), async (req, res) => {
   try {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
     
-    const { agent_id, name, email, phone, location } = req.body;
+    const { agent_id, name, email, phone, location, pin } = req.body;
     
     if (!agent_id || !name || !email) {
       return res.status(400).json({ message: 'Agent ID, name, and email are required' });
     }
+
+    if (pin && !isValidPin(pin)) {
+      return res.status(400).json({ message: 'PIN must be 4 to 6 digits' });
+    }
     
-    const [result] = await req.db.query(
-      'INSERT INTO agents (agent_id, name, email, phone, location) VALUES (?, ?, ?, ?, ?)',
-      [agent_id, name, email, phone || null, location || '']
-    );
-    
-    const [newAgent] = await req.db.query('SELECT * FROM agents WHERE id = ?', [result.insertId]);
-    res.status(201).json(newAgent[0]);
+    const newAgent = await req.repos.agents.create({
+      agent_id,
+      name,
+      email,
+      phone,
+      location,
+      pin_hash: pin ? await hashPassword(String(pin)) : null
+    });
+    res.status(201).json(newAgent);
   } catch (err) {
     console.error('Error creating agent:', err);
     if (err.code === 'ER_DUP_ENTRY') {
@@ -177,6 +174,8 @@ router.post('/', async (req, res) => {
  *   put:
  *     summary: Update a business agent
  *     description: Update an existing business agent
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -200,6 +199,9 @@ router.post('/', async (req, res) => {
  *                 type: string
  *               location:
  *                 type: string
+ *               pin:
+ *                 type: string
+ *                 description: New 4 to 6 digit PIN. Leave out to keep the current PIN; changing it signs the agent's devices out
  *     responses:
  *       200:
  *         description: Agent updated successfully
@@ -208,25 +210,31 @@ router.post('/', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission('agents:manage'), async (req, res) => {
   try {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept');
     
     const { id } = req.params;
-    const { agent_id, name, email, phone, location } = req.body;
+    const { agent_id, name, email, phone, location, pin } = req.body;
+
+    if (pin && !isValidPin(pin)) {
+      return res.status(400).json({ message: 'PIN must be 4 to 6 digits' });
+    }
     
-    const [result] = await req.db.query(
-      'UPDATE agents SET agent_id = ?, name = ?, email = ?, phone = ?, location = ? WHERE id = ?',
-      [agent_id, name, email, phone || null, location || '', id]
-    );
+    let updatedAgent = await req.repos.agents.update(id, { agent_id, name, email, phone, location });
     
-    if (result.affectedRows === 0) {
+    if (!updatedAgent) {
       return res.status(404).json({ message: 'Agent not found' });
     }
+
+    if (pin) {
+      // Devices signed in with the old PIN have to sign in again
+      await req.repos.agents.setPin(id, await hashPassword(String(pin)));
+      updatedAgent = await req.repos.agents.findById(id);
+    }
     
-    const [updatedAgent] = await req.db.query('SELECT * FROM agents WHERE id = ?', [id]);
-    res.json(updatedAgent[0]);
+    res.json(updatedAgent);
   } catch (err) {
     console.error('Error updating agent:', err);
     res.status(500).json({ message: err.message });
@@ -239,6 +247,8 @@ router.put('/:id', async (req, res) => {
  *   delete:
  *     summary: Delete a business agent
  *     description: Remove a business agent from the system
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -253,7 +263,7 @@ router.put('/:id', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('agents:manage'), async (req, res) => {
   try {
     res.header('Access-Control-Allow-Origin', '*');
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
@@ -261,9 +271,9 @@ router.delete('/:id', async (req, res) => {
     
     const { id } = req.params;
     
-    const [result] = await req.db.query('DELETE FROM agents WHERE id = ?', [id]);
+    const deleted = await req.repos.agents.remove(id);
     
-    if (result.affectedRows === 0) {
+    if (!deleted) {
       return res.status(404).json({ message: 'Agent not found' });
     }
     
@@ -0,0 +1,236 @@
+const express = require('express');
+const router = express.Router();
+const {
+  verifyPassword,
+  createAccessToken,
+  createRefreshToken,
+  hashToken
+} = require('../utils/auth');
+const { requireAuth } = require('../middleware/auth');
+const { getPermissions } = require('../utils/permissions');
+
+// The signed in admin as returned to the dashboard
+const toAdminUser = (user) => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  agent_id: user.agent_id || null,
+  permissions: getPermissions(user.role)
+});
+
+// Issue a new access token and refresh token pair for an admin user
+const issueSession = async (admins, user) => {
+  const { token: accessToken, expiresIn } = createAccessToken(user);
+  const { token: refreshToken, tokenHash, expiresAt } = createRefreshToken();
+
+  await admins.saveRefreshToken({ tokenHash, adminUserId: user.id, expiresAt });
+
+  return {
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    token_type: 'Bearer',
+    expires_in: expiresIn,
+    user: toAdminUser(user)
+  };
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AdminSession:
+ *       type: object
+ *       properties:
+ *         access_token:
+ *           type: string
+ *           description: 'JWT to send as "Authorization: Bearer <token>"'
+ *         refresh_token:
+ *           type: string
+ *           description: Single-use token for POST /auth/refresh
+ *         token_type:
+ *           type: string
+ *         expires_in:
+ *           type: integer
+ *           description: Lifetime of the access token in seconds
+ *         user:
+ *           $ref: '#/components/schemas/AdminUser'
+ *     AdminUser:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         username:
+ *           type: string
+ *         role:
+ *           type: string
+ *           enum: [super_admin, campaign_manager, ba, viewer]
+ *         agent_id:
+ *           type: string
+ *           nullable: true
+ *           description: Agent whose inventory a BA account can see
+ *         permissions:
+ *           type: array
+ *           description: Actions the dashboard should offer to this admin
+ *           items:
+ *             type: string
+ *   securitySchemes:
+ *     bearerAuth:
+ *       type: http
+ *       scheme: bearer
+ *       bearerFormat: JWT
+ */
+
+/**
+ * @swagger
+ * /auth/login:
+ *   post:
+ *     summary: Sign in as an admin
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - username
+ *               - password
+ *             properties:
+ *               username:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminSession'
+ *       401:
+ *         description: Invalid username or password
+ */
+router.post('/login', async (req, res) => {
+  try {
+    const { username, password } = req.body || {};
+
+    if (!username || !password) {
+      return res.status(400).json({ message: 'Username and password are required' });
+    }
+
+    const user = await req.repos.admins.findActiveByUsername(String(username).trim());
+    if (!user || !(await verifyPassword(password, user.password_hash))) {
+      return res.status(401).json({ message: 'Invalid username or password' });
+    }
+
+    await req.repos.admins.recordLogin(user.id);
+
+    res.json(await issueSession(req.repos.admins, user));
+  } catch (err) {
+    console.error('Error signing in:', err);
+    res.status(500).json({ message: 'Error signing in', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new session
+ *     description: The refresh token can only be used once; a new one is returned with the new access token
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refresh_token
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New session
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminSession'
+ *       401:
+ *         description: Refresh token is invalid, expired or already used
+ */
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refresh_token } = req.body || {};
+
+    if (!refresh_token) {
+      return res.status(400).json({ message: 'refresh_token is required' });
+    }
+
+    const user = await req.repos.admins.useRefreshToken(hashToken(refresh_token));
+
+    if (!user) {
+      return res.status(401).json({ message: 'Session has expired, please sign in again' });
+    }
+
+    res.json(await issueSession(req.repos.admins, user));
+  } catch (err) {
+    console.error('Error refreshing session:', err);
+    res.status(500).json({ message: 'Error refreshing session', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/logout:
+ *   post:
+ *     summary: Sign out and revoke the refresh token
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               refresh_token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Signed out
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    const { refresh_token } = req.body || {};
+
+    if (refresh_token) {
+      await req.repos.admins.revokeRefreshToken(hashToken(refresh_token));
+    }
+
+    res.json({ message: 'Signed out successfully' });
+  } catch (err) {
+    console.error('Error signing out:', err);
+    res.status(500).json({ message: 'Error signing out', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /auth/me:
+ *   get:
+ *     summary: Get the signed in admin
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: The signed in admin
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AdminUser'
+ *       401:
+ *         description: Not signed in
+ */
+router.get('/me', requireAuth, (req, res) => {
+  res.json(toAdminUser(req.admin));
+});
+
+module.exports = router;
@@ -0,0 +1,451 @@
+const express = require('express');
+const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const {
+  GAME_MODES, DEFAULT_GAME_MODE, parseCampaign, isCampaignLive, getCampaign, clearCampaignOriginCache
+} = require('../utils/campaigns');
+const { normalizeEligibilityRules } = require('../utils/eligibility');
+const { normalizeQuizSettings } = require('../utils/quiz');
+const { normalizePurchaseSettings } = require('../utils/purchases');
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+const CAMPAIGN_FIELDS = [
+  'slug', 'name', 'start_date', 'end_date', 'logo_url', 'primary_color', 'secondary_color',
+  'text_color', 'headline', 'subheadline', 'terms_text', 'sectors', 'allowed_origin', 'is_active',
+  'eligibility_rules', 'game_mode', 'quiz_settings', 'purchase_settings'
+];
+
+// Validate and normalise a campaign payload. Returns { values } or { error }.
+const parseCampaignInput = (body) => {
+  const values = {};
+  CAMPAIGN_FIELDS.forEach(field => {
+    if (body[field] !== undefined) {
+      values[field] = body[field] === '' ? null : body[field];
+    }
+  });
+
+  if (values.slug !== undefined) {
+    values.slug = String(values.slug || '').trim().toLowerCase();
+    if (!SLUG_PATTERN.test(values.slug)) {
+      return { error: 'Slug may only contain lowercase letters, numbers and dashes' };
+    }
+  }
+
+  for (const field of ['start_date', 'end_date']) {
+    if (values[field]) {
+      const date = new Date(values[field]);
+      if (isNaN(date.getTime())) {
+        return { error: `${field} must be a valid date` };
+      }
+      values[field] = date;
+    }
+  }
+  if (values.start_date && values.end_date && values.end_date < values.start_date) {
+    return { error: 'end_date must be after start_date' };
+  }
+
+  for (const field of ['primary_color', 'secondary_color', 'text_color']) {
+    if (values[field] && !COLOR_PATTERN.test(values[field])) {
+      return { error: `${field} must be a hex colour such as #1e40af` };
+    }
+  }
+
+  if (values.sectors) {
+    const sectors = values.sectors;
+    const isValid = Array.isArray(sectors) && sectors.length >= 2 &&
+      sectors.every(sector => sector && typeof sector.label === 'string' && sector.label.trim());
+    if (!isValid) {
+      return { error: 'sectors must be a list of at least 2 sectors with a label' };
+    }
+    // The draw lands on a losing sector when every prize is out of stock
+    if (!sectors.some(sector => !sector.is_win)) {
+      return { error: 'sectors must include at least one losing sector' };
+    }
+    values.sectors = JSON.stringify(sectors.map(sector => ({
+      label: sector.label.trim(),
+      is_win: !!sector.is_win
+    })));
+  }
+
+  if (values.game_mode !== undefined) {
+    values.game_mode = values.game_mode || DEFAULT_GAME_MODE;
+    if (!Object.values(GAME_MODES).includes(values.game_mode)) {
+      return { error: `game_mode must be one of ${Object.values(GAME_MODES).join(', ')}` };
+    }
+  }
+
+  if (values.eligibility_rules !== undefined) {
+    const { rules, error } = normalizeEligibilityRules(values.eligibility_rules);
+    if (error) {
+      return { error };
+    }
+    values.eligibility_rules = rules ? JSON.stringify(rules) : null;
+  }
+
+  if (values.quiz_settings !== undefined) {
+    const { settings, error } = normalizeQuizSettings(values.quiz_settings);
+    if (error) {
+      return { error };
+    }
+    values.quiz_settings = settings ? JSON.stringify(settings) : null;
+  }
+
+  if (values.purchase_settings !== undefined) {
+    const { settings, error } = normalizePurchaseSettings(values.purchase_settings);
+    if (error) {
+      return { error };
+    }
+    values.purchase_settings = settings ? JSON.stringify(settings) : null;
+  }
+
+  if (values.is_active !== undefined) {
+    values.is_active = values.is_active !== false && values.is_active !== 'false';
+  }
+
+  return { values };
+};
+
+// Campaigns as returned by the API, including whether they are running right now
+const toCampaignResponse = (row) => {
+  const campaign = parseCampaign(row);
+  return { ...campaign, is_live: isCampaignLive(campaign) };
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Campaign:
+ *       type: object
+ *       required:
+ *         - slug
+ *         - name
+ *       properties:
+ *         id:
+ *           type: integer
+ *           description: Auto-generated unique ID
+ *         slug:
+ *           type: string
+ *           description: URL name of the campaign, used by the public page at /c/{slug}
+ *         name:
+ *           type: string
+ *         start_date:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         end_date:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         logo_url:
+ *           type: string
+ *         primary_color:
+ *           type: string
+ *           description: Hex colour of winning sectors and headings
+ *         secondary_color:
+ *           type: string
+ *           description: Hex colour of "Try Again" sectors
+ *         text_color:
+ *           type: string
+ *           description: Hex colour of sector labels
+ *         headline:
+ *           type: string
+ *         subheadline:
+ *           type: string
+ *         terms_text:
+ *           type: string
+ *         sectors:
+ *           type: array
+ *           nullable: true
+ *           description: Wheel used when a spin is not tied to an agent's inventory, with at least 2 sectors of which at least one is losing. Uses the default wheel when empty
+ *           items:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               is_win:
+ *                 type: boolean
+ *         game_mode:
+ *           type: string
+ *           enum: [wheel, scratch_card, pick_a_box, slot_machine]
+ *           description: Game customers play on the campaign page. Every game reveals the outcome of POST /spins/draw, so prizes, eligibility and results work the same. Defaults to wheel
+ *         allowed_origin:
+ *           type: string
+ *           description: Extra CORS origin for the campaign's landing page
+ *         eligibility_rules:
+ *           type: object
+ *           nullable: true
+ *           description: Limits on how often one customer (by email or phone) can play. Rules left out do not limit anything; without any, ELIGIBILITY_RULES from the server environment apply
+ *           properties:
+ *             max_spins_per_day:
+ *               type: integer
+ *             max_spins_per_campaign:
+ *               type: integer
+ *             max_spins_per_outlet:
+ *               type: integer
+ *               description: Spins at one BA stand
+ *             cooldown_minutes:
+ *               type: integer
+ *               description: Minutes between two spins
+ *             max_wins:
+ *               type: integer
+ *         quiz_settings:
+ *           type: object
+ *           nullable: true
+ *           description: Product quiz customers answer before they play, with questions from the quiz question bank. No quiz when empty
+ *           properties:
+ *             question_count:
+ *               type: integer
+ *               description: Questions asked, from 1 to 5
+ *             pass_mark:
+ *               type: integer
+ *               description: Correct answers needed to play. Defaults to question_count
+ *             consolation_on_fail:
+ *               type: boolean
+ *               description: Whether a customer who fails still plays, for the consolation prize only
+ *         purchase_settings:
+ *           type: object
+ *           nullable: true
+ *           description: Proof of purchase customers need to play. The BA enters the receipt before the game, and each receipt plays once in the campaign. Customers play without a purchase when empty
+ *           properties:
+ *             skus:
+ *               type: array
+ *               items:
+ *                 type: string
+ *               description: SKUs of the products in the promotion; the receipt must have one of them. Any product counts when empty
+ *             min_amount:
+ *               type: number
+ *               nullable: true
+ *               description: Lowest receipt total that can play
+ *             require_photo:
+ *               type: boolean
+ *               description: Whether a photo of the receipt must be uploaded before the game
+ *         is_active:
+ *           type: boolean
+ *         is_live:
+ *           type: boolean
+ *           description: Whether the campaign is active and within its schedule
+ */
+
+/**
+ * @swagger
+ * /campaigns:
+ *   get:
+ *     summary: Get all campaigns
+ *     responses:
+ *       200:
+ *         description: List of campaigns
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Campaign'
+ */
+router.get('/', async (req, res) => {
+  try {
+    const [campaigns] = await req.db.query('SELECT * FROM campaigns ORDER BY created_at DESC');
+    res.json(campaigns.map(toCampaignResponse));
+  } catch (err) {
+    console.error('Error fetching campaigns:', err);
+    res.status(500).json({ message: 'Error fetching campaigns', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /campaigns/{slug}:
+ *   get:
+ *     summary: Get a campaign by its slug
+ *     description: Used by the public campaign page to load its branding, copy and schedule
+ *     parameters:
+ *       - in: path
+ *         name: slug
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The campaign
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Campaign'
+ *       404:
+ *         description: Campaign not found
+ */
+router.get('/:slug', async (req, res) => {
+  try {
+    const campaign = await getCampaign(req.db, { slug: req.params.slug });
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    res.json({ ...campaign, is_live: isCampaignLive(campaign) });
+  } catch (err) {
+    console.error('Error fetching campaign:', err);
+    res.status(500).json({ message: 'Error fetching campaign', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /campaigns:
+ *   post:
+ *     summary: Create a new campaign
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Campaign'
+ *     responses:
+ *       201:
+ *         description: Campaign created successfully
+ *       400:
+ *         description: Invalid data or slug already in use
+ */
+router.post('/', requirePermission('campaigns:manage'), async (req, res) => {
+  try {
+    const { values, error } = parseCampaignInput(req.body || {});
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (!values.slug || !values.name) {
+      return res.status(400).json({ message: 'Slug and name are required' });
+    }
+
+    const fields = Object.keys(values);
+    const [result] = await req.db.query(
+      `INSERT INTO campaigns (${fields.join(', ')}) VALUES (${fields.map(() => '?').join(', ')})`,
+      fields.map(field => values[field])
+    );
+    clearCampaignOriginCache();
+
+    const [newCampaign] = await req.db.query('SELECT * FROM campaigns WHERE id = ?', [result.insertId]);
+    res.status(201).json(toCampaignResponse(newCampaign[0]));
+  } catch (err) {
+    console.error('Error creating campaign:', err);
+    if (err.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({ message: 'A campaign with this slug already exists' });
+    }
+    res.status(500).json({ message: 'Error creating campaign', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /campaigns/{id}:
+ *   put:
+ *     summary: Update a campaign
+ *     description: Only the fields present in the body are changed
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Campaign'
+ *     responses:
+ *       200:
+ *         description: Campaign updated successfully
+ *       400:
+ *         description: Invalid data or slug already in use
+ *       404:
+ *         description: Campaign not found
+ */
+router.put('/:id', requirePermission('campaigns:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { values, error } = parseCampaignInput(req.body || {});
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+    if (values.name === null) {
+      return res.status(400).json({ message: 'Name cannot be empty' });
+    }
+
+    const fields = Object.keys(values);
+    if (fields.length > 0) {
+      const [result] = await req.db.query(
+        `UPDATE campaigns SET ${fields.map(field => `${field} = ?`).join(', ')} WHERE id = ?`,
+        [...fields.map(field => values[field]), id]
+      );
+      if (result.affectedRows === 0) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+      clearCampaignOriginCache();
+    }
+
+    const [updatedCampaign] = await req.db.query('SELECT * FROM campaigns WHERE id = ?', [id]);
+    if (updatedCampaign.length === 0) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    res.json(toCampaignResponse(updatedCampaign[0]));
+  } catch (err) {
+    console.error('Error updating campaign:', err);
+    if (err.code === 'ER_DUP_ENTRY') {
+      return res.status(400).json({ message: 'A campaign with this slug already exists' });
+    }
+    res.status(500).json({ message: 'Error updating campaign', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /campaigns/{id}:
+ *   delete:
+ *     summary: Delete a campaign
+ *     description: Campaigns that already have spins cannot be deleted; deactivate them instead
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Campaign deleted successfully
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: Campaign has spin results
+ */
+router.delete('/:id', requirePermission('campaigns:manage'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const [spins] = await req.db.query(
+      'SELECT COUNT(*) as count FROM spin_results WHERE campaign_id = ?',
+      [id]
+    );
+    if (spins[0].count > 0) {
+      return res.status(409).json({ message: 'Campaign has spin results and cannot be deleted. Deactivate it instead.' });
+    }
+
+    const [result] = await req.db.query('DELETE FROM campaigns WHERE id = ?', [id]);
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    clearCampaignOriginCache();
+
+    res.json({ message: 'Campaign deleted successfully' });
+  } catch (err) {
+    console.error('Error deleting campaign:', err);
+    res.status(500).json({ message: 'Error deleting campaign', error: err.message });
+  }
+});
+
+module.exports = router;
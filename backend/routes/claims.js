@@ -0,0 +1,214 @@
+const express = require('express');
+const router = express.Router();
+const QRCode = require('qrcode');
+const { requireDevice } = require('../middleware/auth');
+const { getClaimStatus, normalizeClaimCode } = require('../utils/claimCodes');
+
+const CLAIM_COLUMNS = `id, agent_id, agent_name, user_name, user_contact, prize_label, is_win, date,
+  claim_code, claim_expires_at, claimed_at, claimed_by_agent, voided_at`;
+
+// A won prize as shown on the redeem screen
+const toClaim = (spin) => ({
+  claim_code: spin.claim_code,
+  spin_result_id: spin.id,
+  prize: spin.prize_label,
+  winner_name: spin.user_name,
+  winner_contact: spin.user_contact,
+  agent_id: spin.agent_id,
+  agent_name: spin.agent_name,
+  won_at: spin.date,
+  expires_at: spin.claim_expires_at,
+  claimed_at: spin.claimed_at,
+  claimed_by_agent: spin.claimed_by_agent,
+  status: getClaimStatus(spin)
+});
+
+const findClaim = async (db, code) => {
+  const [spins] = await db.query(`SELECT ${CLAIM_COLUMNS} FROM spin_results WHERE claim_code = ?`, [code]);
+  return spins[0] || null;
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Claim:
+ *       type: object
+ *       properties:
+ *         claim_code:
+ *           type: string
+ *         spin_result_id:
+ *           type: integer
+ *         prize:
+ *           type: string
+ *         winner_name:
+ *           type: string
+ *         winner_contact:
+ *           type: string
+ *         agent_id:
+ *           type: string
+ *         agent_name:
+ *           type: string
+ *         won_at:
+ *           type: string
+ *           format: date-time
+ *         expires_at:
+ *           type: string
+ *           format: date-time
+ *         claimed_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         claimed_by_agent:
+ *           type: string
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [unclaimed, claimed, expired]
+ */
+
+/**
+ * @swagger
+ * /claims/{code}/qr.svg:
+ *   get:
+ *     summary: Get a claim code as a QR code
+ *     description: The QR code only contains the claim code, so it is safe to show on the customer's screen
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SVG image
+ *         content:
+ *           image/svg+xml: {}
+ *       400:
+ *         description: Not a valid claim code
+ */
+router.get('/:code/qr.svg', async (req, res) => {
+  try {
+    const code = normalizeClaimCode(req.params.code);
+    if (!code) {
+      return res.status(400).json({ message: 'Invalid claim code' });
+    }
+
+    const svg = await QRCode.toString(code, { type: 'svg', margin: 1 });
+    res.setHeader('Content-Type', 'image/svg+xml');
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    res.send(svg);
+  } catch (err) {
+    console.error('Error creating claim QR code:', err);
+    res.status(500).json({ message: 'Error creating claim QR code', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /claims/{code}:
+ *   get:
+ *     summary: Look up a won prize by its claim code
+ *     security:
+ *       - deviceToken: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The won prize and its claim status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Claim'
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       404:
+ *         description: Claim code not found
+ */
+router.get('/:code', requireDevice, async (req, res) => {
+  try {
+    const code = normalizeClaimCode(req.params.code);
+    const spin = code ? await findClaim(req.db, code) : null;
+    if (!spin) {
+      return res.status(404).json({ message: 'Claim code not found' });
+    }
+
+    res.json(toClaim(spin));
+  } catch (err) {
+    console.error('Error fetching claim:', err);
+    res.status(500).json({ message: 'Error fetching claim', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /claims/{code}/redeem:
+ *   post:
+ *     summary: Record that a won prize was handed over
+ *     description: Prizes are handed over by the agent whose stock they were taken from, before the claim code expires
+ *     security:
+ *       - deviceToken: []
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Prize marked as claimed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Claim'
+ *       403:
+ *         description: The prize was won with another agent
+ *       404:
+ *         description: Claim code not found
+ *       409:
+ *         description: The prize has already been claimed
+ *       410:
+ *         description: The claim code has expired, or the win was voided after a fraud review
+ */
+router.post('/:code/redeem', requireDevice, async (req, res) => {
+  try {
+    const code = normalizeClaimCode(req.params.code);
+    const spin = code ? await findClaim(req.db, code) : null;
+    if (!spin) {
+      return res.status(404).json({ message: 'Claim code not found' });
+    }
+    if (spin.agent_id && spin.agent_id !== req.device.agent_id) {
+      return res.status(403).json({ message: `This prize must be collected from ${spin.agent_name || 'the BA who ran the spin'}` });
+    }
+
+    // Only one device can hand the prize over, even if two redeem it at once
+    const [result] = await req.db.query(
+      `UPDATE spin_results SET claimed_at = NOW(), claimed_by_agent = ?
+       WHERE id = ? AND claimed_at IS NULL AND voided_at IS NULL AND claim_expires_at > NOW()`,
+      [req.device.agent_id, spin.id]
+    );
+
+    if (result.affectedRows === 0) {
+      const current = await findClaim(req.db, code);
+      const status = getClaimStatus(current);
+      if (status === 'claimed') {
+        return res.status(409).json({ message: 'This prize has already been claimed', claim: toClaim(current) });
+      }
+      return res.status(410).json({
+        message: status === 'voided' ? 'This win has been voided' : 'This claim code has expired',
+        claim: toClaim(current)
+      });
+    }
+
+    res.json(toClaim(await findClaim(req.db, code)));
+  } catch (err) {
+    console.error('Error redeeming claim:', err);
+    res.status(500).json({ message: 'Error redeeming claim', error: err.message });
+  }
+});
+
+module.exports = router;
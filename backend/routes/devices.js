@@ -0,0 +1,202 @@
+const express = require('express');
+const router = express.Router();
+const { verifyPassword, createDeviceToken, hashToken } = require('../utils/auth');
+const { requireDevice } = require('../middleware/auth');
+
+// PINs are short, so an agent code is locked for a while after repeated wrong PINs. Wrong PINs
+// are counted in the database, so a restart does not clear them and every server instance sees them.
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_SECONDS = 15 * 60;
+// Agent ids are at most this long, so longer codes cannot match an agent
+const MAX_AGENT_CODE_LENGTH = 50;
+
+const isLockedOut = async (db, agentCode) => {
+  const [attempts] = await db.query(
+    `SELECT failed_count FROM device_login_attempts
+     WHERE agent_code = ? AND last_failed_at > NOW() - INTERVAL ? SECOND`,
+    [agentCode, LOCKOUT_SECONDS]
+  );
+  return attempts.length > 0 && attempts[0].failed_count >= MAX_FAILED_ATTEMPTS;
+};
+
+// A wrong PIN after the lockout has passed starts the count again. Codes nobody has tried for that
+// long are removed, so guessing many codes does not grow the table.
+const recordFailedAttempt = async (db, agentCode) => {
+  await db.query(
+    `INSERT INTO device_login_attempts (agent_code, failed_count, last_failed_at) VALUES (?, 1, NOW())
+     ON DUPLICATE KEY UPDATE
+       failed_count = IF(last_failed_at > NOW() - INTERVAL ? SECOND, failed_count + 1, 1),
+       last_failed_at = NOW()`,
+    [agentCode, LOCKOUT_SECONDS]
+  );
+  await db.query(
+    'DELETE FROM device_login_attempts WHERE last_failed_at <= NOW() - INTERVAL ? SECOND',
+    [LOCKOUT_SECONDS]
+  );
+};
+
+// The agent a device is signed in as, as returned to the spin page
+const toDeviceAgent = (agent) => ({
+  agent_id: agent.agent_id,
+  name: agent.name,
+  location: agent.location || ''
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DeviceAgent:
+ *       type: object
+ *       properties:
+ *         agent_id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         location:
+ *           type: string
+ *   securitySchemes:
+ *     deviceToken:
+ *       type: apiKey
+ *       in: header
+ *       name: X-Device-Token
+ */
+
+/**
+ * @swagger
+ * /devices/login:
+ *   post:
+ *     summary: Sign a kiosk or tablet in as an agent
+ *     description: Binds the device to the agent, so every spin it runs is recorded against that agent
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - agent_code
+ *               - pin
+ *             properties:
+ *               agent_code:
+ *                 type: string
+ *                 description: The agent's agent_id
+ *               pin:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Device signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 device_token:
+ *                   type: string
+ *                   description: Token to send as the X-Device-Token header
+ *                 expires_at:
+ *                   type: string
+ *                   format: date-time
+ *                 agent:
+ *                   $ref: '#/components/schemas/DeviceAgent'
+ *       401:
+ *         description: Invalid agent code or PIN
+ *       429:
+ *         description: Too many wrong PINs for this agent code
+ */
+router.post('/login', async (req, res) => {
+  try {
+    const { agent_code, pin } = req.body || {};
+
+    if (!agent_code || !pin) {
+      return res.status(400).json({ message: 'Agent code and PIN are required' });
+    }
+
+    const agentCode = String(agent_code).trim();
+    if (agentCode.length > MAX_AGENT_CODE_LENGTH) {
+      return res.status(401).json({ message: 'Invalid agent code or PIN' });
+    }
+    if (await isLockedOut(req.db, agentCode)) {
+      return res.status(429).json({ message: 'Too many wrong PINs. Please try again later.' });
+    }
+
+    const [agents] = await req.db.query(
+      'SELECT agent_id, name, location, pin_hash FROM agents WHERE agent_id = ?',
+      [agentCode]
+    );
+
+    const agent = agents[0];
+    if (!agent || !agent.pin_hash || !(await verifyPassword(String(pin), agent.pin_hash))) {
+      await recordFailedAttempt(req.db, agentCode);
+      return res.status(401).json({ message: 'Invalid agent code or PIN' });
+    }
+    await req.db.query('DELETE FROM device_login_attempts WHERE agent_code = ?', [agentCode]);
+
+    const { token, tokenHash, expiresAt } = createDeviceToken();
+    await req.db.query(
+      'INSERT INTO agent_device_sessions (token_hash, agent_id, expires_at) VALUES (?, ?, ?)',
+      [tokenHash, agent.agent_id, expiresAt]
+    );
+
+    res.json({
+      device_token: token,
+      expires_at: expiresAt,
+      agent: toDeviceAgent(agent)
+    });
+  } catch (err) {
+    console.error('Error signing in device:', err);
+    res.status(500).json({ message: 'Error signing in device', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /devices/me:
+ *   get:
+ *     summary: Get the agent this device is signed in as
+ *     security:
+ *       - deviceToken: []
+ *     responses:
+ *       200:
+ *         description: The signed in agent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/DeviceAgent'
+ *       401:
+ *         description: Device is not signed in
+ */
+router.get('/me', requireDevice, (req, res) => {
+  res.json(toDeviceAgent(req.device));
+});
+
+/**
+ * @swagger
+ * /devices/logout:
+ *   post:
+ *     summary: Sign the device out of its agent
+ *     security:
+ *       - deviceToken: []
+ *     responses:
+ *       200:
+ *         description: Device signed out
+ */
+router.post('/logout', async (req, res) => {
+  try {
+    const token = req.headers['x-device-token'];
+
+    if (token) {
+      await req.db.query(
+        'UPDATE agent_device_sessions SET revoked_at = NOW() WHERE token_hash = ? AND revoked_at IS NULL',
+        [hashToken(token)]
+      );
+    }
+
+    res.json({ message: 'Device signed out successfully' });
+  } catch (err) {
+    console.error('Error signing out device:', err);
+    res.status(500).json({ message: 'Error signing out device', error: err.message });
+  }
+});
+
+module.exports = router;
@@ -1,5 +1,22 @@
 const express = require('express');
 const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { ROLES } = require('../utils/permissions');
+const { getActor } = require('../utils/inventoryLedger');
+
+// agent_id filter value for stock held in the warehouse, which has no agent
+const WAREHOUSE = 'warehouse';
+
+// BAs only see their own stock, whatever agent_id they ask for. Returns the repositories'
+// agentId filter: undefined for every holder and null for the warehouse. A BA account that is
+// not linked to an agent gets false, as it has no stock to see.
+const getAgentFilter = (req) => {
+  if (req.admin.role === ROLES.BA) {
+    return req.admin.agent_id || false;
+  }
+  const { agent_id } = req.query;
+  return agent_id === WAREHOUSE ? null : agent_id || undefined;
+};
 
 /**
  * @swagger
@@ -41,6 +58,10 @@ const router = express.Router();
  *         location:
  *           type: string
  *           description: Location of inventory
+ *         campaign_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Campaign this stock belongs to
  *         created_at:
  *           type: string
  *           format: date-time
@@ -54,12 +75,14 @@ const router = express.Router();
  * /inventory:
  *   get:
  *     summary: Get all inventory items
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: agent_id
  *         schema:
  *           type: string
- *         description: Filter by agent ID
+ *         description: Filter by agent ID, or 'warehouse'. Ignored for BA accounts, which only see their own stock
  *       - in: query
  *         name: product_id
  *         schema:
@@ -70,6 +93,11 @@ const router = express.Router();
  *         schema:
  *           type: boolean
  *         description: Show only items with available quantity > 0
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Filter by campaign
  *     responses:
  *       200:
  *         description: List of inventory items
@@ -80,35 +108,20 @@ const router = express.Router();
  *               items:
  *                 $ref: '#/components/schemas/InventoryItem'
  */
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('inventory:view'), async (req, res) => {
   try {
-    const { agent_id, product_id, available_only } = req.query;
-    
-    let query = `
-      SELECT id, product_id, product_name, total_quantity, available_quantity, 
-             distributed_quantity, agent_id, agent_name, location, created_at, updated_at
-      FROM product_inventory 
-      WHERE 1=1
-    `;
-    const params = [];
-
-    if (agent_id) {
-      query += ` AND agent_id = ?`;
-      params.push(agent_id);
+    const { product_id, available_only, campaign_id } = req.query;
+    const agentId = getAgentFilter(req);
+    if (agentId === false) {
+      return res.json([]);
     }
 
-    if (product_id) {
-      query += ` AND product_id = ?`;
-      params.push(product_id);
-    }
-
-    if (available_only === 'true') {
-      query += ` AND available_quantity > 0`;
-    }
-
-    query += ` ORDER BY created_at DESC`;
-
-    const [inventory] = await req.db.query(query, params);
+    const inventory = await req.repos.inventory.list({
+      agentId,
+      productId: product_id,
+      campaignId: campaign_id,
+      availableOnly: available_only === 'true'
+    });
     res.json(inventory);
   } catch (err) {
     console.error('Error fetching inventory:', err);
@@ -121,6 +134,8 @@ router.get('/', async (req, res) => {
  * /inventory:
  *   post:
  *     summary: Create new inventory item
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -129,7 +144,6 @@ router.get('/', async (req, res) => {
  *             type: object
  *             required:
  *               - product_id
- *               - product_name
  *               - total_quantity
  *               - agent_id
  *               - agent_name
@@ -137,8 +151,7 @@ router.get('/', async (req, res) => {
  *             properties:
  *               product_id:
  *                 type: string
- *               product_name:
- *                 type: string
+ *                 description: ID of the product; the stock takes its name and campaign
  *               total_quantity:
  *                 type: integer
  *               agent_id:
@@ -147,46 +160,38 @@ router.get('/', async (req, res) => {
  *                 type: string
  *               location:
  *                 type: string
+ *               reason:
+ *                 type: string
  *     responses:
  *       201:
  *         description: Inventory item created successfully
  */
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('inventory:manage'), async (req, res) => {
   try {
-    const { product_id, product_name, total_quantity, agent_id, agent_name, location } = req.body;
+    const { product_id, total_quantity, agent_id, agent_name, location, reason } = req.body;
 
-    if (!product_id || !product_name || !total_quantity || !agent_id || !agent_name || !location) {
+    if (!product_id || !total_quantity || !agent_id || !agent_name || !location) {
       return res.status(400).json({ 
-        message: 'All fields are required: product_id, product_name, total_quantity, agent_id, agent_name, location' 
+        message: 'All fields are required: product_id, total_quantity, agent_id, agent_name, location' 
       });
     }
 
-    // Check if inventory item already exists for this agent and product
-    const [existing] = await req.db.query(
-      'SELECT * FROM product_inventory WHERE agent_id = ? AND product_id = ?',
-      [agent_id, product_id]
-    );
+    // Stock always belongs to a product, and to the campaign that product is in
+    const { ok, status, item, ...body } = await req.repos.inventory.assign({
+      productId: product_id,
+      agentId: agent_id,
+      agentName: agent_name,
+      location,
+      quantity: Number(total_quantity),
+      actor: getActor(req),
+      reason
+    });
 
-    if (existing.length > 0) {
-      return res.status(400).json({ 
-        message: 'Inventory item already exists for this agent and product. Use PUT to update.' 
-      });
+    if (!ok) {
+      return res.status(status).json(body);
     }
 
-    const [result] = await req.db.query(
-      `INSERT INTO product_inventory 
-       (product_id, product_name, total_quantity, available_quantity, distributed_quantity, 
-        agent_id, agent_name, location) 
-       VALUES (?, ?, ?, ?, 0)`,
-      [product_id, product_name, total_quantity, total_quantity, agent_id, agent_name, location]
-    );
-
-    const [newItem] = await req.db.query(
-      'SELECT * FROM product_inventory WHERE id = ?',
-      [result.insertId]
-    );
-
-    res.status(201).json(newItem[0]);
+    res.status(201).json(item);
   } catch (err) {
     console.error('Error creating inventory item:', err);
     res.status(500).json({ message: 'Error creating inventory item', error: err.message });
@@ -198,6 +203,8 @@ router.post('/', async (req, res) => {
  * /inventory/{id}:
  *   put:
  *     summary: Update inventory item
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -219,70 +226,31 @@ router.post('/', async (req, res) => {
  *                 type: string
  *               location:
  *                 type: string
+ *               reason:
+ *                 type: string
+ *                 description: Why the quantities were changed, kept in the stock ledger
  *     responses:
  *       200:
  *         description: Inventory item updated successfully
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission('inventory:manage'), async (req, res) => {
   try {
-    const { id } = req.params;
-    const { total_quantity, available_quantity, agent_name, location } = req.body;
-
-    const [existing] = await req.db.query(
-      'SELECT * FROM product_inventory WHERE id = ?',
-      [id]
-    );
-
-    if (existing.length === 0) {
-      return res.status(404).json({ message: 'Inventory item not found' });
-    }
-
-    const updateFields = [];
-    const updateValues = [];
-
-    if (total_quantity !== undefined) {
-      updateFields.push('total_quantity = ?');
-      updateValues.push(total_quantity);
-    }
-
-    if (available_quantity !== undefined) {
-      updateFields.push('available_quantity = ?');
-      updateValues.push(available_quantity);
-      
-      // Update distributed quantity
-      const newDistributed = (total_quantity || existing[0].total_quantity) - available_quantity;
-      updateFields.push('distributed_quantity = ?');
-      updateValues.push(newDistributed);
-    }
-
-    if (agent_name) {
-      updateFields.push('agent_name = ?');
-      updateValues.push(agent_name);
-    }
-
-    if (location) {
-      updateFields.push('location = ?');
-      updateValues.push(location);
-    }
+    const { total_quantity, available_quantity, agent_name, location, reason } = req.body;
+
+    const { ok, status, item, ...body } = await req.repos.inventory.update(req.params.id, {
+      totalQuantity: total_quantity,
+      availableQuantity: available_quantity,
+      agentName: agent_name,
+      location,
+      actor: getActor(req),
+      reason
+    });
 
-    if (updateFields.length === 0) {
-      return res.status(400).json({ message: 'No fields to update' });
+    if (!ok) {
+      return res.status(status).json(body);
     }
 
-    updateFields.push('updated_at = CURRENT_TIMESTAMP');
-    updateValues.push(id);
-
-    await req.db.query(
-      `UPDATE product_inventory SET ${updateFields.join(', ')} WHERE id = ?`,
-      updateValues
-    );
-
-    const [updated] = await req.db.query(
-      'SELECT * FROM product_inventory WHERE id = ?',
-      [id]
-    );
-
-    res.json(updated[0]);
+    res.json(item);
   } catch (err) {
     console.error('Error updating inventory item:', err);
     res.status(500).json({ message: 'Error updating inventory item', error: err.message });
@@ -331,12 +299,9 @@ router.post('/check-stock', async (req, res) => {
       return res.status(400).json({ message: 'product_id and agent_id are required' });
     }
 
-    const [inventory] = await req.db.query(
-      'SELECT * FROM product_inventory WHERE product_id = ? AND agent_id = ? AND available_quantity > 0',
-      [product_id, agent_id]
-    );
+    const item = await req.repos.inventory.findAvailable({ productId: product_id, agentId: agent_id });
 
-    if (inventory.length === 0) {
+    if (!item) {
       return res.json({
         available: false,
         quantity: 0,
@@ -346,8 +311,8 @@ router.post('/check-stock', async (req, res) => {
 
     res.json({
       available: true,
-      quantity: inventory[0].available_quantity,
-      product_name: inventory[0].product_name
+      quantity: item.available_quantity,
+      product_name: item.product_name
     });
   } catch (err) {
     console.error('Error checking stock:', err);
@@ -360,6 +325,8 @@ router.post('/check-stock', async (req, res) => {
  * /inventory/distribute:
  *   post:
  *     summary: Distribute a product (decrease inventory)
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -378,6 +345,8 @@ router.post('/check-stock', async (req, res) => {
  *               quantity:
  *                 type: integer
  *                 default: 1
+ *               reason:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Product distributed successfully
@@ -393,51 +362,27 @@ router.post('/check-stock', async (req, res) => {
  *                 distributed_quantity:
  *                   type: integer
  */
-router.post('/distribute', async (req, res) => {
+router.post('/distribute', requirePermission('inventory:manage'), async (req, res) => {
   try {
-    const { product_id, agent_id, quantity = 1 } = req.body;
+    const { product_id, agent_id, quantity = 1, reason } = req.body;
 
     if (!product_id || !agent_id) {
       return res.status(400).json({ message: 'product_id and agent_id are required' });
     }
 
-    // Get current inventory
-    const [inventory] = await req.db.query(
-      'SELECT * FROM product_inventory WHERE product_id = ? AND agent_id = ?',
-      [product_id, agent_id]
-    );
-
-    if (inventory.length === 0) {
-      return res.status(404).json({ message: 'Inventory item not found' });
-    }
+    const { ok, status, ...body } = await req.repos.inventory.distribute({
+      productId: product_id,
+      agentId: agent_id,
+      quantity: Number(quantity),
+      actor: getActor(req),
+      reason
+    });
 
-    const item = inventory[0];
-    
-    if (item.available_quantity < quantity) {
-      return res.status(400).json({ 
-        message: 'Insufficient stock',
-        available: item.available_quantity,
-        requested: quantity
-      });
+    if (!ok) {
+      return res.status(status).json(body);
     }
 
-    // Update inventory
-    const newAvailable = item.available_quantity - quantity;
-    const newDistributed = item.distributed_quantity + quantity;
-
-    await req.db.query(
-      `UPDATE product_inventory 
-       SET available_quantity = ?, distributed_quantity = ?, updated_at = CURRENT_TIMESTAMP 
-       WHERE id = ?`,
-      [newAvailable, newDistributed, item.id]
-    );
-
-    res.json({
-      success: true,
-      remaining_quantity: newAvailable,
-      distributed_quantity: newDistributed,
-      product_name: item.product_name
-    });
+    res.json({ success: true, ...body });
   } catch (err) {
     console.error('Error distributing product:', err);
     res.status(500).json({ message: 'Error distributing product', error: err.message });
@@ -449,6 +394,8 @@ router.post('/distribute', async (req, res) => {
  * /inventory/restock:
  *   post:
  *     summary: Restock a product (increase inventory)
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -457,57 +404,210 @@ router.post('/distribute', async (req, res) => {
  *             type: object
  *             required:
  *               - product_id
- *               - agent_id
  *               - quantity
  *             properties:
  *               product_id:
  *                 type: string
  *               agent_id:
  *                 type: string
+ *                 description: Agent to restock; leave out to restock the warehouse
  *               quantity:
  *                 type: integer
+ *               reason:
+ *                 type: string
  *     responses:
  *       200:
  *         description: Product restocked successfully
  */
-router.post('/restock', async (req, res) => {
+router.post('/restock', requirePermission('inventory:manage'), async (req, res) => {
+  try {
+    const { product_id, quantity, reason } = req.body;
+
+    if (!product_id || !quantity) {
+      return res.status(400).json({ message: 'product_id and quantity are required' });
+    }
+
+    // Without an agent the warehouse is restocked
+    const { ok, status, ...body } = await req.repos.inventory.restock({
+      productId: product_id,
+      agentId: req.body.agent_id || null,
+      quantity: Number(quantity),
+      actor: getActor(req),
+      reason
+    });
+
+    if (!ok) {
+      return res.status(status).json(body);
+    }
+
+    res.json({ success: true, ...body });
+  } catch (err) {
+    console.error('Error restocking product:', err);
+    res.status(500).json({ message: 'Error restocking product', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /inventory/write-off:
+ *   post:
+ *     summary: Write off lost or damaged stock
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - product_id
+ *               - agent_id
+ *               - quantity
+ *               - reason
+ *             properties:
+ *               product_id:
+ *                 type: string
+ *               agent_id:
+ *                 type: string
+ *               campaign_id:
+ *                 type: integer
+ *               quantity:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *                 description: What happened to the stock
+ *     responses:
+ *       200:
+ *         description: Stock written off
+ *       400:
+ *         description: Missing fields or not enough stock
+ *       404:
+ *         description: Inventory item not found
+ */
+router.post('/write-off', requirePermission('inventory:manage'), async (req, res) => {
   try {
-    const { product_id, agent_id, quantity } = req.body;
+    const { product_id, agent_id, reason } = req.body;
+    const quantity = parseInt(req.body.quantity, 10);
 
-    if (!product_id || !agent_id || !quantity) {
-      return res.status(400).json({ message: 'product_id, agent_id, and quantity are required' });
+    if (!product_id || !agent_id || !reason || !(quantity > 0)) {
+      return res.status(400).json({ message: 'product_id, agent_id, a positive quantity and a reason are required' });
     }
 
-    // Get current inventory
-    const [inventory] = await req.db.query(
-      'SELECT * FROM product_inventory WHERE product_id = ? AND agent_id = ?',
-      [product_id, agent_id]
-    );
+    const { ok, status, ...body } = await req.repos.inventory.writeOff({
+      productId: product_id,
+      agentId: agent_id,
+      campaignId: req.body.campaign_id || null,
+      quantity,
+      actor: getActor(req),
+      reason
+    });
 
-    if (inventory.length === 0) {
-      return res.status(404).json({ message: 'Inventory item not found' });
+    if (!ok) {
+      return res.status(status).json(body);
     }
 
-    const item = inventory[0];
-    const newAvailable = item.available_quantity + quantity;
-    const newTotal = item.total_quantity + quantity;
+    res.json({ success: true, ...body });
+  } catch (err) {
+    console.error('Error writing off stock:', err);
+    res.status(500).json({ message: 'Error writing off stock', error: err.message });
+  }
+});
 
-    await req.db.query(
-      `UPDATE product_inventory 
-       SET available_quantity = ?, total_quantity = ?, updated_at = CURRENT_TIMESTAMP 
-       WHERE id = ?`,
-      [newAvailable, newTotal, item.id]
-    );
+/**
+ * @swagger
+ * /inventory/movements:
+ *   get:
+ *     summary: Get the stock movement timeline
+ *     description: Every change to agent and warehouse stock, newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: agent_id
+ *         schema:
+ *           type: string
+ *         description: Filter by agent ID, or 'warehouse'. Ignored for BA accounts
+ *       - in: query
+ *         name: product_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [opening, assign, restock, win, distribute, adjust, transfer, write_off, void]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 200
+ *     responses:
+ *       200:
+ *         description: Stock movements
+ */
+router.get('/movements', requirePermission('inventory:view'), async (req, res) => {
+  try {
+    const { product_id, campaign_id, type } = req.query;
+    const agentId = getAgentFilter(req);
+    if (agentId === false) {
+      return res.json([]);
+    }
 
-    res.json({
-      success: true,
-      new_available: newAvailable,
-      new_total: newTotal,
-      restocked_quantity: quantity
+    const movements = await req.repos.inventory.listMovements({
+      agentId,
+      productId: product_id,
+      campaignId: campaign_id,
+      type,
+      limit: Math.min(parseInt(req.query.limit, 10) || 200, 1000)
     });
+
+    res.json(movements);
   } catch (err) {
-    console.error('Error restocking product:', err);
-    res.status(500).json({ message: 'Error restocking product', error: err.message });
+    console.error('Error fetching stock movements:', err);
+    res.status(500).json({ message: 'Error fetching stock movements', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /inventory/reconcile:
+ *   get:
+ *     summary: Find stock balances that do not match the ledger
+ *     description: Compares each agent and warehouse stock balance with the sum of its movements
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: agent_id
+ *         schema:
+ *           type: string
+ *         description: Filter by agent ID, or 'warehouse'. Ignored for BA accounts
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Balances that differ from their ledger; empty when everything adds up
+ */
+router.get('/reconcile', requirePermission('inventory:view'), async (req, res) => {
+  try {
+    const agentId = getAgentFilter(req);
+    if (agentId === false) {
+      return res.json([]);
+    }
+
+    const drift = await req.repos.inventory.findLedgerDrift({ agentId, campaignId: req.query.campaign_id });
+
+    res.json(drift);
+  } catch (err) {
+    console.error('Error reconciling stock:', err);
+    res.status(500).json({ message: 'Error reconciling stock', error: err.message });
   }
 });
 
@@ -516,12 +616,19 @@ router.post('/restock', async (req, res) => {
  * /inventory/summary:
  *   get:
  *     summary: Get inventory summary statistics
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: agent_id
  *         schema:
  *           type: string
- *         description: Filter by agent ID
+ *         description: Filter by agent ID, or 'warehouse'. Ignored for BA accounts, which only see their own stock
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Filter by campaign
  *     responses:
  *       200:
  *         description: Inventory summary
@@ -545,45 +652,23 @@ router.post('/restock', async (req, res) => {
  *                   items:
  *                     type: object
  */
-router.get('/summary', async (req, res) => {
+router.get('/summary', requirePermission('inventory:view'), async (req, res) => {
   try {
-    const { agent_id } = req.query;
-    
-    let whereClause = '';
-    const params = [];
-    
-    if (agent_id) {
-      whereClause = 'WHERE agent_id = ?';
-      params.push(agent_id);
+    const agentId = getAgentFilter(req);
+    // A BA account without an agent has no stock
+    if (agentId === false) {
+      return res.json({
+        total_products: 0,
+        total_quantity: null,
+        available_quantity: null,
+        distributed_quantity: null,
+        out_of_stock_products: null,
+        products: []
+      });
     }
 
-    // Get summary statistics
-    const [summary] = await req.db.query(`
-      SELECT 
-        COUNT(*) as total_products,
-        SUM(total_quantity) as total_quantity,
-        SUM(available_quantity) as available_quantity,
-        SUM(distributed_quantity) as distributed_quantity,
-        SUM(CASE WHEN available_quantity = 0 THEN 1 ELSE 0 END) as out_of_stock_products
-      FROM product_inventory ${whereClause}
-    `, params);
-
-    // Get product breakdown
-    const [products] = await req.db.query(`
-      SELECT product_id, product_name, 
-             SUM(total_quantity) as total_quantity,
-             SUM(available_quantity) as available_quantity,
-             SUM(distributed_quantity) as distributed_quantity,
-             COUNT(*) as locations
-      FROM product_inventory ${whereClause}
-      GROUP BY product_id, product_name
-      ORDER BY product_name
-    `, params);
-
-    res.json({
-      ...summary[0],
-      products
-    });
+    const summary = await req.repos.inventory.getSummary({ agentId, campaignId: req.query.campaign_id });
+    res.json(summary);
   } catch (err) {
     console.error('Error getting inventory summary:', err);
     res.status(500).json({ message: 'Error getting inventory summary', error: err.message });
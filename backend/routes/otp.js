@@ -0,0 +1,141 @@
+const express = require('express');
+const router = express.Router();
+const { requireDevice } = require('../middleware/auth');
+const { normalizePhone } = require('../utils/phone');
+const { sendOtp, verifyOtp } = require('../utils/otp');
+
+const INVALID_PHONE_MESSAGE = 'Enter a valid phone number, such as 0712 345 678 or +254712345678';
+
+/**
+ * @swagger
+ * /otp/send:
+ *   post:
+ *     summary: Text a one-time code to a customer's phone
+ *     description: Kenyan mobile numbers can be entered in local format; other numbers must be in E.164 format. A number can be sent a new code once a minute and up to OTP_MAX_PER_HOUR times an hour.
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *             properties:
+ *               phone:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Code sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 phone:
+ *                   type: string
+ *                   description: The number in E.164 format
+ *                 expires_at:
+ *                   type: string
+ *                   format: date-time
+ *                 resend_after_seconds:
+ *                   type: integer
+ *       400:
+ *         description: Invalid phone number
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       429:
+ *         description: A code was sent too recently, or too many codes were sent to this number
+ *       502:
+ *         description: The SMS gateway did not accept the text
+ *       500:
+ *         description: Server error
+ */
+router.post('/send', requireDevice, async (req, res) => {
+  try {
+    const phone = normalizePhone((req.body || {}).phone);
+    if (!phone) {
+      return res.status(400).json({ message: INVALID_PHONE_MESSAGE });
+    }
+
+    const { ok, status, ...body } = await sendOtp(req.db, { phone, agentId: req.device.agent_id });
+    if (!ok) {
+      return res.status(status).json(body);
+    }
+    res.json({ phone, ...body });
+  } catch (err) {
+    console.error('Error sending one-time code:', err);
+    res.status(500).json({ message: 'Error sending one-time code', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /otp/verify:
+ *   post:
+ *     summary: Check the code a customer received
+ *     description: Returns a verification token to send with POST /spins/eligibility and POST /spins/draw, so the verified number is the customer's identity for eligibility rules and prize claims
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - phone
+ *               - code
+ *             properties:
+ *               phone:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Phone number verified
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 phone:
+ *                   type: string
+ *                 verification_token:
+ *                   type: string
+ *                 expires_at:
+ *                   type: string
+ *                   format: date-time
+ *       400:
+ *         description: Invalid phone number, or the code is incorrect or has expired
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       429:
+ *         description: Too many incorrect codes
+ *       500:
+ *         description: Server error
+ */
+router.post('/verify', requireDevice, async (req, res) => {
+  try {
+    const body = req.body || {};
+    const phone = normalizePhone(body.phone);
+    if (!phone) {
+      return res.status(400).json({ message: INVALID_PHONE_MESSAGE });
+    }
+    if (!body.code) {
+      return res.status(400).json({ message: 'Enter the code sent to your phone' });
+    }
+
+    const { ok, status, ...result } = await verifyOtp(req.db, { phone, code: body.code });
+    if (!ok) {
+      return res.status(status).json(result);
+    }
+    res.json(result);
+  } catch (err) {
+    console.error('Error verifying one-time code:', err);
+    res.status(500).json({ message: 'Error verifying one-time code', error: err.message });
+  }
+});
+
+module.exports = router;
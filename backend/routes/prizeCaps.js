@@ -0,0 +1,270 @@
+const express = require('express');
+const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { normalizeCap, describeCap } = require('../utils/prizeCaps');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     PrizeCap:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         product_id:
+ *           type: integer
+ *         product_name:
+ *           type: string
+ *         scope:
+ *           type: string
+ *           enum: [product, agent, outlet]
+ *           description: product counts wins across all outlets, agent counts each BA's wins and outlet counts the wins of all BAs at one location
+ *         period:
+ *           type: string
+ *           enum: [hour, day]
+ *           description: Calendar hour or day, in database time
+ *         max_wins:
+ *           type: integer
+ *         description:
+ *           type: string
+ *           description: The cap in words, such as "5 per BA per day"
+ */
+
+// A cap row as returned by the API
+const toCapResponse = (cap) => ({ ...cap, description: describeCap(cap) });
+
+const CAP_COLUMNS = 'c.id, c.product_id, p.name as product_name, c.scope, c.period, c.max_wins, c.created_at, c.updated_at';
+
+/**
+ * @swagger
+ * /prize-caps:
+ *   get:
+ *     summary: Get prize caps
+ *     parameters:
+ *       - in: query
+ *         name: product_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Only return caps on this campaign's prizes
+ *     responses:
+ *       200:
+ *         description: List of prize caps
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/PrizeCap'
+ */
+router.get('/', async (req, res) => {
+  try {
+    const { product_id, campaign_id } = req.query;
+    const conditions = [];
+    const params = [];
+    if (product_id) {
+      conditions.push('c.product_id = ?');
+      params.push(product_id);
+    }
+    if (campaign_id) {
+      conditions.push('p.campaign_id = ?');
+      params.push(campaign_id);
+    }
+
+    const [caps] = await req.db.query(`
+      SELECT ${CAP_COLUMNS}
+      FROM prize_caps c
+      JOIN products p ON p.id = c.product_id
+      ${conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : ''}
+      ORDER BY p.name, c.scope, c.period
+    `, params);
+    res.json(caps.map(toCapResponse));
+  } catch (err) {
+    console.error('Error fetching prize caps:', err);
+    res.status(500).json({ message: 'Error fetching prize caps', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /prize-caps:
+ *   post:
+ *     summary: Add a cap to a prize
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - product_id
+ *               - scope
+ *               - period
+ *               - max_wins
+ *             properties:
+ *               product_id:
+ *                 type: integer
+ *               scope:
+ *                 type: string
+ *                 enum: [product, agent, outlet]
+ *               period:
+ *                 type: string
+ *                 enum: [hour, day]
+ *               max_wins:
+ *                 type: integer
+ *     responses:
+ *       201:
+ *         description: Cap added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PrizeCap'
+ *       400:
+ *         description: Invalid cap
+ *       404:
+ *         description: Product not found
+ *       409:
+ *         description: The prize already has a cap with this scope and period
+ */
+router.post('/', requirePermission('products:manage'), async (req, res) => {
+  try {
+    const body = req.body || {};
+    const { cap, error } = normalizeCap(body);
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const [products] = await req.db.query('SELECT id FROM products WHERE id = ?', [body.product_id]);
+    if (products.length === 0) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+
+    const [result] = await req.db.query(
+      'INSERT INTO prize_caps (product_id, scope, period, max_wins) VALUES (?, ?, ?, ?)',
+      [products[0].id, cap.scope, cap.period, cap.max_wins]
+    );
+
+    const [caps] = await req.db.query(
+      `SELECT ${CAP_COLUMNS} FROM prize_caps c JOIN products p ON p.id = c.product_id WHERE c.id = ?`,
+      [result.insertId]
+    );
+    res.status(201).json(toCapResponse(caps[0]));
+  } catch (err) {
+    if (err.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'This prize already has a cap with this scope and period' });
+    }
+    console.error('Error adding prize cap:', err);
+    res.status(500).json({ message: 'Error adding prize cap', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /prize-caps/{id}:
+ *   put:
+ *     summary: Change a prize cap
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - scope
+ *               - period
+ *               - max_wins
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [product, agent, outlet]
+ *               period:
+ *                 type: string
+ *                 enum: [hour, day]
+ *               max_wins:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Cap updated
+ *       400:
+ *         description: Invalid cap
+ *       404:
+ *         description: Cap not found
+ *       409:
+ *         description: The prize already has a cap with this scope and period
+ */
+router.put('/:id', requirePermission('products:manage'), async (req, res) => {
+  try {
+    const { cap, error } = normalizeCap(req.body || {});
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    const [result] = await req.db.query(
+      'UPDATE prize_caps SET scope = ?, period = ?, max_wins = ? WHERE id = ?',
+      [cap.scope, cap.period, cap.max_wins, req.params.id]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Prize cap not found' });
+    }
+
+    const [caps] = await req.db.query(
+      `SELECT ${CAP_COLUMNS} FROM prize_caps c JOIN products p ON p.id = c.product_id WHERE c.id = ?`,
+      [req.params.id]
+    );
+    res.json(toCapResponse(caps[0]));
+  } catch (err) {
+    if (err.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({ message: 'This prize already has a cap with this scope and period' });
+    }
+    console.error('Error updating prize cap:', err);
+    res.status(500).json({ message: 'Error updating prize cap', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /prize-caps/{id}:
+ *   delete:
+ *     summary: Remove a prize cap
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Cap removed
+ *       404:
+ *         description: Cap not found
+ */
+router.delete('/:id', requirePermission('products:manage'), async (req, res) => {
+  try {
+    const [result] = await req.db.query('DELETE FROM prize_caps WHERE id = ?', [req.params.id]);
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Prize cap not found' });
+    }
+    res.json({ message: 'Prize cap removed successfully' });
+  } catch (err) {
+    console.error('Error removing prize cap:', err);
+    res.status(500).json({ message: 'Error removing prize cap', error: err.message });
+  }
+});
+
+module.exports = router;
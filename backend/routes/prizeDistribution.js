@@ -1,5 +1,9 @@
 const express = require('express');
 const router = express.Router();
+const { resolveAgent, getWheel, toPublicSector } = require('../utils/prizeAllocator');
+const { getCampaign } = require('../utils/campaigns');
+const { getCampaignSpan, getBurnDown } = require('../utils/pacing');
+const { requirePermission } = require('../middleware/auth');
 
 /**
  * @swagger
@@ -23,6 +27,9 @@ const router = express.Router();
  *         remaining_inventory:
  *           type: integer
  *           description: Total remaining inventory across all agents
+ *         warehouse_available:
+ *           type: integer
+ *           description: Quantity still in the warehouse, not yet allocated to an agent
  *         agents:
  *           type: array
  *           items:
@@ -40,6 +47,31 @@ const router = express.Router();
  *                 type: integer
  *               remaining:
  *                 type: integer
+ *               transferred_in:
+ *                 type: integer
+ *                 description: Quantity received from the warehouse or other agents
+ *               transferred_out:
+ *                 type: integer
+ *                 description: Quantity sent to other agents or returned to the warehouse
+ *     WheelSector:
+ *       type: object
+ *       properties:
+ *         index:
+ *           type: integer
+ *           description: Position of the sector on the wheel
+ *         label:
+ *           type: string
+ *         is_win:
+ *           type: boolean
+ *         tier:
+ *           type: string
+ *           nullable: true
+ *           enum: [grand, standard, consolation]
+ *           description: Tier of the prize awarded by this sector; null for losing sectors
+ *         product_id:
+ *           type: string
+ *           nullable: true
+ *           description: Inventory product awarded by this sector
  */
 
 /**
@@ -59,6 +91,11 @@ const router = express.Router();
  *         schema:
  *           type: string
  *         description: Filter by specific product
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Filter by campaign
  *     responses:
  *       200:
  *         description: Prize distribution statistics
@@ -86,24 +123,35 @@ const router = express.Router();
  *                   type: array
  *                   items:
  *                     $ref: '#/components/schemas/PrizeDistribution'
+ *                 recent_transfers:
+ *                   type: array
+ *                   description: The 20 latest stock transfers matching the filters
+ *                   items:
+ *                     $ref: '#/components/schemas/StockTransfer'
  */
 router.get('/', async (req, res) => {
   try {
-    const { agent_id, product_id } = req.query;
+    const { agent_id, product_id, campaign_id } = req.query;
     
-    let whereClause = '';
+    // Warehouse stock is reported separately from what agents hold
+    let whereClause = ' WHERE agent_id IS NOT NULL';
     const params = [];
     
     if (agent_id) {
-      whereClause += ' WHERE agent_id = ?';
+      whereClause += ' AND agent_id = ?';
       params.push(agent_id);
     }
     
     if (product_id) {
-      whereClause += (whereClause ? ' AND' : ' WHERE') + ' product_id = ?';
+      whereClause += ' AND product_id = ?';
       params.push(product_id);
     }
 
+    if (campaign_id) {
+      whereClause += ' AND campaign_id = ?';
+      params.push(campaign_id);
+    }
+
     // Get product distribution statistics
     const [productStats] = await req.db.query(`
       SELECT 
@@ -130,11 +178,21 @@ router.get('/', async (req, res) => {
           location,
           total_quantity as assigned,
           distributed_quantity as distributed,
-          available_quantity as remaining
-        FROM product_inventory 
-        WHERE product_id = ? ${agent_id ? 'AND agent_id = ?' : ''}
+          available_quantity as remaining,
+          (SELECT CAST(COALESCE(SUM(t.quantity), 0) AS SIGNED) FROM stock_transfers t
+           WHERE t.to_agent_id = pi.agent_id AND t.product_id = pi.product_id AND t.campaign_id <=> pi.campaign_id) as transferred_in,
+          (SELECT CAST(COALESCE(SUM(t.quantity), 0) AS SIGNED) FROM stock_transfers t
+           WHERE t.from_agent_id = pi.agent_id AND t.product_id = pi.product_id AND t.campaign_id <=> pi.campaign_id) as transferred_out
+        FROM product_inventory pi
+        WHERE product_id = ? AND agent_id IS NOT NULL ${agent_id ? 'AND agent_id = ?' : ''} ${campaign_id ? 'AND campaign_id = ?' : ''}
         ORDER BY agent_name
-      `, agent_id ? [product.product_id, agent_id] : [product.product_id]);
+      `, [product.product_id, ...(agent_id ? [agent_id] : []), ...(campaign_id ? [campaign_id] : [])]);
+
+      // Stock still in the warehouse, ready to be allocated
+      const [warehouse] = await req.db.query(
+        'SELECT available_quantity FROM product_inventory WHERE agent_id IS NULL AND product_id = ?',
+        [product.product_id]
+      );
 
       products.push({
         product_id: product.product_id,
@@ -142,12 +200,39 @@ router.get('/', async (req, res) => {
         total_assigned: product.total_assigned,
         total_distributed: product.total_distributed,
         remaining_inventory: product.remaining_inventory,
+        warehouse_available: warehouse.length > 0 ? warehouse[0].available_quantity : 0,
         agent_count: product.agent_count,
         out_of_stock_agents: product.out_of_stock_agents,
         agents: agentBreakdown
       });
     }
 
+    // Latest transfers touching the agents and products shown
+    const transferConditions = [];
+    const transferParams = [];
+    if (agent_id) {
+      transferConditions.push('(t.from_agent_id = ? OR t.to_agent_id = ?)');
+      transferParams.push(agent_id, agent_id);
+    }
+    if (product_id) {
+      transferConditions.push('t.product_id = ?');
+      transferParams.push(product_id);
+    }
+    if (campaign_id) {
+      transferConditions.push('t.campaign_id = ?');
+      transferParams.push(campaign_id);
+    }
+    const [recentTransfers] = await req.db.query(`
+      SELECT t.id, t.product_id, t.product_name, t.campaign_id, t.from_agent_id, t.to_agent_id,
+             t.quantity, t.reason, t.created_at, fa.name as from_agent_name, ta.name as to_agent_name
+      FROM stock_transfers t
+      LEFT JOIN agents fa ON fa.agent_id = t.from_agent_id
+      LEFT JOIN agents ta ON ta.agent_id = t.to_agent_id
+      ${transferConditions.length > 0 ? 'WHERE ' + transferConditions.join(' AND ') : ''}
+      ORDER BY t.created_at DESC, t.id DESC
+      LIMIT 20
+    `, transferParams);
+
     // Calculate summary statistics
     const summary = {
       total_products: productStats.length,
@@ -160,7 +245,8 @@ router.get('/', async (req, res) => {
 
     res.json({
       summary,
-      products
+      products,
+      recent_transfers: recentTransfers
     });
   } catch (err) {
     console.error('Error fetching prize distribution:', err);
@@ -173,14 +259,23 @@ router.get('/', async (req, res) => {
  * /prize-distribution/current-wheel:
  *   get:
  *     summary: Get current wheel product availability
- *     description: Returns which products are currently available for the spin wheel based on inventory
+ *     description: Returns the wheel for an agent, built from the products they currently have in stock. Out-of-stock products are left off the wheel.
  *     parameters:
  *       - in: query
  *         name: agent_id
- *         required: true
  *         schema:
  *           type: string
  *         description: Agent ID to check inventory for
+ *       - in: query
+ *         name: agent_name
+ *         schema:
+ *           type: string
+ *         description: Agent name, used when the agent ID is not known
+ *       - in: query
+ *         name: campaign
+ *         schema:
+ *           type: string
+ *         description: Slug of the campaign being played
  *     responses:
  *       200:
  *         description: Current wheel configuration
@@ -211,15 +306,31 @@ router.get('/', async (req, res) => {
  *                       type: integer
  *                     total_sectors:
  *                       type: integer
+ *                     sectors:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WheelSector'
+ *       404:
+ *         description: Campaign not found
  */
 router.get('/current-wheel', async (req, res) => {
   try {
-    const { agent_id } = req.query;
+    const { agent_id, agent_name, campaign: campaignSlug } = req.query;
     
-    if (!agent_id) {
-      return res.status(400).json({ message: 'agent_id is required' });
+    if (!agent_id && !agent_name) {
+      return res.status(400).json({ message: 'agent_id or agent_name is required' });
     }
 
+    const campaign = campaignSlug ? await getCampaign(req.db, { slug: campaignSlug }) : null;
+    if (campaignSlug && !campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    const campaignId = campaign ? campaign.id : null;
+
+    // Unknown agents get the default wheel, matching what POST /spins/draw uses
+    const agent = await resolveAgent(req.db, { agentId: agent_id, agentName: agent_name });
+    const agentId = agent ? agent.agent_id : null;
+
     // Get all products for this agent with their current inventory
     const [products] = await req.db.query(`
       SELECT 
@@ -230,34 +341,38 @@ router.get('/current-wheel', async (req, res) => {
         total_quantity,
         CASE WHEN available_quantity > 0 THEN true ELSE false END as should_show_on_wheel
       FROM product_inventory 
-      WHERE agent_id = ?
+      WHERE agent_id = ? AND campaign_id <=> ?
       ORDER BY product_name
-    `, [agent_id]);
+    `, [agentId, campaignId]);
 
     // Calculate wheel configuration
-    const availableProducts = products.filter(p => p.available_quantity > 0);
-    const winSectors = availableProducts.length;
-    const tryAgainSectors = Math.max(2, winSectors); // At least 2 "Try Again" sectors
-    const totalSectors = winSectors + tryAgainSectors;
+    const { sectors } = await getWheel(req.db, agentId, campaign);
+    const winSectors = sectors.filter(sector => sector.is_win).length;
+    const tryAgainSectors = sectors.length - winSectors;
+    const totalSectors = sectors.length;
 
     // Get recent distribution stats
     const [recentStats] = await req.db.query(`
       SELECT 
         COUNT(*) as total_spins,
         SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) as total_wins,
-        COUNT(DISTINCT CASE WHEN is_win = true THEN prize END) as unique_prizes_won
+        COUNT(DISTINCT CASE WHEN is_win = true THEN prize_label END) as unique_prizes_won
       FROM spin_results 
       WHERE date >= DATE_SUB(NOW(), INTERVAL 24 HOUR)
-      AND agent_name = (SELECT agent_name FROM product_inventory WHERE agent_id = ? LIMIT 1)
-    `, [agent_id]);
+      AND campaign_id <=> ?
+      AND agent_id = ?
+    `, [campaignId, agentId]);
 
     res.json({
+      agent_id: agentId,
+      campaign_id: campaignId,
       available_products: products,
       wheel_configuration: {
         win_sectors: winSectors,
         try_again_sectors: tryAgainSectors,
         total_sectors: totalSectors,
-        win_percentage: totalSectors > 0 ? Math.round((winSectors / totalSectors) * 100) : 0
+        win_percentage: totalSectors > 0 ? Math.round((winSectors / totalSectors) * 100) : 0,
+        sectors: sectors.map(toPublicSector)
       },
       recent_activity: recentStats[0] || {
         total_spins: 0,
@@ -271,6 +386,110 @@ router.get('/current-wheel', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /prize-distribution/pacing:
+ *   get:
+ *     summary: Get the planned and actual burn-down of a campaign's prizes
+ *     description: One point per day of the campaign, plus one for now. Prizes without a pacing curve have no planned burn-down.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campaign_id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Burn-down per product
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 campaign_id:
+ *                   type: integer
+ *                 start_date:
+ *                   type: string
+ *                   format: date-time
+ *                 end_date:
+ *                   type: string
+ *                   format: date-time
+ *                 products:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       product_id:
+ *                         type: integer
+ *                       product_name:
+ *                         type: string
+ *                       pacing_curve:
+ *                         type: string
+ *                         nullable: true
+ *                       total:
+ *                         type: integer
+ *                         description: Prizes given out plus those left
+ *                       given:
+ *                         type: integer
+ *                       remaining:
+ *                         type: integer
+ *                       planned_given:
+ *                         type: integer
+ *                         nullable: true
+ *                         description: Prizes the plan expects to have been given out by now
+ *                       probability:
+ *                         type: number
+ *                         nullable: true
+ *                         description: Win probability (percent) pacing sets for the next draw; null when the configured odds apply
+ *                       points:
+ *                         type: array
+ *                         items:
+ *                           type: object
+ *                           properties:
+ *                             at:
+ *                               type: string
+ *                               format: date-time
+ *                             planned_remaining:
+ *                               type: integer
+ *                               nullable: true
+ *                             actual_remaining:
+ *                               type: integer
+ *                               nullable: true
+ *                               description: Null for points in the future
+ *       400:
+ *         description: Missing campaign_id, or the campaign has no start and end dates
+ *       404:
+ *         description: Campaign not found
+ */
+router.get('/pacing', requirePermission('inventory:view'), async (req, res) => {
+  try {
+    const { campaign_id } = req.query;
+    if (!campaign_id) {
+      return res.status(400).json({ message: 'campaign_id is required' });
+    }
+
+    const campaign = await getCampaign(req.db, { id: campaign_id });
+    if (!campaign) {
+      return res.status(404).json({ message: 'Campaign not found' });
+    }
+    if (!getCampaignSpan(campaign)) {
+      return res.status(400).json({ message: 'Set the campaign\'s start and end dates to pace its prizes' });
+    }
+
+    res.json({
+      campaign_id: campaign.id,
+      start_date: campaign.start_date,
+      end_date: campaign.end_date,
+      products: await getBurnDown(req.db, campaign)
+    });
+  } catch (err) {
+    console.error('Error fetching prize pacing:', err);
+    res.status(500).json({ message: 'Error fetching prize pacing', error: err.message });
+  }
+});
+
 /**
  * @swagger
  * /prize-distribution/low-stock:
@@ -289,20 +508,36 @@ router.get('/current-wheel', async (req, res) => {
  *         schema:
  *           type: string
  *         description: Filter by specific agent
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Filter by campaign
  *     responses:
  *       200:
  *         description: Products with low stock
  */
 router.get('/low-stock', async (req, res) => {
   try {
-    const { threshold = 5, agent_id } = req.query;
+    const { threshold = 5, agent_id, campaign_id } = req.query;
     
-    let whereClause = 'WHERE available_quantity <= ? AND available_quantity > 0';
+    let whereClause = 'WHERE agent_id IS NOT NULL AND available_quantity <= ? AND available_quantity > 0';
     const params = [threshold];
+    let outOfStockWhere = 'WHERE agent_id IS NOT NULL AND available_quantity = 0';
+    const outOfStockParams = [];
     
     if (agent_id) {
       whereClause += ' AND agent_id = ?';
       params.push(agent_id);
+      outOfStockWhere += ' AND agent_id = ?';
+      outOfStockParams.push(agent_id);
+    }
+
+    if (campaign_id) {
+      whereClause += ' AND campaign_id = ?';
+      params.push(campaign_id);
+      outOfStockWhere += ' AND campaign_id = ?';
+      outOfStockParams.push(campaign_id);
     }
 
     const [lowStockItems] = await req.db.query(`
@@ -322,9 +557,6 @@ router.get('/low-stock', async (req, res) => {
     `, params);
 
     // Get out of stock items
-    const outOfStockWhere = agent_id ? 'WHERE available_quantity = 0 AND agent_id = ?' : 'WHERE available_quantity = 0';
-    const outOfStockParams = agent_id ? [agent_id] : [];
-    
     const [outOfStockItems] = await req.db.query(`
       SELECT 
         product_id,
@@ -1,6 +1,11 @@
-
 const express = require('express');
 const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { getActor } = require('../utils/inventoryLedger');
+const { transferStock } = require('../utils/stockTransfers');
+
+// Assignments are the stock each agent holds. Assigning moves stock out of the warehouse and
+// unassigning returns it, so the warehouse and agent balances always add up.
 
 /**
  * @swagger
@@ -15,7 +20,7 @@ const router = express.Router();
  *       properties:
  *         id:
  *           type: integer
- *           description: Auto-generated unique ID
+ *           description: ID of the agent's stock row
  *         agent_id:
  *           type: string
  *           description: Agent identifier
@@ -24,7 +29,12 @@ const router = express.Router();
  *           description: Product ID
  *         quantity:
  *           type: integer
- *           description: Quantity assigned
+ *           description: Quantity assigned, including prizes already given out
+ *         available_quantity:
+ *           type: integer
+ *           description: Quantity the agent still holds
+ *         distributed_quantity:
+ *           type: integer
  *         created_at:
  *           type: string
  *           format: date-time
@@ -33,6 +43,60 @@ const router = express.Router();
  *           format: date-time
  */
 
+const ASSIGNMENT_QUERY = `
+  SELECT
+    pi.id,
+    pi.agent_id,
+    COALESCE(a.name, pi.agent_name) as agent_name,
+    CAST(pi.product_id AS UNSIGNED) as product_id,
+    pi.product_name,
+    pi.campaign_id,
+    pi.total_quantity as quantity,
+    pi.available_quantity,
+    pi.distributed_quantity,
+    pi.created_at,
+    pi.updated_at
+  FROM product_inventory pi
+  LEFT JOIN agents a ON pi.agent_id = a.agent_id
+  WHERE pi.agent_id IS NOT NULL
+`;
+
+/**
+ * Load one assignment
+ * @param {object} db - Database pool or connection
+ * @param {number|string} id - Stock row ID
+ * @returns {Promise<object|undefined>} - The assignment, or undefined if there is none
+ */
+async function findAssignment(db, id) {
+  const [assignments] = await db.query(`${ASSIGNMENT_QUERY} AND pi.id = ?`, [id]);
+  return assignments[0];
+}
+
+/**
+ * Move stock between the warehouse and an agent inside its own transaction
+ * @param {object} req - Express request
+ * @param {object} transfer - Arguments for transferStock, without the actor
+ * @returns {Promise<object>} - Result of transferStock
+ */
+async function moveStock(req, transfer) {
+  const connection = await req.db.getConnection();
+  try {
+    await connection.beginTransaction();
+    const result = await transferStock(connection, { ...transfer, actor: getActor(req) });
+    if (result.ok) {
+      await connection.commit();
+    } else {
+      await connection.rollback();
+    }
+    return result;
+  } catch (err) {
+    await connection.rollback();
+    throw err;
+  } finally {
+    connection.release();
+  }
+}
+
 /**
  * @swagger
  * /product-assignments:
@@ -44,21 +108,7 @@ const router = express.Router();
  */
 router.get('/', async (req, res) => {
   try {
-    const [assignments] = await req.db.query(`
-      SELECT 
-        pa.id,
-        pa.agent_id,
-        a.name as agent_name,
-        pa.product_id,
-        p.name as product_name,
-        pa.quantity,
-        pa.created_at,
-        pa.updated_at
-      FROM product_assignments pa
-      LEFT JOIN agents a ON pa.agent_id = a.agent_id
-      LEFT JOIN products p ON pa.product_id = p.id
-      ORDER BY pa.created_at DESC
-    `);
+    const [assignments] = await req.db.query(`${ASSIGNMENT_QUERY} ORDER BY pi.created_at DESC`);
     res.json(assignments);
   } catch (err) {
     console.error('Error fetching product assignments:', err);
@@ -70,7 +120,9 @@ router.get('/', async (req, res) => {
  * @swagger
  * /product-assignments:
  *   post:
- *     summary: Create a new product assignment
+ *     summary: Assign warehouse stock of a product to an agent
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -91,57 +143,36 @@ router.get('/', async (req, res) => {
  *     responses:
  *       201:
  *         description: Product assignment created successfully
+ *       409:
+ *         description: Not enough stock in the warehouse
  */
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('products:manage'), async (req, res) => {
   try {
-    const { agent_id, product_id, quantity } = req.body;
+    const { agent_id, product_id } = req.body;
+    const quantity = parseInt(req.body.quantity, 10);
 
-    if (!agent_id || !product_id || !quantity) {
+    if (!agent_id || !product_id || !(quantity > 0)) {
       return res.status(400).json({ message: 'Agent ID, product ID, and quantity are required' });
     }
 
-    // Check if agent exists
-    const [agent] = await req.db.query(
-      'SELECT agent_id FROM agents WHERE agent_id = ?',
-      [agent_id]
-    );
-
-    if (agent.length === 0) {
-      return res.status(400).json({ message: 'Agent not found' });
-    }
-
-    // Check if product exists
-    const [product] = await req.db.query(
-      'SELECT id FROM products WHERE id = ?',
-      [product_id]
-    );
+    const result = await moveStock(req, {
+      fromAgentId: null,
+      toAgentId: agent_id,
+      productId: product_id,
+      quantity,
+      reason: 'Assigned to agent'
+    });
 
-    if (product.length === 0) {
-      return res.status(400).json({ message: 'Product not found' });
+    if (!result.ok) {
+      return res.status(result.status === 404 ? 400 : result.status).json({ message: result.message });
     }
 
-    const [result] = await req.db.query(
-      `INSERT INTO product_assignments (agent_id, product_id, quantity) VALUES (?, ?, ?)`,
-      [agent_id, product_id, quantity]
+    const [assignments] = await req.db.query(
+      `${ASSIGNMENT_QUERY} AND pi.agent_id = ? AND pi.product_id = ? AND pi.campaign_id <=> ?`,
+      [agent_id, result.transfer.product_id, result.transfer.campaign_id]
     );
 
-    const [newAssignment] = await req.db.query(`
-      SELECT 
-        pa.id,
-        pa.agent_id,
-        a.name as agent_name,
-        pa.product_id,
-        p.name as product_name,
-        pa.quantity,
-        pa.created_at,
-        pa.updated_at
-      FROM product_assignments pa
-      LEFT JOIN agents a ON pa.agent_id = a.agent_id
-      LEFT JOIN products p ON pa.product_id = p.id
-      WHERE pa.id = ?
-    `, [result.insertId]);
-
-    res.status(201).json(newAssignment[0]);
+    res.status(201).json(assignments[0]);
   } catch (err) {
     console.error('Error creating product assignment:', err);
     res.status(500).json({ message: 'Error creating product assignment', error: err.message });
@@ -152,7 +183,10 @@ router.post('/', async (req, res) => {
  * @swagger
  * /product-assignments/{id}:
  *   put:
- *     summary: Update a product assignment
+ *     summary: Change how much of a product an agent is assigned
+ *     description: Extra stock comes from the warehouse; stock taken away is returned to it
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -166,80 +200,52 @@ router.post('/', async (req, res) => {
  *           schema:
  *             type: object
  *             required:
- *               - agent_id
- *               - product_id
  *               - quantity
  *             properties:
- *               agent_id:
- *                 type: string
- *               product_id:
- *                 type: integer
  *               quantity:
  *                 type: integer
  *     responses:
  *       200:
  *         description: Product assignment updated successfully
+ *       409:
+ *         description: Not enough stock in the warehouse, or the agent has already given out the stock
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission('products:manage'), async (req, res) => {
   try {
     const { id } = req.params;
-    const { agent_id, product_id, quantity } = req.body;
+    const { agent_id, product_id } = req.body;
+    const quantity = parseInt(req.body.quantity, 10);
 
-    if (!agent_id || !product_id || !quantity) {
-      return res.status(400).json({ message: 'Agent ID, product ID, and quantity are required' });
+    if (!(quantity >= 0)) {
+      return res.status(400).json({ message: 'Quantity is required' });
     }
 
-    const [existingAssignment] = await req.db.query(
-      'SELECT * FROM product_assignments WHERE id = ?',
-      [id]
-    );
-
-    if (existingAssignment.length === 0) {
+    const assignment = await findAssignment(req.db, id);
+    if (!assignment) {
       return res.status(404).json({ message: 'Product assignment not found' });
     }
 
-    // Check if agent exists
-    const [agent] = await req.db.query(
-      'SELECT agent_id FROM agents WHERE agent_id = ?',
-      [agent_id]
-    );
-
-    if (agent.length === 0) {
-      return res.status(400).json({ message: 'Agent not found' });
+    if ((agent_id && agent_id !== assignment.agent_id) || (product_id && Number(product_id) !== assignment.product_id)) {
+      return res.status(400).json({ message: 'Use a stock transfer to move stock to another agent or product' });
     }
 
-    // Check if product exists
-    const [product] = await req.db.query(
-      'SELECT id FROM products WHERE id = ?',
-      [product_id]
-    );
+    const difference = quantity - assignment.quantity;
+    if (difference !== 0) {
+      const result = await moveStock(req, {
+        fromAgentId: difference > 0 ? null : assignment.agent_id,
+        toAgentId: difference > 0 ? assignment.agent_id : null,
+        productId: assignment.product_id,
+        campaignId: assignment.campaign_id,
+        quantity: Math.abs(difference),
+        reason: difference > 0 ? 'Assignment increased' : 'Assignment reduced'
+      });
 
-    if (product.length === 0) {
-      return res.status(400).json({ message: 'Product not found' });
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
     }
 
-    await req.db.query(
-      `UPDATE product_assignments SET agent_id = ?, product_id = ?, quantity = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-      [agent_id, product_id, quantity, id]
-    );
-
-    const [updatedAssignment] = await req.db.query(`
-      SELECT 
-        pa.id,
-        pa.agent_id,
-        a.name as agent_name,
-        pa.product_id,
-        p.name as product_name,
-        pa.quantity,
-        pa.created_at,
-        pa.updated_at
-      FROM product_assignments pa
-      LEFT JOIN agents a ON pa.agent_id = a.agent_id
-      LEFT JOIN products p ON pa.product_id = p.id
-      WHERE pa.id = ?
-    `, [id]);
-
-    res.json(updatedAssignment[0]);
+    res.json(await findAssignment(req.db, id));
   } catch (err) {
     console.error('Error updating product assignment:', err);
     res.status(500).json({ message: 'Error updating product assignment', error: err.message });
@@ -250,7 +256,10 @@ router.put('/:id', async (req, res) => {
  * @swagger
  * /product-assignments/{id}:
  *   delete:
- *     summary: Delete a product assignment
+ *     summary: Return an agent's remaining stock of a product to the warehouse
+ *     description: The assignment is removed once the agent has not given any of it out
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -261,21 +270,36 @@ router.put('/:id', async (req, res) => {
  *       200:
  *         description: Product assignment deleted successfully
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('products:manage'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const [existingAssignment] = await req.db.query(
-      'SELECT * FROM product_assignments WHERE id = ?',
-      [id]
-    );
-
-    if (existingAssignment.length === 0) {
+    const assignment = await findAssignment(req.db, id);
+    if (!assignment) {
       return res.status(404).json({ message: 'Product assignment not found' });
     }
 
-    await req.db.query('DELETE FROM product_assignments WHERE id = ?', [id]);
-    
+    if (assignment.available_quantity > 0) {
+      const result = await moveStock(req, {
+        fromAgentId: assignment.agent_id,
+        toAgentId: null,
+        productId: assignment.product_id,
+        campaignId: assignment.campaign_id,
+        quantity: assignment.available_quantity,
+        reason: 'Assignment removed'
+      });
+
+      if (!result.ok) {
+        return res.status(result.status).json({ message: result.message });
+      }
+    }
+
+    // Rows with prizes given out stay, so the wins can still be traced to the agent
+    await req.db.query(
+      'DELETE FROM product_inventory WHERE id = ? AND total_quantity = 0 AND distributed_quantity = 0',
+      [id]
+    );
+
     res.json({ message: 'Product assignment deleted successfully' });
   } catch (err) {
     console.error('Error deleting product assignment:', err);
@@ -1,6 +1,38 @@
 
 const express = require('express');
 const router = express.Router();
+const { getActor } = require('../utils/inventoryLedger');
+const { requirePermission } = require('../middleware/auth');
+const { PACING_CURVES } = require('../utils/pacing');
+const { PRIZE_TIERS, DEFAULT_PRIZE_TIER } = require('../utils/wheelConfig');
+
+// Parse an optional win probability (percent). Returns undefined when invalid.
+const parseWinProbability = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  const probability = parseFloat(value);
+  if (isNaN(probability) || probability < 0 || probability > 100) {
+    return undefined;
+  }
+  return probability;
+};
+
+// Parse an optional pacing curve. Returns undefined when invalid.
+const parsePacingCurve = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  return Object.values(PACING_CURVES).includes(value) ? value : undefined;
+};
+
+// Parse an optional prize tier, defaulting to standard. Returns undefined when invalid.
+const parsePrizeTier = (value) => {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_PRIZE_TIER;
+  }
+  return Object.values(PRIZE_TIERS).includes(value) ? value : undefined;
+};
 
 /**
  * @swagger
@@ -21,6 +53,34 @@ const router = express.Router();
  *         description:
  *           type: string
  *           description: Product description
+ *         win_probability:
+ *           type: number
+ *           nullable: true
+ *           description: Chance (in percent) that a spin lands on this prize. Uses the default sector odds when empty
+ *         pacing_curve:
+ *           type: string
+ *           nullable: true
+ *           enum: [even_daily, even_hourly, front_loaded, back_loaded]
+ *           description: Spread the prize's stock over its campaign along this curve instead of drawing it at the configured odds
+ *         prize_tier:
+ *           type: string
+ *           enum: [grand, standard, consolation]
+ *           description: Grand and standard prizes have sectors of their own. A consolation prize is given on the wheel's losing sectors while it is in stock
+ *         campaign_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Campaign whose prize pool the product belongs to
+ *         total_quantity:
+ *           type: integer
+ *           description: Stock held by the warehouse and all agents, including prizes given out
+ *         available_quantity:
+ *           type: integer
+ *           description: Stock not yet given out, in the warehouse or with agents
+ *         distributed_quantity:
+ *           type: integer
+ *         warehouse_quantity:
+ *           type: integer
+ *           description: Available stock still in the warehouse
  *         created_at:
  *           type: string
  *           format: date-time
@@ -34,6 +94,12 @@ const router = express.Router();
  * /products:
  *   get:
  *     summary: Get all products
+ *     parameters:
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Only return the prize pool of this campaign
  *     responses:
  *       200:
  *         description: List of products
@@ -46,30 +112,10 @@ const router = express.Router();
  */
 router.get('/', async (req, res) => {
   try {
-    // Ensure product_stock table exists so we can join stock info
-    await req.db.query(`
-      CREATE TABLE IF NOT EXISTS product_stock (
-        product_id INT PRIMARY KEY,
-        total_quantity INT NOT NULL DEFAULT 0,
-        available_quantity INT NOT NULL DEFAULT 0,
-        distributed_quantity INT NOT NULL DEFAULT 0,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
+    const { campaign_id } = req.query;
 
-    const [products] = await req.db.query(`
-      SELECT 
-        p.id, p.name, p.description, p.created_at, p.updated_at,
-        COALESCE(ps.total_quantity, 0) + IFNULL(SUM(pi.total_quantity), 0) AS total_quantity,
-        COALESCE(ps.available_quantity, 0) + IFNULL(SUM(pi.available_quantity), 0) AS available_quantity,
-        COALESCE(ps.distributed_quantity, 0) + IFNULL(SUM(pi.distributed_quantity), 0) AS distributed_quantity
-      FROM products p
-      LEFT JOIN product_stock ps ON ps.product_id = p.id
-      LEFT JOIN product_inventory pi ON pi.product_id = p.id
-      GROUP BY p.id, p.name, p.description, p.created_at, p.updated_at, ps.total_quantity, ps.available_quantity, ps.distributed_quantity
-      ORDER BY p.created_at DESC
-    `);
+    // Stock is summed over the warehouse and every agent holding the product
+    const products = await req.repos.products.list({ campaignId: campaign_id });
     res.json(products);
   } catch (err) {
     console.error('Error fetching products:', err);
@@ -82,6 +128,8 @@ router.get('/', async (req, res) => {
  * /products:
  *   post:
  *     summary: Create a new product
+ *     security:
+ *       - bearerAuth: []
  *     requestBody:
  *       required: true
  *       content:
@@ -96,56 +144,58 @@ router.get('/', async (req, res) => {
  *                 type: string
  *               description:
  *                 type: string
+ *               quantity:
+ *                 type: integer
+ *                 description: Initial stock, put in the warehouse
+ *               win_probability:
+ *                 type: number
+ *                 description: Chance (in percent) that a spin lands on this prize
+ *               pacing_curve:
+ *                 type: string
+ *                 enum: [even_daily, even_hourly, front_loaded, back_loaded]
+ *                 description: Pace the prize over its campaign. Leave empty to draw it at the configured odds
+ *               prize_tier:
+ *                 type: string
+ *                 enum: [grand, standard, consolation]
+ *                 description: Defaults to standard
+ *               campaign_id:
+ *                 type: integer
+ *                 description: Campaign whose prize pool the product belongs to
  *     responses:
  *       201:
  *         description: Product created successfully
  */
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('products:manage'), async (req, res) => {
   try {
     const { name, description, quantity } = req.body;
+    const win_probability = parseWinProbability(req.body.win_probability);
+    const pacing_curve = parsePacingCurve(req.body.pacing_curve);
+    const prize_tier = parsePrizeTier(req.body.prize_tier);
+    const campaign_id = req.body.campaign_id || null;
 
     if (!name || !description) {
       return res.status(400).json({ message: 'Name and description are required' });
     }
 
-    const [result] = await req.db.query(
-      `INSERT INTO products (name, description) VALUES (?, ?)`,
-      [name, description]
-    );
-
-    const [newProduct] = await req.db.query(
-      'SELECT * FROM products WHERE id = ?',
-      [result.insertId]
-    );
-
-    // If initial quantity provided, create/update global stock without assigning to an agent
-    if (quantity !== undefined && quantity !== null && !isNaN(parseInt(quantity))) {
-      const initialQty = Math.max(0, parseInt(quantity));
+    if (win_probability === undefined) {
+      return res.status(400).json({ message: 'Win probability must be a number between 0 and 100' });
+    }
 
-      // Ensure product_stock table exists
-      await req.db.query(`
-        CREATE TABLE IF NOT EXISTS product_stock (
-          product_id INT PRIMARY KEY,
-          total_quantity INT NOT NULL DEFAULT 0,
-          available_quantity INT NOT NULL DEFAULT 0,
-          distributed_quantity INT NOT NULL DEFAULT 0,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-        )
-      `);
+    if (pacing_curve === undefined) {
+      return res.status(400).json({ message: `Pacing curve must be one of ${Object.values(PACING_CURVES).join(', ')}` });
+    }
 
-      // Upsert stock
-      await req.db.query(
-        `INSERT INTO product_stock (product_id, total_quantity, available_quantity, distributed_quantity)
-         VALUES (?, ?, ?, 0)
-         ON DUPLICATE KEY UPDATE
-           total_quantity = VALUES(total_quantity),
-           available_quantity = VALUES(available_quantity)`,
-        [result.insertId, initialQty, initialQty]
-      );
+    if (prize_tier === undefined) {
+      return res.status(400).json({ message: `Prize tier must be one of ${Object.values(PRIZE_TIERS).join(', ')}` });
     }
 
-    res.status(201).json(newProduct[0]);
+    const hasQuantity = quantity !== undefined && quantity !== null && !isNaN(parseInt(quantity));
+    const newProduct = await req.repos.products.create(
+      { name, description, win_probability, pacing_curve, prize_tier, campaign_id },
+      { quantity: hasQuantity ? Math.max(0, parseInt(quantity)) : undefined, actor: getActor(req) }
+    );
+
+    res.status(201).json(newProduct);
   } catch (err) {
     console.error('Error creating product:', err);
     res.status(500).json({ message: 'Error creating product', error: err.message });
@@ -157,6 +207,8 @@ router.post('/', async (req, res) => {
  * /products/{id}:
  *   put:
  *     summary: Update a product
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -177,39 +229,65 @@ router.post('/', async (req, res) => {
  *                 type: string
  *               description:
  *                 type: string
+ *               win_probability:
+ *                 type: number
+ *                 description: Chance (in percent) that a spin lands on this prize
+ *               pacing_curve:
+ *                 type: string
+ *                 enum: [even_daily, even_hourly, front_loaded, back_loaded]
+ *                 description: Pace the prize over its campaign. Leave empty to draw it at the configured odds
+ *               prize_tier:
+ *                 type: string
+ *                 enum: [grand, standard, consolation]
+ *                 description: Defaults to standard
+ *               campaign_id:
+ *                 type: integer
+ *                 description: Campaign whose prize pool the product belongs to
  *     responses:
  *       200:
  *         description: Product updated successfully
  */
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission('products:manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, description } = req.body;
+    const win_probability = parseWinProbability(req.body.win_probability);
+    const pacing_curve = parsePacingCurve(req.body.pacing_curve);
+    const prize_tier = parsePrizeTier(req.body.prize_tier);
 
     if (!name || !description) {
       return res.status(400).json({ message: 'Name and description are required' });
     }
 
-    const [existingProduct] = await req.db.query(
-      'SELECT * FROM products WHERE id = ?',
-      [id]
-    );
+    if (win_probability === undefined) {
+      return res.status(400).json({ message: 'Win probability must be a number between 0 and 100' });
+    }
 
-    if (existingProduct.length === 0) {
-      return res.status(404).json({ message: 'Product not found' });
+    if (pacing_curve === undefined) {
+      return res.status(400).json({ message: `Pacing curve must be one of ${Object.values(PACING_CURVES).join(', ')}` });
     }
 
-    await req.db.query(
-      `UPDATE products SET name = ?, description = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?`,
-      [name, description, id]
-    );
+    if (prize_tier === undefined) {
+      return res.status(400).json({ message: `Prize tier must be one of ${Object.values(PRIZE_TIERS).join(', ')}` });
+    }
 
-    const [updatedProduct] = await req.db.query(
-      'SELECT * FROM products WHERE id = ?',
-      [id]
-    );
+    const existingProduct = await req.repos.products.findById(id);
+
+    if (!existingProduct) {
+      return res.status(404).json({ message: 'Product not found' });
+    }
+
+    const updatedProduct = await req.repos.products.update(id, {
+      name,
+      description,
+      // Keep the configured odds, pacing, tier and campaign when the client does not send them
+      win_probability: req.body.win_probability !== undefined ? win_probability : existingProduct.win_probability,
+      pacing_curve: req.body.pacing_curve !== undefined ? pacing_curve : existingProduct.pacing_curve,
+      prize_tier: req.body.prize_tier !== undefined ? prize_tier : existingProduct.prize_tier || DEFAULT_PRIZE_TIER,
+      campaign_id: req.body.campaign_id !== undefined ? (req.body.campaign_id || null) : existingProduct.campaign_id
+    });
 
-    res.json(updatedProduct[0]);
+    res.json(updatedProduct);
   } catch (err) {
     console.error('Error updating product:', err);
     res.status(500).json({ message: 'Error updating product', error: err.message });
@@ -221,6 +299,8 @@ router.put('/:id', async (req, res) => {
  * /products/{id}:
  *   delete:
  *     summary: Delete a product
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -231,20 +311,15 @@ router.put('/:id', async (req, res) => {
  *       200:
  *         description: Product deleted successfully
  */
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('products:manage'), async (req, res) => {
   try {
     const { id } = req.params;
 
-    const [existingProduct] = await req.db.query(
-      'SELECT * FROM products WHERE id = ?',
-      [id]
-    );
+    const deleted = await req.repos.products.remove(id, { actor: getActor(req) });
 
-    if (existingProduct.length === 0) {
+    if (!deleted) {
       return res.status(404).json({ message: 'Product not found' });
     }
-
-    await req.db.query('DELETE FROM products WHERE id = ?', [id]);
     
     res.json({ message: 'Product deleted successfully' });
   } catch (err) {
@@ -0,0 +1,304 @@
+const express = require('express');
+const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { parsePurchase } = require('../utils/purchases');
+const { getReceiptStorage } = require('../storage');
+
+// Conditions shared by the purchase list and report. Returns { where, params }.
+const purchaseFilters = ({ campaign_id, agent_id, from, to }) => {
+  const conditions = [];
+  const params = [];
+  if (campaign_id) {
+    conditions.push('p.campaign_id = ?');
+    params.push(campaign_id);
+  }
+  if (agent_id) {
+    conditions.push('p.agent_id = ?');
+    params.push(agent_id);
+  }
+  if (from) {
+    conditions.push('p.created_at >= ?');
+    params.push(from);
+  }
+  if (to) {
+    conditions.push('p.created_at < DATE_ADD(?, INTERVAL 1 DAY)');
+    params.push(to);
+  }
+  return { where: conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '', params };
+};
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Purchase:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         campaign_id:
+ *           type: integer
+ *         agent_id:
+ *           type: string
+ *         agent_name:
+ *           type: string
+ *         user_contact:
+ *           type: string
+ *         receipt_number:
+ *           type: string
+ *         till:
+ *           type: string
+ *           nullable: true
+ *         skus:
+ *           type: array
+ *           items:
+ *             type: string
+ *         amount:
+ *           type: number
+ *         has_photo:
+ *           type: boolean
+ *         used_at:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: When the purchase was used to start a game
+ *         spin_result_id:
+ *           type: integer
+ *           nullable: true
+ *         prize_label:
+ *           type: string
+ *           nullable: true
+ *         is_win:
+ *           type: boolean
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /purchases:
+ *   get:
+ *     summary: Get the receipts customers played with
+ *     description: Each purchase comes with the spin result it was played on, once that has been recorded
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: agent_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: List of purchases, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Purchase'
+ */
+router.get('/', requirePermission('stats:view'), async (req, res) => {
+  try {
+    const { where, params } = purchaseFilters(req.query);
+    const [purchases] = await req.db.query(`
+      SELECT p.*, a.name as agent_name, sr.id as spin_result_id, sr.prize_label, sr.is_win
+      FROM purchases p
+      LEFT JOIN agents a ON a.agent_id = p.agent_id
+      LEFT JOIN spin_results sr ON sr.purchase_id = p.id
+      ${where}
+      ORDER BY p.created_at DESC
+    `, params);
+
+    res.json(purchases.map(row => ({
+      ...parsePurchase(row),
+      is_win: row.is_win === null ? null : !!row.is_win
+    })));
+  } catch (err) {
+    console.error('Error fetching purchases:', err);
+    res.status(500).json({ message: 'Error fetching purchases', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /purchases/report:
+ *   get:
+ *     summary: Get sales attributed to a campaign
+ *     description: Purchases, sales and wins for the campaign, by SKU and by BA. A receipt with several SKUs counts once for each of them, so the SKU rows add up to more than the total.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campaign_id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Sales report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 purchases:
+ *                   type: integer
+ *                 amount:
+ *                   type: number
+ *                   description: Total of the receipts
+ *                 played:
+ *                   type: integer
+ *                   description: Purchases with a recorded spin
+ *                 wins:
+ *                   type: integer
+ *                 by_sku:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       sku:
+ *                         type: string
+ *                       purchases:
+ *                         type: integer
+ *                       amount:
+ *                         type: number
+ *                       wins:
+ *                         type: integer
+ *                 by_agent:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       agent_id:
+ *                         type: string
+ *                       agent_name:
+ *                         type: string
+ *                       purchases:
+ *                         type: integer
+ *                       amount:
+ *                         type: number
+ *                       wins:
+ *                         type: integer
+ *       400:
+ *         description: campaign_id is missing
+ */
+router.get('/report', requirePermission('stats:view'), async (req, res) => {
+  try {
+    const { campaign_id, from, to } = req.query;
+    if (!campaign_id) {
+      return res.status(400).json({ message: 'campaign_id is required' });
+    }
+
+    const { where, params } = purchaseFilters({ campaign_id, from, to });
+    const [rows] = await req.db.query(`
+      SELECT p.id, p.agent_id, p.skus, p.amount, a.name as agent_name, sr.id as spin_result_id, sr.is_win
+      FROM purchases p
+      LEFT JOIN agents a ON a.agent_id = p.agent_id
+      LEFT JOIN spin_results sr ON sr.purchase_id = p.id
+      ${where}
+    `, params);
+
+    const purchases = rows.map(parsePurchase);
+    const addTo = (groups, key, entry, purchase) => {
+      const group = groups.get(key) || { ...entry, purchases: 0, amount: 0, wins: 0 };
+      group.purchases++;
+      group.amount += purchase.amount;
+      if (purchase.is_win) {
+        group.wins++;
+      }
+      groups.set(key, group);
+    };
+
+    const bySku = new Map();
+    const byAgent = new Map();
+    purchases.forEach(purchase => {
+      purchase.skus.forEach(sku => addTo(bySku, sku, { sku }, purchase));
+      addTo(byAgent, purchase.agent_id, { agent_id: purchase.agent_id, agent_name: purchase.agent_name }, purchase);
+    });
+    const roundAmounts = group => ({ ...group, amount: Math.round(group.amount * 100) / 100 });
+
+    res.json({
+      purchases: purchases.length,
+      amount: Math.round(purchases.reduce((sum, purchase) => sum + purchase.amount, 0) * 100) / 100,
+      played: purchases.filter(purchase => purchase.spin_result_id).length,
+      wins: purchases.filter(purchase => purchase.is_win).length,
+      by_sku: Array.from(bySku.values()).map(roundAmounts).sort((a, b) => b.purchases - a.purchases),
+      by_agent: Array.from(byAgent.values()).map(roundAmounts).sort((a, b) => b.amount - a.amount)
+    });
+  } catch (err) {
+    console.error('Error fetching purchase report:', err);
+    res.status(500).json({ message: 'Error fetching purchase report', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /purchases/{id}/receipt:
+ *   get:
+ *     summary: Get the photo of a purchase's receipt
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: The photo
+ *         content:
+ *           image/*:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Purchase not found, or it has no photo
+ */
+router.get('/:id/receipt', requirePermission('stats:view'), async (req, res) => {
+  try {
+    const [purchases] = await req.db.query(
+      'SELECT photo_key, photo_content_type FROM purchases WHERE id = ?',
+      [req.params.id]
+    );
+    if (purchases.length === 0 || !purchases[0].photo_key) {
+      return res.status(404).json({ message: 'Receipt photo not found' });
+    }
+
+    const photo = await getReceiptStorage().read(purchases[0].photo_key);
+    res.setHeader('Content-Type', purchases[0].photo_content_type || 'application/octet-stream');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    res.send(photo);
+  } catch (err) {
+    console.error('Error fetching receipt photo:', err);
+    res.status(500).json({ message: 'Error fetching receipt photo', error: err.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,326 @@
+const express = require('express');
+const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { normalizeQuestion, parseQuestion } = require('../utils/quiz');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     QuizQuestion:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         campaign_id:
+ *           type: integer
+ *           nullable: true
+ *           description: Campaign the question is asked in; questions without one are asked in every campaign with a quiz
+ *         question:
+ *           type: string
+ *         options:
+ *           type: array
+ *           items:
+ *             type: string
+ *         correct_option:
+ *           type: integer
+ *           description: Position of the correct option, starting at 0
+ *         is_active:
+ *           type: boolean
+ *           description: Inactive questions stay in the bank but are not asked
+ */
+
+/**
+ * @swagger
+ * /quiz-questions:
+ *   get:
+ *     summary: Get the quiz question bank
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Only return the questions asked in this campaign, including the shared ones
+ *     responses:
+ *       200:
+ *         description: List of questions
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/QuizQuestion'
+ */
+router.get('/', requirePermission('campaigns:manage'), async (req, res) => {
+  try {
+    const { campaign_id } = req.query;
+    const [questions] = campaign_id
+      ? await req.db.query(
+        'SELECT * FROM quiz_questions WHERE campaign_id = ? OR campaign_id IS NULL ORDER BY created_at DESC',
+        [campaign_id]
+      )
+      : await req.db.query('SELECT * FROM quiz_questions ORDER BY created_at DESC');
+    res.json(questions.map(parseQuestion));
+  } catch (err) {
+    console.error('Error fetching quiz questions:', err);
+    res.status(500).json({ message: 'Error fetching quiz questions', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /quiz-questions/report:
+ *   get:
+ *     summary: Get quiz engagement for a campaign
+ *     description: How many customers answered the quiz, passed it and went on to play, and how often each question was answered correctly
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campaign_id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Quiz report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attempts:
+ *                   type: integer
+ *                 passed:
+ *                   type: integer
+ *                 played:
+ *                   type: integer
+ *                   description: Attempts that were used to start a game
+ *                 questions:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       question_id:
+ *                         type: integer
+ *                       question:
+ *                         type: string
+ *                       asked:
+ *                         type: integer
+ *                       correct:
+ *                         type: integer
+ *       400:
+ *         description: campaign_id is missing
+ */
+router.get('/report', requirePermission('stats:view'), async (req, res) => {
+  try {
+    const { campaign_id, from, to } = req.query;
+    if (!campaign_id) {
+      return res.status(400).json({ message: 'campaign_id is required' });
+    }
+
+    const conditions = ['campaign_id = ?'];
+    const params = [campaign_id];
+    if (from) {
+      conditions.push('created_at >= ?');
+      params.push(from);
+    }
+    if (to) {
+      conditions.push('created_at < DATE_ADD(?, INTERVAL 1 DAY)');
+      params.push(to);
+    }
+
+    const [attempts] = await req.db.query(
+      `SELECT answers, passed, used_at FROM quiz_attempts WHERE ${conditions.join(' AND ')}`,
+      params
+    );
+
+    // Answers are grouped by question; the wording is the one the customer was shown
+    const questions = new Map();
+    attempts.forEach(attempt => {
+      let answers = [];
+      try {
+        answers = JSON.parse(attempt.answers);
+      } catch (err) {
+        console.error('Invalid answers on quiz attempt:', err.message);
+      }
+      answers.forEach(answer => {
+        const entry = questions.get(answer.question_id) ||
+          { question_id: answer.question_id, question: answer.question, asked: 0, correct: 0 };
+        entry.asked++;
+        if (answer.is_correct) {
+          entry.correct++;
+        }
+        questions.set(answer.question_id, entry);
+      });
+    });
+
+    res.json({
+      attempts: attempts.length,
+      passed: attempts.filter(attempt => attempt.passed).length,
+      played: attempts.filter(attempt => attempt.used_at).length,
+      questions: Array.from(questions.values()).sort((a, b) => b.asked - a.asked)
+    });
+  } catch (err) {
+    console.error('Error fetching quiz report:', err);
+    res.status(500).json({ message: 'Error fetching quiz report', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /quiz-questions:
+ *   post:
+ *     summary: Add a question to the quiz question bank
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/QuizQuestion'
+ *     responses:
+ *       201:
+ *         description: Question added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QuizQuestion'
+ *       400:
+ *         description: Invalid question
+ *       404:
+ *         description: Campaign not found
+ */
+router.post('/', requirePermission('campaigns:manage'), async (req, res) => {
+  try {
+    const { question, error } = normalizeQuestion(req.body || {});
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (question.campaign_id) {
+      const [campaigns] = await req.db.query('SELECT id FROM campaigns WHERE id = ?', [question.campaign_id]);
+      if (campaigns.length === 0) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+    }
+
+    const [result] = await req.db.query(
+      'INSERT INTO quiz_questions (campaign_id, question, options, correct_option, is_active) VALUES (?, ?, ?, ?, ?)',
+      [question.campaign_id, question.question, JSON.stringify(question.options), question.correct_option, question.is_active]
+    );
+
+    const [questions] = await req.db.query('SELECT * FROM quiz_questions WHERE id = ?', [result.insertId]);
+    res.status(201).json(parseQuestion(questions[0]));
+  } catch (err) {
+    console.error('Error adding quiz question:', err);
+    res.status(500).json({ message: 'Error adding quiz question', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /quiz-questions/{id}:
+ *   put:
+ *     summary: Change a quiz question
+ *     description: Answers customers already gave keep the wording they were shown
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/QuizQuestion'
+ *     responses:
+ *       200:
+ *         description: Question updated
+ *       400:
+ *         description: Invalid question
+ *       404:
+ *         description: Question or campaign not found
+ */
+router.put('/:id', requirePermission('campaigns:manage'), async (req, res) => {
+  try {
+    const { question, error } = normalizeQuestion(req.body || {});
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    if (question.campaign_id) {
+      const [campaigns] = await req.db.query('SELECT id FROM campaigns WHERE id = ?', [question.campaign_id]);
+      if (campaigns.length === 0) {
+        return res.status(404).json({ message: 'Campaign not found' });
+      }
+    }
+
+    const [result] = await req.db.query(
+      'UPDATE quiz_questions SET campaign_id = ?, question = ?, options = ?, correct_option = ?, is_active = ? WHERE id = ?',
+      [question.campaign_id, question.question, JSON.stringify(question.options), question.correct_option,
+        question.is_active, req.params.id]
+    );
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Quiz question not found' });
+    }
+
+    const [questions] = await req.db.query('SELECT * FROM quiz_questions WHERE id = ?', [req.params.id]);
+    res.json(parseQuestion(questions[0]));
+  } catch (err) {
+    console.error('Error updating quiz question:', err);
+    res.status(500).json({ message: 'Error updating quiz question', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /quiz-questions/{id}:
+ *   delete:
+ *     summary: Remove a question from the quiz question bank
+ *     description: Answers customers already gave are kept for reporting
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Question removed
+ *       404:
+ *         description: Question not found
+ */
+router.delete('/:id', requirePermission('campaigns:manage'), async (req, res) => {
+  try {
+    const [result] = await req.db.query('DELETE FROM quiz_questions WHERE id = ?', [req.params.id]);
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Quiz question not found' });
+    }
+    res.json({ message: 'Quiz question removed successfully' });
+  } catch (err) {
+    console.error('Error removing quiz question:', err);
+    res.status(500).json({ message: 'Error removing quiz question', error: err.message });
+  }
+});
+
+module.exports = router;
@@ -1,7 +1,27 @@
 
 const express = require('express');
 const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
 const { mapPrizeToProductId, isProductWin } = require('../utils/productMapping');
+const { verifySpinToken } = require('../utils/spinToken');
+const { consumePrizeStock, insertSpinResult, findSpinByIdempotencyKey } = require('../utils/spinRecorder');
+const { hasValidIdempotencyKey } = require('../utils/spinSync');
+const { assignClaimCode, getClaimStatus } = require('../utils/claimCodes');
+const { scanSpinLater } = require('../utils/fraudRules');
+const { getActor } = require('../utils/inventoryLedger');
+const { findReachedCap } = require('../utils/prizeCaps');
+const { TRY_AGAIN_LABEL, PRIZE_TIERS } = require('../utils/wheelConfig');
+
+// What the client is told about a recorded spin, the first time and on every retry
+const toRecordedSpin = (message, { id, prize_label, is_win, prize_tier, claim_code, claim_expires_at }) => ({
+  message,
+  id,
+  prize: prize_label,
+  is_win: !!is_win,
+  prize_tier: prize_tier || null,
+  claim_code: claim_code || null,
+  claim_expires_at: claim_expires_at || null
+});
 
 // Enhanced CORS middleware for all routes
 router.use((req, res, next) => {
@@ -17,7 +37,9 @@ router.use((req, res, next) => {
  * /spin-results:
  *   get:
  *     summary: Retrieve all spin results
- *     description: Get a list of all spin results with optional date filtering
+ *     description: Get a list of all spin results with optional date filtering. Claim codes and IP addresses are left out; admins with results:export get claim codes in the export
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: query
  *         name: from_date
@@ -31,55 +53,28 @@ router.use((req, res, next) => {
  *           type: string
  *           format: date
  *         description: End date for filtering results (YYYY-MM-DD format)
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Only return spins from this campaign
  *     responses:
  *       200:
- *         description: A list of spin results
+ *         description: A list of spin results. Wins include a claim_status of unclaimed, claimed, expired or voided; their claim codes are only in the admin export. Wins have the prize_tier they were won at (grand, standard or consolation). Spins that drew a prize that had reached a cap have the reason in cap_reason
  *       500:
  *         description: Server error
  */
 
-router.get('/', async (req, res) => {
-  let connection;
+router.get('/', requirePermission('stats:view'), async (req, res) => {
   try {
     console.log('Fetching spin results from database...');
     
-    // Get connection from pool with timeout
-    connection = await Promise.race([
-      req.db.getConnection(),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Database connection timeout')), 10000)
-      )
-    ]);
-    
-    let query = 'SELECT * FROM spin_results';
-    const queryParams = [];
-    
     // Add date filtering if provided
-    const { from_date, to_date } = req.query;
-    const conditions = [];
-    
-    if (from_date) {
-      conditions.push('DATE(date) >= ?');
-      queryParams.push(from_date);
-    }
-    
-    if (to_date) {
-      conditions.push('DATE(date) <= ?');
-      queryParams.push(to_date);
-    }
-    
-    if (conditions.length > 0) {
-      query += ' WHERE ' + conditions.join(' AND ');
-    }
-    
-    query += ' ORDER BY date DESC';
-    
-    console.log('Executing query:', query, 'with params:', queryParams);
-    
-    const [spinResults] = await connection.query(query, queryParams);
+    const { from_date, to_date, campaign_id } = req.query;
+    const spinResults = await req.repos.spinResults.list({ fromDate: from_date, toDate: to_date, campaignId: campaign_id });
     console.log(`Successfully fetched ${spinResults.length} spin results`);
     
-    res.status(200).json(spinResults);
+    res.status(200).json(spinResults.map(spin => ({ ...spin, claim_status: getClaimStatus(spin) })));
   } catch (err) {
     console.error('Error fetching spin results:', err);
     res.status(500).json({ 
@@ -87,14 +82,6 @@ router.get('/', async (req, res) => {
       error: err.message,
       code: err.code || 'UNKNOWN_ERROR'
     });
-  } finally {
-    if (connection) {
-      try {
-        connection.release();
-      } catch (releaseErr) {
-        console.error('Error releasing connection:', releaseErr);
-      }
-    }
   }
 });
 
@@ -104,6 +91,14 @@ router.get('/', async (req, res) => {
  *   get:
  *     summary: Get statistics about spin results
  *     description: Returns counts of wins vs losses and prize distribution
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Only count spins from this campaign
  *     responses:
  *       200:
  *         description: Spin result statistics
@@ -129,63 +124,18 @@ router.get('/', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.get('/stats', async (req, res) => {
-  let connection;
+router.get('/stats', requirePermission('stats:view'), async (req, res) => {
   try {
     console.log('Fetching spin result statistics...');
     
-    connection = await Promise.race([
-      req.db.getConnection(),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Database connection timeout')), 10000)
-      )
-    ]);
-    
-    const [totalResults] = await connection.query('SELECT COUNT(*) as total FROM spin_results');
-    const [winsResults] = await connection.query('SELECT COUNT(*) as wins FROM spin_results WHERE is_win = true');
-    
-    const totalSpins = totalResults[0].total;
-    const wins = winsResults[0].wins;
+    const { totalSpins, wins, uniqueUsers, prizeCounts, prizeWinRates, timeData } =
+      await req.repos.spinResults.getStats({ campaignId: req.query.campaign_id });
     const losses = totalSpins - wins;
     
-    // Get prize distribution
-    const [prizesResults] = await connection.query(
-      'SELECT prize, COUNT(*) as count FROM spin_results GROUP BY prize ORDER BY count DESC'
-    );
-    
     const prizeDistribution = {};
-    prizesResults.forEach(prize => {
+    prizeCounts.forEach(prize => {
       prizeDistribution[prize.prize] = prize.count;
     });
-
-    // Get prize win rate
-    const [prizeWinRates] = await connection.query(`
-      SELECT 
-        prize, 
-        COUNT(*) as total_count,
-        SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) as win_count,
-        SUM(CASE WHEN is_win = false THEN 1 ELSE 0 END) as loss_count,
-        (SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) / COUNT(*)) * 100 as win_percentage
-      FROM spin_results 
-      GROUP BY prize
-      ORDER BY win_count DESC
-    `);
-
-    // Get user statistics
-    const [userCountResults] = await connection.query('SELECT COUNT(DISTINCT email) as unique_users FROM spin_results');
-    const uniqueUsers = userCountResults[0].unique_users;
-
-    // Get win data over time (last 7 days)
-    const [timeData] = await connection.query(`
-      SELECT 
-        DATE(date) as spin_date, 
-        COUNT(*) as total,
-        SUM(CASE WHEN is_win = true THEN 1 ELSE 0 END) as wins
-      FROM spin_results
-      WHERE date >= DATE_SUB(CURDATE(), INTERVAL 7 DAY)
-      GROUP BY DATE(date)
-      ORDER BY spin_date ASC
-    `);
     
     console.log('Successfully fetched spin result statistics');
     
@@ -205,14 +155,6 @@ router.get('/stats', async (req, res) => {
       error: err.message,
       code: err.code || 'UNKNOWN_ERROR'
     });
-  } finally {
-    if (connection) {
-      try {
-        connection.release();
-      } catch (releaseErr) {
-        console.error('Error releasing connection:', releaseErr);
-      }
-    }
   }
 });
 
@@ -221,7 +163,7 @@ router.get('/stats', async (req, res) => {
  * /spin-results:
  *   post:
  *     summary: Record a new spin result
- *     description: Create a new spin result record in the database
+ *     description: Record the outcome of a spin drawn by POST /spins/draw. The prize is taken from the spin token, which can only be used once. A win that would go over one of the prize's caps is recorded as the consolation prize, or as a losing spin when there is none, with the reason in cap_reason; the response reports the outcome that was recorded.
  *     requestBody:
  *       required: true
  *       content:
@@ -232,8 +174,7 @@ router.get('/stats', async (req, res) => {
  *               - name
  *               - email
  *               - location
- *               - prize
- *               - is_win
+ *               - spin_token
  *             properties:
  *               name:
  *                 type: string
@@ -244,159 +185,215 @@ router.get('/stats', async (req, res) => {
  *               location:
  *                 type: string
  *                 description: Location of the participant
- *               agent_name:
+ *               spin_token:
  *                 type: string
- *                 description: Name of the agent (optional)
- *               prize:
+ *                 description: Signed token returned by POST /spins/draw
+ *               idempotency_key:
  *                 type: string
- *                 description: Prize won or lost
- *               is_win:
- *                 type: boolean
- *                 description: Whether the spin resulted in a win
+ *                 description: Key the client generates once per spin and sends with every retry (8 to 64 letters, digits or dashes). A retry with the same spin token returns the spin recorded the first time instead of recording it again, also after the token has expired.
  *     responses:
+ *       200:
+ *         description: Spin was already recorded under this idempotency key; the original result is returned
  *       201:
  *         description: Spin result recorded successfully
  *         content:
  *           application/json:
  *             schema:
  *               type: object
+ *               properties:
+ *                 id:
+ *                   type: integer
+ *                 prize:
+ *                   type: string
+ *                 is_win:
+ *                   type: boolean
+ *                 prize_tier:
+ *                   type: string
+ *                   nullable: true
+ *                   enum: [grand, standard, consolation]
+ *                   description: Tier of the prize won; null for losing spins
+ *                 claim_code:
+ *                   type: string
+ *                   nullable: true
+ *                   description: Code the winner shows a BA to collect the prize
+ *                 claim_expires_at:
+ *                   type: string
+ *                   format: date-time
+ *                   nullable: true
  *       400:
- *         description: Invalid data provided
+ *         description: Invalid data or spin token provided
+ *       409:
+ *         description: Spin token has already been used, or the idempotency_key was used with another spin token
  *       500:
  *         description: Server error
  */
 router.post('/', async (req, res) => {
-  const connection = req.db;
+  let connection;
+  // Id of the spin token sent, once its signature has been checked
+  let tokenId = null;
   
   try {
-    await connection.beginTransaction();
-
     // Normalize incoming payload to support multiple client shapes
     const body = req.body || {};
-    const agent_id = body.agent_id || body.agentId || null;
-    const agent_name = body.agent_name || body.agentName || 'Unknown Agent';
+    const spin_token = body.spin_token || body.spinToken;
     const user_name = body.user_name || body.name || body.userName || 'Anonymous';
-    const user_contact = body.user_contact || body.email || body.phone || body.contact || 'N/A';
-    const prize_label = body.prize_label || body.prize || body.prizeLabel;
-    const is_win = typeof body.is_win !== 'undefined' ? body.is_win : body.isWin;
-    let product_id = body.product_id || body.productId || null;
+    const sent_contact = body.user_contact || body.email || body.phone || body.contact || 'N/A';
+    const idempotency_key = body.idempotency_key || null;
 
-    // Validate required fields
-    if (!prize_label || typeof is_win === 'undefined') {
-      await connection.rollback();
-      return res.status(400).json({ message: 'Missing required fields' });
+    if (idempotency_key && !hasValidIdempotencyKey(body)) {
+      return res.status(400).json({ message: 'idempotency_key must be 8 to 64 letters, digits or dashes' });
     }
 
-    // If it's a win, verify and decrement inventory
-    if (is_win) {
-      // Prefer agent-specific inventory when agent_id and product_id are provided
-      if (agent_id && product_id) {
-        // First check if there's available quantity
-        const [inventoryCheck] = await connection.query(`
-          SELECT available_quantity 
-          FROM product_inventory 
-          WHERE agent_id = ? AND product_id = ? 
-          FOR UPDATE
-        `, [agent_id, product_id]);
-
-        if (inventoryCheck.length === 0 || inventoryCheck[0].available_quantity <= 0) {
-          await connection.rollback();
-          return res.status(400).json({ 
-            message: 'No prize available', 
-            error: 'Insufficient inventory' 
-          });
-        }
+    // A retry of a spin that was already recorded gets the original result, and stock is not
+    // taken again. Only the token the spin was recorded with gets it back, so a key on its own
+    // reveals nothing; the retry may come after that token has expired.
+    const signedToken = verifySpinToken(spin_token, { allowExpired: true });
+    if (!signedToken) {
+      return res.status(400).json({ message: 'Invalid or expired spin token' });
+    }
+    tokenId = signedToken.tid;
+    if (idempotency_key) {
+      const recorded = await findSpinByIdempotencyKey(req.db, idempotency_key, tokenId);
+      if (recorded) {
+        return res.status(200).json(toRecordedSpin('Spin result already recorded', recorded));
+      }
+    }
 
-        // Update inventory with atomic operation
-        const [updateResult] = await connection.query(`
-          UPDATE product_inventory 
-          SET available_quantity = available_quantity - 1,
-              distributed_quantity = distributed_quantity + 1,
-              last_updated = NOW()
-          WHERE agent_id = ? AND product_id = ? AND available_quantity > 0
-        `, [agent_id, product_id]);
+    // The outcome comes from the server-issued token, never from the client
+    const token = verifySpinToken(spin_token);
+    if (!token) {
+      return res.status(400).json({ message: 'Invalid or expired spin token' });
+    }
 
-        if (updateResult.affectedRows === 0) {
-          await connection.rollback();
-          return res.status(400).json({ 
-            message: 'No prize available', 
-            error: 'Inventory was depleted during transaction' 
-          });
-        }
-      } else {
-        // Fallback to global product stock based on product name
-        // Ensure product exists and map to its ID if not provided
-        if (!product_id) {
-          const [prod] = await connection.query(
-            'SELECT id FROM products WHERE LOWER(name) = LOWER(?) LIMIT 1',
-            [String(prize_label).trim()]
-          );
-          if (prod.length > 0) {
-            product_id = prod[0].id;
-          }
-        }
+    let prize_label = token.prize_label;
+    let is_win = token.is_win;
+    let prize_tier = token.prize_tier || null;
+    // Why a prize drawn for this spin was not given, when it had reached a cap
+    let cap_reason = token.cap_reason || null;
+    const agent_id = token.agent_id || null;
+    // The agent comes from the device session the spin was drawn on
+    const agent_name = token.agent_name || 'Unknown Agent';
+    const campaign_id = token.campaign_id || null;
+    let product_id = token.product_id || null;
+    // A contact checked against the eligibility rules at draw time is the one the spin counts against
+    const user_contact = token.user_contact || sent_contact;
 
-        if (!product_id) {
-          await connection.rollback();
-          return res.status(400).json({ message: 'Product not found for this prize' });
-        }
+    connection = await req.db.getConnection();
+    await connection.beginTransaction();
 
-        // Ensure product_stock exists
-        await connection.query(`
-          CREATE TABLE IF NOT EXISTS product_stock (
-            product_id INT PRIMARY KEY,
-            total_quantity INT NOT NULL DEFAULT 0,
-            available_quantity INT NOT NULL DEFAULT 0,
-            distributed_quantity INT NOT NULL DEFAULT 0,
-            created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-            updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-          )
-        `);
+    // Mark the token as used so it cannot be replayed
+    const [tokenUpdate] = await connection.query(
+      `UPDATE spin_tokens SET used_at = NOW()
+       WHERE id = ? AND used_at IS NULL AND expires_at > NOW()`,
+      [token.tid]
+    );
 
-        // Check availability
-        const [stockCheck] = await connection.query(
-          'SELECT available_quantity FROM product_stock WHERE product_id = ? FOR UPDATE',
-          [product_id]
-        );
+    if (tokenUpdate.affectedRows === 0) {
+      await connection.rollback();
+      // A retry sent while the first attempt was still being recorded waits for it here
+      const recorded = idempotency_key && await findSpinByIdempotencyKey(req.db, idempotency_key, tokenId);
+      if (recorded) {
+        return res.status(200).json(toRecordedSpin('Spin result already recorded', recorded));
+      }
+      return res.status(409).json({ message: 'Spin token has already been used or has expired' });
+    }
 
-        if (stockCheck.length === 0 || stockCheck[0].available_quantity <= 0) {
-          await connection.rollback();
-          return res.status(400).json({ message: 'No prize available', error: 'Insufficient global stock' });
+    // Other wins may have been recorded since the draw, so caps are checked again. The caps stay
+    // locked until this spin commits.
+    if (is_win) {
+      const reached = await findReachedCap(connection, { productId: product_id, agentId: agent_id, lock: true });
+      if (reached) {
+        cap_reason = reached.reason;
+        // The consolation prize is given instead, unless it is the capped prize or has reached a cap too
+        const fallbackProductId = token.fallback_product_id || null;
+        const consolationAllowed = fallbackProductId && String(fallbackProductId) !== String(product_id) &&
+          !(await findReachedCap(connection, { productId: fallbackProductId, agentId: agent_id, lock: true }));
+        if (consolationAllowed) {
+          prize_label = token.fallback_label;
+          product_id = fallbackProductId;
+          prize_tier = PRIZE_TIERS.CONSOLATION;
+        } else {
+          prize_label = fallbackProductId ? TRY_AGAIN_LABEL : token.fallback_label || TRY_AGAIN_LABEL;
+          is_win = false;
+          prize_tier = null;
         }
+      }
+    }
 
-        // Decrement stock atomically
-        const [updateStock] = await connection.query(
-          `UPDATE product_stock 
-           SET available_quantity = available_quantity - 1,
-               distributed_quantity = distributed_quantity + 1
-           WHERE product_id = ? AND available_quantity > 0`,
-          [product_id]
-        );
+    // Insert the spin result
+    const spinResultId = await insertSpinResult(connection, {
+      campaign_id, agent_id, agent_name, user_name, user_contact, prize_label, is_win, prize_tier, idempotency_key,
+      cap_reason,
+      device_session_id: token.device_session_id,
+      ip_address: token.ip_address,
+      quiz_attempt_id: token.quiz_attempt_id,
+      purchase_id: token.purchase_id
+    });
 
-        if (updateStock.affectedRows === 0) {
-          await connection.rollback();
-          return res.status(400).json({ message: 'No prize available', error: 'Stock was depleted during transaction' });
-        }
+    // If it's a win, verify and decrement inventory; the spin is rolled back if there is no stock
+    if (is_win) {
+      const stock = await consumePrizeStock(connection, {
+        agentId: agent_id,
+        productId: product_id,
+        campaignId: campaign_id,
+        prizeLabel: prize_label,
+        spinResultId,
+        actor: getActor(req)
+      });
+
+      if (!stock.ok) {
+        await connection.rollback();
+        return res.status(400).json({ message: stock.message, error: stock.error });
       }
     }
 
-    // Insert the spin result
-    const [result] = await connection.query(
-      `INSERT INTO spin_results (agent_id, agent_name, user_name, user_contact, prize_label, is_win, date) 
-       VALUES (?, ?, ?, ?, ?, ?, NOW())`,
-      [agent_id, agent_name, user_name, user_contact, prize_label, is_win]
+    await connection.query(
+      'UPDATE spin_tokens SET spin_result_id = ? WHERE id = ?',
+      [spinResultId, token.tid]
     );
 
+    // Winners get a code to show the BA when they collect the prize
+    const claim = is_win ? await assignClaimCode(connection, spinResultId) : null;
+
     await connection.commit();
-    res.status(201).json({ 
-      message: 'Spin result recorded successfully', 
-      id: result.insertId 
-    });
+    scanSpinLater(req.db, spinResultId);
+    res.status(201).json(toRecordedSpin('Spin result recorded successfully', {
+      id: spinResultId,
+      prize_label,
+      is_win,
+      prize_tier,
+      ...claim
+    }));
 
   } catch (err) {
-    await connection.rollback();
+    if (connection) {
+      await connection.rollback();
+    }
+    // Another attempt with the same key was recorded at the same time
+    if (err.code === 'ER_DUP_ENTRY' && req.body && req.body.idempotency_key) {
+      try {
+        const recorded = await findSpinByIdempotencyKey(req.db, req.body.idempotency_key, tokenId);
+        if (recorded) {
+          return res.status(200).json(toRecordedSpin('Spin result already recorded', recorded));
+        }
+        const [taken] = await req.db.query('SELECT id FROM spin_results WHERE idempotency_key = ?', [req.body.idempotency_key]);
+        if (taken.length > 0) {
+          return res.status(409).json({ message: 'idempotency_key has already been used for another spin' });
+        }
+      } catch (lookupErr) {
+        console.error('Error looking up spin by idempotency key:', lookupErr);
+      }
+    }
     console.error('Error recording spin result:', err);
     res.status(500).json({ message: 'Error recording spin result', error: err.message });
+  } finally {
+    if (connection) {
+      try {
+        connection.release();
+      } catch (releaseErr) {
+        console.error('Error releasing connection:', releaseErr);
+      }
+    }
   }
 });
 
@@ -406,6 +403,8 @@ router.post('/', async (req, res) => {
  *   delete:
  *     summary: Delete a spin result
  *     description: Delete a specific spin result by its ID
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -428,8 +427,7 @@ router.post('/', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.delete('/:id', async (req, res) => {
-  let connection;
+router.delete('/:id', requirePermission('results:delete'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -439,17 +437,9 @@ router.delete('/:id', async (req, res) => {
     
     console.log(`Attempting to delete spin result with ID: ${id}`);
     
-    connection = await Promise.race([
-      req.db.getConnection(),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Database connection timeout')), 10000)
-      )
-    ]);
-    
-    // Delete the record
-    const [result] = await connection.query('DELETE FROM spin_results WHERE id = ?', [id]);
+    const deleted = await req.repos.spinResults.remove(id);
     
-    if (result.affectedRows === 0) {
+    if (!deleted) {
       return res.status(404).json({ message: `Spin result with ID ${id} not found` });
     }
     
@@ -465,14 +455,6 @@ router.delete('/:id', async (req, res) => {
       message: 'Failed to delete spin result',
       error: err.message
     });
-  } finally {
-    if (connection) {
-      try {
-        connection.release();
-      } catch (releaseErr) {
-        console.error('Error releasing connection:', releaseErr);
-      }
-    }
   }
 });
 
@@ -482,6 +464,14 @@ router.delete('/:id', async (req, res) => {
  *   get:
  *     summary: Get prize distribution statistics by agent
  *     description: Returns detailed statistics of prizes distributed by each agent
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *         description: Only count spins from this campaign
  *     responses:
  *       200:
  *         description: Agent prize distribution statistics
@@ -504,20 +494,12 @@ router.delete('/:id', async (req, res) => {
  *       500:
  *         description: Server error
  */
-router.get('/agent-prize-stats', async (req, res) => {
-  let connection;
+router.get('/agent-prize-stats', requirePermission('stats:view'), async (req, res) => {
   try {
     console.log('Fetching agent prize statistics...');
     
-    connection = await Promise.race([
-      req.db.getConnection(),
-      new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Database connection timeout')), 10000)
-      )
-    ]);
-    
     // First, get all spin results and normalize the prize names
-    const [allResults] = await connection.query('SELECT * FROM spin_results ORDER BY date DESC');
+    const prizeLabels = await req.repos.spinResults.listPrizeLabels({ campaignId: req.query.campaign_id });
     
     // Normalize prize names and count accurately for current product set
     const prizeCounts = {
@@ -527,8 +509,8 @@ router.get('/agent-prize-stats', async (req, res) => {
       "KITCHEN SET": 0
     };
     
-    allResults.forEach(result => {
-      const prizeUpper = String(result.prize || '').toUpperCase().replace(/\s+/g, ' ').trim();
+    prizeLabels.forEach(prizeLabel => {
+      const prizeUpper = String(prizeLabel || '').toUpperCase().replace(/\s+/g, ' ').trim();
       
       if (prizeUpper.includes('MAZIWA') || prizeUpper.includes('500ML')) {
         prizeCounts["ILARA MAZIWA 500ML"]++;
@@ -563,14 +545,6 @@ router.get('/agent-prize-stats', async (req, res) => {
       message: 'Failed to fetch prize statistics',
       error: err.message
     });
-  } finally {
-    if (connection) {
-      try {
-        connection.release();
-      } catch (releaseErr) {
-        console.error('Error releasing connection:', releaseErr);
-      }
-    }
   }
 });
 
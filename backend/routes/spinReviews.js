@@ -0,0 +1,231 @@
+const express = require('express');
+const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { getActor } = require('../utils/inventoryLedger');
+const { FLAG_STATUSES, listFlaggedSpins, closeFlags, voidWin } = require('../utils/spinReviews');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SpinFlag:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         rule:
+ *           type: string
+ *           enum: [device_velocity, ip_velocity, agent_win_rate, similar_registrations, outside_campaign_hours]
+ *         details:
+ *           type: string
+ *           description: What the rule found
+ *         status:
+ *           type: string
+ *           enum: [open, dismissed, voided]
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ *         reviewed_at:
+ *           type: string
+ *           format: date-time
+ *         reviewed_by:
+ *           type: string
+ *         review_note:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /spin-reviews:
+ *   get:
+ *     summary: Get spins flagged by the fraud rules
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, dismissed, voided, all]
+ *         description: Status of the flags to list. Defaults to open
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Flagged spins, each with the flags raised against it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 type: object
+ *                 properties:
+ *                   id:
+ *                     type: integer
+ *                     description: Spin result ID
+ *                   date:
+ *                     type: string
+ *                     format: date-time
+ *                   agent_name:
+ *                     type: string
+ *                   user_name:
+ *                     type: string
+ *                   user_contact:
+ *                     type: string
+ *                   prize_label:
+ *                     type: string
+ *                   is_win:
+ *                     type: boolean
+ *                   claim_status:
+ *                     type: string
+ *                     enum: [unclaimed, claimed, expired, voided]
+ *                   flags:
+ *                     type: array
+ *                     items:
+ *                       $ref: '#/components/schemas/SpinFlag'
+ *       400:
+ *         description: Unknown status
+ */
+router.get('/', requirePermission('stats:view'), async (req, res) => {
+  try {
+    const { status = FLAG_STATUSES.OPEN, campaign_id } = req.query;
+    if (status !== 'all' && !Object.values(FLAG_STATUSES).includes(status)) {
+      return res.status(400).json({ message: 'status must be open, dismissed, voided or all' });
+    }
+
+    res.json(await listFlaggedSpins(req.db, { status, campaignId: campaign_id }));
+  } catch (err) {
+    console.error('Error fetching flagged spins:', err);
+    res.status(500).json({ message: 'Error fetching flagged spins', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spin-reviews/{id}/dismiss:
+ *   post:
+ *     summary: Dismiss the open flags on a spin after reviewing it
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Spin result ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Why the spin is fine
+ *     responses:
+ *       200:
+ *         description: Flags dismissed
+ *       404:
+ *         description: The spin has no open flags
+ */
+router.post('/:id/dismiss', requirePermission('fraud:review'), async (req, res) => {
+  try {
+    const dismissed = await closeFlags(req.db, req.params.id, {
+      status: FLAG_STATUSES.DISMISSED,
+      reviewer: req.admin.username,
+      note: (req.body || {}).note
+    });
+
+    if (dismissed === 0) {
+      return res.status(404).json({ message: 'This spin has no open flags' });
+    }
+
+    res.json({ message: 'Flags dismissed successfully', dismissed });
+  } catch (err) {
+    console.error('Error dismissing spin flags:', err);
+    res.status(500).json({ message: 'Error dismissing spin flags', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spin-reviews/{id}/void:
+ *   post:
+ *     summary: Void a win
+ *     description: The claim code stops working, the prize goes back into the stock it was taken from and the spin's open flags are closed. Prizes that have been handed over cannot be voided.
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *         description: Spin result ID
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: Why the win is voided
+ *     responses:
+ *       200:
+ *         description: Win voided
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 message:
+ *                   type: string
+ *                 stock_returned:
+ *                   type: boolean
+ *                   description: False when the win never took stock, for example an offline win recorded as a sync conflict
+ *       400:
+ *         description: The spin is not a win
+ *       404:
+ *         description: Spin result not found
+ *       409:
+ *         description: The win has already been voided or the prize handed over
+ */
+router.post('/:id/void', requirePermission('fraud:review'), async (req, res) => {
+  let connection;
+
+  try {
+    connection = await req.db.getConnection();
+    await connection.beginTransaction();
+
+    const { ok, status, ...result } = await voidWin(connection, req.params.id, {
+      actor: getActor(req),
+      note: (req.body || {}).note
+    });
+
+    if (!ok) {
+      await connection.rollback();
+      return res.status(status).json(result);
+    }
+
+    await connection.commit();
+    res.json({ message: 'Win voided successfully', ...result });
+  } catch (err) {
+    if (connection) {
+      await connection.rollback();
+    }
+    console.error('Error voiding win:', err);
+    res.status(500).json({ message: 'Error voiding win', error: err.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+module.exports = router;
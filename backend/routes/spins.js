@@ -0,0 +1,1033 @@
+const express = require('express');
+const router = express.Router();
+const crypto = require('crypto');
+const { drawSpinOutcome, getOfflineAllowance, toPublicSector } = require('../utils/prizeAllocator');
+const { createSpinToken } = require('../utils/spinToken');
+const { getCampaign, isCampaignLive } = require('../utils/campaigns');
+const { hasValidIdempotencyKey, getSkippedCheck, syncSpin } = require('../utils/spinSync');
+const { checkEligibility, normalizeContact, lockContact, unlockContact } = require('../utils/eligibility');
+const { findVerifiedPhone } = require('../utils/otp');
+const { pickQuizQuestions, gradeQuizAttempt, claimQuizAttempt } = require('../utils/quiz');
+const {
+  RECEIPT_PHOTO_TYPES, RECEIPT_PHOTO_MAX_BYTES, registerPurchase, claimPurchase
+} = require('../utils/purchases');
+const { getReceiptStorage } = require('../storage');
+const { requireDevice, requirePermission } = require('../middleware/auth');
+
+// When set, customers must verify their phone number by SMS before they can play
+const REQUIRE_VERIFIED_PHONE = process.env.REQUIRE_VERIFIED_PHONE === 'true';
+
+// How much of each prize a kiosk may give away offline, and for how long
+const OFFLINE_ALLOWANCE_PER_PRIZE = parseInt(process.env.OFFLINE_ALLOWANCE_PER_PRIZE, 10) || 5;
+const OFFLINE_ALLOWANCE_TTL_HOURS = parseInt(process.env.OFFLINE_ALLOWANCE_TTL_HOURS, 10) || 24;
+const MAX_SYNC_BATCH = 100;
+
+// Load the campaign named in a request body. Returns { campaign } or { status, code, message }.
+const loadRequestCampaign = async (db, body) => {
+  const campaignId = body.campaign_id || body.campaignId;
+  const campaignSlug = body.campaign || body.campaign_slug;
+  if (!campaignId && !campaignSlug) {
+    return { campaign: null };
+  }
+
+  const campaign = await getCampaign(db, { id: campaignId, slug: campaignSlug });
+  if (!campaign) {
+    return { status: 404, code: 'campaign_not_found', message: 'Campaign not found' };
+  }
+  if (!isCampaignLive(campaign)) {
+    return { status: 403, code: 'campaign_not_running', message: 'Campaign is not running' };
+  }
+  return { campaign };
+};
+
+// The customer's phone number from their verification token, or the email or phone number the
+// client sends. Returns { contact } or { status, code, message }.
+const resolveRequestContact = async (db, body) => {
+  if (body.verification_token) {
+    const phone = await findVerifiedPhone(db, body.verification_token);
+    return phone
+      ? { contact: phone }
+      : { status: 400, code: 'phone_not_verified', message: 'Phone verification has expired, please verify the number again' };
+  }
+  if (REQUIRE_VERIFIED_PHONE) {
+    return { status: 400, code: 'phone_not_verified', message: "Verify the customer's phone number to play" };
+  }
+  return { contact: normalizeContact(body.user_contact || body.phone || body.email || body.contact) };
+};
+
+// Read a receipt photo sent as the request body. Photos over the limit get a 413 instead of
+// the server error other body parsing errors get.
+const parseReceiptPhoto = express.raw({ type: Object.keys(RECEIPT_PHOTO_TYPES), limit: RECEIPT_PHOTO_MAX_BYTES });
+const readReceiptPhoto = (req, res, next) => parseReceiptPhoto(req, res, (err) => {
+  if (err && err.type === 'entity.too.large') {
+    return res.status(413).json({ message: `Receipt photos must be at most ${Math.round(RECEIPT_PHOTO_MAX_BYTES / 1024)} KB` });
+  }
+  next(err);
+});
+
+/**
+ * @swagger
+ * /spins/eligibility:
+ *   post:
+ *     summary: Check whether a customer may play
+ *     description: Checks the customer against the campaign's eligibility rules, so the device can tell them before they reach the wheel. POST /spins/draw checks again before it issues a spin token.
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               campaign:
+ *                 type: string
+ *                 description: Slug of the campaign being played
+ *               campaign_id:
+ *                 type: integer
+ *               user_contact:
+ *                 type: string
+ *                 description: Email or phone number of the customer
+ *               verification_token:
+ *                 type: string
+ *                 description: Token from POST /otp/verify; the verified phone number is used instead of user_contact
+ *     responses:
+ *       200:
+ *         description: Whether the customer may play
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 eligible:
+ *                   type: boolean
+ *                 reason:
+ *                   type: string
+ *                   description: Rule that stops the customer playing, or contact_required
+ *                 message:
+ *                   type: string
+ *                   description: Message to show the customer
+ *                 retry_after_seconds:
+ *                   type: integer
+ *                   description: When the reason is cooldown_minutes, how long until they may play
+ *       400:
+ *         description: The phone verification has expired, or is required and missing
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       403:
+ *         description: Campaign is not running
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Server error
+ */
+router.post('/eligibility', requireDevice, async (req, res) => {
+  try {
+    const body = req.body || {};
+    const { campaign, status, code, message } = await loadRequestCampaign(req.db, body);
+    if (status) {
+      return res.status(status).json({ message, code });
+    }
+
+    const customer = await resolveRequestContact(req.db, body);
+    if (customer.status) {
+      return res.status(customer.status).json({ message: customer.message, code: customer.code });
+    }
+
+    const eligibility = await checkEligibility(req.db, {
+      contact: customer.contact,
+      campaign,
+      agentId: req.device.agent_id
+    });
+    res.json(eligibility);
+  } catch (err) {
+    console.error('Error checking eligibility:', err);
+    res.status(500).json({ message: 'Error checking eligibility', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spins/purchase:
+ *   post:
+ *     summary: Enter the receipt a customer plays with
+ *     description: On campaigns with purchase_settings, customers play by buying a product. Each receipt, matched by its number and till ignoring case, spaces and punctuation, plays once in the campaign. The BA who entered a receipt may send it again to correct it until it has been played.
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - receipt_number
+ *               - skus
+ *               - amount
+ *             properties:
+ *               campaign:
+ *                 type: string
+ *                 description: Slug of the campaign being played
+ *               campaign_id:
+ *                 type: integer
+ *               user_contact:
+ *                 type: string
+ *                 description: Email or phone number of the customer; the draw must be for the same customer
+ *               verification_token:
+ *                 type: string
+ *                 description: Token from POST /otp/verify; the verified phone number is used instead of user_contact
+ *               receipt_number:
+ *                 type: string
+ *               till:
+ *                 type: string
+ *                 description: Till or outlet the receipt was printed at
+ *               skus:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Products bought; one must be in the campaign's SKUs when it lists any
+ *               amount:
+ *                 type: number
+ *                 description: Total on the receipt
+ *     responses:
+ *       201:
+ *         description: Purchase entered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 purchase_id:
+ *                   type: integer
+ *                   description: Sent to POST /spins/draw
+ *                 require_photo:
+ *                   type: boolean
+ *                   description: Whether a photo of the receipt must be uploaded before the game
+ *       400:
+ *         description: Invalid or non-qualifying purchase, or the phone verification has expired or is missing
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       403:
+ *         description: Campaign is not running
+ *       404:
+ *         description: Campaign not found, or it does not need a purchase
+ *       409:
+ *         description: The receipt has already been used in the campaign
+ *       500:
+ *         description: Server error
+ */
+router.post('/purchase', requireDevice, async (req, res) => {
+  try {
+    const body = req.body || {};
+    const { campaign, status, code, message } = await loadRequestCampaign(req.db, body);
+    if (status) {
+      return res.status(status).json({ message, code });
+    }
+    if (!campaign || !campaign.purchase_settings) {
+      return res.status(404).json({ message: 'This campaign does not need a purchase' });
+    }
+
+    const customer = await resolveRequestContact(req.db, body);
+    if (customer.status) {
+      return res.status(customer.status).json({ message: customer.message, code: customer.code });
+    }
+
+    const registered = await registerPurchase(req.db, {
+      campaign,
+      agentId: req.device.agent_id,
+      contact: customer.contact,
+      input: body
+    });
+    if (registered.status) {
+      return res.status(registered.status).json({ message: registered.message });
+    }
+
+    res.status(201).json({
+      purchase_id: registered.purchase.id,
+      require_photo: campaign.purchase_settings.require_photo
+    });
+  } catch (err) {
+    console.error('Error entering purchase:', err);
+    res.status(500).json({ message: 'Error entering purchase', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spins/purchase/{id}/receipt:
+ *   put:
+ *     summary: Upload a photo of a purchase's receipt
+ *     description: The photo is sent as the request body. It replaces any earlier photo, until the purchase has been played. Photos are kept in the store set by RECEIPT_STORAGE.
+ *     security:
+ *       - deviceToken: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         image/jpeg:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         image/png:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         image/webp:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *     responses:
+ *       200:
+ *         description: Photo stored
+ *       400:
+ *         description: The body is not a JPEG, PNG or WebP image
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       404:
+ *         description: Purchase not found, or already played
+ *       413:
+ *         description: The photo is larger than RECEIPT_PHOTO_MAX_KB
+ *       500:
+ *         description: Server error
+ */
+router.put('/purchase/:id/receipt', requireDevice, readReceiptPhoto, async (req, res) => {
+  try {
+    const contentType = (req.get('Content-Type') || '').split(';')[0].trim().toLowerCase();
+    if (!RECEIPT_PHOTO_TYPES[contentType] || !Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ message: 'Send the receipt photo as a JPEG, PNG or WebP image' });
+    }
+
+    // Only the device's agent can add a photo, and only before the purchase is played
+    const [purchases] = await req.db.query(
+      'SELECT id, campaign_id FROM purchases WHERE id = ? AND agent_id = ? AND used_at IS NULL',
+      [req.params.id, req.device.agent_id]
+    );
+    if (purchases.length === 0) {
+      return res.status(404).json({ message: 'Purchase not found' });
+    }
+
+    const purchase = purchases[0];
+    const key = `${purchase.campaign_id}/${purchase.id}-${crypto.randomUUID()}.${RECEIPT_PHOTO_TYPES[contentType]}`;
+    await getReceiptStorage().save(key, req.body, contentType);
+    await req.db.query(
+      'UPDATE purchases SET photo_key = ?, photo_content_type = ? WHERE id = ?',
+      [key, contentType, purchase.id]
+    );
+
+    res.json({ message: 'Receipt photo saved successfully' });
+  } catch (err) {
+    console.error('Error saving receipt photo:', err);
+    res.status(500).json({ message: 'Error saving receipt photo', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spins/quiz:
+ *   post:
+ *     summary: Start the campaign's quiz
+ *     description: Picks the questions for one customer, at random from the campaign's questions and the shared ones. The correct answers are not sent to the device.
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               campaign:
+ *                 type: string
+ *                 description: Slug of the campaign being played
+ *               campaign_id:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Questions to ask
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 pass_mark:
+ *                   type: integer
+ *                   description: Correct answers needed to play, lowered when fewer questions are asked
+ *                 consolation_on_fail:
+ *                   type: boolean
+ *                 questions:
+ *                   type: array
+ *                   description: Empty when the question bank has no questions for the campaign, in which case customers play without a quiz
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       id:
+ *                         type: integer
+ *                       question:
+ *                         type: string
+ *                       options:
+ *                         type: array
+ *                         items:
+ *                           type: string
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       403:
+ *         description: Campaign is not running
+ *       404:
+ *         description: Campaign not found, or it has no quiz
+ *       500:
+ *         description: Server error
+ */
+router.post('/quiz', requireDevice, async (req, res) => {
+  try {
+    const { campaign, status, code, message } = await loadRequestCampaign(req.db, req.body || {});
+    if (status) {
+      return res.status(status).json({ message, code });
+    }
+    if (!campaign || !campaign.quiz_settings) {
+      return res.status(404).json({ message: 'This campaign has no quiz' });
+    }
+
+    const questions = await pickQuizQuestions(req.db, campaign);
+    res.json({
+      pass_mark: Math.min(campaign.quiz_settings.pass_mark, questions.length),
+      consolation_on_fail: campaign.quiz_settings.consolation_on_fail,
+      questions
+    });
+  } catch (err) {
+    console.error('Error starting quiz:', err);
+    res.status(500).json({ message: 'Error starting quiz', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spins/quiz/answers:
+ *   post:
+ *     summary: Submit a customer's quiz answers
+ *     description: Marks the answers and stores them. A customer who passes, or who fails when the campaign gives a consolation spin, plays by sending the attempt_id to POST /spins/draw; a failed attempt only draws the consolation prize.
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - answers
+ *             properties:
+ *               campaign:
+ *                 type: string
+ *                 description: Slug of the campaign being played
+ *               campaign_id:
+ *                 type: integer
+ *               user_contact:
+ *                 type: string
+ *                 description: Email or phone number of the customer; the draw must be for the same customer
+ *               verification_token:
+ *                 type: string
+ *                 description: Token from POST /otp/verify; the verified phone number is used instead of user_contact
+ *               answers:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     question_id:
+ *                       type: integer
+ *                     option:
+ *                       type: integer
+ *                       description: Position of the chosen option, starting at 0
+ *     responses:
+ *       200:
+ *         description: The marked attempt
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 attempt_id:
+ *                   type: string
+ *                 passed:
+ *                   type: boolean
+ *                 correct_count:
+ *                   type: integer
+ *                 question_count:
+ *                   type: integer
+ *                 earns_spin:
+ *                   type: boolean
+ *                   description: Whether the customer may play
+ *                 expires_at:
+ *                   type: string
+ *                   format: date-time
+ *                   description: When the attempt can no longer be used to play
+ *       400:
+ *         description: Invalid answers, or the phone verification has expired or is missing
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       403:
+ *         description: Campaign is not running
+ *       404:
+ *         description: Campaign not found, or it has no quiz
+ *       500:
+ *         description: Server error
+ */
+router.post('/quiz/answers', requireDevice, async (req, res) => {
+  try {
+    const body = req.body || {};
+    const { campaign, status, code, message } = await loadRequestCampaign(req.db, body);
+    if (status) {
+      return res.status(status).json({ message, code });
+    }
+    if (!campaign || !campaign.quiz_settings) {
+      return res.status(404).json({ message: 'This campaign has no quiz' });
+    }
+
+    const customer = await resolveRequestContact(req.db, body);
+    if (customer.status) {
+      return res.status(customer.status).json({ message: customer.message, code: customer.code });
+    }
+
+    const { attempt, error } = await gradeQuizAttempt(req.db, {
+      campaign,
+      agentId: req.device.agent_id,
+      contact: customer.contact,
+      answers: body.answers
+    });
+    if (error) {
+      return res.status(400).json({ message: error });
+    }
+
+    res.json({
+      attempt_id: attempt.id,
+      passed: attempt.passed,
+      correct_count: attempt.correct_count,
+      question_count: attempt.question_count,
+      earns_spin: attempt.earns_spin,
+      expires_at: attempt.expires_at
+    });
+  } catch (err) {
+    console.error('Error marking quiz answers:', err);
+    res.status(500).json({ message: 'Error marking quiz answers', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     SpinRefusal:
+ *       type: object
+ *       description: Why a spin cannot be drawn, or played offline. The message can be shown to the BA; clients decide what to do from the code.
+ *       properties:
+ *         message:
+ *           type: string
+ *         code:
+ *           type: string
+ *           enum: [campaign_not_found, campaign_not_running, phone_not_verified, quiz_required, receipt_required, receipt_played, spin_in_progress, no_prize_available, offline_not_allowed]
+ */
+
+/**
+ * @swagger
+ * /spins/draw:
+ *   post:
+ *     summary: Draw the outcome of a spin
+ *     description: Picks the winning sector on the server from the stock of the agent the device is signed in as, and returns a signed single-use spin token that must be submitted with the spin result
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               campaign:
+ *                 type: string
+ *                 description: Slug of the campaign being played. Spins without a campaign use the products outside any campaign
+ *               campaign_id:
+ *                 type: integer
+ *                 description: Campaign ID, as an alternative to the slug
+ *               user_contact:
+ *                 type: string
+ *                 description: Email or phone number of the customer playing (email and phone are accepted too). Required when eligibility rules apply; the spin result is recorded against it
+ *               verification_token:
+ *                 type: string
+ *                 description: Token from POST /otp/verify. The verified phone number is used instead of user_contact; required when REQUIRE_VERIFIED_PHONE is set
+ *               quiz_attempt_id:
+ *                 type: string
+ *                 description: attempt_id from POST /spins/quiz/answers. Required when the campaign has a quiz; each attempt plays once
+ *               purchase_id:
+ *                 type: integer
+ *                 description: purchase_id from POST /spins/purchase. Required when the campaign has purchase_settings; each purchase plays once
+ *     responses:
+ *       200:
+ *         description: Spin outcome drawn
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 spin_token:
+ *                   type: string
+ *                 sector_index:
+ *                   type: integer
+ *                 prize_label:
+ *                   type: string
+ *                 is_win:
+ *                   type: boolean
+ *                 prize_tier:
+ *                   type: string
+ *                   nullable: true
+ *                   enum: [grand, standard, consolation]
+ *                 expires_at:
+ *                   type: string
+ *                   format: date-time
+ *                 sectors:
+ *                   type: array
+ *                   description: The wheel the outcome was drawn from, in display order
+ *                   items:
+ *                     $ref: '#/components/schemas/WheelSector'
+ *       400:
+ *         description: The phone verification has expired, or is required and missing (code phone_not_verified), the campaign's quiz has not been passed (quiz_required), or its receipt has not been entered (receipt_required)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SpinRefusal'
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       403:
+ *         description: Campaign is not running (code campaign_not_running)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SpinRefusal'
+ *       404:
+ *         description: Campaign not found (code campaign_not_found)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SpinRefusal'
+ *       409:
+ *         description: The receipt has already been played (code receipt_played), another spin is being drawn for the customer (code spin_in_progress), or the wheel has no sector left that can be drawn (code no_prize_available)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SpinRefusal'
+ *       429:
+ *         description: The customer may not play again yet; the body is the same as from POST /spins/eligibility
+ *       500:
+ *         description: Server error
+ */
+router.post('/draw', requireDevice, async (req, res) => {
+  let connection;
+  let lockedContact = null;
+
+  try {
+    const body = req.body || {};
+    const { campaign, status, code, message } = await loadRequestCampaign(req.db, body);
+    if (status) {
+      return res.status(status).json({ message, code });
+    }
+
+    // Customers are checked before a token is issued, so a spin that is not allowed never happens
+    const customer = await resolveRequestContact(req.db, body);
+    if (customer.status) {
+      return res.status(customer.status).json({ message: customer.message, code: customer.code });
+    }
+    const { contact } = customer;
+
+    // Draws for one customer are checked one at a time, and the lock is held until the token is
+    // saved, so two draws at once cannot both pass the eligibility rules
+    connection = await req.db.getConnection();
+    if (contact) {
+      if (!(await lockContact(connection, contact))) {
+        return res.status(409).json({
+          message: 'Another spin is being drawn for this customer, please try again',
+          code: 'spin_in_progress'
+        });
+      }
+      lockedContact = contact;
+    }
+
+    // The quiz attempt and receipt are used up together with the token that plays them, so a
+    // refused claim or a failed draw leaves both to be played again
+    await connection.beginTransaction();
+
+    const eligibility = await checkEligibility(connection, { contact, campaign, agentId: req.device.agent_id });
+    if (!eligibility.eligible) {
+      await connection.rollback();
+      return res.status(429).json(eligibility);
+    }
+
+    // Campaigns with a quiz only draw for customers who answered it; a failed attempt that still
+    // earns a spin can only win the consolation prize
+    let quizAttempt = null;
+    if (campaign && campaign.quiz_settings) {
+      const quiz = await claimQuizAttempt(connection, {
+        attemptId: body.quiz_attempt_id,
+        campaign,
+        agentId: req.device.agent_id,
+        contact
+      });
+      if (quiz.status) {
+        await connection.rollback();
+        return res.status(quiz.status).json({ message: quiz.message, code: quiz.code });
+      }
+      quizAttempt = quiz.attempt;
+    }
+
+    // Campaigns that need a purchase only draw for a receipt entered for this customer
+    let purchase = null;
+    if (campaign && campaign.purchase_settings) {
+      const claimed = await claimPurchase(connection, {
+        purchaseId: body.purchase_id,
+        campaign,
+        agentId: req.device.agent_id,
+        contact
+      });
+      if (claimed.status) {
+        await connection.rollback();
+        return res.status(claimed.status).json({ message: claimed.message, code: claimed.code });
+      }
+      purchase = claimed.purchase;
+    }
+
+    // The agent always comes from the device session, never from the request body
+    const outcome = await drawSpinOutcome(connection, { agentId: req.device.agent_id }, campaign, {
+      consolationOnly: !!quizAttempt && !quizAttempt.passed
+    });
+    if (outcome.status) {
+      await connection.rollback();
+      return res.status(outcome.status).json({ message: outcome.message, code: outcome.code });
+    }
+
+    // The wheel layout is returned to the client but not embedded in the token
+    const { sectors, ...drawn } = outcome;
+    // The device and address the spin was drawn from are recorded with it for the fraud rules
+    const { token, tokenId, expiresAt } = createSpinToken({
+      ...drawn,
+      user_contact: contact || null,
+      device_session_id: req.device.session_id,
+      ip_address: req.ip,
+      quiz_attempt_id: quizAttempt ? quizAttempt.id : null,
+      purchase_id: purchase ? purchase.id : null
+    });
+
+    await connection.query(
+      `INSERT INTO spin_tokens (id, sector_index, prize_label, is_win, prize_tier, product_id, agent_id, campaign_id, user_contact, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [tokenId, outcome.sector_index, outcome.prize_label, outcome.is_win, outcome.prize_tier || null,
+        outcome.product_id, outcome.agent_id, outcome.campaign_id, contact || null, expiresAt]
+    );
+
+    await connection.commit();
+
+    res.json({
+      spin_token: token,
+      sector_index: outcome.sector_index,
+      prize_label: outcome.prize_label,
+      is_win: outcome.is_win,
+      prize_tier: outcome.prize_tier,
+      expires_at: expiresAt,
+      sectors: sectors.map(toPublicSector)
+    });
+  } catch (err) {
+    if (connection) {
+      await connection.rollback();
+    }
+    console.error('Error drawing spin outcome:', err);
+    res.status(500).json({ message: 'Error drawing spin outcome', error: err.message });
+  } finally {
+    if (lockedContact) {
+      await unlockContact(connection, lockedContact).catch((err) => console.error('Error releasing customer lock:', err));
+    }
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+/**
+ * @swagger
+ * /spins/allowance:
+ *   post:
+ *     summary: Get an offline allowance for the signed in device
+ *     description: Returns the agent's wheel with the draw weight of each sector, and how many of each prize the device may give away while it cannot reach the server. The allowance does not reserve stock; offline wins beyond the real stock are reported as sync conflicts.
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               campaign:
+ *                 type: string
+ *                 description: Slug of the campaign being played
+ *     responses:
+ *       200:
+ *         description: Offline allowance
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 allowance_id:
+ *                   type: string
+ *                 campaign_id:
+ *                   type: integer
+ *                   nullable: true
+ *                 expires_at:
+ *                   type: string
+ *                   format: date-time
+ *                 sectors:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WheelSector'
+ *                 items:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       label:
+ *                         type: string
+ *                       product_id:
+ *                         type: string
+ *                       quantity:
+ *                         type: integer
+ *       401:
+ *         description: Device is not signed in as an agent
+ *       409:
+ *         description: The campaign checks each customer on the server, by their receipt, the quiz or the eligibility rules, so it cannot be played offline (code offline_not_allowed)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SpinRefusal'
+ */
+router.post('/allowance', requireDevice, async (req, res) => {
+  try {
+    const { campaign, status, code, message } = await loadRequestCampaign(req.db, req.body || {});
+    if (status) {
+      return res.status(status).json({ message, code });
+    }
+    if (getSkippedCheck(campaign)) {
+      return res.status(409).json({
+        message: 'This campaign checks each customer on the server and cannot be played offline',
+        code: 'offline_not_allowed'
+      });
+    }
+
+    const { sectors, items } = await getOfflineAllowance(
+      req.db, req.device.agent_id, campaign, OFFLINE_ALLOWANCE_PER_PRIZE
+    );
+    const allowanceId = crypto.randomUUID();
+    const campaignId = campaign ? campaign.id : null;
+    const expiresAt = new Date(Date.now() + OFFLINE_ALLOWANCE_TTL_HOURS * 60 * 60 * 1000);
+
+    await req.db.query(
+      'INSERT INTO offline_allowances (id, agent_id, campaign_id, items, expires_at) VALUES (?, ?, ?, ?, ?)',
+      [allowanceId, req.device.agent_id, campaignId, JSON.stringify(items), expiresAt]
+    );
+
+    res.json({
+      allowance_id: allowanceId,
+      campaign_id: campaignId,
+      expires_at: expiresAt,
+      sectors,
+      items
+    });
+  } catch (err) {
+    console.error('Error creating offline allowance:', err);
+    res.status(500).json({ message: 'Error creating offline allowance', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spins/sync:
+ *   post:
+ *     summary: Sync spins recorded while the device was offline
+ *     description: Each spin is recorded once per idempotency key, so a batch can be resent safely. Spins drawn online send their spin_token; spins drawn offline send the allowance they were drawn from.
+ *     security:
+ *       - deviceToken: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - spins
+ *             properties:
+ *               spins:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - idempotency_key
+ *                   properties:
+ *                     idempotency_key:
+ *                       type: string
+ *                     played_at:
+ *                       type: string
+ *                       format: date-time
+ *                     name:
+ *                       type: string
+ *                     email:
+ *                       type: string
+ *                     location:
+ *                       type: string
+ *                     spin_token:
+ *                       type: string
+ *                     allowance_id:
+ *                       type: string
+ *                     prize_label:
+ *                       type: string
+ *                     is_win:
+ *                       type: boolean
+ *     responses:
+ *       200:
+ *         description: Outcome of each spin (synced, duplicate, conflict or rejected)
+ *       400:
+ *         description: Invalid batch
+ *       401:
+ *         description: Device is not signed in as an agent
+ */
+router.post('/sync', requireDevice, async (req, res) => {
+  try {
+    const { spins } = req.body || {};
+
+    if (!Array.isArray(spins) || spins.length === 0) {
+      return res.status(400).json({ message: 'spins must be a non-empty list' });
+    }
+    if (spins.length > MAX_SYNC_BATCH) {
+      return res.status(400).json({ message: `At most ${MAX_SYNC_BATCH} spins can be synced at once` });
+    }
+    if (!spins.every(hasValidIdempotencyKey)) {
+      return res.status(400).json({ message: 'Every spin needs a valid idempotency_key' });
+    }
+
+    // Spins are synced one by one, in the order they were played
+    const results = [];
+    for (const entry of spins) {
+      results.push(await syncSpin(req.db, req.device, entry));
+    }
+
+    res.json({ results });
+  } catch (err) {
+    console.error('Error syncing spins:', err);
+    res.status(500).json({ message: 'Error syncing spins', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spins/conflicts:
+ *   get:
+ *     summary: Get offline spins that could not be synced cleanly
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, resolved, all]
+ *         description: Defaults to open
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: List of sync conflicts
+ */
+router.get('/conflicts', requirePermission('stats:view'), async (req, res) => {
+  try {
+    const { status = 'open', campaign_id } = req.query;
+
+    const conditions = [];
+    const params = [];
+    if (status === 'open') {
+      conditions.push('c.resolved_at IS NULL');
+    } else if (status === 'resolved') {
+      conditions.push('c.resolved_at IS NOT NULL');
+    }
+    if (campaign_id) {
+      conditions.push('c.campaign_id = ?');
+      params.push(campaign_id);
+    }
+    const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+
+    const [conflicts] = await req.db.query(`
+      SELECT c.*, a.name as agent_name
+      FROM spin_sync_conflicts c
+      LEFT JOIN agents a ON a.agent_id = c.agent_id
+      ${whereClause}
+      ORDER BY c.created_at DESC
+    `, params);
+
+    res.json(conflicts.map(conflict => ({ ...conflict, payload: JSON.parse(conflict.payload) })));
+  } catch (err) {
+    console.error('Error fetching sync conflicts:', err);
+    res.status(500).json({ message: 'Error fetching sync conflicts', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /spins/conflicts/{id}/resolve:
+ *   post:
+ *     summary: Mark a sync conflict as resolved
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 description: How the conflict was handled, e.g. which stock the prize came from
+ *     responses:
+ *       200:
+ *         description: Conflict resolved
+ *       404:
+ *         description: Conflict not found or already resolved
+ */
+router.post('/conflicts/:id/resolve', requirePermission('sync:resolve'), async (req, res) => {
+  try {
+    const { note } = req.body || {};
+
+    const [result] = await req.db.query(
+      `UPDATE spin_sync_conflicts SET resolved_at = NOW(), resolved_by = ?, resolution_note = ?
+       WHERE id = ? AND resolved_at IS NULL`,
+      [req.admin.username, note ? String(note).slice(0, 500) : null, req.params.id]
+    );
+
+    if (result.affectedRows === 0) {
+      return res.status(404).json({ message: 'Conflict not found or already resolved' });
+    }
+
+    res.json({ message: 'Conflict resolved successfully' });
+  } catch (err) {
+    console.error('Error resolving sync conflict:', err);
+    res.status(500).json({ message: 'Error resolving sync conflict', error: err.message });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,235 @@
+const express = require('express');
+const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
+const { ROLES } = require('../utils/permissions');
+const { getActor } = require('../utils/inventoryLedger');
+const { transferStock } = require('../utils/stockTransfers');
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     StockTransfer:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: integer
+ *         product_id:
+ *           type: string
+ *         product_name:
+ *           type: string
+ *         campaign_id:
+ *           type: integer
+ *           nullable: true
+ *         from_agent_id:
+ *           type: string
+ *           nullable: true
+ *           description: Agent the stock came from, null for the warehouse
+ *         from_agent_name:
+ *           type: string
+ *           nullable: true
+ *         to_agent_id:
+ *           type: string
+ *           nullable: true
+ *           description: Agent the stock went to, null for the warehouse
+ *         to_agent_name:
+ *           type: string
+ *           nullable: true
+ *         quantity:
+ *           type: integer
+ *         actor:
+ *           type: string
+ *           description: Admin who made the transfer
+ *         reason:
+ *           type: string
+ *           nullable: true
+ *         created_at:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /stock-transfers:
+ *   get:
+ *     summary: List stock transfers, newest first
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: agent_id
+ *         schema:
+ *           type: string
+ *         description: Transfers to or from this agent, or 'warehouse'. Ignored for BA accounts, which only see their own transfers
+ *       - in: query
+ *         name: product_id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: campaign_id
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *         description: Maximum number of transfers (up to 500)
+ *     responses:
+ *       200:
+ *         description: Stock transfers
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/StockTransfer'
+ */
+router.get('/', requirePermission('inventory:view'), async (req, res) => {
+  try {
+    const { product_id, campaign_id } = req.query;
+    const agent_id = req.admin.role === ROLES.BA ? req.admin.agent_id : req.query.agent_id;
+    const limit = Math.min(parseInt(req.query.limit, 10) || 100, 500);
+
+    // A BA account without an agent has no transfers
+    if (agent_id === null) {
+      return res.json([]);
+    }
+
+    const conditions = [];
+    const params = [];
+
+    if (agent_id === 'warehouse') {
+      conditions.push('(t.from_agent_id IS NULL OR t.to_agent_id IS NULL)');
+    } else if (agent_id) {
+      conditions.push('(t.from_agent_id = ? OR t.to_agent_id = ?)');
+      params.push(agent_id, agent_id);
+    }
+
+    if (product_id) {
+      conditions.push('t.product_id = ?');
+      params.push(product_id);
+    }
+
+    if (campaign_id) {
+      conditions.push('t.campaign_id = ?');
+      params.push(campaign_id);
+    }
+
+    const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+
+    const [transfers] = await req.db.query(`
+      SELECT t.*, fa.name as from_agent_name, ta.name as to_agent_name
+      FROM stock_transfers t
+      LEFT JOIN agents fa ON fa.agent_id = t.from_agent_id
+      LEFT JOIN agents ta ON ta.agent_id = t.to_agent_id
+      ${whereClause}
+      ORDER BY t.created_at DESC, t.id DESC
+      LIMIT ?
+    `, [...params, limit]);
+
+    res.json(transfers);
+  } catch (err) {
+    console.error('Error fetching stock transfers:', err);
+    res.status(500).json({ message: 'Error fetching stock transfers', error: err.message });
+  }
+});
+
+/**
+ * @swagger
+ * /stock-transfers:
+ *   post:
+ *     summary: Move stock between the warehouse and agents
+ *     description: >
+ *       Allocates warehouse stock to an agent, moves stock from one agent to another, or returns
+ *       an agent's stock to the warehouse. Leave from_agent_id or to_agent_id out for the warehouse.
+ *       Both balances change in one transaction and the move is recorded in the stock ledger.
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - product_id
+ *               - quantity
+ *             properties:
+ *               product_id:
+ *                 type: string
+ *                 description: Product to move; must be a product ID when the warehouse is involved
+ *               campaign_id:
+ *                 type: integer
+ *                 description: Campaign of the agent stock, for transfers between agents
+ *               from_agent_id:
+ *                 type: string
+ *                 nullable: true
+ *               to_agent_id:
+ *                 type: string
+ *                 nullable: true
+ *               quantity:
+ *                 type: integer
+ *               reason:
+ *                 type: string
+ *                 description: e.g. "End of shift return"
+ *     responses:
+ *       201:
+ *         description: Stock transferred
+ *       400:
+ *         description: Missing fields, or the same holder on both ends
+ *       404:
+ *         description: Agent or product not found
+ *       409:
+ *         description: Not enough stock to transfer
+ */
+router.post('/', requirePermission('inventory:manage'), async (req, res) => {
+  let connection;
+  try {
+    const { product_id, reason } = req.body;
+    const from_agent_id = req.body.from_agent_id || null;
+    const to_agent_id = req.body.to_agent_id || null;
+    const quantity = parseInt(req.body.quantity, 10);
+
+    if (!product_id || !(quantity > 0)) {
+      return res.status(400).json({ message: 'product_id and a positive quantity are required' });
+    }
+
+    if (from_agent_id === to_agent_id) {
+      return res.status(400).json({ message: 'Stock must move between two different holders' });
+    }
+
+    connection = await req.db.getConnection();
+    await connection.beginTransaction();
+
+    const result = await transferStock(connection, {
+      fromAgentId: from_agent_id,
+      toAgentId: to_agent_id,
+      productId: product_id,
+      campaignId: req.body.campaign_id || null,
+      quantity,
+      actor: getActor(req),
+      reason
+    });
+
+    if (!result.ok) {
+      await connection.rollback();
+      return res.status(result.status).json({ message: result.message });
+    }
+
+    await connection.commit();
+    res.status(201).json(result.transfer);
+  } catch (err) {
+    if (connection) {
+      await connection.rollback();
+    }
+    console.error('Error transferring stock:', err);
+    res.status(500).json({ message: 'Error transferring stock', error: err.message });
+  } finally {
+    if (connection) {
+      connection.release();
+    }
+  }
+});
+
+module.exports = router;
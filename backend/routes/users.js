@@ -1,23 +1,30 @@
 
 const express = require('express');
 const router = express.Router();
+const { requirePermission } = require('../middleware/auth');
 
 /**
  * @swagger
  * /api/users:
  *   get:
  *     summary: Retrieve all users
- *     description: Get a list of all registered users
+ *     description: Get a list of all registered users, with their contact details
+ *     security:
+ *       - bearerAuth: []
  *     responses:
  *       200:
  *         description: A list of users
+ *       401:
+ *         description: Not signed in
+ *       403:
+ *         description: The admin's role does not grant results:export
  *       500:
  *         description: Server error
  */
 
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('results:export'), async (req, res) => {
   try {
-    const [users] = await req.db.query('SELECT * FROM users');
+    const users = await req.repos.users.list();
     res.json(users);
   } catch (err) {
     res.status(500).json({ message: err.message });
@@ -29,6 +36,8 @@ router.get('/', async (req, res) => {
  * /api/users/{id}:
  *   get:
  *     summary: Get a user by ID
+ *     security:
+ *       - bearerAuth: []
  *     parameters:
  *       - in: path
  *         name: id
@@ -39,20 +48,24 @@ router.get('/', async (req, res) => {
  *     responses:
  *       200:
  *         description: User details
+ *       401:
+ *         description: Not signed in
+ *       403:
+ *         description: The admin's role does not grant results:export
  *       404:
  *         description: User not found
  *       500:
  *         description: Server error
  */
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('results:export'), async (req, res) => {
   try {
-    const [users] = await req.db.query('SELECT * FROM users WHERE id = ?', [req.params.id]);
+    const user = await req.repos.users.findById(req.params.id);
     
-    if (users.length === 0) {
+    if (!user) {
       return res.status(404).json({ message: 'User not found' });
     }
     
-    res.json(users[0]);
+    res.json(user);
   } catch (err) {
     res.status(500).json({ message: err.message });
   }
@@ -96,17 +109,8 @@ router.post('/', async (req, res) => {
       return res.status(400).json({ message: 'Name, email and location are required' });
     }
     
-    const [result] = await req.db.query(
-      'INSERT INTO users (name, email, location) VALUES (?, ?, ?)',
-      [name, email, location]
-    );
-    
-    if (result.affectedRows) {
-      const [newUser] = await req.db.query('SELECT * FROM users WHERE id = ?', [result.insertId]);
-      res.status(201).json(newUser[0]);
-    } else {
-      throw new Error('Failed to create user');
-    }
+    const newUser = await req.repos.users.create({ name, email, location });
+    res.status(201).json(newUser);
   } catch (err) {
     // Check for duplicate email error
     if (err.code === 'ER_DUP_ENTRY') {
@@ -0,0 +1,64 @@
+/**
+ * Create an admin user, or reset the password of an existing one.
+ * Usage: npm run create-admin -- <username> [role] [agent_id]
+ * The role defaults to super_admin; BA accounts need the agent_id whose stock they see.
+ * The password is read from ADMIN_PASSWORD or asked for on the terminal.
+ */
+const readline = require('readline');
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+const { hashPassword } = require('../utils/auth');
+const { ROLES, isValidRole } = require('../utils/permissions');
+
+const askPassword = () => new Promise((resolve) => {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  rl.question('Password: ', (answer) => {
+    rl.close();
+    resolve(answer);
+  });
+});
+
+(async () => {
+  const [username, role = ROLES.SUPER_ADMIN, agentId = null] = process.argv.slice(2);
+  if (!username) {
+    console.error('Usage: npm run create-admin -- <username> [role] [agent_id]');
+    process.exit(1);
+  }
+  if (!isValidRole(role)) {
+    console.error(`Role must be one of: ${Object.values(ROLES).join(', ')}`);
+    process.exit(1);
+  }
+  if (role === ROLES.BA && !agentId) {
+    console.error('BA accounts need the agent_id of the agent they belong to');
+    process.exit(1);
+  }
+
+  const password = process.env.ADMIN_PASSWORD || await askPassword();
+  if (!password || password.length < 8) {
+    console.error('Password must be at least 8 characters');
+    process.exit(1);
+  }
+
+  const connection = await mysql.createConnection({
+    host: process.env.DB_HOST,
+    user: process.env.DB_USER,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_NAME,
+    ssl: false
+  });
+
+  try {
+    await connection.query(
+      `INSERT INTO admin_users (username, password_hash, role, agent_id) VALUES (?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE password_hash = VALUES(password_hash), role = VALUES(role),
+         agent_id = VALUES(agent_id), is_active = true`,
+      [username, await hashPassword(password), role, agentId]
+    );
+    console.log(`Admin user ${username} saved with role ${role}`);
+  } catch (err) {
+    console.error('Error saving admin user:', err.message);
+    process.exitCode = 1;
+  } finally {
+    await connection.end();
+  }
+})();
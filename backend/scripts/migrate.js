@@ -0,0 +1,56 @@
+/**
+ * Apply or roll back schema migrations.
+ * Usage: npm run migrate -- [up | down [steps] | status]
+ * up applies every pending migration, down rolls back the latest one (or the given number of
+ * them) and status lists what has been applied.
+ */
+const mysql = require('mysql2/promise');
+require('dotenv').config();
+const { loadMigrations, getSchemaStatus, migrateUp, migrateDown } = require('../utils/migrations');
+
+const printStatus = async (connection) => {
+  const { current, latest, pending, unknown } = await getSchemaStatus(connection);
+  const pendingVersions = new Set(pending.map(migration => migration.version));
+
+  for (const migration of loadMigrations()) {
+    const state = pendingVersions.has(migration.version) ? 'pending' : 'applied';
+    console.log(`${String(migration.version).padStart(3, '0')} ${migration.name} - ${state}`);
+  }
+  for (const version of unknown) {
+    console.log(`${String(version).padStart(3, '0')} - applied, but there is no file for it`);
+  }
+  console.log(`Schema version ${current}, latest ${latest}`);
+};
+
+(async () => {
+  const [command = 'up', steps = '1'] = process.argv.slice(2);
+  if (!['up', 'down', 'status'].includes(command) || !(parseInt(steps, 10) > 0)) {
+    console.error('Usage: npm run migrate -- [up | down [steps] | status]');
+    process.exit(1);
+  }
+
+  const connection = await mysql.createConnection({
+    host: process.env.DB_HOST,
+    user: process.env.DB_USER,
+    password: process.env.DB_PASSWORD,
+    database: process.env.DB_NAME,
+    ssl: false
+  });
+
+  try {
+    if (command === 'up') {
+      const applied = await migrateUp(connection);
+      console.log(applied.length > 0 ? `Applied ${applied.length} migrations` : 'Schema is up to date');
+    } else if (command === 'down') {
+      const rolledBack = await migrateDown(connection, parseInt(steps, 10));
+      console.log(`Rolled back ${rolledBack.length} migrations`);
+    } else {
+      await printStatus(connection);
+    }
+  } catch (err) {
+    console.error('Migration failed:', err.message);
+    process.exitCode = 1;
+  } finally {
+    await connection.end();
+  }
+})();
@@ -5,17 +5,45 @@ const swaggerUi = require('swagger-ui-express');
 const swaggerJsDoc = require('swagger-jsdoc');
 const mysql = require('mysql2/promise');
 require('dotenv').config();
+const { getCampaignOrigins } = require('./utils/campaigns');
+const { hashPassword } = require('./utils/auth');
+const { getSchemaStatus } = require('./utils/migrations');
+const { DRIVERS, getDriver, createRepositories } = require('./repositories');
 
 // Initialize Express app
 const app = express();
+
+// Proxies in front of the server, such as Render's, so req.ip is the client's address
+app.set('trust proxy', parseInt(process.env.TRUST_PROXY_HOPS, 10) || false);
+
 const PORT = process.env.PORT || 5000;
 
-// Enhanced CORS configuration
+// Origins allowed for every campaign, comma separated in CORS_ORIGINS
+const corsOrigins = (process.env.CORS_ORIGINS || 'https://wafcon-spin-wheel.vercel.app,https://wafcon-spin-win-game.vercel.app,https://ilaraapi.onrender.com')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+if (process.env.FRONTEND_URL) {
+  corsOrigins.push(process.env.FRONTEND_URL);
+}
+
+// Enhanced CORS configuration - campaigns can also allow their own landing page origin
 app.use(cors({
-  origin: ['https://wafcon-spin-wheel.vercel.app', 'https://wafcon-spin-win-game.vercel.app', 'https://ilaraapi.onrender.com', process.env.FRONTEND_URL || '*'],
+  origin: async (origin, callback) => {
+    if (!origin || corsOrigins.includes(origin)) {
+      return callback(null, true);
+    }
+    try {
+      const campaignOrigins = await getCampaignOrigins(pool);
+      callback(null, campaignOrigins.includes(origin));
+    } catch (err) {
+      console.error('Error loading campaign origins:', err);
+      callback(null, false);
+    }
+  },
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   credentials: true,
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Origin', 'Accept'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Device-Token', 'X-Requested-With', 'Origin', 'Accept'],
   exposedHeaders: ['Content-Length', 'Content-Type'],
   preflightContinue: false,
   optionsSuccessStatus: 204
@@ -24,16 +52,37 @@ app.use(cors({
 app.use(express.json());
 app.use(morgan('dev')); // Logging
 
+// DB_DRIVER=memory runs without a database server, for local development
+const driver = getDriver();
+
+// The memory driver covers the admin and catalogue routes only, not the whole API. The game
+// itself (devices, campaigns, spins, recording results and everything that hangs off them) still
+// queries MySQL through req.db, so those routes are mounted behind requireMysql; the README lists
+// them.
+const MYSQL_ONLY_MESSAGE = `This endpoint needs MySQL. Start the server with DB_DRIVER=${DRIVERS.MYSQL}`;
+const rejectQuery = () => Promise.reject(new Error(MYSQL_ONLY_MESSAGE));
+const requireMysql = (req, res, next) => {
+  if (driver === DRIVERS.MYSQL) {
+    return next();
+  }
+  res.status(501).json({ message: MYSQL_ONLY_MESSAGE });
+};
+
 // Log connection parameters (sensitive information masked in production)
-console.log('Attempting to connect to database with the following parameters:');
-console.log(`Host: ${process.env.DB_HOST}`);
-console.log(`User: ${process.env.DB_USER}`);
-console.log(`Database: ${process.env.DB_NAME}`);
-console.log(`Connection limit: 10`);
+if (driver === DRIVERS.MYSQL) {
+  console.log('Attempting to connect to database with the following parameters:');
+  console.log(`Host: ${process.env.DB_HOST}`);
+  console.log(`User: ${process.env.DB_USER}`);
+  console.log(`Database: ${process.env.DB_NAME}`);
+  console.log(`Connection limit: 10`);
+} else {
+  console.log(`Using the ${driver} storage driver; data is lost when the server stops`);
+  console.log('Devices, campaigns, spins and the routes built on them need MySQL and answer 501');
+}
 console.log(`Environment: ${process.env.NODE_ENV}`);
 
 // MySQL connection pool with improved error handling and SSL disabled
-const pool = mysql.createPool({
+const pool = driver === DRIVERS.MYSQL ? mysql.createPool({
   host: process.env.DB_HOST,
   user: process.env.DB_USER,
   password: process.env.DB_PASSWORD,
@@ -46,10 +95,13 @@ const pool = mysql.createPool({
   ssl: false, // Disable SSL since the server doesn't support it
   connectTimeout: 60000, // 60 seconds
   debug: process.env.NODE_ENV !== 'production'
-});
+}) : { query: rejectQuery, getConnection: rejectQuery };
 
 // Test database connection on startup with detailed diagnostics
 (async () => {
+  if (driver !== DRIVERS.MYSQL) {
+    return;
+  }
   try {
     const connection = await pool.getConnection();
     console.log('✅ Successfully connected to MySQL database!');
@@ -75,237 +127,45 @@ const pool = mysql.createPool({
   }
 })();
 
-// Add pool to request object
+const repos = createRepositories(driver, pool);
+
+// Add pool and repositories to request object
 app.use((req, res, next) => {
   req.db = pool;
+  req.repos = repos;
   next();
 });
 
-// Database initialization
-const initDb = async () => {
-  try {
-    const connection = await pool.getConnection();
-    
-    // Create users table if it doesn't exist
-    await connection.query(`
-      CREATE TABLE IF NOT EXISTS users (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        email VARCHAR(100) NOT NULL UNIQUE,
-        location VARCHAR(100) NOT NULL,
-        agent_name VARCHAR(100),
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create spin_results table if it doesn't exist
-    await connection.query(`
-      CREATE TABLE IF NOT EXISTS spin_results (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        email VARCHAR(100) NOT NULL,
-        location VARCHAR(100) NOT NULL,
-        agent_name VARCHAR(100),
-        prize VARCHAR(50) NOT NULL,
-        is_win BOOLEAN NOT NULL,
-        date TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create agents table if it doesn't exist
-    await connection.query(`
-      CREATE TABLE IF NOT EXISTS agents (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        agent_id VARCHAR(50) NOT NULL UNIQUE,
-        name VARCHAR(100) NOT NULL,
-        email VARCHAR(100) NOT NULL UNIQUE,
-        phone VARCHAR(20),
-        location VARCHAR(100) DEFAULT '',
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create products table if it doesn't exist
-    await connection.query(`
-      CREATE TABLE IF NOT EXISTS products (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        name VARCHAR(100) NOT NULL,
-        description TEXT,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
-      )
-    `);
-
-    // Create product_assignments table if it doesn't exist
-    await connection.query(`
-      CREATE TABLE IF NOT EXISTS product_assignments (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        agent_id VARCHAR(50) NOT NULL,
-        product_id INT NOT NULL,
-        quantity INT NOT NULL DEFAULT 1,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
-        INDEX idx_agent_id (agent_id),
-        INDEX idx_product_id (product_id)
-      )
-    `);
-
-    // Create product_inventory table if it doesn't exist
-    await connection.query(`
-      CREATE TABLE IF NOT EXISTS product_inventory (
-        id INT AUTO_INCREMENT PRIMARY KEY,
-        product_id VARCHAR(50) NOT NULL,
-        product_name VARCHAR(100) NOT NULL,
-        total_quantity INT NOT NULL DEFAULT 0,
-        available_quantity INT NOT NULL DEFAULT 0,
-        distributed_quantity INT NOT NULL DEFAULT 0,
-        agent_id VARCHAR(50) NOT NULL,
-        agent_name VARCHAR(100) NOT NULL,
-        location VARCHAR(100) NOT NULL,
-        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
-        INDEX idx_agent_id (agent_id),
-        INDEX idx_product_id (product_id),
-        INDEX idx_available_qty (available_quantity),
-        UNIQUE KEY unique_agent_product (agent_id, product_id)
-      )
-    `);
-    
-    // Add agent_name column to users table if it doesn't exist
-    try {
-      await connection.query(`
-        ALTER TABLE users 
-        ADD COLUMN IF NOT EXISTS agent_name VARCHAR(100)
-      `);
-      console.log('Added agent_name column to users table (if it didn\'t exist)');
-    } catch (err) {
-      // Handle the case where ADD COLUMN IF NOT EXISTS isn't supported
-      if (err.code !== 'ER_PARSE_ERROR') {
-        throw err;
-      }
-      
-      // Check if column exists
-      const [columns] = await connection.query(`
-        SHOW COLUMNS FROM users LIKE 'agent_name'
-      `);
-      
-      if (columns.length === 0) {
-        await connection.query(`
-          ALTER TABLE users 
-          ADD COLUMN agent_name VARCHAR(100)
-        `);
-        console.log('Added agent_name column to users table');
-      } else {
-        console.log('agent_name column already exists in users table');
-      }
-    }
-
-    // Add agent_name column to spin_results table if it doesn't exist
-    try {
-      await connection.query(`
-        ALTER TABLE spin_results 
-        ADD COLUMN IF NOT EXISTS agent_name VARCHAR(100)
-      `);
-      console.log('Added agent_name column to spin_results table (if it didn\'t exist)');
-    } catch (err) {
-      // Handle the case where ADD COLUMN IF NOT EXISTS isn't supported
-      if (err.code !== 'ER_PARSE_ERROR') {
-        throw err;
-      }
-      
-      // Check if column exists
-      const [columns] = await connection.query(`
-        SHOW COLUMNS FROM spin_results LIKE 'agent_name'
-      `);
-      
-      if (columns.length === 0) {
-        await connection.query(`
-          ALTER TABLE spin_results 
-          ADD COLUMN agent_name VARCHAR(100)
-        `);
-        console.log('Added agent_name column to spin_results table');
-      } else {
-        console.log('agent_name column already exists in spin_results table');
-      }
-    }
-
-    // Add location column to agents table if it doesn't exist
-    try {
-      await connection.query(`
-        ALTER TABLE agents 
-        ADD COLUMN IF NOT EXISTS location VARCHAR(100) DEFAULT ''
-      `);
-      console.log('Added location column to agents table (if it didn\'t exist)');
-    } catch (err) {
-      // Handle the case where ADD COLUMN IF NOT EXISTS isn't supported
-      if (err.code !== 'ER_PARSE_ERROR') {
-        throw err;
-      }
-      
-      // Check if column exists
-      const [columns] = await connection.query(`
-        SHOW COLUMNS FROM agents LIKE 'location'
-      `);
-      
-      if (columns.length === 0) {
-        await connection.query(`
-          ALTER TABLE agents 
-          ADD COLUMN location VARCHAR(100) DEFAULT ''
-        `);
-        console.log('Added location column to agents table');
-      } else {
-        console.log('location column already exists in agents table');
-      }
-    }
-
-    // Add phone column to agents table if it doesn't exist
-    try {
-      await connection.query(`
-        ALTER TABLE agents 
-        ADD COLUMN IF NOT EXISTS phone VARCHAR(20)
-      `);
-      console.log('Added phone column to agents table (if it didn\'t exist)');
-    } catch (err) {
-      // Handle the case where ADD COLUMN IF NOT EXISTS isn't supported
-      if (err.code !== 'ER_PARSE_ERROR') {
-        throw err;
-      }
-      
-      // Check if column exists
-      const [columns] = await connection.query(`
-        SHOW COLUMNS FROM agents LIKE 'phone'
-      `);
-      
-      if (columns.length === 0) {
-        await connection.query(`
-          ALTER TABLE agents 
-          ADD COLUMN phone VARCHAR(20)
-        `);
-        console.log('Added phone column to agents table');
-      } else {
-        console.log('phone column already exists in agents table');
-      }
-    }
-    
-    connection.release();
-    console.log('Database tables initialized');
-  } catch (err) {
-    console.error('Database initialization error:', err);
-    if (err.code === 'ER_ACCESS_DENIED_ERROR') {
-      console.error('Access denied. Check database username and password.');
-    } else if (err.code === 'ECONNREFUSED') {
-      console.error('Connection refused. Check if database server is running and accessible.');
-    } else if (err.code === 'ER_BAD_DB_ERROR') {
-      console.error('Database does not exist. Check database name.');
-    }
+// Create the first admin from the environment so a new install can be signed in to
+const createFirstAdmin = async () => {
+  if (await repos.admins.count() > 0) {
+    return;
+  }
+  if (process.env.ADMIN_USERNAME && process.env.ADMIN_PASSWORD) {
+    await repos.admins.create({
+      username: process.env.ADMIN_USERNAME,
+      passwordHash: await hashPassword(process.env.ADMIN_PASSWORD),
+      role: 'super_admin'
+    });
+    console.log(`Created admin user ${process.env.ADMIN_USERNAME}`);
+  } else {
+    console.warn('No admin users exist. Set ADMIN_USERNAME and ADMIN_PASSWORD or run npm run create-admin');
   }
 };
 
-// Initialize the database
-initDb();
+// The schema is changed by migrations only (npm run migrate), so refuse to serve until every
+// migration the code expects has been applied
+const checkSchema = async () => {
+  const { current, latest, pending, unknown } = await getSchemaStatus(pool);
+  if (pending.length > 0) {
+    throw new Error(`Database schema is at version ${current} but this code needs ${latest}. ` +
+      `Run npm run migrate to apply: ${pending.map(migration => `${migration.version} ${migration.name}`).join(', ')}`);
+  }
+  if (unknown.length > 0) {
+    console.warn(`Database has migrations this code does not know about: ${unknown.join(', ')}`);
+  }
+  console.log(`Database schema is at version ${current}`);
+};
 
 // Import routes
 const userRoutes = require('./routes/users');
@@ -316,6 +176,17 @@ const productRoutes = require('./routes/products');
 const productAssignmentRoutes = require('./routes/productAssignments');
 const inventoryRoutes = require('./routes/inventory');
 const prizeDistributionRoutes = require('./routes/prizeDistribution');
+const spinRoutes = require('./routes/spins');
+const campaignRoutes = require('./routes/campaigns');
+const authRoutes = require('./routes/auth');
+const deviceRoutes = require('./routes/devices');
+const claimRoutes = require('./routes/claims');
+const stockTransferRoutes = require('./routes/stockTransfers');
+const otpRoutes = require('./routes/otp');
+const spinReviewRoutes = require('./routes/spinReviews');
+const prizeCapRoutes = require('./routes/prizeCaps');
+const quizQuestionRoutes = require('./routes/quizQuestions');
+const purchaseRoutes = require('./routes/purchases');
 
 // Swagger configuration
 const swaggerOptions = {
@@ -370,7 +241,8 @@ app.get('/health', (req, res) => {
     status: 'UP', 
     timestamp: new Date(), 
     env: process.env.NODE_ENV,
-    dbConnected: !!pool
+    dbConnected: !!pool,
+    dbDriver: driver
   });
 });
 
@@ -379,13 +251,26 @@ app.options('*', cors());
 
 // Routes - Mount without /api prefix
 app.use('/users', userRoutes);
+// Listing results works with either driver, recording one needs MySQL
+app.post('/spin-results', requireMysql);
 app.use('/spin-results', spinResultRoutes);
 app.use('/admin', adminRoutes);
 app.use('/agents', agentRoutes);
 app.use('/products', productRoutes);
-app.use('/product-assignments', productAssignmentRoutes);
+app.use('/product-assignments', requireMysql, productAssignmentRoutes);
 app.use('/inventory', inventoryRoutes);
-app.use('/prize-distribution', prizeDistributionRoutes);
+app.use('/prize-distribution', requireMysql, prizeDistributionRoutes);
+app.use('/spins', requireMysql, spinRoutes);
+app.use('/campaigns', requireMysql, campaignRoutes);
+app.use('/auth', authRoutes);
+app.use('/devices', requireMysql, deviceRoutes);
+app.use('/claims', requireMysql, claimRoutes);
+app.use('/stock-transfers', requireMysql, stockTransferRoutes);
+app.use('/otp', requireMysql, otpRoutes);
+app.use('/spin-reviews', requireMysql, spinReviewRoutes);
+app.use('/prize-caps', requireMysql, prizeCapRoutes);
+app.use('/quiz-questions', requireMysql, quizQuestionRoutes);
+app.use('/purchases', requireMysql, purchaseRoutes);
 
 /**
  * @swagger
@@ -413,6 +298,17 @@ app.get('/', (req, res) => {
       '/product-assignments',
       '/inventory',
       '/prize-distribution',
+      '/spins',
+      '/campaigns',
+      '/auth',
+      '/devices',
+      '/claims',
+      '/stock-transfers',
+      '/otp',
+      '/spin-reviews',
+      '/prize-caps',
+      '/quiz-questions',
+      '/purchases',
       '/health'
     ]
   });
@@ -429,9 +325,29 @@ app.use((err, req, res, next) => {
   });
 });
 
-// Start the server
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`API available at http://localhost:${PORT}/`);
-  console.log(`Swagger documentation available at http://localhost:${PORT}/api-docs`);
-});
+// Start the server once the schema is up to date
+(async () => {
+  try {
+    // The memory driver starts empty, with nothing to migrate
+    if (driver === DRIVERS.MYSQL) {
+      await checkSchema();
+    }
+    await createFirstAdmin();
+  } catch (err) {
+    console.error('Database initialization error:', err.message);
+    if (err.code === 'ER_ACCESS_DENIED_ERROR') {
+      console.error('Access denied. Check database username and password.');
+    } else if (err.code === 'ECONNREFUSED') {
+      console.error('Connection refused. Check if database server is running and accessible.');
+    } else if (err.code === 'ER_BAD_DB_ERROR') {
+      console.error('Database does not exist. Check database name.');
+    }
+    process.exit(1);
+  }
+
+  app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT}`);
+    console.log(`API available at http://localhost:${PORT}/`);
+    console.log(`Swagger documentation available at http://localhost:${PORT}/api-docs`);
+  });
+})();
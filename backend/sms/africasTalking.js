@@ -0,0 +1,43 @@
+const axios = require('axios');
+
+/**
+ * Sends texts through Africa's Talking. The `sandbox` username uses their sandbox API.
+ * @param {object} env - AT_USERNAME, AT_API_KEY and optionally AT_SENDER_ID
+ */
+function createAfricasTalkingProvider(env) {
+  if (!env.AT_USERNAME || !env.AT_API_KEY) {
+    throw new Error("AT_USERNAME and AT_API_KEY are required to send texts with Africa's Talking");
+  }
+
+  const baseUrl = env.AT_USERNAME === 'sandbox'
+    ? 'https://api.sandbox.africastalking.com'
+    : 'https://api.africastalking.com';
+
+  return {
+    name: 'africastalking',
+
+    async send(to, message) {
+      const params = new URLSearchParams({ username: env.AT_USERNAME, to, message });
+      if (env.AT_SENDER_ID) {
+        params.set('from', env.AT_SENDER_ID);
+      }
+
+      const response = await axios.post(`${baseUrl}/version1/messaging`, params.toString(), {
+        headers: {
+          apiKey: env.AT_API_KEY,
+          Accept: 'application/json',
+          'Content-Type': 'application/x-www-form-urlencoded'
+        },
+        timeout: 10000
+      });
+
+      // A request can be accepted while the recipient is rejected, for example an invalid number
+      const [recipient] = response.data.SMSMessageData.Recipients || [];
+      if (!recipient || recipient.statusCode >= 400) {
+        throw new Error(`Africa's Talking did not accept the text: ${recipient ? recipient.status : response.data.SMSMessageData.Message}`);
+      }
+    }
+  };
+}
+
+module.exports = createAfricasTalkingProvider;
@@ -0,0 +1,14 @@
+/**
+ * Writes texts to the server log instead of sending them
+ */
+function createConsoleProvider() {
+  return {
+    name: 'console',
+
+    async send(to, message) {
+      console.log(`SMS to ${to}: ${message}`);
+    }
+  };
+}
+
+module.exports = createConsoleProvider;
@@ -0,0 +1,21 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Appends texts to an outbox file, one JSON object per line, instead of sending them
+ * @param {object} env - SMS_OUTBOX_FILE is the file to write to
+ */
+function createFileProvider(env) {
+  const outbox = path.resolve(env.SMS_OUTBOX_FILE || path.join(__dirname, '..', 'sms-outbox.log'));
+
+  return {
+    name: 'file',
+
+    async send(to, message) {
+      const line = JSON.stringify({ to, message, sent_at: new Date().toISOString() });
+      await fs.promises.appendFile(outbox, `${line}\n`);
+    }
+  };
+}
+
+module.exports = createFileProvider;
@@ -0,0 +1,44 @@
+/**
+ * SMS gateways. Every provider has the same interface:
+ *
+ *   name                  - Name shown in logs and /health
+ *   send(to, message)     - Send a text to an E.164 phone number; resolves once the gateway has
+ *                           accepted it and rejects with the gateway's error otherwise
+ *
+ * The provider is chosen with SMS_PROVIDER. `console` (the default) and `file` do not send
+ * anything, so one-time codes can be read from the server log or the outbox file during local
+ * development.
+ */
+const createConsoleProvider = require('./console');
+const createFileProvider = require('./file');
+const createAfricasTalkingProvider = require('./africasTalking');
+const createTwilioProvider = require('./twilio');
+
+const PROVIDERS = {
+  console: createConsoleProvider,
+  file: createFileProvider,
+  africastalking: createAfricasTalkingProvider,
+  twilio: createTwilioProvider
+};
+
+let provider;
+
+/**
+ * Get the configured SMS provider
+ * @returns {{name: string, send: Function}} - Provider, created on first use
+ */
+function getSmsProvider() {
+  if (!provider) {
+    const name = (process.env.SMS_PROVIDER || 'console').toLowerCase();
+    const createProvider = PROVIDERS[name];
+    if (!createProvider) {
+      throw new Error(`Unknown SMS_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}`);
+    }
+    provider = createProvider(process.env);
+  }
+  return provider;
+}
+
+module.exports = {
+  getSmsProvider
+};
@@ -0,0 +1,30 @@
+const axios = require('axios');
+
+/**
+ * Sends texts through Twilio
+ * @param {object} env - TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM (a Twilio number or sender ID)
+ */
+function createTwilioProvider(env) {
+  if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN || !env.TWILIO_FROM) {
+    throw new Error('TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM are required to send texts with Twilio');
+  }
+
+  return {
+    name: 'twilio',
+
+    async send(to, message) {
+      const params = new URLSearchParams({ To: to, From: env.TWILIO_FROM, Body: message });
+      await axios.post(
+        `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Messages.json`,
+        params.toString(),
+        {
+          auth: { username: env.TWILIO_ACCOUNT_SID, password: env.TWILIO_AUTH_TOKEN },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: 10000
+        }
+      );
+    }
+  };
+}
+
+module.exports = createTwilioProvider;
@@ -0,0 +1,40 @@
+/**
+ * Where receipt photos are kept. Every store has the same interface:
+ *
+ *   name                            - Name shown in logs
+ *   save(key, buffer, contentType)  - Store a file under a key; resolves once it is stored
+ *   read(key)                       - Resolve to the stored file as a Buffer
+ *
+ * Keys are made by the server, never taken from a request. The store is chosen with
+ * RECEIPT_STORAGE: `local` (the default) keeps files on the server's disk, `s3` in an
+ * S3-compatible bucket.
+ */
+const createLocalStorage = require('./local');
+const createS3Storage = require('./s3');
+
+const STORES = {
+  local: createLocalStorage,
+  s3: createS3Storage
+};
+
+let store;
+
+/**
+ * Get the configured receipt photo store
+ * @returns {{name: string, save: Function, read: Function}} - Store, created on first use
+ */
+function getReceiptStorage() {
+  if (!store) {
+    const name = (process.env.RECEIPT_STORAGE || 'local').toLowerCase();
+    const createStore = STORES[name];
+    if (!createStore) {
+      throw new Error(`Unknown RECEIPT_STORAGE "${name}". Use one of: ${Object.keys(STORES).join(', ')}`);
+    }
+    store = createStore(process.env);
+  }
+  return store;
+}
+
+module.exports = {
+  getReceiptStorage
+};
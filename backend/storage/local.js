@@ -0,0 +1,35 @@
+const fs = require('fs');
+const path = require('path');
+
+/**
+ * Keeps files in a folder on the server's disk
+ * @param {object} env - RECEIPT_UPLOAD_DIR is the folder to write to
+ */
+function createLocalStorage(env) {
+  const root = path.resolve(env.RECEIPT_UPLOAD_DIR || path.join(__dirname, '..', 'uploads', 'receipts'));
+
+  // Keys are made by the server, but a key must still never point outside the folder
+  const resolveKey = (key) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return file;
+  };
+
+  return {
+    name: 'local',
+
+    async save(key, buffer) {
+      const file = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.writeFile(file, buffer);
+    },
+
+    async read(key) {
+      return fs.promises.readFile(resolveKey(key));
+    }
+  };
+}
+
+module.exports = createLocalStorage;
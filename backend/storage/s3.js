@@ -0,0 +1,96 @@
+const axios = require('axios');
+const crypto = require('crypto');
+
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest('hex');
+const hmac = (key, data) => crypto.createHmac('sha256', key).update(data).digest();
+
+/**
+ * Keeps files in an S3 bucket, or any S3-compatible object store such as MinIO or DigitalOcean
+ * Spaces. Requests are signed with AWS Signature Version 4.
+ * @param {object} env - RECEIPT_S3_BUCKET, RECEIPT_S3_REGION, AWS_ACCESS_KEY_ID and
+ *   AWS_SECRET_ACCESS_KEY, optionally AWS_SESSION_TOKEN, and RECEIPT_S3_ENDPOINT for stores
+ *   other than AWS (the bucket is then addressed by path)
+ */
+function createS3Storage(env) {
+  if (!env.RECEIPT_S3_BUCKET || !env.RECEIPT_S3_REGION || !env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY) {
+    throw new Error('RECEIPT_S3_BUCKET, RECEIPT_S3_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY are required to store receipts in S3');
+  }
+
+  const bucket = env.RECEIPT_S3_BUCKET;
+  const region = env.RECEIPT_S3_REGION;
+  const endpoint = env.RECEIPT_S3_ENDPOINT ? new URL(env.RECEIPT_S3_ENDPOINT) : null;
+  const host = endpoint ? endpoint.host : `${bucket}.s3.${region}.amazonaws.com`;
+  const origin = endpoint ? endpoint.origin : `https://${host}`;
+
+  const objectPath = (key) => {
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+    return endpoint ? `/${encodeURIComponent(bucket)}/${encodedKey}` : `/${encodedKey}`;
+  };
+
+  // Headers for a signed request; see https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+  const signedHeaders = (method, pathname, body) => {
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const payloadHash = sha256(body || '');
+
+    const headers = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate
+    };
+    if (env.AWS_SESSION_TOKEN) {
+      headers['x-amz-security-token'] = env.AWS_SESSION_TOKEN;
+    }
+
+    // The host is signed too, but the HTTP client sets its header
+    const signed = { ...headers, host };
+    const names = Object.keys(signed).sort();
+    const canonicalRequest = [
+      method,
+      pathname,
+      '',
+      ...names.map(name => `${name}:${signed[name]}`),
+      '',
+      names.join(';'),
+      payloadHash
+    ].join('\n');
+
+    const scope = `${dateStamp}/${region}/s3/aws4_request`;
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      hmac,
+      hmac(hmac(`AWS4${env.AWS_SECRET_ACCESS_KEY}`, dateStamp), region)
+    );
+    const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    return {
+      ...headers,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${env.AWS_ACCESS_KEY_ID}/${scope}, ` +
+        `SignedHeaders=${names.join(';')}, Signature=${signature}`
+    };
+  };
+
+  return {
+    name: 's3',
+
+    async save(key, buffer, contentType) {
+      const pathname = objectPath(key);
+      await axios.put(`${origin}${pathname}`, buffer, {
+        headers: { ...signedHeaders('PUT', pathname, buffer), 'Content-Type': contentType },
+        maxBodyLength: Infinity,
+        timeout: 30000
+      });
+    },
+
+    async read(key) {
+      const pathname = objectPath(key);
+      const response = await axios.get(`${origin}${pathname}`, {
+        headers: signedHeaders('GET', pathname),
+        responseType: 'arraybuffer',
+        timeout: 30000
+      });
+      return Buffer.from(response.data);
+    }
+  };
+}
+
+module.exports = createS3Storage;
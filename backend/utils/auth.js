@@ -0,0 +1,140 @@
+/**
+ * Utility functions for admin passwords, access tokens and refresh tokens
+ */
+const crypto = require('crypto');
+const bcrypt = require('bcryptjs');
+const jwt = require('jsonwebtoken');
+
+const BCRYPT_ROUNDS = 12;
+
+// Access tokens are short lived; the refresh token keeps the admin signed in
+const ACCESS_TOKEN_TTL_SECONDS = parseInt(process.env.JWT_ACCESS_TTL_SECONDS, 10) || 15 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = parseInt(process.env.JWT_REFRESH_TTL_SECONDS, 10) || 7 * 24 * 60 * 60;
+// Kiosks stay signed in to their agent for the length of a typical activation
+const DEVICE_SESSION_TTL_SECONDS = parseInt(process.env.DEVICE_SESSION_TTL_SECONDS, 10) || 30 * 24 * 60 * 60;
+// A verified phone number only needs to last until the customer has played
+const PHONE_VERIFICATION_TTL_SECONDS = parseInt(process.env.PHONE_VERIFICATION_TTL_SECONDS, 10) || 30 * 60;
+
+const PIN_PATTERN = /^\d{4,6}$/;
+
+let secret = process.env.JWT_SECRET;
+if (!secret) {
+  // Without a configured secret, admins are signed out whenever the server restarts
+  secret = crypto.randomBytes(32).toString('hex');
+  console.warn('JWT_SECRET is not set, using a random secret for this process');
+}
+
+/**
+ * Hash an admin password
+ * @param {string} password - Plain text password
+ * @returns {Promise<string>} - bcrypt hash
+ */
+function hashPassword(password) {
+  return bcrypt.hash(password, BCRYPT_ROUNDS);
+}
+
+/**
+ * Check a password against a stored hash
+ * @param {string} password - Plain text password
+ * @param {string} hash - bcrypt hash from the database
+ * @returns {Promise<boolean>} - True when the password matches
+ */
+function verifyPassword(password, hash) {
+  return bcrypt.compare(password, hash);
+}
+
+/**
+ * Create a signed access token for an admin user
+ * @param {{id: number, username: string, role: string, agent_id: ?string}} user - Admin user
+ * @returns {{token: string, expiresIn: number}} - JWT and its lifetime in seconds
+ */
+function createAccessToken(user) {
+  const token = jwt.sign(
+    { sub: String(user.id), username: user.username, role: user.role, agent_id: user.agent_id || null },
+    secret,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+  return { token, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+/**
+ * Verify an access token
+ * @param {string} token - JWT from the Authorization header
+ * @returns {object|null} - Token claims or null if invalid or expired
+ */
+function verifyAccessToken(token) {
+  try {
+    return jwt.verify(token, secret);
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * Hash a refresh token for storage, so a database leak does not leak sessions
+ * @param {string} token - Refresh token
+ * @returns {string} - SHA-256 hash
+ */
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a random token that is stored as a hash
+ * @param {number} ttlSeconds - Lifetime of the token
+ * @returns {{token: string, tokenHash: string, expiresAt: Date}} - Token, its hash and expiry
+ */
+function createOpaqueToken(ttlSeconds) {
+  const token = crypto.randomBytes(48).toString('base64url');
+  return {
+    token,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlSeconds * 1000)
+  };
+}
+
+/**
+ * Create a random refresh token
+ * @returns {{token: string, tokenHash: string, expiresAt: Date}} - Token, its hash and expiry
+ */
+function createRefreshToken() {
+  return createOpaqueToken(REFRESH_TOKEN_TTL_SECONDS);
+}
+
+/**
+ * Create a token that signs a device in as an agent
+ * @returns {{token: string, tokenHash: string, expiresAt: Date}} - Token, its hash and expiry
+ */
+function createDeviceToken() {
+  return createOpaqueToken(DEVICE_SESSION_TTL_SECONDS);
+}
+
+/**
+ * Create a token showing a customer entered the code sent to their phone
+ * @returns {{token: string, tokenHash: string, expiresAt: Date}} - Token, its hash and expiry
+ */
+function createPhoneVerificationToken() {
+  return createOpaqueToken(PHONE_VERIFICATION_TTL_SECONDS);
+}
+
+/**
+ * Check that an agent PIN has the expected format
+ * @param {string} pin - PIN entered by an admin
+ * @returns {boolean} - True for 4 to 6 digits
+ */
+function isValidPin(pin) {
+  return PIN_PATTERN.test(String(pin));
+}
+
+module.exports = {
+  hashPassword,
+  verifyPassword,
+  createAccessToken,
+  verifyAccessToken,
+  createRefreshToken,
+  createDeviceToken,
+  createPhoneVerificationToken,
+  isValidPin,
+  hashToken,
+  ACCESS_TOKEN_TTL_SECONDS
+};
@@ -0,0 +1,133 @@
+/**
+ * Utility functions for loading campaigns and checking their schedule
+ */
+const { normalizeEligibilityRules } = require('./eligibility');
+const { normalizeQuizSettings } = require('./quiz');
+const { normalizePurchaseSettings } = require('./purchases');
+
+// Games a campaign can be played with. They all reveal an outcome drawn by POST /spins/draw.
+const GAME_MODES = {
+  WHEEL: 'wheel',
+  SCRATCH_CARD: 'scratch_card',
+  PICK_A_BOX: 'pick_a_box',
+  SLOT_MACHINE: 'slot_machine'
+};
+
+const DEFAULT_GAME_MODE = GAME_MODES.WHEEL;
+
+// Campaign origins are looked up on every cross-origin request, so cache them briefly
+const ORIGIN_CACHE_TTL_MS = 60 * 1000;
+let originCache = { origins: [], loadedAt: 0 };
+
+/**
+ * Parse a campaign row from the database
+ * @param {object} row - Row from the campaigns table
+ * @returns {object} - Campaign with its sector list, eligibility rules, game mode, quiz and purchase settings parsed
+ */
+function parseCampaign(row) {
+  let sectors = null;
+  if (row.sectors) {
+    try {
+      sectors = JSON.parse(row.sectors);
+    } catch (err) {
+      console.error(`Invalid sectors for campaign ${row.slug}:`, err.message);
+    }
+  }
+
+  const { rules, error } = normalizeEligibilityRules(row.eligibility_rules);
+  if (error) {
+    console.error(`Invalid eligibility rules for campaign ${row.slug}:`, error);
+  }
+  const quiz = normalizeQuizSettings(row.quiz_settings);
+  if (quiz.error) {
+    console.error(`Invalid quiz settings for campaign ${row.slug}:`, quiz.error);
+  }
+  const purchase = normalizePurchaseSettings(row.purchase_settings);
+  if (purchase.error) {
+    console.error(`Invalid purchase settings for campaign ${row.slug}:`, purchase.error);
+  }
+
+  return {
+    ...row,
+    is_active: !!row.is_active,
+    sectors: Array.isArray(sectors) && sectors.length > 0 ? sectors : null,
+    eligibility_rules: rules || null,
+    game_mode: Object.values(GAME_MODES).includes(row.game_mode) ? row.game_mode : DEFAULT_GAME_MODE,
+    quiz_settings: quiz.settings || null,
+    purchase_settings: purchase.settings || null
+  };
+}
+
+/**
+ * Check whether a campaign is accepting spins
+ * @param {object} campaign - Parsed campaign
+ * @param {Date} now - Time to check against
+ * @returns {boolean} - True when the campaign is active and within its schedule
+ */
+function isCampaignLive(campaign, now = new Date()) {
+  if (!campaign.is_active) {
+    return false;
+  }
+  if (campaign.start_date && new Date(campaign.start_date) > now) {
+    return false;
+  }
+  if (campaign.end_date && new Date(campaign.end_date) < now) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Find a campaign by its ID or slug
+ * @param {object} db - Database pool or connection
+ * @param {{id?: (number|string), slug?: string}} key - Campaign ID or slug
+ * @returns {Promise<object|null>} - Parsed campaign or null if not found
+ */
+async function getCampaign(db, { id, slug }) {
+  if (!id && !slug) {
+    return null;
+  }
+
+  const [campaigns] = id
+    ? await db.query('SELECT * FROM campaigns WHERE id = ?', [id])
+    : await db.query('SELECT * FROM campaigns WHERE slug = ?', [String(slug).trim().toLowerCase()]);
+
+  return campaigns.length > 0 ? parseCampaign(campaigns[0]) : null;
+}
+
+/**
+ * Get the landing page origins configured on campaigns, for CORS
+ * @param {object} db - Database pool
+ * @returns {Promise<string[]>} - Allowed origins
+ */
+async function getCampaignOrigins(db) {
+  if (Date.now() - originCache.loadedAt < ORIGIN_CACHE_TTL_MS) {
+    return originCache.origins;
+  }
+
+  const [rows] = await db.query(
+    "SELECT DISTINCT allowed_origin FROM campaigns WHERE allowed_origin IS NOT NULL AND allowed_origin != ''"
+  );
+  originCache = {
+    origins: rows.map(row => row.allowed_origin),
+    loadedAt: Date.now()
+  };
+  return originCache.origins;
+}
+
+/**
+ * Forget cached campaign origins after a campaign is changed
+ */
+function clearCampaignOriginCache() {
+  originCache = { origins: [], loadedAt: 0 };
+}
+
+module.exports = {
+  GAME_MODES,
+  DEFAULT_GAME_MODE,
+  parseCampaign,
+  isCampaignLive,
+  getCampaign,
+  getCampaignOrigins,
+  clearCampaignOriginCache
+};
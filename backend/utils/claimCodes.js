@@ -0,0 +1,89 @@
+/**
+ * Claim codes for won prizes. Each win gets a short code, shown to the customer as text and
+ * a QR code, which a BA redeems when the prize is handed over.
+ */
+const crypto = require('crypto');
+
+// No 0/O, 1/I/L or U, so codes can be read out and typed without mistakes
+const CLAIM_CODE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CLAIM_CODE_LENGTH = 8;
+const CLAIM_CODE_TTL_DAYS = parseInt(process.env.CLAIM_CODE_TTL_DAYS, 10) || 14;
+const MAX_CODE_ATTEMPTS = 5;
+
+/**
+ * Generate a random claim code
+ * @returns {string} - Code such as 'K7QM3XTA'
+ */
+function generateClaimCode() {
+  let code = '';
+  for (let i = 0; i < CLAIM_CODE_LENGTH; i++) {
+    code += CLAIM_CODE_ALPHABET[crypto.randomInt(CLAIM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Normalise a code typed or scanned by a BA
+ * @param {string} code - Code as entered
+ * @returns {string|null} - Upper case code without spaces or dashes, or null if it cannot be a claim code
+ */
+function normalizeClaimCode(code) {
+  const normalized = String(code || '').toUpperCase().replace(/[\s-]/g, '');
+  return normalized.length === CLAIM_CODE_LENGTH && [...normalized].every(c => CLAIM_CODE_ALPHABET.includes(c))
+    ? normalized
+    : null;
+}
+
+/**
+ * Give a winning spin its claim code
+ * @param {object} connection - Connection with an open transaction
+ * @param {number} spinResultId - ID of the winning spin result
+ * @param {Date} [wonAt] - When the prize was won, defaults to now
+ * @returns {Promise<{claim_code: string, claim_expires_at: Date}>} - The code and when it stops being redeemable
+ */
+async function assignClaimCode(connection, spinResultId, wonAt = new Date()) {
+  const expiresAt = new Date(wonAt.getTime() + CLAIM_CODE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+  for (let attempt = 1; ; attempt++) {
+    const code = generateClaimCode();
+    try {
+      await connection.query(
+        'UPDATE spin_results SET claim_code = ?, claim_expires_at = ? WHERE id = ?',
+        [code, expiresAt, spinResultId]
+      );
+      return { claim_code: code, claim_expires_at: expiresAt };
+    } catch (err) {
+      // Codes are random, so a clash is retried with a new one
+      if (err.code !== 'ER_DUP_ENTRY' || attempt >= MAX_CODE_ATTEMPTS) {
+        throw err;
+      }
+    }
+  }
+}
+
+/**
+ * Work out where a spin result is in the claim workflow
+ * @param {object} spin - Spin result row
+ * @returns {string|null} - 'voided', 'claimed', 'expired' or 'unclaimed' for wins, null for losing spins
+ */
+function getClaimStatus(spin) {
+  if (!spin.is_win) {
+    return null;
+  }
+  if (spin.voided_at) {
+    return 'voided';
+  }
+  if (spin.claimed_at) {
+    return 'claimed';
+  }
+  if (spin.claim_expires_at && new Date(spin.claim_expires_at) < new Date()) {
+    return 'expired';
+  }
+  return 'unclaimed';
+}
+
+module.exports = {
+  assignClaimCode,
+  getClaimStatus,
+  normalizeClaimCode
+};
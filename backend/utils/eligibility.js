@@ -0,0 +1,185 @@
+const crypto = require('crypto');
+const { normalizePhone } = require('./phone');
+const { PRIZE_TIERS } = require('./wheelConfig');
+
+/**
+ * Eligibility rules that limit how often one customer can play. Rules are set per campaign;
+ * spins without a campaign, and campaigns without rules, use ELIGIBILITY_RULES from the
+ * environment, as JSON such as {"max_spins_per_day": 1}.
+ */
+
+// Each rule is a whole number of at least 1. A rule that is not set does not limit anything.
+const RULE_NAMES = [
+  'max_spins_per_day',
+  'max_spins_per_campaign',
+  // An outlet is the BA stand, identified by the agent the spin is played with
+  'max_spins_per_outlet',
+  'cooldown_minutes',
+  'max_wins'
+];
+
+// How long a draw waits for another draw for the same customer to finish
+const CONTACT_LOCK_TIMEOUT_SECONDS = 10;
+
+// Checked in this order, so the customer is told about the limit that lasts longest
+const SPIN_LIMITS = [
+  { rule: 'max_wins', count: history => history.wins, message: 'You have already won the maximum number of prizes.' },
+  { rule: 'max_spins_per_campaign', count: history => history.spins, message: 'You have already played the maximum number of times.' },
+  { rule: 'max_spins_per_day', count: history => history.spins_today, message: "You've already played today. Come back tomorrow!" },
+  { rule: 'max_spins_per_outlet', count: history => history.outlet_spins, message: 'You have already played at this stand.' }
+];
+
+/**
+ * Validate eligibility rules
+ * @param {string|object|null} value - Rules as an object or JSON text
+ * @returns {{rules?: ?object, error?: string}} - Only the rules that are set, or null when none are
+ */
+function normalizeEligibilityRules(value) {
+  if (value === undefined || value === null || value === '') {
+    return { rules: null };
+  }
+
+  let input = value;
+  if (typeof value === 'string') {
+    try {
+      input = JSON.parse(value);
+    } catch (err) {
+      return { error: 'eligibility_rules must be valid JSON' };
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'eligibility_rules must be an object' };
+  }
+
+  const rules = {};
+  for (const name of RULE_NAMES) {
+    const limit = input[name];
+    if (limit === undefined || limit === null || limit === '') {
+      continue;
+    }
+    if (!Number.isInteger(Number(limit)) || Number(limit) < 1) {
+      return { error: `${name} must be a whole number of at least 1` };
+    }
+    rules[name] = Number(limit);
+  }
+  return { rules: Object.keys(rules).length > 0 ? rules : null };
+}
+
+const defaultRules = (() => {
+  const { rules, error } = normalizeEligibilityRules(process.env.ELIGIBILITY_RULES);
+  if (error) {
+    console.warn(`Ignoring ELIGIBILITY_RULES: ${error}`);
+  }
+  return rules || null;
+})();
+
+/**
+ * Get the rules a spin is played under
+ * @param {?object} campaign - Parsed campaign, or null for spins without a campaign
+ * @returns {?object} - Rules, or null when customers can play as often as they like
+ */
+function getEligibilityRules(campaign) {
+  return (campaign && campaign.eligibility_rules) || defaultRules;
+}
+
+/**
+ * Normalise the email or phone number a customer plays with, so the same person matches
+ * however they type it
+ * @param {string} contact - Email address or phone number
+ * @returns {string} - Lowercased email, or a phone number in E.164 format
+ */
+function normalizeContact(contact) {
+  const value = String(contact || '').trim().toLowerCase();
+  return normalizePhone(value) || value;
+}
+
+/**
+ * Check whether a customer may play another spin. Spin tokens that have been drawn but not
+ * recorded yet count as spins, so a customer cannot draw several at once.
+ * @param {object} db - Database pool or connection
+ * @param {{contact: string, campaign: ?object, agentId: ?string}} spin - Normalised contact, the
+ *   campaign and the agent the spin would be played with
+ * @returns {Promise<{eligible: boolean, reason?: string, message?: string, retry_after_seconds?: number}>} -
+ *   Whether the customer may play, and if not which rule stops them
+ */
+async function checkEligibility(db, { contact, campaign, agentId }) {
+  const rules = getEligibilityRules(campaign);
+  if (!rules) {
+    return { eligible: true };
+  }
+  if (!contact) {
+    return { eligible: false, reason: 'contact_required', message: 'Enter your email or phone number to play.' };
+  }
+
+  const campaignId = campaign ? campaign.id : null;
+  const [[history]] = await db.query(`
+    SELECT
+      COUNT(*) as spins,
+      COALESCE(SUM(played_at >= CURDATE()), 0) as spins_today,
+      COALESCE(SUM(agent_id <=> ?), 0) as outlet_spins,
+      COALESCE(SUM(is_win), 0) as wins,
+      TIMESTAMPDIFF(SECOND, MAX(played_at), NOW()) as seconds_since_last
+    FROM (
+      SELECT date as played_at, agent_id, is_win AND NOT (prize_tier <=> ?) as is_win FROM spin_results
+      WHERE LOWER(TRIM(user_contact)) = ? AND campaign_id <=> ?
+      UNION ALL
+      SELECT issued_at, agent_id, is_win AND NOT (prize_tier <=> ?) FROM spin_tokens
+      WHERE user_contact = ? AND campaign_id <=> ? AND used_at IS NULL AND expires_at > NOW()
+    ) history
+  `, [agentId || null, PRIZE_TIERS.CONSOLATION, contact, campaignId, PRIZE_TIERS.CONSOLATION, contact, campaignId]);
+
+  for (const { rule, count, message } of SPIN_LIMITS) {
+    if (rules[rule] && Number(count(history)) >= rules[rule]) {
+      return { eligible: false, reason: rule, message };
+    }
+  }
+
+  if (rules.cooldown_minutes && history.seconds_since_last !== null) {
+    const waitSeconds = rules.cooldown_minutes * 60 - Number(history.seconds_since_last);
+    if (waitSeconds > 0) {
+      const minutes = Math.ceil(waitSeconds / 60);
+      return {
+        eligible: false,
+        reason: 'cooldown_minutes',
+        message: `You've just played. Please come back in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+        retry_after_seconds: waitSeconds
+      };
+    }
+  }
+
+  return { eligible: true };
+}
+
+// Named locks are limited to 64 characters, so contacts are hashed into the name
+const contactLockName = (contact) => `spin-contact:${crypto.createHash('sha1').update(contact).digest('hex')}`;
+
+/**
+ * Hold a named lock on a customer, so draws for them are checked one at a time and two at once
+ * cannot both pass the limits. Take it before the transaction that checks and issues the token,
+ * and release it after that commits.
+ * @param {object} connection - Database connection
+ * @param {string} contact - Normalised contact
+ * @returns {Promise<boolean>} - False if another draw held the lock for too long
+ */
+async function lockContact(connection, contact) {
+  const [[lock]] = await connection.query('SELECT GET_LOCK(?, ?) as acquired', [contactLockName(contact), CONTACT_LOCK_TIMEOUT_SECONDS]);
+  return lock.acquired === 1;
+}
+
+/**
+ * Release the lock taken by lockContact
+ * @param {object} connection - Database connection that holds the lock
+ * @param {string} contact - Normalised contact
+ */
+async function unlockContact(connection, contact) {
+  await connection.query('SELECT RELEASE_LOCK(?)', [contactLockName(contact)]);
+}
+
+module.exports = {
+  normalizeEligibilityRules,
+  getEligibilityRules,
+  normalizeContact,
+  checkEligibility,
+  lockContact,
+  unlockContact
+};
@@ -0,0 +1,218 @@
+/**
+ * Rules that flag suspicious spins for an admin to review. Each rule looks at one recorded spin
+ * and returns what looks wrong, or null. Flags are written to spin_flags, one per spin and rule,
+ * and never stop a spin from being recorded.
+ */
+const { getCampaign, isCampaignLive } = require('./campaigns');
+const { PRIZE_TIERS } = require('./wheelConfig');
+
+const envNumber = (name, fallback) => {
+  const value = parseFloat(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const FRAUD_CONFIG = {
+  // Spins per device session or IP address within the window
+  velocityWindowMinutes: envNumber('FRAUD_VELOCITY_WINDOW_MINUTES', 10),
+  maxSpinsPerDevice: envNumber('FRAUD_MAX_SPINS_PER_DEVICE', 20),
+  maxSpinsPerIp: envNumber('FRAUD_MAX_SPINS_PER_IP', 40),
+  // An agent's win rate over their latest spins, compared with the configured odds
+  winRateSample: envNumber('FRAUD_WIN_RATE_SAMPLE', 100),
+  winRateMinSpins: envNumber('FRAUD_WIN_RATE_MIN_SPINS', 30),
+  winRateFactor: envNumber('FRAUD_WIN_RATE_FACTOR', 1.5),
+  // Registrations with the same name, or a near-identical email or phone number, at one agent
+  registrationWindowMinutes: envNumber('FRAUD_REGISTRATION_WINDOW_MINUTES', 30),
+  maxSimilarRegistrations: envNumber('FRAUD_MAX_SIMILAR_REGISTRATIONS', 3),
+  // Daily hours spins are expected in, such as 08:00-20:00, in server time
+  activeHours: process.env.CAMPAIGN_ACTIVE_HOURS || null
+};
+
+/**
+ * Reduce a customer's name or contact to the part that stays the same when someone registers
+ * the same person several times: names without spaces or punctuation, emails without digits,
+ * dots or +tags in the mailbox name, and phone numbers without their last two digits
+ * @param {string} value - Name, email or phone number
+ * @returns {?string} - Comparable stem, or null when there is nothing to compare
+ */
+function toStem(value) {
+  const text = String(value || '').trim().toLowerCase();
+  if (!text || text === 'n/a' || text === 'anonymous') {
+    return null;
+  }
+  if (text.includes('@')) {
+    const [mailbox, domain] = text.split('@');
+    return `${mailbox.split('+')[0].replace(/[\d.]/g, '')}@${domain}`;
+  }
+  if (/^\+?\d{8,}$/.test(text)) {
+    return text.slice(0, -2);
+  }
+  return text.replace(/[^a-z]/g, '') || null;
+}
+
+// Minutes since midnight for a time such as 08:30
+const toMinutes = (time) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const RULES = [
+  {
+    name: 'device_velocity',
+    async check(db, spin) {
+      if (!spin.device_session_id) {
+        return null;
+      }
+      const [[{ spins }]] = await db.query(
+        `SELECT COUNT(*) as spins FROM spin_results
+         WHERE device_session_id = ? AND date BETWEEN ? - INTERVAL ? MINUTE AND ?`,
+        [spin.device_session_id, spin.date, FRAUD_CONFIG.velocityWindowMinutes, spin.date]
+      );
+      return spins > FRAUD_CONFIG.maxSpinsPerDevice
+        ? `${spins} spins from this device in ${FRAUD_CONFIG.velocityWindowMinutes} minutes`
+        : null;
+    }
+  },
+  {
+    name: 'ip_velocity',
+    async check(db, spin) {
+      if (!spin.ip_address) {
+        return null;
+      }
+      const [[{ spins }]] = await db.query(
+        `SELECT COUNT(*) as spins FROM spin_results
+         WHERE ip_address = ? AND date BETWEEN ? - INTERVAL ? MINUTE AND ?`,
+        [spin.ip_address, spin.date, FRAUD_CONFIG.velocityWindowMinutes, spin.date]
+      );
+      return spins > FRAUD_CONFIG.maxSpinsPerIp
+        ? `${spins} spins from ${spin.ip_address} in ${FRAUD_CONFIG.velocityWindowMinutes} minutes`
+        : null;
+    }
+  },
+  {
+    // Compared with the win probabilities set on the campaign's prizes, so campaigns without
+    // configured odds are not checked. Consolation prizes are given on losing sectors, so they
+    // are not counted as wins.
+    name: 'agent_win_rate',
+    async check(db, spin) {
+      if (!spin.is_win || spin.prize_tier === PRIZE_TIERS.CONSOLATION || !spin.agent_id) {
+        return null;
+      }
+      const [[{ expected }]] = await db.query(
+        `SELECT SUM(win_probability) as expected FROM products
+         WHERE win_probability IS NOT NULL AND NOT (prize_tier <=> ?) AND campaign_id <=> ?`,
+        [PRIZE_TIERS.CONSOLATION, spin.campaign_id]
+      );
+      if (!expected) {
+        return null;
+      }
+
+      const [[recent]] = await db.query(
+        `SELECT COUNT(*) as spins, COALESCE(SUM(is_win AND NOT (prize_tier <=> ?)), 0) as wins FROM (
+           SELECT is_win, prize_tier FROM spin_results
+           WHERE agent_id = ? AND campaign_id <=> ? AND id <= ?
+           ORDER BY id DESC LIMIT ?
+         ) latest`,
+        [PRIZE_TIERS.CONSOLATION, spin.agent_id, spin.campaign_id, spin.id, FRAUD_CONFIG.winRateSample]
+      );
+      if (recent.spins < FRAUD_CONFIG.winRateMinSpins) {
+        return null;
+      }
+
+      const expectedRate = Math.min(Number(expected), 100);
+      const winRate = (Number(recent.wins) / recent.spins) * 100;
+      return winRate > expectedRate * FRAUD_CONFIG.winRateFactor
+        ? `${spin.agent_name || spin.agent_id} won ${winRate.toFixed(0)}% of their last ${recent.spins} spins; the configured odds are ${expectedRate.toFixed(0)}%`
+        : null;
+    }
+  },
+  {
+    name: 'similar_registrations',
+    async check(db, spin) {
+      const nameStem = toStem(spin.user_name);
+      const contactStem = toStem(spin.user_contact);
+      if (!nameStem && !contactStem) {
+        return null;
+      }
+
+      const [recent] = await db.query(
+        `SELECT user_name, user_contact FROM spin_results
+         WHERE agent_id <=> ? AND date BETWEEN ? - INTERVAL ? MINUTE AND ?`,
+        [spin.agent_id, spin.date, FRAUD_CONFIG.registrationWindowMinutes, spin.date]
+      );
+      // Replays by the same customer are left to the eligibility rules
+      const contacts = new Set(recent
+        .filter(other => (nameStem && toStem(other.user_name) === nameStem) ||
+          (contactStem && toStem(other.user_contact) === contactStem))
+        .map(other => String(other.user_contact).trim().toLowerCase()));
+
+      return contacts.size > FRAUD_CONFIG.maxSimilarRegistrations
+        ? `${contacts.size} customers with a similar name, email or phone number in ${FRAUD_CONFIG.registrationWindowMinutes} minutes`
+        : null;
+    }
+  },
+  {
+    name: 'outside_campaign_hours',
+    async check(db, spin) {
+      const playedAt = new Date(spin.date);
+      const campaign = spin.campaign_id ? await getCampaign(db, { id: spin.campaign_id }) : null;
+      if (campaign && !isCampaignLive({ ...campaign, is_active: true }, playedAt)) {
+        return `Played at ${playedAt.toISOString()}, outside the campaign's dates`;
+      }
+
+      if (FRAUD_CONFIG.activeHours) {
+        const [opens, closes] = FRAUD_CONFIG.activeHours.split('-').map(toMinutes);
+        const minutes = playedAt.getHours() * 60 + playedAt.getMinutes();
+        if (minutes < opens || minutes >= closes) {
+          return `Played at ${playedAt.toTimeString().slice(0, 5)}, outside ${FRAUD_CONFIG.activeHours}`;
+        }
+      }
+      return null;
+    }
+  }
+];
+
+/**
+ * Run every rule against a recorded spin and flag it for review where one matches
+ * @param {object} db - Database pool
+ * @param {number} spinResultId - ID of the spin result
+ * @returns {Promise<Array<{rule: string, details: string}>>} - Flags raised
+ */
+async function scanSpin(db, spinResultId) {
+  const [spins] = await db.query('SELECT * FROM spin_results WHERE id = ?', [spinResultId]);
+  if (spins.length === 0) {
+    return [];
+  }
+
+  const flags = [];
+  for (const rule of RULES) {
+    const details = await rule.check(db, spins[0]);
+    if (details) {
+      flags.push({ rule: rule.name, details });
+    }
+  }
+
+  for (const { rule, details } of flags) {
+    await db.query(
+      'INSERT IGNORE INTO spin_flags (spin_result_id, rule, details) VALUES (?, ?, ?)',
+      [spinResultId, rule, details.slice(0, 500)]
+    );
+  }
+  return flags;
+}
+
+/**
+ * Scan a spin in the background, once it has been recorded. Problems are logged, so a failing
+ * rule never fails the spin.
+ * @param {object} db - Database pool
+ * @param {number} spinResultId - ID of the spin result
+ */
+function scanSpinLater(db, spinResultId) {
+  setImmediate(() => {
+    scanSpin(db, spinResultId).catch(err => console.error(`Error scanning spin ${spinResultId} for fraud:`, err));
+  });
+}
+
+module.exports = {
+  scanSpin,
+  scanSpinLater
+};
@@ -0,0 +1,110 @@
+/**
+ * Append-only ledger of stock movements. The quantity columns on product_inventory (agent stock,
+ * and warehouse stock where agent_id is NULL) are running balances; every change to them is
+ * written here in the same transaction, so the balances can be reconciled at any time.
+ */
+
+const MOVEMENT_TYPES = {
+  // Balance found when the ledger was introduced
+  OPENING: 'opening',
+  ASSIGN: 'assign',
+  RESTOCK: 'restock',
+  WIN: 'win',
+  DISTRIBUTE: 'distribute',
+  ADJUST: 'adjust',
+  TRANSFER: 'transfer',
+  WRITE_OFF: 'write_off',
+  // A voided win's prize going back into stock
+  VOID: 'void'
+};
+
+/**
+ * Describe who made a change, for the movement's actor column
+ * @param {object} req - Express request
+ * @returns {string} - Admin username, 'device:<agent_id>' for BA devices or 'system'
+ */
+function getActor(req) {
+  if (req.admin) {
+    return req.admin.username;
+  }
+  if (req.device) {
+    return `device:${req.device.agent_id}`;
+  }
+  return 'system';
+}
+
+/**
+ * Write a stock movement
+ * @param {object} connection - Connection, with an open transaction when the balance changes too
+ * @param {object} movement - agentId (null for the warehouse), productId, productName, campaignId,
+ *   type (one of MOVEMENT_TYPES), quantity (change in available stock), balanceAfter, actor,
+ *   reason, spinResultId and transferId
+ * @returns {Promise<number>} - ID of the movement
+ */
+async function recordMovement(connection, movement) {
+  const [result] = await connection.query(
+    `INSERT INTO inventory_movements
+       (agent_id, product_id, product_name, campaign_id, movement_type, quantity, balance_after,
+        actor, reason, spin_result_id, transfer_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      movement.agentId || null,
+      String(movement.productId),
+      movement.productName || null,
+      movement.campaignId || null,
+      movement.type,
+      movement.quantity,
+      movement.balanceAfter === undefined ? null : movement.balanceAfter,
+      movement.actor || 'system',
+      movement.reason || null,
+      movement.spinResultId || null,
+      movement.transferId || null
+    ]
+  );
+  return result.insertId;
+}
+
+/**
+ * Compare each stock balance with the sum of its movements
+ * @param {object} db - Database pool
+ * @param {{agentId?: ?string, campaignId?: number}} [filters] - agentId null checks the warehouse only
+ * @returns {Promise<object[]>} - Balances that do not match their ledger, with the difference
+ */
+async function findLedgerDrift(db, { agentId, campaignId } = {}) {
+  const conditions = [];
+  const params = [];
+  if (agentId !== undefined) {
+    conditions.push('b.agent_id <=> ?');
+    params.push(agentId);
+  }
+  if (campaignId) {
+    conditions.push('b.campaign_id = ?');
+    params.push(campaignId);
+  }
+  const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+
+  const [rows] = await db.query(`
+    SELECT b.agent_id, b.product_id, b.product_name, b.campaign_id, b.available_quantity,
+           COALESCE(SUM(m.quantity), 0) as ledger_quantity
+    FROM product_inventory b
+    LEFT JOIN inventory_movements m
+      ON m.agent_id <=> b.agent_id AND m.product_id = b.product_id AND m.campaign_id <=> b.campaign_id
+    ${whereClause}
+    GROUP BY b.id, b.agent_id, b.product_id, b.product_name, b.campaign_id, b.available_quantity
+    HAVING b.available_quantity <> ledger_quantity
+    ORDER BY b.agent_id, b.product_name
+  `, params);
+
+  return rows.map(row => ({
+    ...row,
+    ledger_quantity: Number(row.ledger_quantity),
+    difference: row.available_quantity - Number(row.ledger_quantity)
+  }));
+}
+
+module.exports = {
+  MOVEMENT_TYPES,
+  getActor,
+  recordMovement,
+  findLedgerDrift
+};
@@ -0,0 +1,186 @@
+/**
+ * Numbered schema migrations. Each file in backend/migrations is named <version>_<name>.js and
+ * exports up(connection) and, when the change can be undone, down(connection). Applied versions
+ * are recorded in schema_migrations. MySQL commits DDL as it runs, so a migration that fails
+ * halfway is not rolled back; each step checks the schema before changing it so the migration
+ * can be run again once the cause is fixed.
+ */
+const fs = require('fs');
+const path = require('path');
+
+const MIGRATIONS_DIR = path.join(__dirname, '..', 'migrations');
+const MIGRATION_FILE = /^(\d+)_([\w-]+)\.js$/;
+
+// Named lock that keeps two deploys from migrating the same database at once
+const LOCK_NAME = 'schema_migrations';
+const LOCK_TIMEOUT_SECONDS = 30;
+
+/**
+ * Load the migrations on disk, oldest first
+ * @returns {Array<{version: number, name: string, up: Function, down: ?Function}>} - Migrations
+ */
+function loadMigrations() {
+  return fs.readdirSync(MIGRATIONS_DIR)
+    .map(file => ({ file, match: file.match(MIGRATION_FILE) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => {
+      const migration = require(path.join(MIGRATIONS_DIR, file));
+      return {
+        version: parseInt(match[1], 10),
+        name: match[2],
+        up: migration.up,
+        down: migration.down || null
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Create the table that records applied migrations
+ * @param {object} db - Database pool or connection
+ * @returns {Promise<void>}
+ */
+async function ensureMigrationsTable(db) {
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INT PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      applied_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+/**
+ * List the versions applied to the database
+ * @param {object} db - Database pool or connection
+ * @returns {Promise<number[]>} - Applied versions, oldest first
+ */
+async function getAppliedVersions(db) {
+  await ensureMigrationsTable(db);
+  const [rows] = await db.query('SELECT version FROM schema_migrations ORDER BY version');
+  return rows.map(row => row.version);
+}
+
+/**
+ * Compare the database with the migrations on disk
+ * @param {object} db - Database pool or connection
+ * @returns {Promise<{current: number, latest: number, pending: object[], unknown: number[]}>} -
+ *   Current and latest versions, migrations still to apply, and applied versions with no file
+ */
+async function getSchemaStatus(db) {
+  const migrations = loadMigrations();
+  const applied = await getAppliedVersions(db);
+  const known = new Set(migrations.map(migration => migration.version));
+
+  return {
+    current: applied.length > 0 ? applied[applied.length - 1] : 0,
+    latest: migrations.length > 0 ? migrations[migrations.length - 1].version : 0,
+    pending: migrations.filter(migration => !applied.includes(migration.version)),
+    unknown: applied.filter(version => !known.has(version))
+  };
+}
+
+/**
+ * Run a function while holding the migration lock
+ * @param {object} connection - Database connection
+ * @param {Function} fn - Work to do under the lock
+ * @returns {Promise<*>} - Whatever fn returns
+ */
+async function withMigrationLock(connection, fn) {
+  const [[lock]] = await connection.query('SELECT GET_LOCK(?, ?) as acquired', [LOCK_NAME, LOCK_TIMEOUT_SECONDS]);
+  if (lock.acquired !== 1) {
+    throw new Error('Another process is migrating the database');
+  }
+  try {
+    return await fn();
+  } finally {
+    await connection.query('SELECT RELEASE_LOCK(?)', [LOCK_NAME]);
+  }
+}
+
+/**
+ * Apply every pending migration, oldest first
+ * @param {object} connection - Database connection without an open transaction
+ * @returns {Promise<object[]>} - Migrations applied
+ */
+async function migrateUp(connection) {
+  return withMigrationLock(connection, async () => {
+    const { pending } = await getSchemaStatus(connection);
+    for (const migration of pending) {
+      console.log(`Applying migration ${migration.version} ${migration.name}`);
+      await migration.up(connection);
+      await connection.query(
+        'INSERT INTO schema_migrations (version, name) VALUES (?, ?)',
+        [migration.version, migration.name]
+      );
+    }
+    return pending;
+  });
+}
+
+/**
+ * Undo the most recently applied migrations
+ * @param {object} connection - Database connection without an open transaction
+ * @param {number} steps - Number of migrations to undo
+ * @returns {Promise<object[]>} - Migrations rolled back
+ */
+async function migrateDown(connection, steps = 1) {
+  return withMigrationLock(connection, async () => {
+    const migrations = loadMigrations();
+    const applied = await getAppliedVersions(connection);
+    const rolledBack = [];
+
+    for (const version of applied.reverse().slice(0, steps)) {
+      const migration = migrations.find(m => m.version === version);
+      if (!migration) {
+        throw new Error(`Migration ${version} is applied but its file is missing`);
+      }
+      if (!migration.down) {
+        throw new Error(`Migration ${version} ${migration.name} cannot be rolled back`);
+      }
+      console.log(`Rolling back migration ${migration.version} ${migration.name}`);
+      await migration.down(connection);
+      await connection.query('DELETE FROM schema_migrations WHERE version = ?', [version]);
+      rolledBack.push(migration);
+    }
+    return rolledBack;
+  });
+}
+
+/**
+ * Check whether a table has a column
+ * @param {object} connection - Database connection
+ * @param {string} table - Table name
+ * @param {string} column - Column name
+ * @returns {Promise<boolean>} - True if the column exists
+ */
+async function columnExists(connection, table, column) {
+  const [columns] = await connection.query(`SHOW COLUMNS FROM ${table} LIKE ?`, [column]);
+  return columns.length > 0;
+}
+
+/**
+ * Add a column unless the table already has it
+ * @param {object} connection - Database connection
+ * @param {string} table - Table name
+ * @param {string} column - Column name
+ * @param {string} definition - Column type and options
+ * @returns {Promise<boolean>} - True if the column was added
+ */
+async function addColumnIfMissing(connection, table, column, definition) {
+  if (await columnExists(connection, table, column)) {
+    return false;
+  }
+  await connection.query(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  console.log(`Added ${column} column to ${table} table`);
+  return true;
+}
+
+module.exports = {
+  loadMigrations,
+  getSchemaStatus,
+  migrateUp,
+  migrateDown,
+  columnExists,
+  addColumnIfMissing
+};
@@ -0,0 +1,122 @@
+/**
+ * Utility functions for verifying customers' phone numbers with one-time codes sent by SMS
+ */
+const crypto = require('crypto');
+const { createPhoneVerificationToken, hashToken } = require('./auth');
+const { getSmsProvider } = require('../sms');
+
+const OTP_LENGTH = 6;
+const OTP_TTL_SECONDS = parseInt(process.env.OTP_TTL_SECONDS, 10) || 5 * 60;
+// Limits that keep a kiosk from being used to flood a number with texts
+const OTP_RESEND_SECONDS = parseInt(process.env.OTP_RESEND_SECONDS, 10) || 60;
+const OTP_MAX_PER_HOUR = parseInt(process.env.OTP_MAX_PER_HOUR, 10) || 5;
+const OTP_MAX_ATTEMPTS = 5;
+
+// Codes are stored hashed with the phone number, so a code only works for the number it was sent to
+const hashCode = (phone, code) => hashToken(`${phone}:${code}`);
+
+/**
+ * Send a one-time code to a phone number
+ * @param {object} db - Database pool
+ * @param {{phone: string, agentId: ?string}} request - E.164 phone number and the agent whose device asked
+ * @returns {Promise<object>} - { ok: true, expires_at, resend_after_seconds } or
+ *   { ok: false, status, message, retry_after_seconds? }
+ */
+async function sendOtp(db, { phone, agentId }) {
+  const [[recent]] = await db.query(
+    `SELECT COUNT(*) as sent, TIMESTAMPDIFF(SECOND, MAX(created_at), NOW()) as seconds_since_last
+     FROM phone_verifications WHERE phone = ? AND created_at > NOW() - INTERVAL 1 HOUR`,
+    [phone]
+  );
+
+  if (recent.seconds_since_last !== null && recent.seconds_since_last < OTP_RESEND_SECONDS) {
+    const wait = OTP_RESEND_SECONDS - recent.seconds_since_last;
+    return { ok: false, status: 429, message: `Please wait ${wait} seconds before requesting another code`, retry_after_seconds: wait };
+  }
+  if (recent.sent >= OTP_MAX_PER_HOUR) {
+    return { ok: false, status: 429, message: 'Too many codes have been sent to this number. Please try again later' };
+  }
+
+  const code = String(crypto.randomInt(0, 10 ** OTP_LENGTH)).padStart(OTP_LENGTH, '0');
+  const expiresAt = new Date(Date.now() + OTP_TTL_SECONDS * 1000);
+  const [result] = await db.query(
+    'INSERT INTO phone_verifications (phone, code_hash, agent_id, expires_at) VALUES (?, ?, ?, ?)',
+    [phone, hashCode(phone, code), agentId || null, expiresAt]
+  );
+
+  try {
+    const minutes = Math.ceil(OTP_TTL_SECONDS / 60);
+    await getSmsProvider().send(phone, `Your Spin the Wheel code is ${code}. It expires in ${minutes} minutes.`);
+  } catch (err) {
+    // A code that never arrived should not count against the number's limits
+    console.error('Error sending one-time code:', err.message);
+    await db.query('DELETE FROM phone_verifications WHERE id = ?', [result.insertId]);
+    return { ok: false, status: 502, message: 'Could not send the code. Please check the number and try again' };
+  }
+
+  return { ok: true, expires_at: expiresAt, resend_after_seconds: OTP_RESEND_SECONDS };
+}
+
+/**
+ * Check a one-time code against the latest one sent to a phone number
+ * @param {object} db - Database pool
+ * @param {{phone: string, code: string}} attempt - E.164 phone number and the code the customer entered
+ * @returns {Promise<object>} - { ok: true, phone, verification_token, expires_at } or
+ *   { ok: false, status, message }
+ */
+async function verifyOtp(db, { phone, code }) {
+  const [rows] = await db.query(
+    `SELECT id, code_hash, attempts FROM phone_verifications
+     WHERE phone = ? AND verified_at IS NULL AND expires_at > NOW()
+     ORDER BY created_at DESC, id DESC LIMIT 1`,
+    [phone]
+  );
+  const verification = rows[0];
+
+  if (!verification) {
+    return { ok: false, status: 400, message: 'The code has expired. Please request a new one' };
+  }
+  if (verification.attempts >= OTP_MAX_ATTEMPTS) {
+    return { ok: false, status: 429, message: 'Too many incorrect codes. Please request a new one' };
+  }
+
+  const expected = Buffer.from(verification.code_hash);
+  const actual = Buffer.from(hashCode(phone, String(code || '').trim()));
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    await db.query('UPDATE phone_verifications SET attempts = attempts + 1 WHERE id = ?', [verification.id]);
+    return { ok: false, status: 400, message: 'Incorrect code' };
+  }
+
+  const { token, tokenHash, expiresAt } = createPhoneVerificationToken();
+  await db.query(
+    `UPDATE phone_verifications SET verified_at = NOW(), token_hash = ?, token_expires_at = ?
+     WHERE id = ?`,
+    [tokenHash, expiresAt, verification.id]
+  );
+
+  return { ok: true, phone, verification_token: token, expires_at: expiresAt };
+}
+
+/**
+ * Look up the phone number a verification token was issued for
+ * @param {object} db - Database pool or connection
+ * @param {string} token - Token returned by verifyOtp
+ * @returns {Promise<?string>} - E.164 phone number, or null when the token is unknown or expired
+ */
+async function findVerifiedPhone(db, token) {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  const [rows] = await db.query(
+    'SELECT phone FROM phone_verifications WHERE token_hash = ? AND token_expires_at > NOW()',
+    [hashToken(token)]
+  );
+  return rows.length > 0 ? rows[0].phone : null;
+}
+
+module.exports = {
+  sendOtp,
+  verifyOtp,
+  findVerifiedPhone
+};
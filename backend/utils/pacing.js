@@ -0,0 +1,254 @@
+/**
+ * Prize pacing: spread a prize's stock over its campaign along a curve instead of drawing it at
+ * fixed odds. The plan says how much of the stock should be gone by the end of each period (a
+ * day, or an hour for hourly pacing, counted from the campaign's start). A paced prize is held
+ * back while it is ahead of plan; otherwise it is drawn at the odds that give out what the plan
+ * still allows before the period ends, at the campaign's recent spin rate.
+ */
+const { MOVEMENT_TYPES } = require('./inventoryLedger');
+
+const PACING_CURVES = {
+  EVEN_DAILY: 'even_daily',
+  EVEN_HOURLY: 'even_hourly',
+  FRONT_LOADED: 'front_loaded',
+  BACK_LOADED: 'back_loaded'
+};
+
+const envNumber = (name, fallback) => {
+  const value = parseFloat(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const PACING_CONFIG = {
+  // Spins counted to estimate how many more the current period will see
+  rateWindowMinutes: envNumber('PACING_RATE_WINDOW_MINUTES', 60),
+  // Highest win probability (percent) pacing gives a prize when it is behind plan
+  maxProbability: Math.min(envNumber('PACING_MAX_WIN_PROBABILITY', 50), 100)
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Share of the stock planned to be given out once a share of the campaign's time has passed
+const CURVE_SHAPES = {
+  [PACING_CURVES.EVEN_DAILY]: progress => progress,
+  [PACING_CURVES.EVEN_HOURLY]: progress => progress,
+  [PACING_CURVES.FRONT_LOADED]: progress => 1 - (1 - progress) ** 2,
+  [PACING_CURVES.BACK_LOADED]: progress => progress ** 2
+};
+
+/**
+ * Get the time a campaign runs for, which pacing needs both dates for
+ * @param {object|null} campaign - Parsed campaign
+ * @returns {{start: number, end: number}|null} - Start and end in milliseconds, or null
+ */
+function getCampaignSpan(campaign) {
+  if (!campaign || !campaign.start_date || !campaign.end_date) {
+    return null;
+  }
+  const start = new Date(campaign.start_date).getTime();
+  const end = new Date(campaign.end_date).getTime();
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * Share of a prize's stock planned to be given out by a point in time
+ * @param {string} curve - One of PACING_CURVES
+ * @param {{start: number, end: number}} span - Campaign span
+ * @param {number} at - Time in milliseconds
+ * @returns {number} - Share between 0 and 1
+ */
+function getPlannedShare(curve, span, at) {
+  const progress = Math.min(1, Math.max(0, (at - span.start) / (span.end - span.start)));
+  return CURVE_SHAPES[curve](progress);
+}
+
+/**
+ * End of the pacing period a point in time falls in
+ * @param {string} curve - One of PACING_CURVES
+ * @param {{start: number, end: number}} span - Campaign span
+ * @param {number} at - Time in milliseconds
+ * @returns {number} - End of the period in milliseconds, never after the campaign ends
+ */
+function getPeriodEnd(curve, span, at) {
+  const length = curve === PACING_CURVES.EVEN_HOURLY ? HOUR_MS : DAY_MS;
+  const elapsed = Math.max(0, at - span.start);
+  return Math.min(span.end, span.start + (Math.floor(elapsed / length) + 1) * length);
+}
+
+/**
+ * Load a campaign's prizes with how many have been given out and how many are left, summed over
+ * the warehouse and every agent
+ * @param {object} db - Database pool or connection
+ * @param {number} campaignId - Campaign ID
+ * @param {boolean} pacedOnly - Only load prizes with a pacing curve
+ * @returns {Promise<Array<object>>} - Products with given and available quantities
+ */
+async function getCampaignPrizeStock(db, campaignId, pacedOnly) {
+  const [products] = await db.query(`
+    SELECT p.id, p.name, p.pacing_curve,
+      CAST(COALESCE(SUM(pi.distributed_quantity), 0) AS SIGNED) AS given,
+      CAST(COALESCE(SUM(pi.available_quantity), 0) AS SIGNED) AS available
+    FROM products p
+    LEFT JOIN product_inventory pi ON pi.product_id = CAST(p.id AS CHAR)
+    WHERE p.campaign_id = ? ${pacedOnly ? 'AND p.pacing_curve IS NOT NULL' : ''}
+    GROUP BY p.id, p.name, p.pacing_curve
+    ORDER BY p.name
+  `, [campaignId]);
+  return products.map(product => ({
+    ...product,
+    pacing_curve: CURVE_SHAPES[product.pacing_curve] ? product.pacing_curve : null
+  }));
+}
+
+/**
+ * Work out the current plan for each of a campaign's paced prizes
+ * @param {object} db - Database pool or connection
+ * @param {object|null} campaign - Parsed campaign
+ * @param {Date} at - Time of the draw
+ * @returns {Promise<Array<object>>} - product_id, product_name, pacing_curve, total, given,
+ *   allowance (units the plan still allows this period), period_ends_at and probability (percent,
+ *   or null to keep the configured odds)
+ */
+async function getPacingPlan(db, campaign, at = new Date()) {
+  const span = getCampaignSpan(campaign);
+  if (!span) {
+    return [];
+  }
+
+  const products = (await getCampaignPrizeStock(db, campaign.id, true)).filter(product => product.pacing_curve);
+  if (products.length === 0) {
+    return [];
+  }
+
+  const [[{ spins }]] = await db.query(
+    'SELECT COUNT(*) as spins FROM spin_results WHERE campaign_id = ? AND date BETWEEN ? - INTERVAL ? MINUTE AND ?',
+    [campaign.id, at, PACING_CONFIG.rateWindowMinutes, at]
+  );
+  const spinsPerMinute = spins / PACING_CONFIG.rateWindowMinutes;
+  const now = at.getTime();
+
+  return products.map(product => {
+    const total = product.given + product.available;
+    const periodEnd = getPeriodEnd(product.pacing_curve, span, now);
+    const planned = total * getPlannedShare(product.pacing_curve, span, periodEnd);
+    const allowance = Math.min(product.available, planned - product.given);
+    const expectedSpins = spinsPerMinute * (periodEnd - now) / 60000;
+
+    // Without recent spins to go by, a prize the plan still allows keeps its configured odds
+    let probability = null;
+    if (allowance <= 0) {
+      probability = 0;
+    } else if (expectedSpins > 0) {
+      probability = Math.min(PACING_CONFIG.maxProbability, (allowance / expectedSpins) * 100);
+    }
+
+    return {
+      product_id: product.id,
+      product_name: product.name,
+      pacing_curve: product.pacing_curve,
+      total,
+      given: product.given,
+      allowance: Math.max(0, allowance),
+      period_ends_at: new Date(periodEnd),
+      probability
+    };
+  });
+}
+
+/**
+ * Get the win probability pacing sets for each paced winning sector
+ * @param {object} db - Database pool or connection
+ * @param {object|null} campaign - Parsed campaign
+ * @param {Array<object>} sectors - Wheel sectors
+ * @param {Date} at - Time of the draw
+ * @returns {Promise<Map<string, number>>} - Probabilities keyed by sector label
+ */
+async function getPacedOdds(db, campaign, sectors, at = new Date()) {
+  const odds = new Map();
+  const plan = await getPacingPlan(db, campaign, at);
+
+  sectors.filter(sector => sector.is_win).forEach(sector => {
+    const item = plan.find(p => String(p.product_name).trim().toLowerCase() === sector.label.toLowerCase());
+    if (item && item.probability !== null) {
+      odds.set(sector.label, item.probability);
+    }
+  });
+  return odds;
+}
+
+/**
+ * Planned and actual burn-down of each of a campaign's prizes, one point per day of the
+ * campaign and one for now
+ * @param {object} db - Database pool
+ * @param {object} campaign - Parsed campaign with start and end dates
+ * @param {Date} at - Current time
+ * @returns {Promise<Array<object>>} - Products with their plan and points of planned_remaining
+ *   (null for unpaced prizes) and actual_remaining (null in the future)
+ */
+async function getBurnDown(db, campaign, at = new Date()) {
+  const span = getCampaignSpan(campaign);
+  const now = at.getTime();
+  const products = await getCampaignPrizeStock(db, campaign.id, false);
+  const plan = await getPacingPlan(db, campaign, at);
+
+  const times = [];
+  for (let time = span.start; time < span.end; time += DAY_MS) {
+    times.push(time);
+  }
+  times.push(span.end);
+  if (now > span.start && now < span.end) {
+    times.push(now);
+    times.sort((a, b) => a - b);
+  }
+
+  const result = [];
+  for (const product of products) {
+    const total = product.given + product.available;
+
+    // Prizes given out per day of the campaign; earlier ones count towards the first day
+    const [days] = await db.query(`
+      SELECT GREATEST(0, FLOOR(TIMESTAMPDIFF(MINUTE, ?, created_at) / 1440)) AS day,
+        CAST(COALESCE(SUM(-quantity), 0) AS SIGNED) AS given
+      FROM inventory_movements
+      WHERE product_id = ? AND movement_type IN (?, ?, ?) AND created_at <= ?
+      GROUP BY day
+    `, [new Date(span.start), String(product.id), MOVEMENT_TYPES.WIN, MOVEMENT_TYPES.DISTRIBUTE, MOVEMENT_TYPES.VOID, at]);
+
+    // Movements after the last point are left out, so what is left now is worked out from the
+    // ledger like the other points
+    const givenBefore = (time) => days
+      .filter(day => time === now || span.start + (Number(day.day) + 1) * DAY_MS <= time)
+      .reduce((sum, day) => sum + Number(day.given), 0);
+
+    const item = plan.find(p => p.product_id === product.id);
+    result.push({
+      product_id: product.id,
+      product_name: product.name,
+      pacing_curve: product.pacing_curve,
+      total,
+      given: product.given,
+      remaining: product.available,
+      planned_given: product.pacing_curve
+        ? Math.round(total * getPlannedShare(product.pacing_curve, span, now))
+        : null,
+      probability: item ? item.probability : null,
+      points: times.map(time => ({
+        at: new Date(time),
+        planned_remaining: product.pacing_curve
+          ? Math.round(total * (1 - getPlannedShare(product.pacing_curve, span, time)))
+          : null,
+        actual_remaining: time <= now ? total - givenBefore(time) : null
+      }))
+    });
+  }
+  return result;
+}
+
+module.exports = {
+  PACING_CURVES,
+  getCampaignSpan,
+  getPacingPlan,
+  getPacedOdds,
+  getBurnDown
+};
@@ -0,0 +1,60 @@
+/**
+ * Admin roles and the permissions each role grants
+ */
+
+const ROLES = {
+  SUPER_ADMIN: 'super_admin',
+  CAMPAIGN_MANAGER: 'campaign_manager',
+  BA: 'ba',
+  VIEWER: 'viewer'
+};
+
+// Brand ambassadors only see the inventory they hold; that scoping is done in the routes
+const ROLE_PERMISSIONS = {
+  [ROLES.SUPER_ADMIN]: [
+    'stats:view', 'results:export', 'results:delete', 'agents:manage',
+    'products:manage', 'campaigns:manage', 'inventory:view', 'inventory:manage', 'sync:resolve',
+    'fraud:review'
+  ],
+  [ROLES.CAMPAIGN_MANAGER]: [
+    'stats:view', 'results:export', 'agents:manage', 'products:manage',
+    'campaigns:manage', 'inventory:view', 'inventory:manage', 'sync:resolve', 'fraud:review'
+  ],
+  [ROLES.BA]: ['stats:view', 'inventory:view'],
+  [ROLES.VIEWER]: ['stats:view', 'results:export', 'inventory:view']
+};
+
+/**
+ * Check whether a role name is known
+ * @param {string} role - Role name
+ * @returns {boolean} - True for one of ROLES
+ */
+function isValidRole(role) {
+  return Object.prototype.hasOwnProperty.call(ROLE_PERMISSIONS, role);
+}
+
+/**
+ * Get the permissions granted to a role
+ * @param {string} role - Role name
+ * @returns {string[]} - Permission names, empty for unknown roles
+ */
+function getPermissions(role) {
+  return ROLE_PERMISSIONS[role] || [];
+}
+
+/**
+ * Check whether a role grants a permission
+ * @param {string} role - Role name
+ * @param {string} permission - Permission name, e.g. 'inventory:manage'
+ * @returns {boolean} - True if the role has the permission
+ */
+function hasPermission(role, permission) {
+  return getPermissions(role).includes(permission);
+}
+
+module.exports = {
+  ROLES,
+  isValidRole,
+  getPermissions,
+  hasPermission
+};
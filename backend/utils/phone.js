@@ -0,0 +1,26 @@
+/**
+ * Utility functions for customer phone numbers
+ */
+
+// Kenyan mobile numbers as customers type them: 0712 345 678, 712345678, 254712345678 or +254712345678
+const KENYAN_MOBILE_PATTERN = /^(?:\+?254|0)?([17]\d{8})$/;
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+/**
+ * Normalise a phone number to E.164
+ * @param {string} phone - Phone number as typed, with or without spaces, dashes and brackets
+ * @returns {?string} - Kenyan mobile numbers as +254..., other numbers already in E.164 format
+ *   as they are, or null for anything else
+ */
+function normalizePhone(phone) {
+  const value = String(phone || '').trim().replace(/[\s()-]/g, '');
+  const kenyan = value.match(KENYAN_MOBILE_PATTERN);
+  if (kenyan) {
+    return `+254${kenyan[1]}`;
+  }
+  return E164_PATTERN.test(value) ? value : null;
+}
+
+module.exports = {
+  normalizePhone
+};
@@ -0,0 +1,326 @@
+/**
+ * Server-side prize allocation for spins
+ */
+const crypto = require('crypto');
+const {
+  getWheelSectors, buildWheelSectors, withConsolationSectors, TRY_AGAIN_LABEL, PRIZE_TIERS, DEFAULT_PRIZE_TIER
+} = require('./wheelConfig');
+const { getPacedOdds } = require('./pacing');
+const { findReachedCap } = require('./prizeCaps');
+
+/**
+ * Resolve an agent from their agent ID or, for older clients, their name
+ * @param {object} db - Database pool or connection
+ * @param {{agentId?: string, agentName?: string}} agent - Agent identifiers
+ * @returns {Promise<{agent_id: string, name: (string|null)}|null>} - Matching agent or null
+ */
+async function resolveAgent(db, { agentId, agentName }) {
+  const key = agentId || agentName;
+  if (!key) {
+    return null;
+  }
+
+  const [agents] = await db.query(
+    'SELECT agent_id, name FROM agents WHERE agent_id = ? OR LOWER(name) = LOWER(?) LIMIT 1',
+    [key, String(key).trim()]
+  );
+  if (agents.length > 0) {
+    return agents[0];
+  }
+
+  // Inventory can be assigned to an agent ID before the agent is registered
+  return agentId ? { agent_id: agentId, name: null } : null;
+}
+
+/**
+ * Build the wheel for an agent from their in-stock inventory. Without an agent the
+ * campaign's sectors (or the default wheel) are used together with the warehouse stock.
+ * While a consolation prize is in stock it is given on every losing sector.
+ * @param {object} db - Database pool or connection
+ * @param {string|null} agentId - Agent whose inventory should be used, or null for warehouse stock
+ * @param {object|null} campaign - Campaign whose prize pool should be used, or null for products outside any campaign
+ * @returns {Promise<{sectors: Array<object>, stock: Map<string, {product_id: (string|number), available: number}>}>} - Wheel sectors and stock keyed by sector label
+ */
+async function getWheel(db, agentId, campaign = null) {
+  const stock = new Map();
+  const campaignId = campaign ? campaign.id : null;
+
+  if (agentId) {
+    const [inventory] = await db.query(
+      `SELECT pi.product_id, pi.product_name, pi.available_quantity, p.prize_tier
+       FROM product_inventory pi
+       LEFT JOIN products p ON pi.product_id = CAST(p.id AS CHAR)
+       WHERE pi.agent_id = ? AND pi.campaign_id <=> ? AND pi.available_quantity > 0
+       ORDER BY pi.product_name`,
+      [agentId, campaignId]
+    );
+
+    inventory.forEach(item => {
+      stock.set(item.product_name, {
+        product_id: item.product_id,
+        available: item.available_quantity
+      });
+    });
+
+    const consolation = inventory.find(item => item.prize_tier === PRIZE_TIERS.CONSOLATION);
+    const prizes = inventory.filter(item => item.prize_tier !== PRIZE_TIERS.CONSOLATION);
+    const sectors = withConsolationSectors(
+      buildWheelSectors(prizes),
+      consolation ? { label: consolation.product_name, product_id: consolation.product_id } : null
+    );
+    return { sectors, stock };
+  }
+
+  const [products] = await db.query(`
+    SELECT p.id, p.name, p.prize_tier, COALESCE(pi.available_quantity, 0) AS available_quantity
+    FROM products p
+    LEFT JOIN product_inventory pi ON pi.agent_id IS NULL AND pi.product_id = CAST(p.id AS CHAR)
+    WHERE p.campaign_id <=> ?
+    ORDER BY p.name
+  `, [campaignId]);
+  const findProduct = label => products.find(p => String(p.name).trim().toLowerCase() === label.toLowerCase());
+
+  const consolation = products.find(p => p.prize_tier === PRIZE_TIERS.CONSOLATION && p.available_quantity > 0);
+  const sectors = withConsolationSectors(
+    getWheelSectors(campaign ? campaign.sectors : null),
+    consolation ? { label: String(consolation.name).trim(), product_id: consolation.id } : null
+  ).map(sector => {
+    if (!sector.is_win || sector.tier) {
+      return sector;
+    }
+    const product = findProduct(sector.label);
+    return { ...sector, tier: (product && product.prize_tier) || DEFAULT_PRIZE_TIER };
+  });
+
+  sectors.filter(sector => sector.is_win).forEach(sector => {
+    const product = findProduct(sector.label);
+    stock.set(sector.label, {
+      product_id: product ? product.id : null,
+      available: product ? product.available_quantity : 0
+    });
+  });
+  return { sectors, stock };
+}
+
+/**
+ * Get the configured win probability (percent) for each winning wheel sector
+ * @param {object} db - Database pool or connection
+ * @param {Array<object>} sectors - Wheel sectors
+ * @param {number|null} campaignId - Campaign whose prize pool should be used
+ * @returns {Promise<Map<string, number>>} - Probabilities keyed by sector label, only for configured products
+ */
+async function getSectorOdds(db, sectors, campaignId = null) {
+  const odds = new Map();
+  const [products] = await db.query(
+    'SELECT name, win_probability FROM products WHERE win_probability IS NOT NULL AND campaign_id <=> ?',
+    [campaignId]
+  );
+
+  sectors.filter(sector => sector.is_win).forEach(sector => {
+    const product = products.find(p => String(p.name).trim().toLowerCase() === sector.label.toLowerCase());
+    if (product) {
+      odds.set(sector.label, parseFloat(product.win_probability));
+    }
+  });
+  return odds;
+}
+
+/**
+ * Work out the draw weight of each candidate sector.
+ * Prizes with a configured probability get exactly that share of spins (split across
+ * their sectors); the remaining share is divided between the other sectors by weight.
+ * Sector sizes on the wheel are not affected.
+ * @param {Array<object>} candidates - Sectors that can be drawn
+ * @param {Map<string, number>} odds - Configured probabilities keyed by sector label
+ * @returns {number[]} - Weight for each candidate, in the same order
+ */
+function getDrawWeights(candidates, odds) {
+  const sectorsPerLabel = {};
+  candidates.forEach(sector => {
+    sectorsPerLabel[sector.label] = (sectorsPerLabel[sector.label] || 0) + 1;
+  });
+
+  const isFixed = sector => sector.is_win && odds.has(sector.label);
+  const fixedShare = Object.keys(sectorsPerLabel)
+    .filter(label => candidates.some(sector => sector.label === label && isFixed(sector)))
+    .reduce((sum, label) => sum + odds.get(label) / 100, 0);
+
+  // Configured probabilities above 100% in total are scaled down proportionally
+  const fixedScale = fixedShare > 1 ? 1 / fixedShare : 1;
+  const remainingShare = Math.max(0, 1 - fixedShare);
+  const freeWeight = candidates
+    .filter(sector => !isFixed(sector))
+    .reduce((sum, sector) => sum + (sector.weight || 0), 0);
+
+  return candidates.map(sector => {
+    if (isFixed(sector)) {
+      return (odds.get(sector.label) / 100) * fixedScale / sectorsPerLabel[sector.label];
+    }
+    return freeWeight > 0 ? remainingShare * (sector.weight || 0) / freeWeight : 0;
+  });
+}
+
+/**
+ * Pick an item at random according to its weight
+ * @param {Array} items - Items to pick from
+ * @param {number[]} weights - Weight for each item
+ * @returns {*} - The picked item, or null when there are no items
+ */
+function pickWeighted(items, weights) {
+  if (items.length === 0) {
+    return null;
+  }
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) {
+    return items[crypto.randomInt(items.length)];
+  }
+
+  let roll = (crypto.randomInt(1000000000) / 1000000000) * total;
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) {
+      return items[i];
+    }
+  }
+  return items[items.length - 1];
+}
+
+/**
+ * Draw the outcome of a spin. Winning sectors without stock are never drawn, paced prizes
+ * that are ahead of their plan are held back and prizes that have reached a cap fall back to the
+ * consolation prize, or to a losing sector when there is none.
+ * @param {object} db - Database pool or connection
+ * @param {{agentId?: string, agentName?: string}} agent - Agent the device is signed in as
+ * @param {object|null} campaign - Campaign the spin belongs to
+ * @param {{consolationOnly?: boolean}} options - consolationOnly draws from the consolation prize
+ *   and losing sectors only, for customers who failed the campaign's quiz
+ * @returns {Promise<object>} - The drawn sector index, prize, its tier, the inventory it will consume and the wheel it was drawn from,
+ *   or { status, code, message } when the wheel has no sector that can be drawn
+ */
+async function drawSpinOutcome(db, agent = {}, campaign = null, { consolationOnly = false } = {}) {
+  const campaignId = campaign ? campaign.id : null;
+  const resolvedAgent = await resolveAgent(db, agent);
+  const agentId = resolvedAgent ? resolvedAgent.agent_id : null;
+  const { sectors, stock } = await getWheel(db, agentId, campaign);
+  const odds = await getSectorOdds(db, sectors, campaignId);
+  // Paced prizes are drawn at the odds their plan allows right now
+  (await getPacedOdds(db, campaign, sectors)).forEach((probability, label) => odds.set(label, probability));
+
+  const candidates = sectors.filter(sector =>
+    !sector.is_win ||
+    ((!consolationOnly || sector.tier === PRIZE_TIERS.CONSOLATION) &&
+      stock.get(sector.label) && stock.get(sector.label).available > 0)
+  );
+
+  // A wheel of prizes that are all out of stock, or without a consolation prize or losing sector
+  // for a customer who failed the quiz, has nothing to land on
+  if (candidates.length === 0) {
+    return { status: 409, code: 'no_prize_available', message: 'There is nothing left to win on this wheel right now' };
+  }
+
+  let sector = pickWeighted(candidates, getDrawWeights(candidates, odds));
+  let sectorStock = sector.is_win ? stock.get(sector.label) : null;
+
+  // A prize whose cap has been reached lands on the consolation prize or a losing sector instead,
+  // so a cap never raises the odds of the other prizes
+  const consolationSectors = sectors.filter(candidate => candidate.tier === PRIZE_TIERS.CONSOLATION);
+  const losingSectors = sectors.filter(candidate => !candidate.is_win);
+  const fallback = consolationSectors.length > 0
+    ? { label: consolationSectors[0].label, product_id: stock.get(consolationSectors[0].label).product_id }
+    : { label: losingSectors.length > 0 ? losingSectors[0].label : TRY_AGAIN_LABEL, product_id: null };
+  let capReason = null;
+  if (sector.is_win) {
+    const reached = await findReachedCap(db, { productId: sectorStock.product_id, agentId });
+    if (reached) {
+      capReason = reached.reason;
+      const consolationAllowed = fallback.product_id && sector.tier !== PRIZE_TIERS.CONSOLATION &&
+        !(await findReachedCap(db, { productId: fallback.product_id, agentId }));
+      if (consolationAllowed) {
+        sector = consolationSectors[crypto.randomInt(consolationSectors.length)];
+        sectorStock = stock.get(sector.label);
+      } else {
+        sector = losingSectors.length > 0
+          ? losingSectors[crypto.randomInt(losingSectors.length)]
+          : { ...sector, label: TRY_AGAIN_LABEL, is_win: false };
+        sectorStock = null;
+      }
+    }
+  }
+
+  return {
+    sector_index: sector.index,
+    prize_label: sector.label,
+    is_win: sector.is_win,
+    prize_tier: sector.is_win ? sector.tier || DEFAULT_PRIZE_TIER : null,
+    product_id: sectorStock ? sectorStock.product_id : null,
+    agent_id: agentId,
+    agent_name: (resolvedAgent && resolvedAgent.name) || agent.agentName || null,
+    campaign_id: campaignId,
+    // Recorded with the spin; the fallback is given instead if a cap is reached before it is recorded
+    cap_reason: capReason,
+    fallback_label: fallback.label,
+    fallback_product_id: fallback.product_id,
+    sectors
+  };
+}
+
+/**
+ * Build the offline allowance for an agent: the wheel with the draw weight of each sector,
+ * and how many of each in-stock prize a device may give away while it cannot reach the server.
+ * The allowance does not reserve stock; wins beyond the real stock are reported as sync conflicts.
+ * @param {object} db - Database pool or connection
+ * @param {string} agentId - Agent the device is signed in as
+ * @param {object|null} campaign - Campaign the spins belong to
+ * @param {number} perPrizeLimit - Most units of a single prize a device may give away offline
+ * @returns {Promise<{sectors: Array<object>, items: Array<{label: string, product_id: (string|number|null), tier: string, quantity: number}>}>} - Weighted sectors and prize allowance
+ */
+async function getOfflineAllowance(db, agentId, campaign, perPrizeLimit) {
+  const campaignId = campaign ? campaign.id : null;
+  const { sectors, stock } = await getWheel(db, agentId, campaign);
+  const odds = await getSectorOdds(db, sectors, campaignId);
+  const weights = getDrawWeights(sectors, odds);
+
+  const items = [];
+  stock.forEach((item, label) => {
+    if (item.available > 0) {
+      const sector = sectors.find(candidate => candidate.is_win && candidate.label === label);
+      items.push({
+        label,
+        product_id: item.product_id,
+        tier: sector ? sector.tier : DEFAULT_PRIZE_TIER,
+        quantity: Math.min(item.available, perPrizeLimit)
+      });
+    }
+  });
+
+  return {
+    sectors: sectors.map((sector, i) => ({ ...toPublicSector(sector), draw_weight: weights[i] })),
+    items
+  };
+}
+
+/**
+ * Shape a wheel sector for API responses
+ * @param {object} sector - Wheel sector
+ * @returns {{index: number, label: string, is_win: boolean, tier: ?string, product_id: (string|number|null)}} - Public sector data
+ */
+function toPublicSector(sector) {
+  return {
+    index: sector.index,
+    label: sector.label,
+    is_win: sector.is_win,
+    tier: sector.is_win ? sector.tier || DEFAULT_PRIZE_TIER : null,
+    product_id: sector.product_id || null
+  };
+}
+
+module.exports = {
+  drawSpinOutcome,
+  getOfflineAllowance,
+  toPublicSector,
+  resolveAgent,
+  getWheel,
+  getSectorOdds,
+  getDrawWeights,
+  pickWeighted
+};
@@ -0,0 +1,140 @@
+/**
+ * Hard limits on how many of a prize can be won in an hour or a day: across all outlets, per
+ * agent or per outlet (agents who share a location). Unlike pacing, a cap never moves odds; a
+ * spin that would go over it lands on a losing sector instead.
+ */
+const { MOVEMENT_TYPES } = require('./inventoryLedger');
+
+const CAP_SCOPES = {
+  PRODUCT: 'product',
+  AGENT: 'agent',
+  OUTLET: 'outlet'
+};
+
+const CAP_PERIODS = {
+  HOUR: 'hour',
+  DAY: 'day'
+};
+
+// Start of the current period, in database time
+const PERIOD_STARTS = {
+  [CAP_PERIODS.HOUR]: "DATE_FORMAT(NOW(), '%Y-%m-%d %H:00:00')",
+  [CAP_PERIODS.DAY]: 'CURDATE()'
+};
+
+const SCOPE_LABELS = {
+  [CAP_SCOPES.PRODUCT]: 'across all outlets',
+  [CAP_SCOPES.AGENT]: 'per BA',
+  [CAP_SCOPES.OUTLET]: 'per outlet'
+};
+
+/**
+ * Validate a cap sent by a client
+ * @param {object} input - scope, period and max_wins
+ * @returns {{cap?: {scope: string, period: string, max_wins: number}, error?: string}} - The cap, or why it is invalid
+ */
+function normalizeCap(input = {}) {
+  const { scope, period } = input;
+  const maxWins = Number(input.max_wins);
+
+  if (!Object.values(CAP_SCOPES).includes(scope)) {
+    return { error: `scope must be one of ${Object.values(CAP_SCOPES).join(', ')}` };
+  }
+  if (!Object.values(CAP_PERIODS).includes(period)) {
+    return { error: `period must be one of ${Object.values(CAP_PERIODS).join(', ')}` };
+  }
+  if (!Number.isInteger(maxWins) || maxWins < 0) {
+    return { error: 'max_wins must be a whole number of 0 or more' };
+  }
+  return { cap: { scope, period, max_wins: maxWins } };
+}
+
+/**
+ * Describe a cap for people, such as "5 per BA per day"
+ * @param {{scope: string, period: string, max_wins: number}} cap - Prize cap
+ * @returns {string} - Description
+ */
+function describeCap(cap) {
+  return `${cap.max_wins} ${SCOPE_LABELS[cap.scope]} per ${cap.period}`;
+}
+
+/**
+ * Count the wins of a prize in a cap's current period, leaving out voided wins
+ * @param {object} db - Database pool or connection
+ * @param {object} cap - Prize cap
+ * @param {{agentId: ?string, outlet: ?string}} holder - Agent the spin is played with and their outlet
+ * @returns {Promise<number>} - Wins so far
+ */
+async function countCappedWins(db, cap, { agentId, outlet }) {
+  const conditions = [];
+  const params = [MOVEMENT_TYPES.WIN, String(cap.product_id)];
+  if (cap.scope === CAP_SCOPES.AGENT) {
+    conditions.push('s.agent_id = ?');
+    params.push(agentId);
+  } else if (cap.scope === CAP_SCOPES.OUTLET) {
+    conditions.push('LOWER(TRIM(a.location)) = ?');
+    params.push(outlet);
+  }
+
+  const [[{ wins }]] = await db.query(`
+    SELECT COUNT(*) as wins
+    FROM inventory_movements m
+    JOIN spin_results s ON s.id = m.spin_result_id
+    ${cap.scope === CAP_SCOPES.OUTLET ? 'JOIN agents a ON a.agent_id = s.agent_id' : ''}
+    WHERE m.movement_type = ? AND m.product_id = ? AND s.voided_at IS NULL
+      AND s.date >= ${PERIOD_STARTS[cap.period]}
+      ${conditions.map(condition => `AND ${condition}`).join(' ')}
+  `, params);
+  return Number(wins);
+}
+
+/**
+ * Find a cap on a prize that another win would go over. Pass a connection with an open
+ * transaction and lock set when recording a win: the caps are locked until it commits, so
+ * concurrent spins of the same prize are checked one at a time.
+ * @param {object} db - Database pool or connection
+ * @param {{productId: ?(string|number), agentId: ?string, lock?: boolean}} spin - Prize drawn and
+ *   the agent the spin is played with
+ * @returns {Promise<{cap: object, reason: string}|null>} - The reached cap and why the prize was
+ *   not given, or null when the prize can be won
+ */
+async function findReachedCap(db, { productId, agentId, lock = false }) {
+  if (!productId) {
+    return null;
+  }
+
+  const [caps] = await db.query(
+    `SELECT c.*, p.name as product_name FROM prize_caps c
+     JOIN products p ON p.id = c.product_id
+     WHERE c.product_id = ? ORDER BY c.id ${lock ? 'FOR UPDATE' : ''}`,
+    [productId]
+  );
+  if (caps.length === 0) {
+    return null;
+  }
+
+  let outlet = null;
+  if (agentId && caps.some(cap => cap.scope === CAP_SCOPES.OUTLET)) {
+    const [agents] = await db.query('SELECT location FROM agents WHERE agent_id = ?', [agentId]);
+    outlet = agents.length > 0 ? String(agents[0].location || '').trim().toLowerCase() || null : null;
+  }
+
+  for (const cap of caps) {
+    // Agent and outlet caps only apply to spins played with an agent at a known outlet
+    if ((cap.scope === CAP_SCOPES.AGENT && !agentId) || (cap.scope === CAP_SCOPES.OUTLET && !outlet)) {
+      continue;
+    }
+    if (await countCappedWins(db, cap, { agentId, outlet }) >= cap.max_wins) {
+      return { cap, reason: `${cap.product_name} cap of ${describeCap(cap)} reached` };
+    }
+  }
+  return null;
+}
+
+module.exports = {
+  CAP_SCOPES,
+  CAP_PERIODS,
+  normalizeCap,
+  describeCap,
+  findReachedCap
+};
@@ -0,0 +1,231 @@
+/**
+ * Proof of purchase for campaigns where customers play by buying a product. The BA enters the
+ * receipt before the game; each receipt plays once per campaign.
+ */
+const MAX_SKUS_PER_PURCHASE = 20;
+const MAX_FIELD_LENGTH = 64;
+// Receipt photos the kiosk may upload, and the extension they are stored with
+const RECEIPT_PHOTO_TYPES = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+};
+const RECEIPT_PHOTO_MAX_BYTES = (parseInt(process.env.RECEIPT_PHOTO_MAX_KB, 10) || 5120) * 1024;
+
+// Receipt numbers and tills are compared ignoring case, spaces and punctuation, so
+// "INV-00123" and "inv 00123" are the same receipt
+const toMatchKey = (value) => String(value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const cleanSku = (sku) => (typeof sku === 'string' ? sku.trim().toUpperCase() : '');
+
+/**
+ * Validate a campaign's purchase settings
+ * @param {string|object|null} value - Settings as an object or JSON text
+ * @returns {{settings?: ?object, error?: string}} - skus, min_amount and require_photo, or null when customers play without a purchase
+ */
+function normalizePurchaseSettings(value) {
+  if (value === undefined || value === null || value === '') {
+    return { settings: null };
+  }
+
+  let input = value;
+  if (typeof value === 'string') {
+    try {
+      input = JSON.parse(value);
+    } catch (err) {
+      return { error: 'purchase_settings must be valid JSON' };
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'purchase_settings must be an object' };
+  }
+
+  if (input.skus !== undefined && input.skus !== null && !Array.isArray(input.skus)) {
+    return { error: 'purchase_settings.skus must be a list of SKUs' };
+  }
+  const skus = Array.from(new Set((input.skus || []).map(cleanSku).filter(Boolean)));
+  if (skus.some(sku => sku.length > MAX_FIELD_LENGTH)) {
+    return { error: `SKUs must be at most ${MAX_FIELD_LENGTH} characters` };
+  }
+
+  let minAmount = null;
+  if (input.min_amount !== undefined && input.min_amount !== null && input.min_amount !== '') {
+    minAmount = Number(input.min_amount);
+    if (!Number.isFinite(minAmount) || minAmount < 0) {
+      return { error: 'purchase_settings.min_amount must be a positive amount' };
+    }
+  }
+
+  return {
+    settings: {
+      skus,
+      min_amount: minAmount,
+      require_photo: input.require_photo === true || input.require_photo === 'true'
+    }
+  };
+}
+
+/**
+ * Validate a purchase against the campaign's purchase settings
+ * @param {object} input - receipt_number, till, skus and amount
+ * @param {object} settings - The campaign's purchase settings
+ * @returns {{purchase?: object, error?: string}} - Purchase ready to store, with its SKUs as a list
+ */
+function normalizePurchase(input, settings) {
+  const receiptNumber = typeof input.receipt_number === 'string' ? input.receipt_number.trim() : '';
+  if (!toMatchKey(receiptNumber)) {
+    return { error: 'receipt_number is required' };
+  }
+  if (receiptNumber.length > MAX_FIELD_LENGTH) {
+    return { error: `receipt_number must be at most ${MAX_FIELD_LENGTH} characters` };
+  }
+  const till = typeof input.till === 'string' ? input.till.trim() : '';
+  if (till.length > MAX_FIELD_LENGTH) {
+    return { error: `till must be at most ${MAX_FIELD_LENGTH} characters` };
+  }
+
+  const skus = Array.isArray(input.skus) ? Array.from(new Set(input.skus.map(cleanSku).filter(Boolean))) : [];
+  if (skus.length === 0 || skus.length > MAX_SKUS_PER_PURCHASE) {
+    return { error: `skus must be a list of 1 to ${MAX_SKUS_PER_PURCHASE} products bought` };
+  }
+  if (skus.some(sku => sku.length > MAX_FIELD_LENGTH)) {
+    return { error: `SKUs must be at most ${MAX_FIELD_LENGTH} characters` };
+  }
+  // Campaigns that list SKUs only let customers play for buying one of them
+  if (settings.skus.length > 0 && !skus.some(sku => settings.skus.includes(sku))) {
+    return { error: 'The receipt has none of the products in this promotion' };
+  }
+
+  const amount = Number(input.amount);
+  if (input.amount === undefined || input.amount === null || input.amount === '' || !Number.isFinite(amount) || amount < 0) {
+    return { error: 'amount must be the total on the receipt' };
+  }
+  if (settings.min_amount !== null && amount < settings.min_amount) {
+    return { error: `Purchases of at least ${settings.min_amount} can play` };
+  }
+
+  return {
+    purchase: {
+      receipt_number: receiptNumber,
+      receipt_key: toMatchKey(receiptNumber),
+      till: till || null,
+      till_key: toMatchKey(till),
+      skus,
+      amount: Math.round(amount * 100) / 100
+    }
+  };
+}
+
+/**
+ * Parse a purchase row from the database
+ * @param {object} row - Row from the purchases table
+ * @returns {object} - Purchase with its SKUs as a list and whether it has a photo
+ */
+function parsePurchase(row) {
+  let skus = [];
+  try {
+    skus = JSON.parse(row.skus);
+  } catch (err) {
+    console.error(`Invalid SKUs for purchase ${row.id}:`, err.message);
+  }
+  const { photo_key, ...purchase } = row;
+  return {
+    ...purchase,
+    skus: Array.isArray(skus) ? skus : [],
+    amount: Number(row.amount),
+    has_photo: !!photo_key
+  };
+}
+
+/**
+ * Record a customer's purchase before they play. A receipt can only be entered once per
+ * campaign, but the BA who entered it may correct it until it has been played.
+ * @param {object} db - Database pool or connection
+ * @param {{campaign: object, agentId: string, contact: ?string, input: object}} registration - The receipt and who is playing with it
+ * @returns {Promise<{purchase?: object, status?: number, message?: string}>} - The stored purchase, or the status and message to reply with
+ */
+async function registerPurchase(db, { campaign, agentId, contact, input }) {
+  const { purchase, error } = normalizePurchase(input, campaign.purchase_settings);
+  if (error) {
+    return { status: 400, message: error };
+  }
+
+  const [existing] = await db.query(
+    'SELECT * FROM purchases WHERE campaign_id = ? AND receipt_key = ? AND till_key = ?',
+    [campaign.id, purchase.receipt_key, purchase.till_key]
+  );
+  if (existing.length > 0) {
+    const previous = existing[0];
+    const isCorrection = !previous.used_at && previous.agent_id === agentId &&
+      (previous.user_contact || null) === (contact || null);
+    if (!isCorrection) {
+      return { status: 409, message: 'This receipt has already been used in this promotion' };
+    }
+
+    await db.query(
+      'UPDATE purchases SET receipt_number = ?, till = ?, skus = ?, amount = ? WHERE id = ? AND used_at IS NULL',
+      [purchase.receipt_number, purchase.till, JSON.stringify(purchase.skus), purchase.amount, previous.id]
+    );
+    const [rows] = await db.query('SELECT * FROM purchases WHERE id = ?', [previous.id]);
+    return { purchase: parsePurchase(rows[0]) };
+  }
+
+  try {
+    const [result] = await db.query(
+      `INSERT INTO purchases (campaign_id, agent_id, user_contact, receipt_number, receipt_key, till, till_key, skus, amount)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [campaign.id, agentId, contact || null, purchase.receipt_number, purchase.receipt_key, purchase.till,
+        purchase.till_key, JSON.stringify(purchase.skus), purchase.amount]
+    );
+    const [rows] = await db.query('SELECT * FROM purchases WHERE id = ?', [result.insertId]);
+    return { purchase: parsePurchase(rows[0]) };
+  } catch (err) {
+    // Another BA entered the same receipt at the same moment
+    if (err.code === 'ER_DUP_ENTRY') {
+      return { status: 409, message: 'This receipt has already been used in this promotion' };
+    }
+    throw err;
+  }
+}
+
+/**
+ * Use up a customer's purchase to start their game. Each purchase starts one game.
+ * @param {object} db - Database pool or connection
+ * @param {{purchaseId: ?(number|string), campaign: object, agentId: string, contact: ?string}} claim - The purchase and who is playing
+ * @returns {Promise<{purchase?: object, status?: number, code?: string, message?: string}>} - The purchase, or the status, error code (receipt_required or receipt_played) and message to reply with
+ */
+async function claimPurchase(db, { purchaseId, campaign, agentId, contact }) {
+  if (!purchaseId) {
+    return { status: 400, code: 'receipt_required', message: 'Enter the receipt before playing' };
+  }
+
+  const [purchases] = await db.query(
+    'SELECT * FROM purchases WHERE id = ? AND campaign_id = ? AND agent_id = ?',
+    [purchaseId, campaign.id, agentId]
+  );
+  const purchase = purchases[0];
+  if (!purchase || (purchase.user_contact && purchase.user_contact !== contact)) {
+    return { status: 400, code: 'receipt_required', message: 'Enter the receipt before playing' };
+  }
+  if (campaign.purchase_settings.require_photo && !purchase.photo_key) {
+    return { status: 400, code: 'receipt_required', message: 'Take a photo of the receipt before playing' };
+  }
+
+  const [result] = await db.query(
+    'UPDATE purchases SET used_at = NOW() WHERE id = ? AND used_at IS NULL',
+    [purchase.id]
+  );
+  if (result.affectedRows === 0) {
+    return { status: 409, code: 'receipt_played', message: 'This receipt has already been played' };
+  }
+  return { purchase: parsePurchase(purchase) };
+}
+
+module.exports = {
+  RECEIPT_PHOTO_TYPES,
+  RECEIPT_PHOTO_MAX_BYTES,
+  normalizePurchaseSettings,
+  parsePurchase,
+  registerPurchase,
+  claimPurchase
+};
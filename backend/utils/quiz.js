@@ -0,0 +1,253 @@
+/**
+ * Product quiz customers answer before they play. Questions come from a bank managed in the
+ * admin; a question without a campaign can be asked in every campaign that has a quiz.
+ */
+const crypto = require('crypto');
+
+const MAX_QUESTIONS_PER_QUIZ = 5;
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+// How long a customer has between answering the quiz and starting their game
+const QUIZ_ATTEMPT_TTL_MINUTES = parseInt(process.env.QUIZ_ATTEMPT_TTL_MINUTES, 10) || 30;
+
+/**
+ * Validate a campaign's quiz settings
+ * @param {string|object|null} value - Settings as an object or JSON text
+ * @returns {{settings?: ?object, error?: string}} - question_count, pass_mark and consolation_on_fail, or null when the campaign has no quiz
+ */
+function normalizeQuizSettings(value) {
+  if (value === undefined || value === null || value === '') {
+    return { settings: null };
+  }
+
+  let input = value;
+  if (typeof value === 'string') {
+    try {
+      input = JSON.parse(value);
+    } catch (err) {
+      return { error: 'quiz_settings must be valid JSON' };
+    }
+  }
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'quiz_settings must be an object' };
+  }
+  if (input.question_count === undefined || input.question_count === null || input.question_count === '') {
+    return { settings: null };
+  }
+
+  const questionCount = Number(input.question_count);
+  if (!Number.isInteger(questionCount) || questionCount < 1 || questionCount > MAX_QUESTIONS_PER_QUIZ) {
+    return { error: `question_count must be a whole number from 1 to ${MAX_QUESTIONS_PER_QUIZ}` };
+  }
+  // Without a pass mark every question has to be answered correctly
+  const passMark = input.pass_mark === undefined || input.pass_mark === null || input.pass_mark === ''
+    ? questionCount
+    : Number(input.pass_mark);
+  if (!Number.isInteger(passMark) || passMark < 1 || passMark > questionCount) {
+    return { error: 'pass_mark must be a whole number from 1 to question_count' };
+  }
+
+  return {
+    settings: {
+      question_count: questionCount,
+      pass_mark: passMark,
+      consolation_on_fail: input.consolation_on_fail === true || input.consolation_on_fail === 'true'
+    }
+  };
+}
+
+/**
+ * Validate a question for the question bank
+ * @param {object} input - question, options, correct_option, campaign_id and is_active
+ * @returns {{question?: object, error?: string}} - Question ready to store, with its options as a list
+ */
+function normalizeQuestion(input) {
+  const text = typeof input.question === 'string' ? input.question.trim() : '';
+  if (!text) {
+    return { error: 'question is required' };
+  }
+  if (text.length > 500) {
+    return { error: 'question must be at most 500 characters' };
+  }
+
+  const options = Array.isArray(input.options)
+    ? input.options.map(option => (typeof option === 'string' ? option.trim() : '')).filter(Boolean)
+    : [];
+  if (options.length < MIN_OPTIONS || options.length > MAX_OPTIONS) {
+    return { error: `options must be a list of ${MIN_OPTIONS} to ${MAX_OPTIONS} answers` };
+  }
+
+  const correctOption = Number(input.correct_option);
+  if (!Number.isInteger(correctOption) || correctOption < 0 || correctOption >= options.length) {
+    return { error: 'correct_option must be the position of one of the options, starting at 0' };
+  }
+
+  return {
+    question: {
+      campaign_id: input.campaign_id ? Number(input.campaign_id) : null,
+      question: text,
+      options,
+      correct_option: correctOption,
+      is_active: input.is_active !== false && input.is_active !== 'false'
+    }
+  };
+}
+
+/**
+ * Parse a question row from the database
+ * @param {object} row - Row from the quiz_questions table
+ * @returns {object} - Question with its options as a list
+ */
+function parseQuestion(row) {
+  let options = [];
+  try {
+    options = JSON.parse(row.options);
+  } catch (err) {
+    console.error(`Invalid options for quiz question ${row.id}:`, err.message);
+  }
+  return { ...row, options: Array.isArray(options) ? options : [], is_active: !!row.is_active };
+}
+
+/**
+ * Count the active questions a campaign's quiz can ask
+ * @param {object} db - Database pool or connection
+ * @param {object} campaign - Parsed campaign
+ * @returns {Promise<number>} - Active questions of the campaign and shared ones
+ */
+async function countQuizQuestions(db, campaign) {
+  const [rows] = await db.query(
+    'SELECT COUNT(*) as count FROM quiz_questions WHERE is_active = TRUE AND (campaign_id = ? OR campaign_id IS NULL)',
+    [campaign.id]
+  );
+  return Number(rows[0].count);
+}
+
+/**
+ * Pick the questions for one customer's quiz, at random from the campaign's active questions
+ * and the shared ones. The answers are not included.
+ * @param {object} db - Database pool or connection
+ * @param {object} campaign - Parsed campaign with quiz_settings
+ * @returns {Promise<Array<{id: number, question: string, options: string[]}>>} - Questions to ask, fewer when the bank is small
+ */
+async function pickQuizQuestions(db, campaign) {
+  const [rows] = await db.query(
+    `SELECT * FROM quiz_questions
+     WHERE is_active = TRUE AND (campaign_id = ? OR campaign_id IS NULL)
+     ORDER BY RAND() LIMIT ?`,
+    [campaign.id, campaign.quiz_settings.question_count]
+  );
+  return rows.map(parseQuestion).map(({ id, question, options }) => ({ id, question, options }));
+}
+
+/**
+ * Mark a customer's answers and store them as a quiz attempt. The pass mark is lowered when
+ * the bank has fewer questions than the quiz asks for.
+ * @param {object} db - Database pool or connection
+ * @param {{campaign: object, agentId: string, contact: ?string,
+ *   answers: Array<{question_id: number, option: number}>}} attempt - The customer's answers
+ * @returns {Promise<{attempt?: object, error?: string}>} - The stored attempt, or why the answers were not accepted
+ */
+async function gradeQuizAttempt(db, { campaign, agentId, contact, answers }) {
+  const settings = campaign.quiz_settings;
+  // Every question asked has to be answered, so a customer cannot leave out the hard ones
+  const expected = Math.min(settings.question_count, await countQuizQuestions(db, campaign));
+  if (!Array.isArray(answers) || answers.length === 0 || answers.length !== expected) {
+    return { error: `answers must be a list of ${expected} answers` };
+  }
+  const questionIds = answers.map(answer => Number(answer && answer.question_id));
+  if (questionIds.some(id => !Number.isInteger(id)) || new Set(questionIds).size !== questionIds.length) {
+    return { error: 'Every answer needs a different question_id' };
+  }
+
+  const [rows] = await db.query(
+    `SELECT * FROM quiz_questions
+     WHERE id IN (?) AND is_active = TRUE AND (campaign_id = ? OR campaign_id IS NULL)`,
+    [questionIds, campaign.id]
+  );
+  if (rows.length !== questionIds.length) {
+    return { error: 'The quiz has changed, please start it again' };
+  }
+  const questions = new Map(rows.map(row => [row.id, parseQuestion(row)]));
+
+  // The question and chosen answer are stored as text, so reports still read right after the bank is edited
+  const marked = answers.map(answer => {
+    const question = questions.get(Number(answer.question_id));
+    const option = Number(answer.option);
+    return {
+      question_id: question.id,
+      question: question.question,
+      answer: Number.isInteger(option) ? question.options[option] || null : null,
+      is_correct: option === question.correct_option
+    };
+  });
+  const correctCount = marked.filter(answer => answer.is_correct).length;
+  const passed = correctCount >= Math.min(settings.pass_mark, marked.length);
+
+  const attempt = {
+    id: crypto.randomUUID(),
+    campaign_id: campaign.id,
+    agent_id: agentId,
+    user_contact: contact || null,
+    answers: marked,
+    correct_count: correctCount,
+    question_count: marked.length,
+    passed,
+    // A customer who fails may still play for the consolation prize when the campaign allows it
+    earns_spin: passed || settings.consolation_on_fail,
+    expires_at: new Date(Date.now() + QUIZ_ATTEMPT_TTL_MINUTES * 60 * 1000)
+  };
+
+  await db.query(
+    `INSERT INTO quiz_attempts (id, campaign_id, agent_id, user_contact, answers, correct_count, question_count, passed, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [attempt.id, attempt.campaign_id, attempt.agent_id, attempt.user_contact, JSON.stringify(marked),
+      correctCount, marked.length, passed, attempt.expires_at]
+  );
+  return { attempt };
+}
+
+/**
+ * Use up a customer's quiz attempt to start their game. Each attempt starts one game. While the
+ * bank has no questions for the campaign, customers play without a quiz.
+ * @param {object} db - Database pool or connection
+ * @param {{attemptId: ?string, campaign: object, agentId: string, contact: ?string}} claim - The attempt and who is playing
+ * @returns {Promise<{attempt?: ?object, status?: number, code?: string, message?: string}>} - The attempt (null when there was no quiz to answer), or the status, error code (quiz_required) and message to reply with
+ */
+async function claimQuizAttempt(db, { attemptId, campaign, agentId, contact }) {
+  if (!attemptId) {
+    return (await countQuizQuestions(db, campaign)) > 0
+      ? { status: 400, code: 'quiz_required', message: 'Answer the quiz before playing' }
+      : { attempt: null };
+  }
+
+  const [attempts] = await db.query(
+    'SELECT * FROM quiz_attempts WHERE id = ? AND campaign_id = ? AND agent_id = ?',
+    [String(attemptId), campaign.id, agentId]
+  );
+  const attempt = attempts[0];
+  if (!attempt || (attempt.user_contact && attempt.user_contact !== contact)) {
+    return { status: 400, code: 'quiz_required', message: 'Answer the quiz before playing' };
+  }
+  if (!attempt.passed && !campaign.quiz_settings.consolation_on_fail) {
+    return { status: 400, code: 'quiz_required', message: 'Answer the quiz correctly to play' };
+  }
+
+  const [result] = await db.query(
+    'UPDATE quiz_attempts SET used_at = NOW() WHERE id = ? AND used_at IS NULL AND expires_at > NOW()',
+    [attempt.id]
+  );
+  if (result.affectedRows === 0) {
+    return { status: 400, code: 'quiz_required', message: 'This quiz has already been played or has expired, please answer it again' };
+  }
+  return { attempt: { ...attempt, passed: !!attempt.passed } };
+}
+
+module.exports = {
+  MAX_QUESTIONS_PER_QUIZ,
+  normalizeQuizSettings,
+  normalizeQuestion,
+  parseQuestion,
+  pickQuizQuestions,
+  gradeQuizAttempt,
+  claimQuizAttempt
+};
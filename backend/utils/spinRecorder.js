@@ -0,0 +1,191 @@
+/**
+ * Record spin results and take won prizes out of stock, or put them back when a win is voided.
+ * The functions that change data expect a connection with an open transaction.
+ */
+const { MOVEMENT_TYPES, recordMovement } = require('./inventoryLedger');
+
+/**
+ * Take one unit of a won prize out of stock and record the movement against the spin. Agent
+ * stock is used when the spin has an agent and product; otherwise the prize is matched to a
+ * product and taken from the warehouse.
+ * @param {object} connection - Connection with an open transaction
+ * @param {{agentId: ?string, productId: ?(string|number), campaignId: ?number, prizeLabel: string,
+ *   spinResultId: number, actor: string}} prize - The won prize and the spin it was won on
+ * @returns {Promise<{ok: boolean, productId?: (string|number), message?: string, error?: string}>} - Whether stock was taken, or why not
+ */
+async function consumePrizeStock(connection, { agentId, productId, campaignId, prizeLabel, spinResultId, actor }) {
+  const holder = agentId && productId ? agentId : null;
+
+  // Warehouse wins map the prize label to its product
+  if (!productId) {
+    const [prod] = await connection.query(
+      'SELECT id FROM products WHERE LOWER(name) = LOWER(?) AND campaign_id <=> ? LIMIT 1',
+      [String(prizeLabel).trim(), campaignId]
+    );
+    if (prod.length === 0) {
+      return { ok: false, message: 'Product not found for this prize', error: 'Unknown product' };
+    }
+    productId = prod[0].id;
+  }
+
+  // Lock the row so concurrent spins cannot both take the last unit. Agents hold stock per
+  // campaign; the warehouse holds one row per product.
+  const [inventoryCheck] = await connection.query(`
+    SELECT id, available_quantity, product_name, campaign_id
+    FROM product_inventory
+    WHERE agent_id <=> ? AND product_id = ? ${holder ? 'AND campaign_id <=> ?' : ''}
+    FOR UPDATE
+  `, [holder, String(productId), ...(holder ? [campaignId] : [])]);
+
+  if (inventoryCheck.length === 0 || inventoryCheck[0].available_quantity <= 0) {
+    return { ok: false, message: 'No prize available', error: holder ? 'Insufficient inventory' : 'Insufficient warehouse stock' };
+  }
+
+  await connection.query(`
+    UPDATE product_inventory
+    SET available_quantity = available_quantity - 1,
+        distributed_quantity = distributed_quantity + 1
+    WHERE id = ?
+  `, [inventoryCheck[0].id]);
+
+  await recordMovement(connection, {
+    agentId: holder,
+    productId,
+    productName: inventoryCheck[0].product_name,
+    campaignId: inventoryCheck[0].campaign_id,
+    type: MOVEMENT_TYPES.WIN,
+    quantity: -1,
+    balanceAfter: inventoryCheck[0].available_quantity - 1,
+    spinResultId,
+    actor
+  });
+  return { ok: true, productId };
+}
+
+/**
+ * Put the prize of a voided win back into the stock it was taken from
+ * @param {object} connection - Connection with an open transaction
+ * @param {{spinResultId: number, actor: string, reason: ?string}} voided - The voided spin, who voided it and why
+ * @returns {Promise<boolean>} - True if stock was returned, false if the win never took any
+ */
+async function returnPrizeStock(connection, { spinResultId, actor, reason }) {
+  const [movements] = await connection.query(
+    'SELECT agent_id, product_id, campaign_id FROM inventory_movements WHERE spin_result_id = ? AND movement_type = ?',
+    [spinResultId, MOVEMENT_TYPES.WIN]
+  );
+  if (movements.length === 0) {
+    return false;
+  }
+
+  // The same row consumePrizeStock took the prize from
+  const { agent_id: holder, product_id: productId, campaign_id: campaignId } = movements[0];
+  const [stockRows] = await connection.query(`
+    SELECT id, available_quantity, product_name, campaign_id
+    FROM product_inventory
+    WHERE agent_id <=> ? AND product_id = ? ${holder ? 'AND campaign_id <=> ?' : ''}
+    FOR UPDATE
+  `, [holder, String(productId), ...(holder ? [campaignId] : [])]);
+  if (stockRows.length === 0) {
+    return false;
+  }
+
+  await connection.query(`
+    UPDATE product_inventory
+    SET available_quantity = available_quantity + 1,
+        distributed_quantity = GREATEST(distributed_quantity - 1, 0)
+    WHERE id = ?
+  `, [stockRows[0].id]);
+
+  await recordMovement(connection, {
+    agentId: holder,
+    productId,
+    productName: stockRows[0].product_name,
+    campaignId: stockRows[0].campaign_id,
+    type: MOVEMENT_TYPES.VOID,
+    quantity: 1,
+    balanceAfter: stockRows[0].available_quantity + 1,
+    spinResultId,
+    actor,
+    reason
+  });
+  return true;
+}
+
+// spin_results columns the results list returns, plus the names the results API has always
+// returned them under. The claim code, which redeems the prize, the idempotency key, which returns
+// the claim code on a retry, and the IP address are left out; CLAIM_CODE_COLUMNS adds the code back
+// for exports.
+const SPIN_RESULT_COLUMNS = [
+  'id', 'campaign_id', 'location', 'agent_id', 'agent_name', 'user_name', 'user_contact', 'prize_label',
+  'is_win', 'prize_tier', 'date', 'source', 'allowance_id', 'claim_expires_at', 'claimed_at',
+  'claimed_by_agent', 'device_session_id', 'voided_at', 'voided_by', 'void_reason', 'cap_reason',
+  'quiz_attempt_id', 'purchase_id',
+  'user_name as name', 'user_contact as email', 'prize_label as prize'
+].join(', ');
+const CLAIM_CODE_COLUMNS = 'claim_code';
+
+/**
+ * Insert a spin result
+ * @param {object} connection - Connection with an open transaction
+ * @param {object} spin - Spin details: campaign_id, agent_id, agent_name, user_name, user_contact,
+ *   prize_label, is_win, the prize_tier of a win, the client's idempotency_key, the
+ *   device_session_id and ip_address it came from, the cap_reason when a capped prize was not
+ *   given, the quiz_attempt_id of the quiz answered before it, the purchase_id of the receipt it was
+ *   played with and, for synced spins, date, source and allowance_id
+ * @returns {Promise<number>} - ID of the new spin result
+ */
+async function insertSpinResult(connection, spin) {
+  const [result] = await connection.query(
+    `INSERT INTO spin_results (campaign_id, agent_id, agent_name, user_name, user_contact, prize_label, is_win,
+       prize_tier, date, idempotency_key, source, allowance_id, device_session_id, ip_address, cap_reason, quiz_attempt_id,
+       purchase_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, COALESCE(?, NOW()), ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      spin.campaign_id || null,
+      spin.agent_id || null,
+      spin.agent_name,
+      spin.user_name,
+      spin.user_contact,
+      spin.prize_label,
+      spin.is_win,
+      (spin.is_win && spin.prize_tier) || null,
+      spin.date || null,
+      spin.idempotency_key || null,
+      spin.source || 'online',
+      spin.allowance_id || null,
+      spin.device_session_id || null,
+      spin.ip_address || null,
+      spin.cap_reason || null,
+      spin.quiz_attempt_id || null,
+      spin.purchase_id || null
+    ]
+  );
+  return result.insertId;
+}
+
+/**
+ * Find the spin recorded under a client's idempotency key with the given spin token
+ * @param {object} db - Database pool or connection
+ * @param {string} key - Idempotency key the client sent with the spin
+ * @param {string} tokenId - Id of the spin token the client sent; a spin recorded with another token is not returned
+ * @returns {Promise<object|undefined>} - id, prize_label, is_win, prize_tier, claim_code and claim_expires_at, or undefined
+ */
+async function findSpinByIdempotencyKey(db, key, tokenId) {
+  const [spins] = await db.query(
+    `SELECT s.id, s.prize_label, s.is_win, s.prize_tier, s.claim_code, s.claim_expires_at
+     FROM spin_results s
+     JOIN spin_tokens t ON t.spin_result_id = s.id
+     WHERE s.idempotency_key = ? AND t.id = ?`,
+    [key, tokenId]
+  );
+  return spins[0];
+}
+
+module.exports = {
+  SPIN_RESULT_COLUMNS,
+  CLAIM_CODE_COLUMNS,
+  consumePrizeStock,
+  returnPrizeStock,
+  insertSpinResult,
+  findSpinByIdempotencyKey
+};
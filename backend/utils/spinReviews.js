@@ -0,0 +1,125 @@
+/**
+ * Review of spins flagged by the fraud rules: list them for admins, dismiss the flags or void
+ * the win
+ */
+const { getClaimStatus } = require('./claimCodes');
+const { returnPrizeStock } = require('./spinRecorder');
+
+const FLAG_STATUSES = {
+  OPEN: 'open',
+  DISMISSED: 'dismissed',
+  VOIDED: 'voided'
+};
+
+/**
+ * List flagged spins, newest flag first
+ * @param {object} db - Database pool
+ * @param {{status?: string, campaignId?: (number|string)}} filters - Flag status ('all' for every
+ *   flag) and campaign
+ * @returns {Promise<Array<object>>} - Spins with the flags raised against them
+ */
+async function listFlaggedSpins(db, { status = FLAG_STATUSES.OPEN, campaignId } = {}) {
+  const conditions = [];
+  const params = [];
+  if (status !== 'all') {
+    conditions.push('f.status = ?');
+    params.push(status);
+  }
+  if (campaignId) {
+    conditions.push('s.campaign_id = ?');
+    params.push(campaignId);
+  }
+  const whereClause = conditions.length > 0 ? 'WHERE ' + conditions.join(' AND ') : '';
+
+  const [rows] = await db.query(`
+    SELECT f.id as flag_id, f.rule, f.details, f.status, f.created_at as flagged_at,
+      f.reviewed_at, f.reviewed_by, f.review_note,
+      s.id, s.date, s.campaign_id, s.agent_id, s.agent_name, s.user_name, s.user_contact,
+      s.prize_label, s.is_win, s.ip_address, s.device_session_id,
+      s.claim_code, s.claim_expires_at, s.claimed_at, s.voided_at, s.voided_by, s.void_reason
+    FROM spin_flags f
+    JOIN spin_results s ON s.id = f.spin_result_id
+    ${whereClause}
+    ORDER BY f.created_at DESC, f.id DESC
+  `, params);
+
+  // One entry per spin, in the order its newest flag was raised
+  const spins = new Map();
+  for (const row of rows) {
+    const { flag_id, rule, details, status: flagStatus, flagged_at, reviewed_at, reviewed_by, review_note, ...spin } = row;
+    if (!spins.has(spin.id)) {
+      spins.set(spin.id, { ...spin, is_win: !!spin.is_win, claim_status: getClaimStatus(spin), flags: [] });
+    }
+    spins.get(spin.id).flags.push({
+      id: flag_id, rule, details, status: flagStatus, created_at: flagged_at, reviewed_at, reviewed_by, review_note
+    });
+  }
+  return [...spins.values()];
+}
+
+/**
+ * Close a spin's open flags
+ * @param {object} db - Database pool or connection
+ * @param {number} spinResultId - Spin the flags were raised against
+ * @param {{status: string, reviewer: string, note: ?string}} review - Outcome of the review
+ * @returns {Promise<number>} - Number of flags closed
+ */
+async function closeFlags(db, spinResultId, { status, reviewer, note }) {
+  const [result] = await db.query(
+    `UPDATE spin_flags SET status = ?, reviewed_at = NOW(), reviewed_by = ?, review_note = ?
+     WHERE spin_result_id = ? AND status = ?`,
+    [status, reviewer, note ? String(note).slice(0, 500) : null, spinResultId, FLAG_STATUSES.OPEN]
+  );
+  return result.affectedRows;
+}
+
+/**
+ * Void a win: the claim code stops working, the prize goes back into the stock it came from and
+ * the spin's open flags are closed
+ * @param {object} connection - Connection with an open transaction
+ * @param {number} spinResultId - Spin to void
+ * @param {{actor: string, note: ?string}} review - Who voided the win and why
+ * @returns {Promise<object>} - { ok: true, stock_returned } or { ok: false, status, message }
+ */
+async function voidWin(connection, spinResultId, { actor, note }) {
+  const [spins] = await connection.query(
+    'SELECT id, is_win, claimed_at, voided_at FROM spin_results WHERE id = ? FOR UPDATE',
+    [spinResultId]
+  );
+  const spin = spins[0];
+
+  if (!spin) {
+    return { ok: false, status: 404, message: 'Spin result not found' };
+  }
+  if (!spin.is_win) {
+    return { ok: false, status: 400, message: 'Only wins can be voided' };
+  }
+  if (spin.voided_at) {
+    return { ok: false, status: 409, message: 'This win has already been voided' };
+  }
+  // A prize that has been handed over cannot go back into stock
+  if (spin.claimed_at) {
+    return { ok: false, status: 409, message: 'This prize has already been handed over' };
+  }
+
+  const reason = note ? String(note).slice(0, 500) : null;
+  await connection.query(
+    'UPDATE spin_results SET voided_at = NOW(), voided_by = ?, void_reason = ? WHERE id = ?',
+    [actor, reason, spinResultId]
+  );
+  const stockReturned = await returnPrizeStock(connection, {
+    spinResultId,
+    actor,
+    reason: reason ? `Win voided: ${reason}`.slice(0, 255) : 'Win voided'
+  });
+  await closeFlags(connection, spinResultId, { status: FLAG_STATUSES.VOIDED, reviewer: actor, note });
+
+  return { ok: true, stock_returned: stockReturned };
+}
+
+module.exports = {
+  FLAG_STATUSES,
+  listFlaggedSpins,
+  closeFlags,
+  voidWin
+};
@@ -0,0 +1,284 @@
+/**
+ * Sync spins that a kiosk recorded while it could not reach the server.
+ * Each spin carries an idempotency key, so a batch can safely be sent more than once.
+ */
+const { verifySpinToken } = require('./spinToken');
+const { consumePrizeStock, insertSpinResult } = require('./spinRecorder');
+const { scanSpinLater } = require('./fraudRules');
+const { assignClaimCode } = require('./claimCodes');
+const { getCampaign } = require('./campaigns');
+const { findReachedCap } = require('./prizeCaps');
+const { getEligibilityRules } = require('./eligibility');
+
+const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// Device clocks drift, so spins slightly in the future are accepted as played now
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+/**
+ * Check that a queued spin has a usable idempotency key
+ * @param {object} entry - Queued spin from the device
+ * @returns {boolean} - True if the key is valid
+ */
+function hasValidIdempotencyKey(entry) {
+  return !!entry && typeof entry.idempotency_key === 'string' && IDEMPOTENCY_KEY_PATTERN.test(entry.idempotency_key);
+}
+
+// When the spin was played according to the device, or now if that is not believable
+const getPlayedAt = (entry) => {
+  const playedAt = new Date(entry.played_at);
+  if (isNaN(playedAt.getTime()) || playedAt.getTime() > Date.now() + MAX_CLOCK_SKEW_MS) {
+    return new Date();
+  }
+  return playedAt;
+};
+
+// Campaigns that check each customer on the server before they play, by their receipt, the quiz
+// or the eligibility rules, are not played offline, so a spin drawn offline on one is recorded as
+// a conflict for an admin to follow up. Returns the reason, or null when the campaign can be
+// played offline.
+const getSkippedCheck = (campaign) => {
+  if (campaign && campaign.purchase_settings) {
+    return 'Played offline without proof of purchase';
+  }
+  if (campaign && campaign.quiz_settings) {
+    return 'Played offline without the quiz';
+  }
+  if (getEligibilityRules(campaign)) {
+    return 'Played offline without the eligibility rules';
+  }
+  return null;
+};
+
+/**
+ * Work out the outcome of a queued spin. Spins drawn online carry their spin token; spins
+ * drawn offline are checked against the allowance they were drawn from.
+ * @returns {Promise<object>} - { outcome, conflict } for a spin to record, { duplicateId } if the
+ *   token was already recorded, or { rejected } with the reason the spin cannot be recorded
+ */
+async function resolveOutcome(connection, device, entry, playedAt) {
+  if (entry.spin_token) {
+    const token = verifySpinToken(entry.spin_token, { allowExpired: true });
+    if (!token) {
+      return { rejected: 'Invalid spin token' };
+    }
+    if (token.agent_id !== device.agent_id) {
+      return { rejected: 'Spin token belongs to another agent' };
+    }
+
+    const [tokenUpdate] = await connection.query(
+      'UPDATE spin_tokens SET used_at = NOW() WHERE id = ? AND used_at IS NULL',
+      [token.tid]
+    );
+    if (tokenUpdate.affectedRows === 0) {
+      // The online save went through but the device never heard back
+      const [tokens] = await connection.query('SELECT spin_result_id FROM spin_tokens WHERE id = ?', [token.tid]);
+      return tokens.length > 0 && tokens[0].spin_result_id
+        ? { duplicateId: tokens[0].spin_result_id }
+        : { rejected: 'Unknown spin token' };
+    }
+
+    const outcome = {
+      prize_label: token.prize_label,
+      is_win: token.is_win,
+      prize_tier: token.prize_tier || null,
+      product_id: token.product_id || null,
+      campaign_id: token.campaign_id || null,
+      agent_name: token.agent_name || device.name,
+      // The contact checked against the eligibility rules at draw time, as for spins recorded online
+      user_contact: token.user_contact || null,
+      quiz_attempt_id: token.quiz_attempt_id || null,
+      purchase_id: token.purchase_id || null,
+      source: 'queued',
+      token_id: token.tid
+    };
+
+    // Caps are checked again as when the spin is recorded online, but the customer has already
+    // been shown the prize, so a win over a cap is kept and flagged rather than swapped
+    const reached = outcome.is_win
+      ? await findReachedCap(connection, { productId: outcome.product_id, agentId: device.agent_id, lock: true })
+      : null;
+    return { outcome, conflict: reached ? reached.reason : null };
+  }
+
+  const [allowances] = await connection.query(
+    'SELECT id, campaign_id, items, expires_at FROM offline_allowances WHERE id = ? AND agent_id = ?',
+    [entry.allowance_id, device.agent_id]
+  );
+  if (allowances.length === 0) {
+    return { rejected: 'Unknown offline allowance' };
+  }
+  if (!entry.prize_label) {
+    return { rejected: 'Missing prize' };
+  }
+
+  const allowance = allowances[0];
+  const outcome = {
+    prize_label: String(entry.prize_label),
+    is_win: !!entry.is_win,
+    prize_tier: null,
+    product_id: null,
+    campaign_id: allowance.campaign_id,
+    agent_name: device.name,
+    source: 'offline',
+    allowance_id: allowance.id
+  };
+
+  const skippedCheck = getSkippedCheck(await getCampaign(connection, { id: allowance.campaign_id }));
+  if (!outcome.is_win) {
+    return { outcome, conflict: skippedCheck };
+  }
+
+  const item = JSON.parse(allowance.items).find(i => i.label === outcome.prize_label);
+  if (!item) {
+    return { outcome, conflict: 'Prize was not in the offline allowance' };
+  }
+  outcome.product_id = item.product_id;
+  outcome.prize_tier = item.tier || null;
+
+  if (skippedCheck) {
+    return { outcome, conflict: skippedCheck };
+  }
+
+  if (playedAt > new Date(allowance.expires_at)) {
+    return { outcome, conflict: 'Offline allowance had expired' };
+  }
+
+  const [used] = await connection.query(
+    'SELECT COUNT(*) as count FROM spin_results WHERE allowance_id = ? AND prize_label = ? AND is_win = true',
+    [allowance.id, outcome.prize_label]
+  );
+  if (used[0].count >= item.quantity) {
+    return { outcome, conflict: 'Offline allowance for this prize was used up' };
+  }
+
+  return { outcome };
+}
+
+// Keep a copy of what the device sent, without the spin token itself
+const toConflictPayload = (entry) => {
+  const { spin_token, ...payload } = entry;
+  return JSON.stringify({ ...payload, has_spin_token: !!spin_token });
+};
+
+/**
+ * Record one queued spin
+ * @param {object} db - Database pool
+ * @param {{agent_id: string, name: string, session_id: number}} device - Agent and session of the syncing device
+ * @param {object} entry - Queued spin: idempotency_key, played_at, name, email, location and either
+ *   spin_token or allowance_id, prize_label and is_win. The email or phone is only used for offline
+ *   spins; a spin token carries the contact it was drawn for
+ * @returns {Promise<{idempotency_key: string, status: string, id?: number, claim_code?: string, reason?: string}>} - status is
+ *   synced, duplicate, conflict (recorded, but flagged for an admin) or rejected (not recorded)
+ */
+async function syncSpin(db, device, entry) {
+  const key = entry.idempotency_key;
+  const connection = await db.getConnection();
+
+  try {
+    await connection.beginTransaction();
+
+    const [existing] = await connection.query('SELECT id FROM spin_results WHERE idempotency_key = ?', [key]);
+    if (existing.length > 0) {
+      await connection.rollback();
+      return { idempotency_key: key, status: 'duplicate', id: existing[0].id };
+    }
+
+    const playedAt = getPlayedAt(entry);
+    const resolved = await resolveOutcome(connection, device, entry, playedAt);
+
+    if (resolved.duplicateId) {
+      await connection.rollback();
+      return { idempotency_key: key, status: 'duplicate', id: resolved.duplicateId };
+    }
+
+    if (resolved.rejected) {
+      await connection.rollback();
+      await db.query(
+        `INSERT INTO spin_sync_conflicts (idempotency_key, agent_id, reason, payload)
+         VALUES (?, ?, ?, ?)
+         ON DUPLICATE KEY UPDATE reason = VALUES(reason)`,
+        [key, device.agent_id, resolved.rejected, toConflictPayload(entry)]
+      );
+      return { idempotency_key: key, status: 'rejected', reason: resolved.rejected };
+    }
+
+    const { outcome } = resolved;
+    let conflict = resolved.conflict;
+
+    const spinResultId = await insertSpinResult(connection, {
+      campaign_id: outcome.campaign_id,
+      agent_id: device.agent_id,
+      agent_name: outcome.agent_name,
+      user_name: entry.name || 'Anonymous',
+      user_contact: outcome.user_contact || entry.phone || entry.email || 'N/A',
+      prize_label: outcome.prize_label,
+      is_win: outcome.is_win,
+      prize_tier: outcome.prize_tier,
+      date: playedAt,
+      idempotency_key: key,
+      source: outcome.source,
+      allowance_id: outcome.allowance_id,
+      quiz_attempt_id: outcome.quiz_attempt_id,
+      purchase_id: outcome.purchase_id,
+      device_session_id: device.session_id
+    });
+
+    // The customer has already been shown the prize, so the spin is recorded even when
+    // the stock is gone; the conflict tells an admin to follow up. A flagged win still takes its
+    // stock, so stock levels, caps and voiding see it like any other win.
+    if (outcome.is_win) {
+      const stock = await consumePrizeStock(connection, {
+        agentId: device.agent_id,
+        productId: outcome.product_id,
+        campaignId: outcome.campaign_id,
+        prizeLabel: outcome.prize_label,
+        spinResultId,
+        actor: `device:${device.agent_id}`
+      });
+      if (!stock.ok) {
+        conflict = conflict ? `${conflict}; ${stock.error}` : stock.error;
+      }
+    }
+
+    if (outcome.token_id) {
+      await connection.query('UPDATE spin_tokens SET spin_result_id = ? WHERE id = ?', [spinResultId, outcome.token_id]);
+    }
+
+    // The claim code runs from when the prize was won, not from when it was synced
+    const claim = outcome.is_win ? await assignClaimCode(connection, spinResultId, playedAt) : null;
+    const claimCode = claim ? claim.claim_code : null;
+
+    if (conflict) {
+      await connection.query(
+        `INSERT INTO spin_sync_conflicts (idempotency_key, spin_result_id, agent_id, campaign_id, reason, payload)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [key, spinResultId, device.agent_id, outcome.campaign_id, conflict, toConflictPayload(entry)]
+      );
+    }
+
+    await connection.commit();
+    scanSpinLater(db, spinResultId);
+    return conflict
+      ? { idempotency_key: key, status: 'conflict', id: spinResultId, claim_code: claimCode, reason: conflict }
+      : { idempotency_key: key, status: 'synced', id: spinResultId, claim_code: claimCode };
+  } catch (err) {
+    await connection.rollback();
+    // Another request synced the same spin at the same time
+    if (err.code === 'ER_DUP_ENTRY') {
+      const [existing] = await db.query('SELECT id FROM spin_results WHERE idempotency_key = ?', [key]);
+      if (existing.length > 0) {
+        return { idempotency_key: key, status: 'duplicate', id: existing[0].id };
+      }
+    }
+    throw err;
+  } finally {
+    connection.release();
+  }
+}
+
+module.exports = {
+  hasValidIdempotencyKey,
+  getSkippedCheck,
+  syncSpin
+};
@@ -0,0 +1,78 @@
+/**
+ * Utility functions for issuing and verifying signed spin tokens
+ */
+const crypto = require('crypto');
+
+// Spin tokens are short lived - the wheel animation only takes a few seconds
+const SPIN_TOKEN_TTL_SECONDS = parseInt(process.env.SPIN_TOKEN_TTL_SECONDS, 10) || 300;
+
+let secret = process.env.SPIN_TOKEN_SECRET;
+if (!secret) {
+  // Without a configured secret, tokens are only valid until the server restarts
+  secret = crypto.randomBytes(32).toString('hex');
+  console.warn('SPIN_TOKEN_SECRET is not set, using a random secret for this process');
+}
+
+function sign(data) {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Create a signed spin token for a drawn outcome
+ * @param {object} outcome - The drawn outcome to embed in the token
+ * @returns {{token: string, tokenId: string, expiresAt: Date}} - Signed token and its metadata
+ */
+function createSpinToken(outcome) {
+  const tokenId = crypto.randomUUID();
+  const expiresAt = new Date(Date.now() + SPIN_TOKEN_TTL_SECONDS * 1000);
+  const payload = Buffer.from(JSON.stringify({
+    ...outcome,
+    tid: tokenId,
+    exp: Math.floor(expiresAt.getTime() / 1000)
+  })).toString('base64url');
+
+  return {
+    token: `${payload}.${sign(payload)}`,
+    tokenId,
+    expiresAt
+  };
+}
+
+/**
+ * Verify a spin token signature and expiry
+ * @param {string} token - The token issued by createSpinToken
+ * @param {{allowExpired?: boolean}} options - allowExpired accepts expired tokens, for spins synced after going offline
+ * @returns {object|null} - The token payload or null if invalid or expired
+ */
+function verifySpinToken(token, { allowExpired = false } = {}) {
+  if (!token || typeof token !== 'string') {
+    return null;
+  }
+
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!data.tid || !data.exp || (!allowExpired && data.exp * 1000 < Date.now())) {
+      return null;
+    }
+    return data;
+  } catch (err) {
+    return null;
+  }
+}
+
+module.exports = {
+  createSpinToken,
+  verifySpinToken,
+  SPIN_TOKEN_TTL_SECONDS
+};
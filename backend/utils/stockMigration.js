@@ -0,0 +1,240 @@
+/**
+ * Move stock into the single stock model. Stock used to live in three places: product_stock
+ * (central stock keyed by products.id), product_inventory (agent stock keyed by free-form IDs
+ * such as 'key_holders') and product_assignments (quantities that never became stock). It now
+ * all lives in product_inventory, one row per holder, product and campaign, where agent_id is
+ * NULL for the warehouse and product_id is always a products.id.
+ * Every step only touches data that has not been migrated yet, so it is safe to run again.
+ */
+const { getProductVariations } = require('./productMapping');
+const { MOVEMENT_TYPES, recordMovement } = require('./inventoryLedger');
+
+/**
+ * Check whether a table exists in the current database
+ * @param {object} connection - Database connection
+ * @param {string} table - Table name
+ * @returns {Promise<boolean>} - True if the table exists
+ */
+async function tableExists(connection, table) {
+  const [rows] = await connection.query('SHOW TABLES LIKE ?', [table]);
+  return rows.length > 0;
+}
+
+/**
+ * Find the product a legacy stock ID stands for, creating it if there is none
+ * @param {object} connection - Connection with an open transaction
+ * @param {{product_id: string, product_name: string, campaign_id: ?number}} row - Stock row with a legacy ID
+ * @returns {Promise<number>} - Product ID
+ */
+async function resolveLegacyProduct(connection, row) {
+  const names = [row.product_name, row.product_id.replace(/_/g, ' '), ...getProductVariations(row.product_id)]
+    .map(name => String(name).trim().toLowerCase());
+
+  const [products] = await connection.query(
+    'SELECT id FROM products WHERE LOWER(TRIM(name)) IN (?) AND campaign_id <=> ? ORDER BY id LIMIT 1',
+    [names, row.campaign_id]
+  );
+  if (products.length > 0) {
+    return products[0].id;
+  }
+
+  const [result] = await connection.query(
+    'INSERT INTO products (name, description, campaign_id) VALUES (?, ?, ?)',
+    [row.product_name, row.product_name, row.campaign_id]
+  );
+  return result.insertId;
+}
+
+/**
+ * Add quantities to a holder's stock row, creating the row if needed
+ * @param {object} connection - Connection with an open transaction
+ * @param {object} stock - agent_id (null for the warehouse), agent_name, location, product_id,
+ *   product_name, campaign_id and the total, available and distributed quantities to add
+ * @returns {Promise<{id: number, available_quantity: number}>} - Row the quantities were added to and its new balance
+ */
+async function addToStockRow(connection, stock) {
+  const [existing] = await connection.query(
+    `SELECT id, available_quantity FROM product_inventory
+     WHERE agent_id <=> ? AND product_id = ? AND campaign_id <=> ?
+     FOR UPDATE`,
+    [stock.agent_id, stock.product_id, stock.campaign_id]
+  );
+
+  if (existing.length > 0) {
+    await connection.query(
+      `UPDATE product_inventory
+       SET total_quantity = total_quantity + ?, available_quantity = available_quantity + ?,
+           distributed_quantity = distributed_quantity + ?
+       WHERE id = ?`,
+      [stock.total_quantity, stock.available_quantity, stock.distributed_quantity, existing[0].id]
+    );
+    return { id: existing[0].id, available_quantity: existing[0].available_quantity + stock.available_quantity };
+  }
+
+  const [result] = await connection.query(
+    `INSERT INTO product_inventory
+     (product_id, product_name, total_quantity, available_quantity, distributed_quantity,
+      agent_id, agent_name, location, campaign_id)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [stock.product_id, stock.product_name, stock.total_quantity, stock.available_quantity,
+      stock.distributed_quantity, stock.agent_id, stock.agent_name, stock.location, stock.campaign_id]
+  );
+  return { id: result.insertId, available_quantity: stock.available_quantity };
+}
+
+/**
+ * Point agent stock with a legacy product ID at a real product, merging it into any row the
+ * agent already has for that product. The ledger and transfers follow the new ID.
+ * @param {object} connection - Connection with an open transaction
+ * @returns {Promise<number>} - Number of rows migrated
+ */
+async function migrateLegacyProductIds(connection) {
+  const [rows] = await connection.query(`
+    SELECT pi.*
+    FROM product_inventory pi
+    LEFT JOIN products p ON CAST(p.id AS CHAR) = pi.product_id
+    WHERE p.id IS NULL
+  `);
+
+  const resolved = new Map();
+  for (const row of rows) {
+    const key = `${row.product_id}:${row.campaign_id}`;
+    if (!resolved.has(key)) {
+      const productId = String(await resolveLegacyProduct(connection, row));
+      resolved.set(key, productId);
+      await connection.query(
+        'UPDATE inventory_movements SET product_id = ? WHERE product_id = ? AND campaign_id <=> ?',
+        [productId, row.product_id, row.campaign_id]
+      );
+      await connection.query(
+        'UPDATE stock_transfers SET product_id = ? WHERE product_id = ? AND campaign_id <=> ?',
+        [productId, row.product_id, row.campaign_id]
+      );
+    }
+
+    await connection.query('DELETE FROM product_inventory WHERE id = ?', [row.id]);
+    await addToStockRow(connection, { ...row, product_id: resolved.get(key) });
+  }
+  return rows.length;
+}
+
+/**
+ * Move central stock from product_stock into warehouse rows
+ * @param {object} connection - Connection with an open transaction
+ * @returns {Promise<number>} - Number of rows migrated
+ */
+async function migrateCentralStock(connection) {
+  const [rows] = await connection.query(`
+    SELECT ps.product_id, ps.total_quantity, ps.available_quantity, ps.distributed_quantity,
+           p.name, p.campaign_id
+    FROM product_stock ps
+    JOIN products p ON p.id = ps.product_id
+  `);
+
+  for (const row of rows) {
+    await addToStockRow(connection, {
+      agent_id: null,
+      agent_name: null,
+      location: null,
+      product_id: String(row.product_id),
+      product_name: row.name,
+      campaign_id: row.campaign_id,
+      total_quantity: row.total_quantity,
+      available_quantity: row.available_quantity,
+      distributed_quantity: row.distributed_quantity
+    });
+  }
+  return rows.length;
+}
+
+/**
+ * Turn product assignments into agent stock. Agents who already hold stock of the product keep
+ * it as it is, since the assignment was most likely entered as inventory by hand too.
+ * @param {object} connection - Connection with an open transaction
+ * @returns {Promise<{created: number, skipped: number}>} - Stock rows created and assignments left out
+ */
+async function migrateAssignments(connection) {
+  const [assignments] = await connection.query(`
+    SELECT pa.agent_id, pa.product_id, SUM(pa.quantity) as quantity,
+           p.name, p.campaign_id, a.name as agent_name, a.location
+    FROM product_assignments pa
+    JOIN products p ON p.id = pa.product_id
+    LEFT JOIN agents a ON a.agent_id = pa.agent_id
+    GROUP BY pa.agent_id, pa.product_id, p.name, p.campaign_id, a.name, a.location
+  `);
+
+  let created = 0;
+  for (const assignment of assignments) {
+    const [existing] = await connection.query(
+      'SELECT id FROM product_inventory WHERE agent_id = ? AND product_id = ? AND campaign_id <=> ?',
+      [assignment.agent_id, String(assignment.product_id), assignment.campaign_id]
+    );
+    if (existing.length > 0) {
+      continue;
+    }
+
+    const quantity = Number(assignment.quantity);
+    await addToStockRow(connection, {
+      agent_id: assignment.agent_id,
+      agent_name: assignment.agent_name || assignment.agent_id,
+      location: assignment.location || '',
+      product_id: String(assignment.product_id),
+      product_name: assignment.name,
+      campaign_id: assignment.campaign_id,
+      total_quantity: quantity,
+      available_quantity: quantity,
+      distributed_quantity: 0
+    });
+    await recordMovement(connection, {
+      agentId: assignment.agent_id,
+      productId: assignment.product_id,
+      productName: assignment.name,
+      campaignId: assignment.campaign_id,
+      type: MOVEMENT_TYPES.ASSIGN,
+      quantity,
+      balanceAfter: quantity,
+      actor: 'system',
+      reason: 'Migrated from product assignments'
+    });
+    created++;
+  }
+  return { created, skipped: assignments.length - created };
+}
+
+/**
+ * Run the stock migration. The old tables are renamed with a _migrated suffix once their data
+ * has been copied, so nothing is lost and they are not migrated twice.
+ * @param {object} connection - Database connection without an open transaction
+ * @returns {Promise<void>}
+ */
+async function migrateToSingleStockModel(connection) {
+  const hasCentralStock = await tableExists(connection, 'product_stock');
+  const hasAssignments = await tableExists(connection, 'product_assignments');
+
+  await connection.beginTransaction();
+  try {
+    const legacyRows = await migrateLegacyProductIds(connection);
+    const centralRows = hasCentralStock ? await migrateCentralStock(connection) : 0;
+    const assignments = hasAssignments ? await migrateAssignments(connection) : { created: 0, skipped: 0 };
+    await connection.commit();
+
+    if (legacyRows + centralRows + assignments.created + assignments.skipped > 0) {
+      console.log(`Stock migration: ${legacyRows} legacy product IDs mapped, ${centralRows} central stock rows and ` +
+        `${assignments.created} assignments moved (${assignments.skipped} assignments already had stock)`);
+    }
+  } catch (err) {
+    await connection.rollback();
+    throw err;
+  }
+
+  if (hasCentralStock) {
+    await connection.query('RENAME TABLE product_stock TO product_stock_migrated');
+  }
+  if (hasAssignments) {
+    await connection.query('RENAME TABLE product_assignments TO product_assignments_migrated');
+  }
+}
+
+module.exports = {
+  migrateToSingleStockModel
+};
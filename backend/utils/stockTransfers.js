@@ -0,0 +1,201 @@
+/**
+ * Move stock between the warehouse and agents. Both are stock rows in product_inventory, the
+ * warehouse being the row without an agent. A transfer takes units out of one balance and adds
+ * them to another in the same transaction, lowering total_quantity at the source and raising it
+ * at the destination so product totals still add up. Both sides are written to the stock ledger
+ * with the transfer's ID.
+ */
+const { MOVEMENT_TYPES, recordMovement } = require('./inventoryLedger');
+
+/**
+ * Describe a stock holder for messages and ledger reasons
+ * @param {?object} agent - Agent row, or null for the warehouse
+ * @returns {string} - Agent name or 'warehouse'
+ */
+function holderLabel(agent) {
+  return agent ? agent.name : 'warehouse';
+}
+
+/**
+ * Look up the agent at one end of a transfer
+ * @param {object} connection - Database connection
+ * @param {?string} agentId - Agent ID, or null for the warehouse
+ * @returns {Promise<?object|undefined>} - Agent row, null for the warehouse, undefined if unknown
+ */
+async function findHolder(connection, agentId) {
+  if (!agentId) {
+    return null;
+  }
+  const [agents] = await connection.query(
+    'SELECT agent_id, name, location FROM agents WHERE agent_id = ?',
+    [agentId]
+  );
+  return agents[0];
+}
+
+/**
+ * Find and lock a holder's stock row. Agents hold stock per campaign; the warehouse holds one
+ * row per product.
+ * @param {object} connection - Connection with an open transaction
+ * @param {?object} agent - Agent row, or null for the warehouse
+ * @param {{productId: string, campaignId: ?number}} product - Product and campaign being moved
+ * @returns {Promise<?object>} - Stock row, or null if the holder has none
+ */
+async function lockStockRow(connection, agent, { productId, campaignId }) {
+  const [rows] = await connection.query(`
+    SELECT id, available_quantity, product_name, campaign_id
+    FROM product_inventory
+    WHERE agent_id <=> ? AND product_id = ? ${agent ? 'AND campaign_id <=> ?' : ''}
+    FOR UPDATE
+  `, [agent ? agent.agent_id : null, productId, ...(agent ? [campaignId] : [])]);
+  return rows[0] || null;
+}
+
+/**
+ * Take units out of a balance
+ * @param {object} connection - Connection with an open transaction
+ * @param {?object} agent - Agent row, or null for the warehouse
+ * @param {{productId: string, campaignId: ?number}} product - Product and campaign being moved
+ * @param {number} quantity - Units to take
+ * @returns {Promise<?{available: number, productName: string, campaignId: ?number}>} - Balance left, or null if there was not enough stock
+ */
+async function takeStock(connection, agent, product, quantity) {
+  const row = await lockStockRow(connection, agent, product);
+  if (!row || row.available_quantity < quantity) {
+    return null;
+  }
+
+  await connection.query(
+    `UPDATE product_inventory
+     SET available_quantity = available_quantity - ?, total_quantity = total_quantity - ?,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [quantity, quantity, row.id]
+  );
+  return { available: row.available_quantity - quantity, productName: row.product_name, campaignId: row.campaign_id };
+}
+
+/**
+ * Add units to a balance, creating the stock row if the holder has none
+ * @param {object} connection - Connection with an open transaction
+ * @param {?object} agent - Agent row, or null for the warehouse
+ * @param {{productId: string, productName: string, campaignId: ?number}} product - Product and campaign being moved
+ * @param {number} quantity - Units to add
+ * @returns {Promise<{available: number, campaignId: ?number}>} - Available balance afterwards
+ */
+async function putStock(connection, agent, product, quantity) {
+  const row = await lockStockRow(connection, agent, product);
+
+  if (!row) {
+    await connection.query(
+      `INSERT INTO product_inventory
+       (product_id, product_name, total_quantity, available_quantity, distributed_quantity,
+        agent_id, agent_name, location, campaign_id)
+       VALUES (?, ?, ?, ?, 0, ?, ?, ?, ?)`,
+      [product.productId, product.productName, quantity, quantity,
+        agent ? agent.agent_id : null, agent ? agent.name : null, agent ? agent.location || '' : null,
+        product.campaignId]
+    );
+    return { available: quantity, campaignId: product.campaignId };
+  }
+
+  await connection.query(
+    `UPDATE product_inventory
+     SET available_quantity = available_quantity + ?, total_quantity = total_quantity + ?,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`,
+    [quantity, quantity, row.id]
+  );
+  return { available: row.available_quantity + quantity, campaignId: row.campaign_id };
+}
+
+/**
+ * Move stock from one holder to another
+ * @param {object} connection - Connection with an open transaction; roll it back when ok is false
+ * @param {{fromAgentId: ?string, toAgentId: ?string, productId: string, campaignId: ?number,
+ *   quantity: number, actor: string, reason: ?string}} transfer - null agent IDs mean the warehouse.
+ *   The campaign is taken from the product when the warehouse is involved.
+ * @returns {Promise<{ok: boolean, status?: number, message?: string, transfer?: object}>} - The transfer, or why it failed
+ */
+async function transferStock(connection, { fromAgentId, toAgentId, productId, campaignId, quantity, actor, reason }) {
+  const from = await findHolder(connection, fromAgentId);
+  const to = await findHolder(connection, toAgentId);
+  if (from === undefined || to === undefined) {
+    return { ok: false, status: 404, message: `Agent not found: ${from === undefined ? fromAgentId : toAgentId}` };
+  }
+
+  const product = { productId: String(productId), productName: null, campaignId: campaignId || null };
+
+  // Warehouse stock is kept per product, so its campaign is the product's
+  if (!from || !to) {
+    const [products] = await connection.query(
+      'SELECT id, name, campaign_id FROM products WHERE id = ?',
+      [productId]
+    );
+    if (products.length === 0) {
+      return { ok: false, status: 404, message: 'Product not found' };
+    }
+    product.productName = products[0].name;
+    product.campaignId = products[0].campaign_id;
+  }
+
+  const taken = await takeStock(connection, from, product, quantity);
+  if (!taken) {
+    return { ok: false, status: 409, message: `Not enough stock held by the ${from ? 'agent' : 'warehouse'} to transfer ${quantity}` };
+  }
+  product.productName = product.productName || taken.productName;
+
+  const [result] = await connection.query(
+    `INSERT INTO stock_transfers
+     (product_id, product_name, campaign_id, from_agent_id, to_agent_id, quantity, actor, reason)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [product.productId, product.productName, product.campaignId, fromAgentId || null, toAgentId || null,
+      quantity, actor, reason || null]
+  );
+  const transferId = result.insertId;
+
+  const put = await putStock(connection, to, product, quantity);
+
+  const movement = {
+    productId: product.productId,
+    productName: product.productName,
+    type: MOVEMENT_TYPES.TRANSFER,
+    actor,
+    transferId
+  };
+  await recordMovement(connection, {
+    ...movement,
+    agentId: fromAgentId,
+    campaignId: taken.campaignId,
+    quantity: -quantity,
+    balanceAfter: taken.available,
+    reason: reason || `Transfer to ${holderLabel(to)}`
+  });
+  await recordMovement(connection, {
+    ...movement,
+    agentId: toAgentId,
+    campaignId: put.campaignId,
+    quantity,
+    balanceAfter: put.available,
+    reason: reason || `Transfer from ${holderLabel(from)}`
+  });
+
+  return {
+    ok: true,
+    transfer: {
+      id: transferId,
+      product_id: product.productId,
+      product_name: product.productName,
+      campaign_id: product.campaignId,
+      from_agent_id: fromAgentId || null,
+      to_agent_id: toAgentId || null,
+      quantity,
+      from_available: taken.available,
+      to_available: put.available
+    }
+  };
+}
+
+module.exports = {
+  transferStock
+};
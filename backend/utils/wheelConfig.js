@@ -0,0 +1,103 @@
+/**
+ * Server-side definition of the spin wheel layout.
+ * The order must match the sectors rendered by the frontend wheel.
+ * `weight` sets the relative odds of a sector when its prize has no configured
+ * win probability; it does not change the size of the sector on the wheel.
+ */
+const WHEEL_SECTORS = [
+  { label: 'Ilara Maziwa 500ML', is_win: true, weight: 1 },
+  { label: 'Try Again', is_win: false, weight: 1 },
+  { label: 'Aprons', is_win: true, weight: 1 },
+  { label: 'Try Again', is_win: false, weight: 1 },
+  { label: 'Induction Cooker', is_win: true, weight: 1 },
+  { label: 'Try Again', is_win: false, weight: 1 },
+  { label: 'Kitchen Set', is_win: true, weight: 1 },
+  { label: 'Try Again', is_win: false, weight: 1 }
+];
+
+// Label of the losing sectors on wheels built from stock
+const TRY_AGAIN_LABEL = 'Try Again';
+
+// Tier of a prize. Consolation prizes are not drawn for a sector of their own; they take the
+// place of the losing sectors while they are in stock.
+const PRIZE_TIERS = {
+  GRAND: 'grand',
+  STANDARD: 'standard',
+  CONSOLATION: 'consolation'
+};
+
+const DEFAULT_PRIZE_TIER = PRIZE_TIERS.STANDARD;
+
+// A wheel always shows at least this many "Try Again" sectors
+const MIN_TRY_AGAIN_SECTORS = 2;
+
+/**
+ * Get the wheel sectors in display order
+ * @param {Array<{label: string, is_win: boolean, weight?: number}>|null} sectors - Sectors configured on a campaign, or null for the default wheel
+ * @returns {Array<{label: string, is_win: boolean, weight: number, index: number}>} - Wheel sectors
+ */
+function getWheelSectors(sectors = null) {
+  return (sectors || WHEEL_SECTORS).map((sector, index) => ({
+    label: sector.label,
+    is_win: !!sector.is_win,
+    weight: sector.weight === undefined ? 1 : sector.weight,
+    index
+  }));
+}
+
+/**
+ * Build a wheel from the products an agent has in stock, alternating prizes with "Try Again"
+ * @param {Array<{product_id: string, product_name: string, prize_tier?: string}>} products - Products with available stock
+ * @returns {Array<{label: string, is_win: boolean, weight: number, index: number, product_id?: string, tier?: string}>} - Wheel sectors
+ */
+function buildWheelSectors(products) {
+  const tryAgainCount = Math.max(MIN_TRY_AGAIN_SECTORS, products.length);
+  const sectors = [];
+
+  for (let i = 0; i < Math.max(products.length, tryAgainCount); i++) {
+    if (i < products.length) {
+      sectors.push({
+        label: products[i].product_name,
+        is_win: true,
+        weight: 1,
+        product_id: products[i].product_id,
+        tier: products[i].prize_tier || DEFAULT_PRIZE_TIER
+      });
+    }
+    if (i < tryAgainCount) {
+      sectors.push({ label: TRY_AGAIN_LABEL, is_win: false, weight: 1 });
+    }
+  }
+
+  return sectors.map((sector, index) => ({ ...sector, index }));
+}
+
+/**
+ * Give a consolation prize on every losing sector of a wheel
+ * @param {Array<object>} sectors - Wheel sectors
+ * @param {{label: string, product_id: (string|number)}|null} consolation - Consolation prize in stock, or null to keep the losing sectors
+ * @returns {Array<object>} - Wheel sectors
+ */
+function withConsolationSectors(sectors, consolation) {
+  if (!consolation) {
+    return sectors;
+  }
+  return sectors.map(sector => sector.is_win ? sector : {
+    ...sector,
+    label: consolation.label,
+    is_win: true,
+    product_id: consolation.product_id,
+    tier: PRIZE_TIERS.CONSOLATION
+  });
+}
+
+module.exports = {
+  getWheelSectors,
+  buildWheelSectors,
+  withConsolationSectors,
+  WHEEL_SECTORS,
+  TRY_AGAIN_LABEL,
+  PRIZE_TIERS,
+  DEFAULT_PRIZE_TIER,
+  MIN_TRY_AGAIN_SECTORS
+};
@@ -12,6 +12,7 @@ import Admin from "./pages/Admin";
 import Stats from "./pages/Stats";
 import PrizeStats from "./pages/PrizeStats";
 import NotFound from "./pages/NotFound";
+import Redeem from "./pages/Redeem";
 
 const queryClient = new QueryClient();
 
@@ -24,6 +25,8 @@ const App = () => (
           <AuthProvider>
             <Routes>
               <Route path="/" element={<Index />} />
+              <Route path="/c/:slug" element={<Index />} />
+              <Route path="/redeem" element={<Redeem />} />
               <Route path="/login" element={<Login />} />
               <Route
                 path="/admin"
@@ -36,7 +39,7 @@ const App = () => (
               <Route
                 path="/stats"
                 element={
-                  <ProtectedRoute>
+                  <ProtectedRoute permission="stats:view">
                     <Stats />
                   </ProtectedRoute>
                 }
@@ -44,7 +47,7 @@ const App = () => (
               <Route
                 path="/prize-stats"
                 element={
-                  <ProtectedRoute>
+                  <ProtectedRoute permission="stats:view">
                     <PrizeStats />
                   </ProtectedRoute>
                 }
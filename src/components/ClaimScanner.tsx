@@ -0,0 +1,72 @@
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { getBarcodeDetector } from "@/utils/claimUtils";
+
+const SCAN_INTERVAL = 300;
+
+interface ClaimScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+// Reads a claim QR code with the device camera
+export function ClaimScanner({ onDetected, onClose, onError }: ClaimScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const BarcodeDetector = getBarcodeDetector();
+    if (!BarcodeDetector) return;
+
+    const detector = new BarcodeDetector({ formats: ["qr_code"] });
+    let stream: MediaStream | null = null;
+    let intervalId: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+
+    const stop = () => {
+      stopped = true;
+      clearInterval(intervalId);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: "environment" } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (stopped || !videoRef.current) {
+          stop();
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        videoRef.current.play();
+
+        intervalId = setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          try {
+            const codes = await detector.detect(videoRef.current);
+            if (codes.length > 0 && !stopped) {
+              stop();
+              onDetected(codes[0].rawValue);
+            }
+          } catch (error) {
+            console.error("Error scanning claim code:", error);
+          }
+        }, SCAN_INTERVAL);
+      })
+      .catch((error) => {
+        console.error("Error opening camera:", error);
+        onError("Could not open the camera. Please type the code instead.");
+      });
+
+    return stop;
+  }, [onDetected, onError]);
+
+  return (
+    <div className="space-y-3">
+      <video ref={videoRef} className="w-full rounded-lg border-2 border-blue-200 bg-black" muted playsInline />
+      <Button type="button" variant="outline" className="w-full" onClick={onClose}>
+        Cancel Scan
+      </Button>
+    </div>
+  );
+}
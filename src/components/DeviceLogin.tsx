@@ -0,0 +1,97 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/sonner";
+import { DeviceAgent, loginDevice } from "@/utils/deviceSession";
+
+interface DeviceLoginProps {
+  onSignedIn: (agent: DeviceAgent) => void;
+}
+
+const formSchema = z.object({
+  agentCode: z.string().trim().min(1, { message: "Please enter your agent code." }),
+  pin: z.string().regex(/^\d{4,6}$/, { message: "PIN must be 4 to 6 digits." }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+// Lets a BA bind this device to their agent account before customers play
+export function DeviceLogin({ onSignedIn }: DeviceLoginProps) {
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+  });
+
+  const onFormSubmit = async (data: FormValues) => {
+    try {
+      const agent = await loginDevice(data.agentCode, data.pin);
+      toast.success(`Signed in as ${agent.name}`);
+      onSignedIn(agent);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not sign in. Please try again.");
+    }
+  };
+
+  return (
+    <div className="w-full p-6 sm:p-8 bg-gradient-to-br from-white via-blue-50 to-blue-100 rounded-xl shadow-xl border border-blue-200">
+      <div className="text-center mb-6 sm:mb-8">
+        <h2 className="text-2xl sm:text-3xl font-bold mb-2 bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent">
+          BA Sign In
+        </h2>
+        <p className="text-blue-600 text-sm sm:text-base">Sign in once to run the wheel on this device</p>
+      </div>
+
+      <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4 sm:space-y-5">
+        <div className="space-y-2">
+          <Label htmlFor="agentCode" className="text-sm sm:text-base font-semibold text-blue-800">Agent Code</Label>
+          <Input
+            id="agentCode"
+            {...register("agentCode")}
+            placeholder="Enter your agent code"
+            autoCapitalize="characters"
+            autoComplete="username"
+            className={`text-sm sm:text-base bg-white border-2 border-blue-200 focus:border-blue-500 text-blue-800 rounded-lg transition-all duration-200 ${errors.agentCode ? "border-red-500 focus:border-red-500" : ""}`}
+          />
+          {errors.agentCode && (
+            <p className="text-xs sm:text-sm text-red-500 flex items-center gap-1">
+              <span>⚠️</span> {errors.agentCode.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pin" className="text-sm sm:text-base font-semibold text-blue-800">PIN</Label>
+          <Input
+            id="pin"
+            type="password"
+            inputMode="numeric"
+            autoComplete="current-password"
+            maxLength={6}
+            {...register("pin")}
+            placeholder="Enter your PIN"
+            className={`text-sm sm:text-base bg-white border-2 border-blue-200 focus:border-blue-500 text-blue-800 rounded-lg transition-all duration-200 ${errors.pin ? "border-red-500 focus:border-red-500" : ""}`}
+          />
+          {errors.pin && (
+            <p className="text-xs sm:text-sm text-red-500 flex items-center gap-1">
+              <span>⚠️</span> {errors.pin.message}
+            </p>
+          )}
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white text-sm sm:text-base py-3 sm:py-4 mt-6 rounded-lg font-semibold shadow-lg hover:shadow-xl transition-all duration-200"
+          disabled={isSubmitting}
+        >
+          {isSubmitting ? "Signing in..." : "Sign In"}
+        </Button>
+      </form>
+    </div>
+  );
+}
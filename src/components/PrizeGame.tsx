@@ -0,0 +1,150 @@
+
+import { useMemo, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Prize } from "@/pages/Index";
+import { toast } from "@/components/ui/use-toast";
+import { GAME_COMPONENTS } from "@/components/games";
+import { GameOutcome } from "@/components/games/types";
+import { canPlayOffline, Campaign, getCampaignPalette, getCampaignSectors } from "@/utils/campaignUtils";
+import { DeviceSessionError } from "@/utils/deviceSession";
+import { drawOfflineSpin } from "@/utils/offlineSync";
+import {
+  fetchCurrentWheel,
+  requestSpinDraw,
+  ServerWheelSector,
+  SpinCustomer,
+  SpinEligibility,
+  SpinNotAllowedError,
+  SpinRefusedError,
+  toWheelSectors,
+  WheelSector,
+  wheelSectors,
+} from "@/utils/spinWheelUtils";
+
+// Refresh the prizes regularly so prizes that run out drop off between games
+const WHEEL_REFRESH_INTERVAL = 30000;
+
+// Outcome the game reveals, drawn by the server or, while offline, on the device
+interface GameDraw {
+  sector_index: number;
+  sectors?: ServerWheelSector[];
+  spin_token?: string;
+  allowance_id?: string;
+}
+
+interface PrizeGameProps {
+  agentId?: string;
+  campaign?: Campaign | null;
+  // The customer playing, checked against the eligibility rules
+  customer?: SpinCustomer;
+  onSpinEnd: (prize: Prize) => void;
+  // Called when the customer may not play again yet
+  onNotEligible?: (eligibility: SpinEligibility) => void;
+  // Called when the device session is no longer valid, so the BA can sign in again
+  onDeviceSignedOut?: () => void;
+}
+
+// Draws the outcome of a game and records it; the campaign's game mode only decides how it is revealed
+export function PrizeGame({ agentId, campaign, customer, onSpinEnd, onNotEligible, onDeviceSignedOut }: PrizeGameProps) {
+  const [isPlaying, setIsPlaying] = useState(false);
+  // Read when the game reveals the outcome, which happens after the render that started it
+  const drawRef = useRef<GameDraw | null>(null);
+  const [drawnSectors, setDrawnSectors] = useState<WheelSector[] | null>(null);
+  const queryClient = useQueryClient();
+  const campaignSlug = campaign?.slug;
+  const palette = useMemo(() => getCampaignPalette(campaign), [campaign]);
+  const Game = GAME_COMPONENTS[campaign?.game_mode || "wheel"] || GAME_COMPONENTS.wheel;
+
+  // Prizes built from the agent's current inventory, falling back to the campaign or default wheel
+  const { data: currentWheel } = useQuery({
+    queryKey: ['currentWheel', agentId, campaignSlug],
+    queryFn: () => fetchCurrentWheel(agentId as string, campaignSlug, palette),
+    enabled: !!agentId,
+    refetchInterval: isPlaying ? false : WHEEL_REFRESH_INTERVAL,
+    retry: 1,
+  });
+
+  const fallbackSectors = useMemo(() => {
+    const campaignSectors = getCampaignSectors(campaign);
+    return campaignSectors ? toWheelSectors(campaignSectors, palette) : wheelSectors;
+  }, [campaign, palette]);
+  const sectors = drawnSectors || (currentWheel && currentWheel.length > 0 ? currentWheel : fallbackSectors);
+
+  const play = async (): Promise<GameOutcome | null> => {
+    // One game per customer; the next customer gets a new game
+    if (isPlaying || drawRef.current) return null;
+
+    setIsPlaying(true);
+
+    // The server decides the outcome; the game only reveals it
+    let nextDraw: GameDraw;
+    try {
+      nextDraw = await requestSpinDraw(campaignSlug, customer);
+    } catch (error) {
+      console.error("Error drawing spin outcome:", error);
+      if (error instanceof SpinNotAllowedError) {
+        setIsPlaying(false);
+        onNotEligible?.(error.eligibility);
+        return null;
+      }
+      // fetch only throws a TypeError when the server cannot be reached. Campaigns that check
+      // the customer on the server wait for the connection instead of drawing on the device.
+      const offlineDraw = error instanceof TypeError && agentId && canPlayOffline(campaign)
+        ? await drawOfflineSpin(agentId, campaignSlug).catch((offlineError: Error) => offlineError)
+        : null;
+
+      if (offlineDraw && !(offlineDraw instanceof Error)) {
+        nextDraw = offlineDraw;
+      } else {
+        const isDeviceError = error instanceof DeviceSessionError;
+        toast({
+          title: "Could not play",
+          description: offlineDraw instanceof Error
+            ? offlineDraw.message
+            : isDeviceError || error instanceof SpinRefusedError
+              ? error.message
+              : "Please check your connection and try again.",
+          variant: "destructive",
+        });
+        setIsPlaying(false);
+        if (isDeviceError) {
+          onDeviceSignedOut?.();
+        }
+        return null;
+      }
+    }
+
+    // Reveal from the exact prizes the outcome was drawn from, in case stock changed since they were loaded
+    const playSectors = nextDraw.sectors && nextDraw.sectors.length > 0 ? toWheelSectors(nextDraw.sectors, palette) : sectors;
+    setDrawnSectors(playSectors);
+    drawRef.current = nextDraw;
+    return { sectorIndex: nextDraw.sector_index, sectors: playSectors };
+  };
+
+  const handleRevealed = (sector: WheelSector) => {
+    const draw = drawRef.current;
+    // Notify parent component
+    onSpinEnd({
+      label: sector.label,
+      isWin: sector.isWin,
+      tier: sector.isWin ? sector.tier : null,
+      spinToken: draw?.spin_token,
+      allowanceId: draw?.allowance_id
+    });
+
+    setIsPlaying(false);
+
+    // Stock has changed after this game, so reload the prizes
+    queryClient.invalidateQueries({ queryKey: ['currentWheel', agentId, campaignSlug] });
+  };
+
+  return (
+    <Game
+      sectors={sectors}
+      campaign={campaign}
+      isPlaying={isPlaying}
+      play={play}
+      onRevealed={handleRevealed}
+    />
+  );
+}
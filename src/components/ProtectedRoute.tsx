@@ -1,18 +1,23 @@
 
 import { Navigate } from "react-router-dom";
-import { useAuth } from "../context/AuthContext";
+import { useAuth, Permission } from "../context/AuthContext";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  permission?: Permission;
 }
 
-const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
-  const { isAuthenticated } = useAuth();
+const ProtectedRoute = ({ children, permission }: ProtectedRouteProps) => {
+  const { isAuthenticated, can } = useAuth();
 
   if (!isAuthenticated) {
     return <Navigate to="/login" replace />;
   }
 
+  if (permission && !can(permission)) {
+    return <Navigate to="/admin" replace />;
+  }
+
   return <>{children}</>;
 };
 
@@ -0,0 +1,195 @@
+import { FormEvent, useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/use-toast";
+import { Campaign, PurchaseSettings } from "@/utils/campaignUtils";
+import { registerPurchase, uploadReceiptPhoto } from "@/utils/purchaseUtils";
+import { SpinCustomer } from "@/utils/spinWheelUtils";
+
+interface PurchaseGateProps {
+  campaign: Campaign;
+  settings: PurchaseSettings;
+  customer: SpinCustomer;
+  // Outlet the customer registered at, used as the till until the BA changes it
+  defaultTill?: string;
+  // Called with the entered purchase
+  onComplete: (purchaseId: number) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = "text-sm sm:text-base bg-white border-2 border-blue-200 focus:border-blue-500 text-blue-800 rounded-lg";
+
+// The receipt the BA enters before the customer plays, on campaigns that need a purchase
+export function PurchaseGate({ campaign, settings, customer, defaultTill, onComplete, onCancel }: PurchaseGateProps) {
+  const [receiptNumber, setReceiptNumber] = useState("");
+  const [till, setTill] = useState(defaultTill || "");
+  // Ticked SKUs when the campaign lists them, otherwise what the BA typed
+  const [chosenSkus, setChosenSkus] = useState<string[]>([]);
+  const [skuText, setSkuText] = useState("");
+  const [amount, setAmount] = useState("");
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const accentStyle = campaign.primary_color ? { backgroundColor: campaign.primary_color } : undefined;
+
+  const toggleSku = (sku: string, checked: boolean) => {
+    setChosenSkus((current) => (checked ? [...current, sku] : current.filter((s) => s !== sku)));
+  };
+
+  const skus = settings.skus.length > 0
+    ? chosenSkus
+    : skuText.split(",").map((sku) => sku.trim()).filter(Boolean);
+
+  // Checked on the server too; this only saves the BA a round trip
+  const findProblem = (): string | null => {
+    if (!receiptNumber.trim()) return "Enter the receipt number.";
+    if (skus.length === 0) return "Enter the products bought.";
+    const total = Number(amount);
+    if (amount.trim() === "" || !Number.isFinite(total) || total < 0) return "Enter the total on the receipt.";
+    if (settings.min_amount !== null && total < settings.min_amount) {
+      return `Purchases of at least ${settings.min_amount} can play.`;
+    }
+    if (settings.require_photo && !photo) return "Take a photo of the receipt.";
+    return null;
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const problem = findProblem();
+    if (problem) {
+      toast({ title: "Check the receipt", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const registered = await registerPurchase(campaign.slug, customer, {
+        receipt_number: receiptNumber.trim(),
+        till: till.trim(),
+        skus,
+        amount: Number(amount),
+      });
+      if (photo) {
+        await uploadReceiptPhoto(registered.purchase_id, photo);
+      }
+      onComplete(registered.purchase_id);
+    } catch (error) {
+      console.error("Error entering purchase:", error);
+      // fetch only throws a TypeError when the server cannot be reached. Receipts are checked by
+      // the server, so the customer waits for the connection rather than playing without one.
+      toast({
+        title: "Could not enter the receipt",
+        description: error instanceof TypeError
+          ? "Receipts can only be entered while the device is online. Please reconnect and try again."
+          : error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="w-full max-w-md px-3 sm:px-0 space-y-4">
+      <div className="text-center">
+        <h2 className="text-2xl sm:text-3xl font-bold text-black uppercase mb-2">Proof of Purchase</h2>
+        <p className="text-black/70 text-sm sm:text-base">Enter the customer's receipt to play</p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="receipt_number" className="font-semibold text-blue-800">Receipt Number</Label>
+        <Input
+          id="receipt_number"
+          value={receiptNumber}
+          onChange={(e) => setReceiptNumber(e.target.value)}
+          placeholder="As printed on the receipt"
+          maxLength={64}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="till" className="font-semibold text-blue-800">Till / Outlet</Label>
+        <Input
+          id="till"
+          value={till}
+          onChange={(e) => setTill(e.target.value)}
+          placeholder="Till number or outlet name"
+          maxLength={64}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="skus" className="font-semibold text-blue-800">Products Bought</Label>
+        {settings.skus.length > 0 ? (
+          <div id="skus" className="grid grid-cols-2 gap-2">
+            {settings.skus.map((sku) => (
+              <label key={sku} className="flex items-center gap-2 text-sm text-blue-900">
+                <Checkbox
+                  checked={chosenSkus.includes(sku)}
+                  onCheckedChange={(checked) => toggleSku(sku, checked === true)}
+                />
+                {sku}
+              </label>
+            ))}
+          </div>
+        ) : (
+          <Input
+            id="skus"
+            value={skuText}
+            onChange={(e) => setSkuText(e.target.value)}
+            placeholder="SKUs, separated by commas"
+            className={inputClassName}
+          />
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="amount" className="font-semibold text-blue-800">Receipt Total</Label>
+        <Input
+          id="amount"
+          type="number"
+          inputMode="decimal"
+          min={0}
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={settings.min_amount !== null ? `At least ${settings.min_amount}` : "0.00"}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="receipt_photo" className="font-semibold text-blue-800">
+          Receipt Photo{settings.require_photo ? "" : " (optional)"}
+        </Label>
+        <Input
+          id="receipt_photo"
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          capture="environment"
+          onChange={(e) => setPhoto(e.target.files?.[0] || null)}
+          className={inputClassName}
+        />
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSubmitting}
+        className="w-full px-6 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold disabled:opacity-50"
+        style={accentStyle}
+      >
+        {isSubmitting ? "Checking..." : "Continue"}
+      </button>
+      <button
+        type="button"
+        onClick={onCancel}
+        disabled={isSubmitting}
+        className="w-full text-sm text-black/60 underline hover:text-black"
+      >
+        Cancel
+      </button>
+    </form>
+  );
+}
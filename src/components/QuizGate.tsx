@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { toast } from "@/components/ui/use-toast";
+import { Campaign } from "@/utils/campaignUtils";
+import { Quiz, QuizResult, submitQuizAnswers } from "@/utils/quizUtils";
+import { SpinCustomer } from "@/utils/spinWheelUtils";
+
+interface QuizGateProps {
+  campaign: Campaign;
+  quiz: Quiz;
+  customer: SpinCustomer;
+  // Called with the marked quiz
+  onComplete: (result: QuizResult) => void;
+}
+
+// Product questions the customer answers, one at a time, before they play
+export function QuizGate({ campaign, quiz, customer, onComplete }: QuizGateProps) {
+  const [step, setStep] = useState(0);
+  const [answers, setAnswers] = useState<(number | null)[]>(() => quiz.questions.map(() => null));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [result, setResult] = useState<QuizResult | null>(null);
+  const question = quiz.questions[step];
+  const isLastQuestion = step === quiz.questions.length - 1;
+  const accentStyle = campaign.primary_color ? { backgroundColor: campaign.primary_color } : undefined;
+
+  const chooseOption = (option: number) => {
+    setAnswers((current) => current.map((answer, i) => (i === step ? option : answer)));
+  };
+
+  const handleNext = async () => {
+    if (answers[step] === null) return;
+    if (!isLastQuestion) {
+      setStep(step + 1);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const marked = await submitQuizAnswers(
+        campaign.slug,
+        customer,
+        quiz.questions.map((q, i) => ({ question_id: q.id, option: answers[i] as number }))
+      );
+      setResult(marked);
+    } catch (error) {
+      console.error("Error submitting quiz answers:", error);
+      // fetch only throws a TypeError when the server cannot be reached. The answers are marked by
+      // the server, so the customer waits for the connection rather than playing without them.
+      toast({
+        title: "Could not check the answers",
+        description: error instanceof TypeError
+          ? "The quiz can only be marked while the device is online. Please reconnect and try again."
+          : error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (result) {
+    return (
+      <div className="w-full max-w-md px-3 sm:px-0 text-center">
+        <h2 className="text-2xl sm:text-3xl font-bold text-black uppercase mb-2">
+          {result.passed ? "Well done!" : "Not quite"}
+        </h2>
+        <p className="text-black/70 mb-6">
+          You got {result.correct_count} of {result.question_count} right.
+          {!result.passed && (result.earns_spin
+            ? " You can still play for a consolation prize."
+            : " Better luck next time!")}
+        </p>
+        <button
+          type="button"
+          onClick={() => onComplete(result)}
+          className="px-6 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold"
+          style={accentStyle}
+        >
+          {result.earns_spin ? "Play now" : "Done"}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md px-3 sm:px-0">
+      <p className="text-xs sm:text-sm text-black/60 text-center mb-2">
+        Question {step + 1} of {quiz.questions.length}
+        {quiz.pass_mark < quiz.questions.length && ` (${quiz.pass_mark} correct to play)`}
+      </p>
+      <h2 className="text-xl sm:text-2xl font-bold text-black text-center mb-6">{question.question}</h2>
+      <div className="space-y-3" role="radiogroup" aria-label={question.question}>
+        {question.options.map((option, i) => {
+          const isChosen = answers[step] === i;
+          return (
+            <button
+              key={i}
+              type="button"
+              role="radio"
+              aria-checked={isChosen}
+              onClick={() => chooseOption(i)}
+              className={
+                "w-full px-4 py-3 rounded-lg border-2 text-left font-medium transition-colors " +
+                (isChosen ? "border-blue-600 bg-blue-50 text-blue-900" : "border-gray-200 bg-white text-black hover:border-blue-300")
+              }
+            >
+              {option}
+            </button>
+          );
+        })}
+      </div>
+      <button
+        type="button"
+        onClick={handleNext}
+        disabled={answers[step] === null || isSubmitting}
+        className="mt-6 w-full px-6 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold disabled:opacity-50"
+        style={accentStyle}
+      >
+        {isSubmitting ? "Checking..." : isLastQuestion ? "Submit answers" : "Next question"}
+      </button>
+    </div>
+  );
+}
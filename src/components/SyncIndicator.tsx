@@ -0,0 +1,39 @@
+import { CloudOff, RefreshCw, Wifi } from "lucide-react";
+
+interface SyncIndicatorProps {
+  isOnline: boolean;
+  pendingCount: number;
+  isSyncing: boolean;
+  onSync: () => void;
+}
+
+// Shows the BA whether the device is online and how many spins are waiting to be synced
+export function SyncIndicator({ isOnline, pendingCount, isSyncing, onSync }: SyncIndicatorProps) {
+  return (
+    <div className="flex items-center justify-center gap-2 text-xs sm:text-sm text-black/60">
+      {isOnline ? (
+        <Wifi className="h-4 w-4 text-green-600" />
+      ) : (
+        <CloudOff className="h-4 w-4 text-red-600" />
+      )}
+      <span>{isOnline ? "Online" : "Offline"}</span>
+      {pendingCount > 0 && (
+        <>
+          <span>·</span>
+          <span>{pendingCount} spin(s) waiting to sync</span>
+          {isOnline && (
+            <button
+              type="button"
+              onClick={onSync}
+              disabled={isSyncing}
+              className="inline-flex items-center gap-1 underline hover:text-black disabled:opacity-50"
+            >
+              <RefreshCw className={`h-3 w-3 ${isSyncing ? "animate-spin" : ""}`} />
+              {isSyncing ? "Syncing..." : "Sync now"}
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
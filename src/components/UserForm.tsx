@@ -1,61 +1,187 @@
-
 import { useState } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import * as z from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/components/ui/sonner";
+import { normalizePhone, OTP_LENGTH, sendOtp, verifyOtp } from "@/utils/phoneVerification";
 
-
+// The customer's details once their phone number is verified. The token is missing when the
+// code could not be sent because the device is offline.
+export interface CustomerDetails {
+  name: string;
+  phone: string;
+  email: string;
+  location: string;
+  verificationToken?: string;
+}
 
 interface UserFormProps {
-  onSubmit: (data: { name: string; email: string; location: string; agentName: string }) => void;
+  // Resolves to false when the customer cannot go on to the wheel
+  onSubmit: (data: CustomerDetails) => void | Promise<boolean | void>;
 }
 
-// Enhanced email validation schema
+// Phone-first registration; email is optional
 const formSchema = z.object({
   name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  phone: z
+    .string()
+    .refine((phone) => normalizePhone(phone) !== null, {
+      message: "Please enter a valid phone number, such as 0712 345 678 or +254712345678.",
+    }),
   email: z
     .string()
-    .email({ message: "Please enter a valid email address." })
+    .trim()
     .refine((email) => {
       // Check for proper email format with a more strict regex
       const emailRegex = /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/;
-      return emailRegex.test(email);
+      return email === "" || emailRegex.test(email);
     }, { message: "Please enter a valid email address with a proper domain." }),
   location: z.string().min(2, { message: "Location must be at least 2 characters." }),
-  agentName: z.string().min(2, { message: "Agent name must be at least 2 characters." }),
 });
 
 type FormValues = z.infer<typeof formSchema>;
 
 export function UserForm({ onSubmit }: UserFormProps) {
+  // Details waiting for the customer to enter the code sent to their phone
+  const [pending, setPending] = useState<CustomerDetails | null>(null);
+  const [code, setCode] = useState("");
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [resendAt, setResendAt] = useState(0);
+
   const {
     register,
     handleSubmit,
     formState: { errors, isSubmitting },
   } = useForm<FormValues>({
     resolver: zodResolver(formSchema),
+    defaultValues: { email: "" },
   });
 
-  const onFormSubmit = async (data: FormValues) => {
+  const proceed = async (details: CustomerDetails) => {
     try {
-      // Since the form validation ensures all fields are properly filled,
-      // we can safely pass the data to onSubmit
-      onSubmit({
-        name: data.name,
-        email: data.email,
-        location: data.location,
-        agentName: data.agentName
-      });
+      const proceeded = await onSubmit(details);
+      if (proceeded === false) {
+        return;
+      }
       toast.success("Registration successful! Let's spin the wheel!");
     } catch (error) {
       toast.error("Something went wrong. Please try again.");
     }
   };
 
+  const requestCode = async (details: CustomerDetails) => {
+    try {
+      const sent = await sendOtp(details.phone);
+      setPending({ ...details, phone: sent.phone });
+      setCode("");
+      setResendAt(Date.now() + sent.resend_after_seconds * 1000);
+      toast.success(`We sent a code to ${sent.phone}`);
+    } catch (error) {
+      // fetch only throws a TypeError when the server cannot be reached; the customer plays
+      // offline with the number unverified
+      if (error instanceof TypeError) {
+        await proceed(details);
+      } else {
+        toast.error(error instanceof Error ? error.message : "Could not send the code. Please try again.");
+      }
+    }
+  };
+
+  const onFormSubmit = async (data: FormValues) => {
+    // Since the form validation ensures all fields are properly filled,
+    // the phone number always normalises
+    await requestCode({
+      name: data.name,
+      phone: normalizePhone(data.phone) as string,
+      email: data.email,
+      location: data.location,
+    });
+  };
+
+  // The slots report the full code on completion, before the state update has rendered
+  const onVerify = async (value = code) => {
+    if (!pending || value.length !== OTP_LENGTH) {
+      return;
+    }
+
+    setIsVerifying(true);
+    try {
+      const verification = await verifyOtp(pending.phone, value);
+      await proceed({ ...pending, verificationToken: verification.verification_token });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not check the code. Please try again.");
+      setCode("");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const onResend = async () => {
+    if (!pending) {
+      return;
+    }
+    if (Date.now() < resendAt) {
+      toast.error("Please wait a moment before requesting another code.");
+      return;
+    }
+    setIsVerifying(true);
+    await requestCode(pending);
+    setIsVerifying(false);
+  };
+
+  if (pending) {
+    return (
+      <div className="w-full p-6 sm:p-8 bg-gradient-to-br from-white via-blue-50 to-blue-100 rounded-xl shadow-xl border border-blue-200">
+        <div className="text-center mb-6 sm:mb-8">
+          <h2 className="text-2xl sm:text-3xl font-bold mb-2 bg-gradient-to-r from-blue-600 to-blue-800 bg-clip-text text-transparent">
+            Enter Your Code
+          </h2>
+          <p className="text-blue-600 text-sm sm:text-base">We sent a {OTP_LENGTH}-digit code to {pending.phone}</p>
+        </div>
+
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={OTP_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={onVerify}
+            disabled={isVerifying}
+            inputMode="numeric"
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} className="bg-white border-blue-200 text-blue-800 text-lg" />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+
+        <Button
+          type="button"
+          onClick={() => onVerify()}
+          className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white text-sm sm:text-base py-3 sm:py-4 mt-6 rounded-lg font-semibold shadow-lg hover:shadow-xl transition-all duration-200 transform hover:-translate-y-0.5"
+          disabled={isVerifying || code.length !== OTP_LENGTH}
+        >
+          {isVerifying ? "Checking..." : "Verify & Spin the Wheel 🎰"}
+        </Button>
+
+        <div className="mt-4 flex justify-between text-xs sm:text-sm text-blue-700">
+          <button type="button" onClick={() => setPending(null)} className="underline hover:text-blue-900">
+            Change number
+          </button>
+          <button type="button" onClick={onResend} disabled={isVerifying} className="underline hover:text-blue-900">
+            Resend code
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="w-full p-6 sm:p-8 bg-gradient-to-br from-white via-blue-50 to-blue-100 rounded-xl shadow-xl border border-blue-200">
       <div className="text-center mb-6 sm:mb-8">
@@ -64,7 +190,7 @@ export function UserForm({ onSubmit }: UserFormProps) {
         </h2>
         <p className="text-blue-600 text-sm sm:text-base">Fill in your details to spin the wheel</p>
       </div>
-      
+
       <form onSubmit={handleSubmit(onFormSubmit)} className="space-y-4 sm:space-y-5">
         <div className="space-y-2">
           <Label htmlFor="name" className="text-sm sm:text-base font-semibold text-blue-800">Full Name</Label>
@@ -82,7 +208,25 @@ export function UserForm({ onSubmit }: UserFormProps) {
         </div>
 
         <div className="space-y-2">
-          <Label htmlFor="email" className="text-sm sm:text-base font-semibold text-blue-800">Email Address</Label>
+          <Label htmlFor="phone" className="text-sm sm:text-base font-semibold text-blue-800">Phone Number</Label>
+          <Input
+            id="phone"
+            type="tel"
+            inputMode="tel"
+            autoComplete="tel"
+            {...register("phone")}
+            placeholder="0712 345 678"
+            className={`text-sm sm:text-base bg-white border-2 border-blue-200 focus:border-blue-500 text-blue-800 rounded-lg transition-all duration-200 ${errors.phone ? "border-red-500 focus:border-red-500" : ""}`}
+          />
+          {errors.phone && (
+            <p className="text-xs sm:text-sm text-red-500 flex items-center gap-1">
+              <span>⚠️</span> {errors.phone.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="email" className="text-sm sm:text-base font-semibold text-blue-800">Email Address (optional)</Label>
           <Input
             id="email"
             type="email"
@@ -112,27 +256,12 @@ export function UserForm({ onSubmit }: UserFormProps) {
           )}
         </div>
 
-        <div className="space-y-2">
-          <Label htmlFor="agentName" className="text-sm sm:text-base font-semibold text-blue-800">BA's Name</Label>
-          <Input
-            id="agentName"
-            {...register("agentName")}
-            placeholder="Enter BA's Name"
-            className={`text-sm sm:text-base bg-white border-2 border-blue-200 focus:border-blue-500 text-blue-800 rounded-lg transition-all duration-200 ${errors.agentName ? "border-red-500 focus:border-red-500" : ""}`}
-          />
-          {errors.agentName && (
-            <p className="text-xs sm:text-sm text-red-500 flex items-center gap-1">
-              <span>⚠️</span> {errors.agentName.message}
-            </p>
-          )}
-        </div>
-
         <Button
           type="submit"
           className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white text-sm sm:text-base py-3 sm:py-4 mt-6 rounded-lg font-semibold shadow-lg hover:shadow-xl transition-all duration-200 transform hover:-translate-y-0.5"
           disabled={isSubmitting}
         >
-          {isSubmitting ? "Submitting..." : "Submit & Spin the Wheel 🎰"}
+          {isSubmitting ? "Sending code..." : "Send My Code 📱"}
         </Button>
       </form>
     </div>
@@ -8,6 +8,8 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Prize } from "@/pages/Index";
+import { formatClaimCode, getClaimQrUrl } from "@/utils/claimUtils";
+import { PRIZE_TIER_LABELS } from "@/utils/spinWheelUtils";
 import confetti from "canvas-confetti";
 import { useEffect } from "react";
 
@@ -66,16 +68,28 @@ export function WinnerModal({ isOpen, onClose, prize, userData }: WinnerModalPro
   // Create greeting message with fallback for empty name
   const userName = userData.name || 'Player';
   const prizeEmoji = getPrizeEmoji(prize.label);
-  const greeting = prize.isWin 
-    ? "Congratulations " + userName + "! You won a " + prize.label + "!"
-    : "Hey " + userName + ", better luck next time!";
+  const isConsolation = prize.isWin && prize.tier === "consolation";
+  const greeting = !prize.isWin
+    ? "Hey " + userName + ", better luck next time!"
+    : isConsolation
+      ? "Thanks for playing, " + userName + "! You get a " + prize.label + "!"
+      : "Congratulations " + userName + "! You won a " + prize.label + "!";
+
+  // Grand prizes get their own headline; everyone else who wins gets the usual one
+  const title = !prize.isWin
+    ? "💔 So Close! 💔"
+    : prize.tier === "grand"
+      ? "🏆 Grand Prize! 🏆"
+      : isConsolation
+        ? "🎁 Thanks for Playing! 🎁"
+        : "🎉 Amazing! 🎉";
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-md p-4 sm:p-6 max-w-[90vw] md:max-w-[500px] w-[90vw] sm:w-auto">
         <DialogHeader>
           <DialogTitle className={titleClass}>
-            {prize.isWin ? "🎉 Amazing! 🎉" : "💔 So Close! 💔"}
+            {title}
           </DialogTitle>
           <DialogDescription className={descClass}>
             {greeting}
@@ -84,12 +98,29 @@ export function WinnerModal({ isOpen, onClose, prize, userData }: WinnerModalPro
         <div className={contentClass}>
           <p className="text-3xl sm:text-4xl md:text-5xl mb-2">{prizeEmoji}</p>
           <p className="text-xl sm:text-2xl md:text-3xl break-words font-bold">{prize.label}</p>
-          {prize.isWin && (
+          {prize.isWin && prize.tier && (
+            <p className="text-sm sm:text-base mt-1 uppercase tracking-wide text-gray-600">{PRIZE_TIER_LABELS[prize.tier]}</p>
+          )}
+          {prize.isWin && !prize.claimCode && (
             <p className="text-sm sm:text-base mt-3 text-gray-600">
-              Contact our team to claim your prize!
+              Your claim code will be ready once this device is back online. Please ask the BA for it.
             </p>
           )}
         </div>
+        {prize.isWin && prize.claimCode && (
+          <div className="flex flex-col items-center gap-2 text-center">
+            <img
+              src={getClaimQrUrl(prize.claimCode)}
+              alt={`Claim code ${prize.claimCode}`}
+              className="w-32 h-32 sm:w-40 sm:h-40"
+            />
+            <p className="font-mono text-lg sm:text-xl font-bold tracking-widest">{formatClaimCode(prize.claimCode)}</p>
+            <p className="text-sm text-gray-600">
+              Show this code to the BA to collect your prize
+              {prize.claimExpiresAt ? " by " + new Date(prize.claimExpiresAt).toLocaleDateString() : ""}.
+            </p>
+          </div>
+        )}
         <DialogFooter className="sm:justify-center">
           <Button 
             type="button" 
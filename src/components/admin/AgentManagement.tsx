@@ -20,6 +20,7 @@ interface Agent {
   name: string;
   email: string;
   location: string;
+  has_pin: boolean | number;
   created_at: string;
   updated_at: string;
 }
@@ -29,6 +30,8 @@ interface AgentFormData {
   name: string;
   email: string;
   location: string;
+  // Left empty to keep the agent's current PIN
+  pin: string;
 }
 
 const fetchAgents = async (): Promise<Agent[]> => {
@@ -36,13 +39,16 @@ const fetchAgents = async (): Promise<Agent[]> => {
   return response.data;
 };
 
+// Only send a PIN when one was entered
+const toAgentPayload = ({ pin, ...agentData }: AgentFormData) => (pin ? { ...agentData, pin } : agentData);
+
 const createAgent = async (agentData: AgentFormData): Promise<Agent> => {
-  const response = await axios.post(`${API_URL}/agents`, agentData);
+  const response = await axios.post(`${API_URL}/agents`, toAgentPayload(agentData));
   return response.data;
 };
 
 const updateAgent = async ({ id, ...agentData }: { id: number } & AgentFormData): Promise<Agent> => {
-  const response = await axios.put(`${API_URL}/agents/${id}`, agentData);
+  const response = await axios.put(`${API_URL}/agents/${id}`, toAgentPayload(agentData));
   return response.data;
 };
 
@@ -57,7 +63,8 @@ export function AgentManagement() {
     agent_id: '',
     name: '',
     email: '',
-    location: ''
+    location: '',
+    pin: ''
   });
   const [deleteAgentId, setDeleteAgentId] = useState<number | null>(null);
 
@@ -112,7 +119,8 @@ export function AgentManagement() {
       agent_id: '',
       name: '',
       email: '',
-      location: ''
+      location: '',
+      pin: ''
     });
   };
 
@@ -128,7 +136,8 @@ export function AgentManagement() {
       agent_id: agent.agent_id,
       name: agent.name,
       email: agent.email,
-      location: agent.location
+      location: agent.location,
+      pin: ''
     });
     setIsDialogOpen(true);
   };
@@ -141,6 +150,11 @@ export function AgentManagement() {
       return;
     }
 
+    if (formData.pin && !/^\d{4,6}$/.test(formData.pin)) {
+      toast.error('PIN must be 4 to 6 digits');
+      return;
+    }
+
     if (editingAgent) {
       updateMutation.mutate({ id: editingAgent.id, ...formData });
     } else {
@@ -218,6 +232,7 @@ export function AgentManagement() {
                   <TableHead className="text-gray-900 font-semibold">Name</TableHead>
                   <TableHead className="text-gray-900 font-semibold">Email</TableHead>
                   <TableHead className="text-gray-900 font-semibold">Location</TableHead>
+                  <TableHead className="text-gray-900 font-semibold">Device PIN</TableHead>
                   <TableHead className="text-gray-900 font-semibold">Created</TableHead>
                   <TableHead className="text-gray-900 font-semibold text-right">Actions</TableHead>
                 </TableRow>
@@ -225,7 +240,7 @@ export function AgentManagement() {
               <TableBody>
                 {agents.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={6} className="text-center text-gray-500 py-8">
+                    <TableCell colSpan={7} className="text-center text-gray-500 py-8">
                       No agents found. Click "Add Agent" to create your first agent.
                     </TableCell>
                   </TableRow>
@@ -236,6 +251,9 @@ export function AgentManagement() {
                       <TableCell className="text-gray-900">{agent.name}</TableCell>
                       <TableCell className="text-gray-900">{agent.email}</TableCell>
                       <TableCell className="text-gray-900">{agent.location}</TableCell>
+                      <TableCell className={agent.has_pin ? "text-green-600" : "text-gray-500"}>
+                        {agent.has_pin ? 'Set' : 'Not set'}
+                      </TableCell>
                       <TableCell className="text-gray-900 text-sm">
                         {new Date(agent.created_at).toLocaleDateString()}
                       </TableCell>
@@ -327,6 +345,23 @@ export function AgentManagement() {
                 required
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="pin" className="text-gray-700">Device PIN</Label>
+              <Input
+                id="pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="new-password"
+                maxLength={6}
+                value={formData.pin}
+                onChange={(e) => handleInputChange('pin', e.target.value)}
+                placeholder={editingAgent?.has_pin ? 'Leave blank to keep the current PIN' : '4 to 6 digits'}
+                className="bg-white border-gray-200 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500">
+                The BA signs in to the spin page with their agent ID and this PIN. Changing it signs their devices out.
+              </p>
+            </div>
             <DialogFooter>
               <Button 
                 type="button" 
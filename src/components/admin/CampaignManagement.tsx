@@ -0,0 +1,774 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Edit, Trash2, ExternalLink } from "lucide-react";
+import { Campaign, EligibilityRules, GAME_MODE_LABELS, GameMode, PurchaseSettings, QuizSettings } from "@/utils/campaignUtils";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+const TRY_AGAIN_LABEL = "try again";
+
+const ELIGIBILITY_RULE_FIELDS = [
+  ['max_spins_per_day', 'Spins per Day'],
+  ['max_spins_per_campaign', 'Spins per Campaign'],
+  ['max_spins_per_outlet', 'Spins per Outlet'],
+  ['cooldown_minutes', 'Cooldown (minutes)'],
+  ['max_wins', 'Wins per Customer'],
+] as const;
+
+type EligibilityRuleName = typeof ELIGIBILITY_RULE_FIELDS[number][0];
+
+const emptyRules: Record<EligibilityRuleName, string> = {
+  max_spins_per_day: '',
+  max_spins_per_campaign: '',
+  max_spins_per_outlet: '',
+  cooldown_minutes: '',
+  max_wins: ''
+};
+
+// No quiz while the number of questions is empty
+const emptyQuiz = {
+  question_count: '',
+  pass_mark: '',
+  consolation_on_fail: false
+};
+
+// SKUs are edited as one comma separated list
+const emptyPurchase = {
+  required: false,
+  skus: '',
+  min_amount: '',
+  require_photo: false
+};
+
+const emptyForm = {
+  name: '',
+  slug: '',
+  start_date: '',
+  end_date: '',
+  logo_url: '',
+  primary_color: '',
+  secondary_color: '',
+  text_color: '',
+  headline: '',
+  subheadline: '',
+  terms_text: '',
+  sectors: '',
+  game_mode: 'wheel' as GameMode,
+  eligibility_rules: emptyRules,
+  quiz_settings: emptyQuiz,
+  purchase_settings: emptyPurchase,
+  allowed_origin: '',
+  is_active: true
+};
+
+type CampaignForm = typeof emptyForm;
+
+const fetchCampaigns = async (): Promise<Campaign[]> => {
+  const response = await axios.get(`${API_URL}/campaigns`);
+  return response.data;
+};
+
+// datetime-local inputs work in local time without a timezone
+const toDateInput = (value: string | null) => (value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '');
+
+const fromDateInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+// Sectors are edited one per line; "Try Again" lines are losing sectors
+const sectorsToText = (sectors: Campaign['sectors']) => (sectors || []).map((sector) => sector.label).join('\n');
+
+const textToSectors = (text: string) => {
+  const labels = text.split('\n').map((line) => line.trim()).filter(Boolean);
+  return labels.length > 0
+    ? labels.map((label) => ({ label, is_win: label.toLowerCase() !== TRY_AGAIN_LABEL }))
+    : null;
+};
+
+// Rules are edited as text inputs; empty inputs leave the rule unset
+const rulesToForm = (rules: Campaign['eligibility_rules']) => ({
+  ...emptyRules,
+  ...Object.fromEntries(Object.entries(rules || {}).map(([rule, limit]) => [rule, String(limit)]))
+});
+
+const formToRules = (rules: CampaignForm['eligibility_rules']): EligibilityRules | null => {
+  const entries = Object.entries(rules).filter(([, limit]) => limit.trim() !== '');
+  return entries.length > 0 ? Object.fromEntries(entries.map(([rule, limit]) => [rule, Number(limit)])) : null;
+};
+
+const quizToForm = (quiz: Campaign['quiz_settings']) => (quiz
+  ? { question_count: String(quiz.question_count), pass_mark: String(quiz.pass_mark), consolation_on_fail: quiz.consolation_on_fail }
+  : emptyQuiz);
+
+const formToQuiz = (quiz: CampaignForm['quiz_settings']): QuizSettings | null => (quiz.question_count.trim()
+  ? {
+    question_count: Number(quiz.question_count),
+    pass_mark: Number(quiz.pass_mark.trim() || quiz.question_count),
+    consolation_on_fail: quiz.consolation_on_fail
+  }
+  : null);
+
+const purchaseToForm = (purchase: Campaign['purchase_settings']) => (purchase
+  ? {
+    required: true,
+    skus: purchase.skus.join(', '),
+    min_amount: purchase.min_amount === null ? '' : String(purchase.min_amount),
+    require_photo: purchase.require_photo
+  }
+  : emptyPurchase);
+
+const formToPurchase = (purchase: CampaignForm['purchase_settings']): PurchaseSettings | null => (purchase.required
+  ? {
+    skus: purchase.skus.split(',').map((sku) => sku.trim()).filter(Boolean),
+    min_amount: purchase.min_amount.trim() ? Number(purchase.min_amount) : null,
+    require_photo: purchase.require_photo
+  }
+  : null);
+
+// Prefer the validation message returned by the API
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
+const toSlug = (name: string) => name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const getStatus = (campaign: Campaign) => {
+  if (!campaign.is_active) {
+    return { label: 'Inactive', className: 'bg-gray-100 text-gray-800' };
+  }
+  if (campaign.is_live) {
+    return { label: 'Live', className: 'bg-green-100 text-green-800' };
+  }
+  if (campaign.start_date && new Date(campaign.start_date) > new Date()) {
+    return { label: 'Scheduled', className: 'bg-blue-100 text-blue-800' };
+  }
+  return { label: 'Ended', className: 'bg-yellow-100 text-yellow-800' };
+};
+
+export function CampaignManagement() {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingCampaign, setEditingCampaign] = useState<Campaign | null>(null);
+  const [form, setForm] = useState<CampaignForm>(emptyForm);
+
+  const queryClient = useQueryClient();
+
+  const { data: campaigns = [], isLoading, error } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: fetchCampaigns
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingCampaign(null);
+    setForm(emptyForm);
+  };
+
+  const saveCampaignMutation = useMutation({
+    mutationFn: async ({ id, ...data }: Record<string, unknown> & { id?: number }) => {
+      const response = id
+        ? await axios.put(`${API_URL}/campaigns/${id}`, data)
+        : await axios.post(`${API_URL}/campaigns`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success(editingCampaign ? "Campaign updated successfully" : "Campaign created successfully");
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      closeDialog();
+    },
+    onError: (error) => {
+      console.error('Save campaign error:', error);
+      toast.error(getErrorMessage(error, "Failed to save campaign"));
+    }
+  });
+
+  const deleteCampaignMutation = useMutation({
+    mutationFn: (id: number) => axios.delete(`${API_URL}/campaigns/${id}`),
+    onSuccess: () => {
+      toast.success("Campaign deleted successfully");
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+    },
+    onError: (error) => {
+      console.error('Delete campaign error:', error);
+      toast.error(getErrorMessage(error, "Failed to delete campaign"));
+    }
+  });
+
+  const handleSubmit = () => {
+    if (!form.name.trim() || !form.slug.trim()) {
+      toast.error("Please fill in all required fields");
+      return;
+    }
+
+    if (form.start_date && form.end_date && new Date(form.end_date) < new Date(form.start_date)) {
+      toast.error("End date must be after the start date");
+      return;
+    }
+
+    const invalidRule = ELIGIBILITY_RULE_FIELDS.find(([rule]) => {
+      const limit = form.eligibility_rules[rule].trim();
+      return limit !== '' && !(Number.isInteger(Number(limit)) && Number(limit) >= 1);
+    });
+    if (invalidRule) {
+      toast.error(`${invalidRule[1]} must be a whole number of at least 1`);
+      return;
+    }
+
+    const quiz = formToQuiz(form.quiz_settings);
+    if (quiz && !(Number.isInteger(quiz.question_count) && quiz.question_count >= 1 && quiz.question_count <= 5)) {
+      toast.error("The quiz can ask 1 to 5 questions");
+      return;
+    }
+    if (quiz && !(Number.isInteger(quiz.pass_mark) && quiz.pass_mark >= 1 && quiz.pass_mark <= quiz.question_count)) {
+      toast.error("The pass mark must be between 1 and the number of questions");
+      return;
+    }
+
+    const purchase = formToPurchase(form.purchase_settings);
+    if (purchase && purchase.min_amount !== null && !(Number.isFinite(purchase.min_amount) && purchase.min_amount >= 0)) {
+      toast.error("The minimum purchase must be a positive amount");
+      return;
+    }
+
+    const sectors = textToSectors(form.sectors);
+    if (sectors && sectors.length < 2) {
+      toast.error("A wheel needs at least 2 sectors");
+      return;
+    }
+    if (sectors && sectors.every((sector) => sector.is_win)) {
+      toast.error('A wheel needs at least one "Try Again" sector');
+      return;
+    }
+
+    saveCampaignMutation.mutate({
+      id: editingCampaign?.id,
+      ...form,
+      slug: form.slug.trim().toLowerCase(),
+      start_date: fromDateInput(form.start_date),
+      end_date: fromDateInput(form.end_date),
+      sectors,
+      eligibility_rules: formToRules(form.eligibility_rules),
+      quiz_settings: quiz,
+      purchase_settings: purchase
+    });
+  };
+
+  const openDialog = (campaign?: Campaign) => {
+    if (campaign) {
+      setEditingCampaign(campaign);
+      setForm({
+        name: campaign.name,
+        slug: campaign.slug,
+        start_date: toDateInput(campaign.start_date),
+        end_date: toDateInput(campaign.end_date),
+        logo_url: campaign.logo_url || '',
+        primary_color: campaign.primary_color || '',
+        secondary_color: campaign.secondary_color || '',
+        text_color: campaign.text_color || '',
+        headline: campaign.headline || '',
+        subheadline: campaign.subheadline || '',
+        terms_text: campaign.terms_text || '',
+        sectors: sectorsToText(campaign.sectors),
+        game_mode: campaign.game_mode || 'wheel',
+        eligibility_rules: rulesToForm(campaign.eligibility_rules),
+        quiz_settings: quizToForm(campaign.quiz_settings),
+        purchase_settings: purchaseToForm(campaign.purchase_settings),
+        allowed_origin: campaign.allowed_origin || '',
+        is_active: campaign.is_active
+      });
+    } else {
+      setEditingCampaign(null);
+      setForm(emptyForm);
+    }
+    setDialogOpen(true);
+  };
+
+  const inputClassName = "text-admin-text bg-admin-bg border-admin-border placeholder:text-admin-text/50";
+
+  if (error) {
+    return (
+      <Card className="bg-admin-card border-admin-border">
+        <CardContent className="p-6 text-center">
+          <p className="text-red-600">Error loading campaigns: {error.message}</p>
+          <Button
+            onClick={() => queryClient.invalidateQueries({ queryKey: ['campaigns'] })}
+            className="mt-4 bg-admin-primary hover:bg-admin-primary/90 text-white"
+          >
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 bg-admin-bg p-6 rounded-lg">
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="flex justify-between items-center text-admin-text">
+            <span>Campaign Management</span>
+            <Button
+              onClick={() => openDialog()}
+              className="flex items-center gap-2 bg-admin-primary hover:bg-admin-primary/90 text-white"
+            >
+              <Plus className="h-4 w-4" />
+              Add Campaign
+            </Button>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-admin-secondary/10">
+                <TableHead className="text-admin-text font-semibold">Name</TableHead>
+                <TableHead className="text-admin-text font-semibold">Page</TableHead>
+                <TableHead className="text-admin-text font-semibold">Starts</TableHead>
+                <TableHead className="text-admin-text font-semibold">Ends</TableHead>
+                <TableHead className="text-admin-text font-semibold">Status</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-admin-text">
+                    Loading campaigns...
+                  </TableCell>
+                </TableRow>
+              ) : campaigns.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-admin-text">
+                    No campaigns found. Create your first campaign!
+                  </TableCell>
+                </TableRow>
+              ) : (
+                campaigns.map((campaign) => {
+                  const status = getStatus(campaign);
+                  return (
+                    <TableRow key={campaign.id} className="border-admin-border">
+                      <TableCell className="font-medium text-admin-text">
+                        <div className="flex items-center gap-2">
+                          {campaign.primary_color && (
+                            <span
+                              className="inline-block h-3 w-3 rounded-full"
+                              style={{ backgroundColor: campaign.primary_color }}
+                            />
+                          )}
+                          {campaign.name}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-admin-text">
+                        <a
+                          href={`/c/${campaign.slug}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-admin-primary hover:underline"
+                        >
+                          /c/{campaign.slug}
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </TableCell>
+                      <TableCell className="text-admin-text">
+                        {campaign.start_date ? new Date(campaign.start_date).toLocaleString() : '-'}
+                      </TableCell>
+                      <TableCell className="text-admin-text">
+                        {campaign.end_date ? new Date(campaign.end_date).toLocaleString() : '-'}
+                      </TableCell>
+                      <TableCell>
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openDialog(campaign)}
+                          className="text-admin-primary hover:text-admin-primary hover:bg-admin-secondary/20"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent className="bg-admin-card border-admin-border">
+                            <AlertDialogHeader>
+                              <AlertDialogTitle className="text-admin-text">Delete Campaign</AlertDialogTitle>
+                              <AlertDialogDescription className="text-admin-text/80">
+                                Are you sure you want to delete "{campaign.name}"? Campaigns that already have spins can only be deactivated.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel className="text-admin-text bg-admin-secondary hover:bg-admin-secondary/80">
+                                Cancel
+                              </AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => deleteCampaignMutation.mutate(campaign.id)}
+                                className="bg-red-600 hover:bg-red-700 text-white"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+        <DialogContent className="bg-admin-card border-admin-border max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-admin-text">
+              {editingCampaign ? 'Edit Campaign' : 'Add Campaign'}
+            </DialogTitle>
+            <DialogDescription className="text-admin-text/80">
+              {editingCampaign
+                ? 'Update the campaign schedule, branding and wheel'
+                : 'Create a new brand activation with its own page, wheel and prizes'
+              }
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="campaign_name" className="text-admin-text font-medium">Name *</Label>
+                <Input
+                  id="campaign_name"
+                  value={form.name}
+                  onChange={(e) => setForm({
+                    ...form,
+                    name: e.target.value,
+                    // Suggest a slug for new campaigns until one is typed
+                    slug: editingCampaign || form.slug !== toSlug(form.name) ? form.slug : toSlug(e.target.value)
+                  })}
+                  placeholder="e.g. Ilara Mother's Day"
+                  className={inputClassName}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="campaign_slug" className="text-admin-text font-medium">Page Address *</Label>
+                <Input
+                  id="campaign_slug"
+                  value={form.slug}
+                  onChange={(e) => setForm({ ...form, slug: e.target.value })}
+                  placeholder="ilara-mothers-day"
+                  className={inputClassName}
+                  required
+                />
+                <p className="text-xs text-admin-text/60 mt-1">
+                  The public page will be at /c/{form.slug || 'your-slug'}
+                </p>
+              </div>
+              <div>
+                <Label htmlFor="campaign_start" className="text-admin-text font-medium">Starts</Label>
+                <Input
+                  id="campaign_start"
+                  type="datetime-local"
+                  value={form.start_date}
+                  onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <Label htmlFor="campaign_end" className="text-admin-text font-medium">Ends</Label>
+                <Input
+                  id="campaign_end"
+                  type="datetime-local"
+                  value={form.end_date}
+                  onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="campaign_logo" className="text-admin-text font-medium">Logo URL</Label>
+              <Input
+                id="campaign_logo"
+                value={form.logo_url}
+                onChange={(e) => setForm({ ...form, logo_url: e.target.value })}
+                placeholder="Leave empty to use the default logo"
+                className={inputClassName}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              {([
+                ['primary_color', 'Prize Colour', '#1e40af'],
+                ['secondary_color', 'Try Again Colour', '#dc2626'],
+                ['text_color', 'Label Colour', '#ffffff'],
+              ] as const).map(([field, label, placeholder]) => (
+                <div key={field}>
+                  <Label htmlFor={`campaign_${field}`} className="text-admin-text font-medium">{label}</Label>
+                  <div className="flex items-center gap-2">
+                    <span
+                      className="inline-block h-8 w-8 shrink-0 rounded border border-admin-border"
+                      style={{ backgroundColor: form[field] || placeholder }}
+                    />
+                    <Input
+                      id={`campaign_${field}`}
+                      value={form[field]}
+                      onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                      placeholder={placeholder}
+                      className={inputClassName}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <Label htmlFor="campaign_headline" className="text-admin-text font-medium">Headline</Label>
+              <Input
+                id="campaign_headline"
+                value={form.headline}
+                onChange={(e) => setForm({ ...form, headline: e.target.value })}
+                placeholder="Spin the Wheel and Win"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <Label htmlFor="campaign_subheadline" className="text-admin-text font-medium">Subheadline</Label>
+              <Input
+                id="campaign_subheadline"
+                value={form.subheadline}
+                onChange={(e) => setForm({ ...form, subheadline: e.target.value })}
+                placeholder="Shown under the headline on the registration form"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <Label htmlFor="campaign_terms" className="text-admin-text font-medium">Disclaimer</Label>
+              <Textarea
+                id="campaign_terms"
+                value={form.terms_text}
+                onChange={(e) => setForm({ ...form, terms_text: e.target.value })}
+                placeholder="Everyone should win a merchandise prize"
+                className={inputClassName}
+                rows={2}
+              />
+            </div>
+            <div>
+              <Label htmlFor="campaign_game_mode" className="text-admin-text font-medium">Game</Label>
+              <Select
+                value={form.game_mode}
+                onValueChange={(value) => setForm({ ...form, game_mode: value as GameMode })}
+              >
+                <SelectTrigger id="campaign_game_mode" className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-admin-card border-admin-border">
+                  {(Object.keys(GAME_MODE_LABELS) as GameMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {GAME_MODE_LABELS[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-admin-text/60 mt-1">
+                How customers play. Every game gives out the same prizes, at the same odds, from the sectors below.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="campaign_sectors" className="text-admin-text font-medium">Wheel Sectors</Label>
+              <Textarea
+                id="campaign_sectors"
+                value={form.sectors}
+                onChange={(e) => setForm({ ...form, sectors: e.target.value })}
+                placeholder={"Aprons\nTry Again\nKitchen Set\nTry Again"}
+                className={inputClassName}
+                rows={5}
+              />
+              <p className="text-xs text-admin-text/60 mt-1">
+                One sector per line, in order around the wheel. "Try Again" lines are losing sectors. Used when a spin is not tied to an agent's stock; leave empty for the default wheel.
+              </p>
+            </div>
+            <div>
+              <Label className="text-admin-text font-medium">Eligibility Rules</Label>
+              <div className="grid grid-cols-3 gap-4 mt-1">
+                {ELIGIBILITY_RULE_FIELDS.map(([rule, label]) => (
+                  <div key={rule}>
+                    <Label htmlFor={`campaign_${rule}`} className="text-xs text-admin-text/80">{label}</Label>
+                    <Input
+                      id={`campaign_${rule}`}
+                      type="number"
+                      min={1}
+                      value={form.eligibility_rules[rule]}
+                      onChange={(e) => setForm({
+                        ...form,
+                        eligibility_rules: { ...form.eligibility_rules, [rule]: e.target.value }
+                      })}
+                      placeholder="No limit"
+                      className={inputClassName}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-admin-text/60 mt-1">
+                Limits per customer, matched by email or phone number. An outlet is the BA the customer plays with. Leave empty for no limit.
+              </p>
+            </div>
+            <div>
+              <Label className="text-admin-text font-medium">Product Quiz</Label>
+              <div className="grid grid-cols-3 gap-4 mt-1">
+                <div>
+                  <Label htmlFor="campaign_quiz_questions" className="text-xs text-admin-text/80">Questions</Label>
+                  <Input
+                    id="campaign_quiz_questions"
+                    type="number"
+                    min={1}
+                    max={5}
+                    value={form.quiz_settings.question_count}
+                    onChange={(e) => setForm({ ...form, quiz_settings: { ...form.quiz_settings, question_count: e.target.value } })}
+                    placeholder="No quiz"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="campaign_quiz_pass_mark" className="text-xs text-admin-text/80">Pass Mark</Label>
+                  <Input
+                    id="campaign_quiz_pass_mark"
+                    type="number"
+                    min={1}
+                    value={form.quiz_settings.pass_mark}
+                    onChange={(e) => setForm({ ...form, quiz_settings: { ...form.quiz_settings, pass_mark: e.target.value } })}
+                    placeholder="All correct"
+                    disabled={!form.quiz_settings.question_count}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Switch
+                    id="campaign_quiz_consolation"
+                    checked={form.quiz_settings.consolation_on_fail}
+                    onCheckedChange={(checked) => setForm({ ...form, quiz_settings: { ...form.quiz_settings, consolation_on_fail: checked } })}
+                    disabled={!form.quiz_settings.question_count}
+                  />
+                  <Label htmlFor="campaign_quiz_consolation" className="text-xs text-admin-text/80">Consolation on fail</Label>
+                </div>
+              </div>
+              <p className="text-xs text-admin-text/60 mt-1">
+                Customers answer questions from the Quiz tab before they play. Customers who fail can play for the consolation prize only when "Consolation on fail" is on. Leave empty for no quiz.
+              </p>
+            </div>
+            <div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="campaign_purchase_required"
+                  checked={form.purchase_settings.required}
+                  onCheckedChange={(checked) => setForm({ ...form, purchase_settings: { ...form.purchase_settings, required: checked } })}
+                />
+                <Label htmlFor="campaign_purchase_required" className="text-admin-text font-medium">Proof of Purchase</Label>
+              </div>
+              <div className="grid grid-cols-3 gap-4 mt-1">
+                <div className="col-span-3">
+                  <Label htmlFor="campaign_purchase_skus" className="text-xs text-admin-text/80">Promotion SKUs</Label>
+                  <Input
+                    id="campaign_purchase_skus"
+                    value={form.purchase_settings.skus}
+                    onChange={(e) => setForm({ ...form, purchase_settings: { ...form.purchase_settings, skus: e.target.value } })}
+                    placeholder="Any product"
+                    disabled={!form.purchase_settings.required}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="campaign_purchase_min_amount" className="text-xs text-admin-text/80">Minimum Purchase</Label>
+                  <Input
+                    id="campaign_purchase_min_amount"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.purchase_settings.min_amount}
+                    onChange={(e) => setForm({ ...form, purchase_settings: { ...form.purchase_settings, min_amount: e.target.value } })}
+                    placeholder="Any amount"
+                    disabled={!form.purchase_settings.required}
+                    className={inputClassName}
+                  />
+                </div>
+                <div className="flex items-end gap-2 pb-2 col-span-2">
+                  <Switch
+                    id="campaign_purchase_photo"
+                    checked={form.purchase_settings.require_photo}
+                    onCheckedChange={(checked) => setForm({ ...form, purchase_settings: { ...form.purchase_settings, require_photo: checked } })}
+                    disabled={!form.purchase_settings.required}
+                  />
+                  <Label htmlFor="campaign_purchase_photo" className="text-xs text-admin-text/80">Receipt photo required</Label>
+                </div>
+              </div>
+              <p className="text-xs text-admin-text/60 mt-1">
+                The BA enters the customer's receipt before they play, and each receipt plays once in the campaign. List the SKUs in the promotion, separated by commas, to only accept receipts with one of them.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="campaign_origin" className="text-admin-text font-medium">Landing Page Origin</Label>
+              <Input
+                id="campaign_origin"
+                value={form.allowed_origin}
+                onChange={(e) => setForm({ ...form, allowed_origin: e.target.value })}
+                placeholder="https://brand-activation.example.com"
+                className={inputClassName}
+              />
+              <p className="text-xs text-admin-text/60 mt-1">
+                Only needed when the campaign page is hosted on its own domain.
+              </p>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="campaign_active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+              <Label htmlFor="campaign_active" className="text-admin-text font-medium">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeDialog}
+              className="text-admin-text bg-admin-secondary hover:bg-admin-secondary/80 border-admin-border"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saveCampaignMutation.isPending}
+              className="bg-admin-primary hover:bg-admin-primary/90 text-white"
+            >
+              {saveCampaignMutation.isPending
+                ? "Saving..."
+                : editingCampaign
+                  ? "Update Campaign"
+                  : "Create Campaign"
+              }
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useQuery } from "@tanstack/react-query";
 import axios from "axios";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CLAIM_STATUS_CLASSES, CLAIM_STATUS_LABELS, ClaimStatus } from "@/utils/claimUtils";
 
 const API_URL = import.meta.env.VITE_API_URL || "/api";
 
@@ -37,6 +38,7 @@ export function DistributedPrizeLog() {
                 <TableHead className="text-gray-900 dark:text-white font-semibold">Location</TableHead>
                 <TableHead className="text-gray-900 dark:text-white font-semibold">Agent</TableHead>
                 <TableHead className="text-gray-900 dark:text-white font-semibold">Timestamp</TableHead>
+                <TableHead className="text-gray-900 dark:text-white font-semibold">Claim</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -49,11 +51,23 @@ export function DistributedPrizeLog() {
                     <TableCell className="text-gray-800 dark:text-gray-200">{item.location}</TableCell>
                     <TableCell className="text-gray-800 dark:text-gray-200">{item.agent_name || '-'}</TableCell>
                     <TableCell className="text-gray-800 dark:text-gray-200">{new Date(item.date).toLocaleString()}</TableCell>
+                    <TableCell className="text-gray-800 dark:text-gray-200">
+                      {item.claim_status ? (
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${CLAIM_STATUS_CLASSES[item.claim_status as ClaimStatus]}`}>
+                          {CLAIM_STATUS_LABELS[item.claim_status as ClaimStatus]}
+                        </span>
+                      ) : '-'}
+                      {item.claimed_at && (
+                        <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                          {new Date(item.claimed_at).toLocaleString()} by {item.claimed_by_agent}
+                        </div>
+                      )}
+                    </TableCell>
                   </TableRow>
                 ))
               ) : (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center text-gray-600 dark:text-gray-400">No prizes distributed yet</TableCell>
+                  <TableCell colSpan={7} className="text-center text-gray-600 dark:text-gray-400">No prizes distributed yet</TableCell>
                 </TableRow>
               )}
             </TableBody>
@@ -0,0 +1,295 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+// Select value that shows every agent, product or movement type
+const ALL = "all";
+// Agent filter value for stock held in the warehouse
+const WAREHOUSE = "warehouse";
+
+type MovementType = 'opening' | 'assign' | 'restock' | 'win' | 'distribute' | 'adjust' | 'transfer' | 'write_off' | 'void';
+
+interface StockMovement {
+  id: number;
+  agent_id: string | null;
+  agent_name: string | null;
+  product_id: string;
+  product_name: string | null;
+  campaign_id: number | null;
+  movement_type: MovementType;
+  quantity: number;
+  balance_after: number | null;
+  actor: string;
+  reason: string | null;
+  spin_result_id: number | null;
+  created_at: string;
+}
+
+interface LedgerDrift {
+  agent_id: string | null;
+  product_id: string;
+  product_name: string | null;
+  campaign_id: number | null;
+  available_quantity: number;
+  ledger_quantity: number;
+  difference: number;
+}
+
+interface AgentOption {
+  agent_id: string;
+  name: string;
+}
+
+const MOVEMENT_LABELS: Record<MovementType, string> = {
+  opening: 'Opening balance',
+  assign: 'Assigned',
+  restock: 'Restocked',
+  win: 'Won',
+  distribute: 'Handed out',
+  adjust: 'Adjusted',
+  transfer: 'Transfer',
+  write_off: 'Written off',
+  void: 'Voided win',
+};
+
+const fetchMovements = async (agentId: string, type: string): Promise<StockMovement[]> => {
+  const params: Record<string, string> = {};
+  if (agentId !== ALL) params.agent_id = agentId;
+  if (type !== ALL) params.type = type;
+  const response = await axios.get(`${API_URL}/inventory/movements`, { params });
+  return response.data;
+};
+
+const fetchDrift = async (agentId: string): Promise<LedgerDrift[]> => {
+  const response = await axios.get(`${API_URL}/inventory/reconcile`, {
+    params: agentId === ALL ? {} : { agent_id: agentId }
+  });
+  return response.data;
+};
+
+const fetchAgents = async (): Promise<AgentOption[]> => {
+  const response = await axios.get(`${API_URL}/agents`);
+  return response.data;
+};
+
+const holderName = (agentId: string | null, agentName?: string | null) =>
+  agentId ? agentName || agentId : 'Warehouse';
+
+export function InventoryLedger() {
+  const [agentFilter, setAgentFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [productFilter, setProductFilter] = useState(ALL);
+  const { user } = useAuth();
+  // BAs only ever see their own stock, so there is no agent to choose
+  const canChooseAgent = user?.role !== 'ba';
+
+  const queryClient = useQueryClient();
+
+  const { data: movements = [], isLoading, error } = useQuery({
+    queryKey: ['inventoryMovements', agentFilter, typeFilter],
+    queryFn: () => fetchMovements(agentFilter, typeFilter)
+  });
+
+  const { data: drift = [] } = useQuery({
+    queryKey: ['inventoryDrift', agentFilter],
+    queryFn: () => fetchDrift(agentFilter)
+  });
+
+  const { data: agents = [] } = useQuery({
+    queryKey: ['agents'],
+    queryFn: fetchAgents,
+    enabled: canChooseAgent
+  });
+
+  const products = useMemo(() => {
+    const names = new Map<string, string>();
+    movements.forEach((m) => names.set(m.product_id, m.product_name || m.product_id));
+    return [...names.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+  }, [movements]);
+
+  const visibleMovements = productFilter === ALL
+    ? movements
+    : movements.filter((m) => m.product_id === productFilter);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['inventoryMovements'] });
+    queryClient.invalidateQueries({ queryKey: ['inventoryDrift'] });
+  };
+
+  if (error) {
+    return (
+      <Card className="bg-admin-card border-admin-border">
+        <CardContent className="p-6 text-center">
+          <p className="text-red-600">Error loading stock movements: {error.message}</p>
+          <Button onClick={refresh} className="mt-4 bg-admin-primary hover:bg-admin-primary/90 text-white">
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const selectClassName = "w-full text-admin-text bg-admin-bg border-admin-border";
+
+  return (
+    <div className="space-y-6 bg-admin-bg p-6 rounded-lg">
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="flex items-center gap-2 text-admin-text">
+            {drift.length === 0 ? (
+              <>
+                <CheckCircle className="h-5 w-5 text-green-600" />
+                <span>Stock balances match the ledger</span>
+              </>
+            ) : (
+              <>
+                <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                <span>{drift.length} stock balance(s) do not match the ledger</span>
+              </>
+            )}
+          </CardTitle>
+        </CardHeader>
+        {drift.length > 0 && (
+          <CardContent className="p-0">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-admin-secondary/10">
+                  <TableHead className="text-admin-text font-semibold">Held by</TableHead>
+                  <TableHead className="text-admin-text font-semibold">Product</TableHead>
+                  <TableHead className="text-admin-text font-semibold">Balance</TableHead>
+                  <TableHead className="text-admin-text font-semibold">Ledger</TableHead>
+                  <TableHead className="text-admin-text font-semibold">Difference</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drift.map((row) => (
+                  <TableRow key={`${row.agent_id}-${row.product_id}-${row.campaign_id}`} className="border-admin-border">
+                    <TableCell className="text-admin-text">{holderName(row.agent_id)}</TableCell>
+                    <TableCell className="text-admin-text">{row.product_name || row.product_id}</TableCell>
+                    <TableCell className="text-admin-text">{row.available_quantity}</TableCell>
+                    <TableCell className="text-admin-text">{row.ledger_quantity}</TableCell>
+                    <TableCell className="font-medium text-red-600">
+                      {row.difference > 0 ? `+${row.difference}` : row.difference}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        )}
+      </Card>
+
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="flex justify-between items-center text-admin-text">
+            <span>Stock Movements</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={refresh}
+              className="border-admin-border text-admin-text"
+            >
+              Refresh
+            </Button>
+          </CardTitle>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 pt-2">
+            {canChooseAgent && (
+              <Select value={agentFilter} onValueChange={(value) => { setAgentFilter(value); setProductFilter(ALL); }}>
+                <SelectTrigger className={selectClassName}>
+                  <SelectValue placeholder="All stock holders" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All stock holders</SelectItem>
+                  <SelectItem value={WAREHOUSE}>Warehouse</SelectItem>
+                  {agents.map((agent) => (
+                    <SelectItem key={agent.agent_id} value={agent.agent_id}>{agent.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Select value={productFilter} onValueChange={setProductFilter}>
+              <SelectTrigger className={selectClassName}>
+                <SelectValue placeholder="All products" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All products</SelectItem>
+                {products.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className={selectClassName}>
+                <SelectValue placeholder="All movements" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All movements</SelectItem>
+                {(Object.keys(MOVEMENT_LABELS) as MovementType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{MOVEMENT_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-admin-secondary/10">
+                <TableHead className="text-admin-text font-semibold">When</TableHead>
+                <TableHead className="text-admin-text font-semibold">Held by</TableHead>
+                <TableHead className="text-admin-text font-semibold">Product</TableHead>
+                <TableHead className="text-admin-text font-semibold">Movement</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Change</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Balance</TableHead>
+                <TableHead className="text-admin-text font-semibold">By</TableHead>
+                <TableHead className="text-admin-text font-semibold">Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-admin-text">
+                    Loading stock movements...
+                  </TableCell>
+                </TableRow>
+              ) : visibleMovements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-admin-text">
+                    No stock movements found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                visibleMovements.map((movement) => (
+                  <TableRow key={movement.id} className="border-admin-border">
+                    <TableCell className="text-admin-text whitespace-nowrap">
+                      {new Date(movement.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-admin-text">{holderName(movement.agent_id, movement.agent_name)}</TableCell>
+                    <TableCell className="text-admin-text">{movement.product_name || movement.product_id}</TableCell>
+                    <TableCell className="text-admin-text">{MOVEMENT_LABELS[movement.movement_type] || movement.movement_type}</TableCell>
+                    <TableCell className={`text-right font-medium ${movement.quantity < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                      {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </TableCell>
+                    <TableCell className="text-right text-admin-text">{movement.balance_after ?? '-'}</TableCell>
+                    <TableCell className="text-admin-text">{movement.actor}</TableCell>
+                    <TableCell className="text-admin-text">
+                      {movement.reason || (movement.spin_result_id ? `Spin #${movement.spin_result_id}` : '-')}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+type CapScope = 'product' | 'agent' | 'outlet';
+type CapPeriod = 'hour' | 'day';
+
+// Most wins of a prize per hour or day, across all outlets, per BA or per outlet
+interface PrizeCap {
+  id: number;
+  product_id: number;
+  scope: CapScope;
+  period: CapPeriod;
+  max_wins: number;
+  description: string;
+}
+
+const SCOPE_LABELS: Record<CapScope, string> = {
+  product: 'All outlets',
+  agent: 'Per BA',
+  outlet: 'Per outlet',
+};
+
+const fetchPrizeCaps = async (productId: number): Promise<PrizeCap[]> => {
+  const response = await axios.get(`${API_URL}/prize-caps`, { params: { product_id: productId } });
+  return response.data;
+};
+
+// Prefer the validation message returned by the API
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
+export function PrizeCaps({ productId }: { productId: number }) {
+  const [scope, setScope] = useState<CapScope>('agent');
+  const [period, setPeriod] = useState<CapPeriod>('day');
+  const [maxWins, setMaxWins] = useState('');
+
+  const queryClient = useQueryClient();
+
+  const { data: caps = [], isLoading } = useQuery({
+    queryKey: ['prizeCaps', productId],
+    queryFn: () => fetchPrizeCaps(productId)
+  });
+
+  const addCapMutation = useMutation({
+    mutationFn: (data: { product_id: number; scope: CapScope; period: CapPeriod; max_wins: number }) =>
+      axios.post(`${API_URL}/prize-caps`, data),
+    onSuccess: () => {
+      toast.success("Cap added");
+      queryClient.invalidateQueries({ queryKey: ['prizeCaps', productId] });
+      setMaxWins('');
+    },
+    onError: (error) => {
+      console.error('Add prize cap error:', error);
+      toast.error(getErrorMessage(error, "Failed to add the cap"));
+    }
+  });
+
+  const removeCapMutation = useMutation({
+    mutationFn: (id: number) => axios.delete(`${API_URL}/prize-caps/${id}`),
+    onSuccess: () => {
+      toast.success("Cap removed");
+      queryClient.invalidateQueries({ queryKey: ['prizeCaps', productId] });
+    },
+    onError: (error) => {
+      console.error('Remove prize cap error:', error);
+      toast.error(getErrorMessage(error, "Failed to remove the cap"));
+    }
+  });
+
+  const handleAdd = () => {
+    const value = parseInt(maxWins);
+    if (isNaN(value) || value < 0) {
+      toast.error("Please enter the most wins allowed");
+      return;
+    }
+    addCapMutation.mutate({ product_id: productId, scope, period, max_wins: value });
+  };
+
+  return (
+    <div>
+      <Label className="text-admin-text font-medium">Caps</Label>
+      <div className="space-y-1 mt-1">
+        {isLoading ? (
+          <p className="text-xs text-admin-text/60">Loading caps...</p>
+        ) : caps.length === 0 ? (
+          <p className="text-xs text-admin-text/60">No caps. Wins are only limited by stock.</p>
+        ) : (
+          caps.map((cap) => (
+            <div key={cap.id} className="flex items-center justify-between text-sm text-admin-text">
+              <span>{cap.description}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => removeCapMutation.mutate(cap.id)}
+                disabled={removeCapMutation.isPending}
+                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+      <div className="flex gap-2 mt-2">
+        <Input
+          type="number"
+          min="0"
+          value={maxWins}
+          onChange={(e) => setMaxWins(e.target.value)}
+          placeholder="Max wins"
+          className="w-24 text-admin-text bg-admin-bg border-admin-border placeholder:text-admin-text/50"
+        />
+        <Select value={scope} onValueChange={(value) => setScope(value as CapScope)}>
+          <SelectTrigger className="text-admin-text bg-admin-bg border-admin-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-admin-card border-admin-border">
+            {(Object.keys(SCOPE_LABELS) as CapScope[]).map((value) => (
+              <SelectItem key={value} value={value}>{SCOPE_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={period} onValueChange={(value) => setPeriod(value as CapPeriod)}>
+          <SelectTrigger className="w-28 text-admin-text bg-admin-bg border-admin-border">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-admin-card border-admin-border">
+            <SelectItem value="hour">Per hour</SelectItem>
+            <SelectItem value="day">Per day</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          onClick={handleAdd}
+          disabled={addCapMutation.isPending}
+          className="bg-admin-primary hover:bg-admin-primary/90 text-white"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-admin-text/60 mt-1">
+        Once a cap is reached, spins that draw this prize get the consolation prize, or Try Again, until the next hour or day.
+      </p>
+    </div>
+  );
+}
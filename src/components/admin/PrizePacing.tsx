@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { useQuery } from "@tanstack/react-query";
+import axios from "axios";
+import { format } from "date-fns";
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Campaign } from "@/utils/campaignUtils";
+import { CampaignPacing, PACING_CURVE_LABELS, PrizeBurnDown } from "@/utils/pacingUtils";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+const fetchCampaigns = async (): Promise<Campaign[]> => {
+  const response = await axios.get(`${API_URL}/campaigns`);
+  return response.data;
+};
+
+const fetchPacing = async (campaignId: string): Promise<CampaignPacing> => {
+  const response = await axios.get(`${API_URL}/prize-distribution/pacing`, { params: { campaign_id: campaignId } });
+  return response.data;
+};
+
+// Where the prize stands against its plan right now
+const describePace = (product: PrizeBurnDown) => {
+  if (product.planned_given === null) {
+    return 'Random draw';
+  }
+  const difference = product.given - product.planned_given;
+  if (difference === 0) {
+    return 'On plan';
+  }
+  return `${Math.abs(difference)} ${difference > 0 ? 'ahead of' : 'behind'} plan`;
+};
+
+function BurnDownChart({ product }: { product: PrizeBurnDown }) {
+  const data = product.points.map((point) => ({
+    label: format(new Date(point.at), 'MMM d HH:mm'),
+    planned: point.planned_remaining,
+    actual: point.actual_remaining,
+  }));
+
+  return (
+    <Card className="bg-admin-card border-admin-border">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex justify-between items-start text-admin-text text-base">
+          <div>
+            <div>{product.product_name}</div>
+            <div className="text-xs font-normal text-admin-text/70">
+              {product.pacing_curve ? PACING_CURVE_LABELS[product.pacing_curve] : 'Not paced'}
+            </div>
+          </div>
+          <div className="text-right text-xs font-normal text-admin-text/80">
+            <div>{product.given} given, {product.remaining} left</div>
+            <div>{describePace(product)}</div>
+            {product.probability !== null && (
+              <div>Next draw odds: {Number(product.probability.toFixed(3))}%</div>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data}>
+            <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+            <YAxis allowDecimals={false} />
+            <Tooltip formatter={(value) => [`${value} left`, '']} />
+            <Legend />
+            {product.pacing_curve && (
+              <Line type="monotone" dataKey="planned" name="Planned" stroke="#94a3b8" strokeDasharray="5 5" dot={false} />
+            )}
+            <Line type="monotone" dataKey="actual" name="Actual" stroke="#2563eb" connectNulls={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function PrizePacing() {
+  const [campaignId, setCampaignId] = useState<string>('');
+
+  const { data: campaigns = [] } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: fetchCampaigns
+  });
+
+  // Pacing follows the campaign's dates, so campaigns without both cannot be paced
+  const scheduledCampaigns = campaigns.filter((campaign) => campaign.start_date && campaign.end_date);
+
+  const { data: pacing, isLoading, error } = useQuery({
+    queryKey: ['prizePacing', campaignId],
+    queryFn: () => fetchPacing(campaignId),
+    enabled: !!campaignId,
+    refetchInterval: 60000
+  });
+
+  return (
+    <div className="space-y-6 bg-admin-bg p-6 rounded-lg">
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="flex justify-between items-center text-admin-text">
+            <span>Prize Pacing</span>
+            <Select value={campaignId} onValueChange={setCampaignId}>
+              <SelectTrigger className="w-[220px] text-admin-text bg-admin-bg border-admin-border">
+                <SelectValue placeholder="Select a campaign" />
+              </SelectTrigger>
+              <SelectContent>
+                {scheduledCampaigns.map((campaign) => (
+                  <SelectItem key={campaign.id} value={String(campaign.id)}>
+                    {campaign.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-6 text-admin-text text-sm">
+          {!campaignId ? (
+            scheduledCampaigns.length === 0
+              ? 'Set start and end dates on a campaign to pace its prizes.'
+              : 'Select a campaign to see how its prizes are burning down against plan.'
+          ) : isLoading ? (
+            'Loading prize pacing...'
+          ) : error ? (
+            <span className="text-red-600">Error loading prize pacing: {error.message}</span>
+          ) : pacing && pacing.products.length === 0 ? (
+            'This campaign has no prizes.'
+          ) : pacing ? (
+            `${format(new Date(pacing.start_date), 'PPp')} to ${format(new Date(pacing.end_date), 'PPp')}`
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {pacing && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          {pacing.products.map((product) => (
+            <BurnDownChart key={product.product_id} product={product} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
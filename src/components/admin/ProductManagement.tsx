@@ -24,6 +24,7 @@ interface Product {
   total_quantity?: number;
   available_quantity?: number;
   distributed_quantity?: number;
+  warehouse_quantity?: number;
 }
 
 interface ProductAssignment {
@@ -33,6 +34,8 @@ interface ProductAssignment {
   product_id: number;
   product_name: string;
   quantity: number;
+  available_quantity: number;
+  distributed_quantity: number;
   created_at: string;
   updated_at: string;
 }
@@ -52,6 +55,10 @@ const fetchAgents = async () => {
   return response.data;
 };
 
+// Prefer the validation message returned by the API
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
 export function ProductManagement() {
   const [productDialogOpen, setProductDialogOpen] = useState(false);
   const [assignmentDialogOpen, setAssignmentDialogOpen] = useState(false);
@@ -86,7 +93,7 @@ export function ProductManagement() {
       setProductDialogOpen(false);
       setProductForm({ name: '', description: '', quantity: '' });
     },
-    onError: () => toast.error("Failed to create product")
+    onError: (error) => toast.error(getErrorMessage(error, "Failed to create product"))
   });
 
   const updateProductMutation = useMutation({
@@ -98,7 +105,7 @@ export function ProductManagement() {
       setProductDialogOpen(false);
       setEditingProduct(null);
     },
-    onError: () => toast.error("Failed to update product")
+    onError: (error) => toast.error(getErrorMessage(error, "Failed to update product"))
   });
 
   const deleteProductMutation = useMutation({
@@ -107,7 +114,7 @@ export function ProductManagement() {
       toast.success("Product deleted successfully");
       queryClient.invalidateQueries({ queryKey: ['products'] });
     },
-    onError: () => toast.error("Failed to delete product")
+    onError: (error) => toast.error(getErrorMessage(error, "Failed to delete product"))
   });
 
   const createAssignmentMutation = useMutation({
@@ -116,10 +123,11 @@ export function ProductManagement() {
     onSuccess: () => {
       toast.success("Product assigned successfully");
       queryClient.invalidateQueries({ queryKey: ['productAssignments'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
       setAssignmentDialogOpen(false);
       setAssignmentForm({ agent_id: '', product_id: '', quantity: '' });
     },
-    onError: () => toast.error("Failed to assign product")
+    onError: (error) => toast.error(getErrorMessage(error, "Failed to assign product"))
   });
 
   const updateAssignmentMutation = useMutation({
@@ -128,10 +136,11 @@ export function ProductManagement() {
     onSuccess: () => {
       toast.success("Assignment updated successfully");
       queryClient.invalidateQueries({ queryKey: ['productAssignments'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
       setAssignmentDialogOpen(false);
       setEditingAssignment(null);
     },
-    onError: () => toast.error("Failed to update assignment")
+    onError: (error) => toast.error(getErrorMessage(error, "Failed to update assignment"))
   });
 
   const deleteAssignmentMutation = useMutation({
@@ -139,8 +148,9 @@ export function ProductManagement() {
     onSuccess: () => {
       toast.success("Assignment deleted successfully");
       queryClient.invalidateQueries({ queryKey: ['productAssignments'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
     },
-    onError: () => toast.error("Failed to delete assignment")
+    onError: (error) => toast.error(getErrorMessage(error, "Failed to delete assignment"))
   });
 
   const handleProductSubmit = () => {
@@ -169,8 +179,9 @@ export function ProductManagement() {
       return;
     }
 
+    // An assignment can be brought down to zero, which returns all of it to the warehouse
     const quantity = parseInt(assignmentForm.quantity);
-    if (isNaN(quantity) || quantity <= 0) {
+    if (isNaN(quantity) || quantity < 0 || (!editingAssignment && quantity === 0)) {
       toast.error("Please enter a valid quantity");
       return;
     }
@@ -236,6 +247,7 @@ export function ProductManagement() {
                 <TableHead className="text-black font-semibold">Total Quantity</TableHead>
                 <TableHead className="text-black font-semibold">Quantity Given</TableHead>
                 <TableHead className="text-black font-semibold">Quantity Remaining</TableHead>
+                <TableHead className="text-black font-semibold">In Warehouse</TableHead>
                 <TableHead className="text-black font-semibold">Created At</TableHead>
                 <TableHead className="text-right text-black font-semibold">Actions</TableHead>
               </TableRow>
@@ -248,6 +260,7 @@ export function ProductManagement() {
                   <TableCell className="text-black">{product.total_quantity ?? 0}</TableCell>
                   <TableCell className="text-black">{product.distributed_quantity ?? Math.max(0, (product.total_quantity ?? 0) - (product.available_quantity ?? 0))}</TableCell>
                   <TableCell className="text-black">{product.available_quantity ?? 0}</TableCell>
+                  <TableCell className="text-black">{product.warehouse_quantity ?? 0}</TableCell>
                   <TableCell className="text-black">{new Date(product.created_at).toLocaleDateString()}</TableCell>
                   <TableCell className="text-right space-x-2">
                     <Button
@@ -306,6 +319,8 @@ export function ProductManagement() {
                 <TableHead className="text-black font-semibold">Agent Name</TableHead>
                 <TableHead className="text-black font-semibold">Product</TableHead>
                 <TableHead className="text-black font-semibold">Quantity</TableHead>
+                <TableHead className="text-black font-semibold">Given</TableHead>
+                <TableHead className="text-black font-semibold">Remaining</TableHead>
                 <TableHead className="text-black font-semibold">Assigned At</TableHead>
                 <TableHead className="text-right text-black font-semibold">Actions</TableHead>
               </TableRow>
@@ -317,6 +332,8 @@ export function ProductManagement() {
                   <TableCell className="text-black">{assignment.agent_name}</TableCell>
                   <TableCell className="text-black">{assignment.product_name}</TableCell>
                   <TableCell className="text-black">{assignment.quantity}</TableCell>
+                  <TableCell className="text-black">{assignment.distributed_quantity}</TableCell>
+                  <TableCell className="text-black">{assignment.available_quantity}</TableCell>
                   <TableCell className="text-black">{new Date(assignment.created_at).toLocaleDateString()}</TableCell>
                   <TableCell className="text-right space-x-2">
                     <Button
@@ -337,7 +354,7 @@ export function ProductManagement() {
                         <AlertDialogHeader>
                           <AlertDialogTitle className="text-black">Delete Assignment</AlertDialogTitle>
                           <AlertDialogDescription className="text-black">
-                            Are you sure you want to delete this product assignment?
+                            Are you sure you want to delete this product assignment? Stock the agent still holds goes back to the warehouse.
                           </AlertDialogDescription>
                         </AlertDialogHeader>
                         <AlertDialogFooter>
@@ -397,7 +414,7 @@ export function ProductManagement() {
                   min={0}
                   value={productForm.quantity}
                   onChange={(e) => setProductForm({ ...productForm, quantity: e.target.value })}
-                  placeholder="Enter initial stock without assigning an agent"
+                  placeholder="Enter initial stock to keep in the warehouse"
                   className="text-black bg-white border-gray-300 placeholder:text-gray-500"
                 />
               </div>
@@ -427,7 +444,9 @@ export function ProductManagement() {
           <DialogHeader>
             <DialogTitle className="text-black">{editingAssignment ? 'Edit Assignment' : 'Assign Product'}</DialogTitle>
             <DialogDescription className="text-black">
-              {editingAssignment ? 'Update product assignment' : 'Assign a product to an agent'}
+              {editingAssignment
+                ? 'Change the quantity; extra stock comes from the warehouse and stock taken away goes back to it'
+                : 'Give an agent stock from the warehouse'}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
@@ -436,6 +455,7 @@ export function ProductManagement() {
               <Select
                 value={assignmentForm.agent_id}
                 onValueChange={(value) => setAssignmentForm({ ...assignmentForm, agent_id: value })}
+                disabled={!!editingAssignment}
               >
                 <SelectTrigger className="text-black bg-white border-gray-300">
                   <SelectValue placeholder="Select an agent" className="text-black" />
@@ -454,6 +474,7 @@ export function ProductManagement() {
               <Select
                 value={assignmentForm.product_id}
                 onValueChange={(value) => setAssignmentForm({ ...assignmentForm, product_id: value })}
+                disabled={!!editingAssignment}
               >
                 <SelectTrigger className="text-black bg-white border-gray-300">
                   <SelectValue placeholder="Select a product" className="text-black" />
@@ -461,7 +482,7 @@ export function ProductManagement() {
                 <SelectContent className="bg-white border-gray-200">
                   {products.map((product) => (
                     <SelectItem key={product.id} value={product.id.toString()} className="text-black hover:bg-gray-50 focus:bg-gray-50">
-                      {product.name}
+                      {product.name} ({product.warehouse_quantity ?? 0} in warehouse)
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -475,7 +496,7 @@ export function ProductManagement() {
                 value={assignmentForm.quantity}
                 onChange={(e) => setAssignmentForm({ ...assignmentForm, quantity: e.target.value })}
                 placeholder="Enter quantity"
-                min="1"
+                min={editingAssignment ? "0" : "1"}
                 className="text-black bg-white border-gray-300 placeholder:text-gray-500"
                 required
               />
@@ -9,7 +9,12 @@ import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, Edit, Trash2 } from "lucide-react";
+import { Campaign } from "@/utils/campaignUtils";
+import { PACING_CURVE_LABELS, PacingCurve } from "@/utils/pacingUtils";
+import { PRIZE_TIER_LABELS, PrizeTier } from "@/utils/spinWheelUtils";
+import { PrizeCaps } from "@/components/admin/PrizeCaps";
 
 const API_URL = import.meta.env.VITE_API_URL || "/api";
 
@@ -20,14 +25,53 @@ interface ProductPrize {
   total_quantity: number;
   available_quantity: number;
   distributed_quantity: number;
+  warehouse_quantity: number;
+  win_probability: number | string | null;
+  pacing_curve: PacingCurve | null;
+  prize_tier: PrizeTier;
+  campaign_id: number | null;
   created_at: string;
 }
 
+// Select value for products shared by spins outside any campaign
+const NO_CAMPAIGN = "none";
+// Select value for prizes drawn at their configured odds
+const RANDOM_DRAW = "random";
+
 const fetchProductPrizes = async (): Promise<ProductPrize[]> => {
   const response = await axios.get(`${API_URL}/products`);
   return response.data;
 };
 
+// Show a win probability as "1 in N spins" so campaign rules are easy to check
+const formatOdds = (probability: ProductPrize['win_probability']) => {
+  if (probability === null || probability === undefined || probability === '') {
+    return 'Default';
+  }
+  const value = Number(probability);
+  if (value <= 0) {
+    return 'Never';
+  }
+  return `${value}% (1 in ${Math.round(100 / value)})`;
+};
+
+const parseProbability = (value: string): number | null => {
+  return value.trim() === '' ? null : parseFloat(value);
+};
+
+const fetchCampaigns = async (): Promise<Campaign[]> => {
+  const response = await axios.get(`${API_URL}/campaigns`);
+  return response.data;
+};
+
+const parseCampaignId = (value: string): number | null => {
+  return value === NO_CAMPAIGN ? null : parseInt(value);
+};
+
+const parsePacingCurve = (value: string): PacingCurve | null => {
+  return value === RANDOM_DRAW ? null : value as PacingCurve;
+};
+
 export function ProductPrizeManagement() {
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingPrize, setEditingPrize] = useState<ProductPrize | null>(null);
@@ -35,7 +79,12 @@ export function ProductPrizeManagement() {
     name: '', 
     description: '', 
     quantity_given: '', 
-    quantity_remaining: '' 
+    quantity_remaining: '',
+    restock_quantity: '',
+    win_probability: '',
+    pacing_curve: RANDOM_DRAW,
+    prize_tier: 'standard' as PrizeTier,
+    campaign_id: NO_CAMPAIGN
   });
 
   const queryClient = useQueryClient();
@@ -45,8 +94,20 @@ export function ProductPrizeManagement() {
     queryFn: fetchProductPrizes
   });
 
+  const { data: campaigns = [] } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: fetchCampaigns
+  });
+
+  const getCampaignName = (campaignId: number | null) => {
+    if (!campaignId) {
+      return 'No campaign';
+    }
+    return campaigns.find((campaign) => campaign.id === campaignId)?.name || `Campaign #${campaignId}`;
+  };
+
   const createPrizeMutation = useMutation({
-    mutationFn: async (data: { name: string; description: string; quantity: number }) => {
+    mutationFn: async (data: { name: string; description: string; quantity: number; win_probability: number | null; pacing_curve: PacingCurve | null; prize_tier: PrizeTier; campaign_id: number | null }) => {
       const response = await axios.post(`${API_URL}/products`, data);
       return response.data;
     },
@@ -54,7 +115,7 @@ export function ProductPrizeManagement() {
       toast.success("Product prize created successfully");
       queryClient.invalidateQueries({ queryKey: ['productPrizes'] });
       setDialogOpen(false);
-      setForm({ name: '', description: '', quantity_given: '', quantity_remaining: '' });
+      setForm({ name: '', description: '', quantity_given: '', quantity_remaining: '', restock_quantity: '', win_probability: '', pacing_curve: RANDOM_DRAW, prize_tier: 'standard', campaign_id: NO_CAMPAIGN });
     },
     onError: (error: any) => {
       console.error('Create prize error:', error);
@@ -63,7 +124,7 @@ export function ProductPrizeManagement() {
   });
 
   const updatePrizeMutation = useMutation({
-    mutationFn: async ({ id, ...data }: { id: number; name: string; description: string }) => {
+    mutationFn: async ({ id, ...data }: { id: number; name: string; description: string; win_probability: number | null; pacing_curve: PacingCurve | null; prize_tier: PrizeTier; campaign_id: number | null }) => {
       const response = await axios.put(`${API_URL}/products/${id}`, data);
       return response.data;
     },
@@ -72,7 +133,7 @@ export function ProductPrizeManagement() {
       queryClient.invalidateQueries({ queryKey: ['productPrizes'] });
       setDialogOpen(false);
       setEditingPrize(null);
-      setForm({ name: '', description: '', quantity_given: '', quantity_remaining: '' });
+      setForm({ name: '', description: '', quantity_given: '', quantity_remaining: '', restock_quantity: '', win_probability: '', pacing_curve: RANDOM_DRAW, prize_tier: 'standard', campaign_id: NO_CAMPAIGN });
     },
     onError: (error: any) => {
       console.error('Update prize error:', error);
@@ -80,6 +141,23 @@ export function ProductPrizeManagement() {
     }
   });
 
+  // New stock for an existing prize goes into the warehouse until it is transferred to agents
+  const restockMutation = useMutation({
+    mutationFn: async (data: { product_id: string; quantity: number; reason: string }) => {
+      const response = await axios.post(`${API_URL}/inventory/restock`, data);
+      return response.data;
+    },
+    onSuccess: (_data, variables) => {
+      toast.success(`${variables.quantity} added to the warehouse`);
+      queryClient.invalidateQueries({ queryKey: ['productPrizes'] });
+      queryClient.invalidateQueries({ queryKey: ['inventoryMovements'] });
+    },
+    onError: (error) => {
+      console.error('Restock error:', error);
+      toast.error((axios.isAxiosError(error) && error.response?.data?.message) || "Failed to add stock to the warehouse");
+    }
+  });
+
   const deletePrizeMutation = useMutation({
     mutationFn: (id: number) => axios.delete(`${API_URL}/products/${id}`),
     onSuccess: () => {
@@ -97,12 +175,35 @@ export function ProductPrizeManagement() {
       toast.error("Please fill in all required fields");
       return;
     }
+
+    const winProbability = parseProbability(form.win_probability);
+    if (winProbability !== null && (isNaN(winProbability) || winProbability < 0 || winProbability > 100)) {
+      toast.error("Win probability must be between 0 and 100");
+      return;
+    }
     
     if (editingPrize) {
+      const restockQuantity = form.restock_quantity.trim() === '' ? 0 : parseInt(form.restock_quantity);
+      if (isNaN(restockQuantity) || restockQuantity < 0) {
+        toast.error("Please enter a valid quantity to add");
+        return;
+      }
+
+      if (restockQuantity > 0) {
+        restockMutation.mutate({
+          product_id: String(editingPrize.id),
+          quantity: restockQuantity,
+          reason: 'Restocked from product prizes'
+        });
+      }
       updatePrizeMutation.mutate({
         id: editingPrize.id,
         name: form.name,
-        description: form.description
+        description: form.description,
+        win_probability: winProbability,
+        pacing_curve: parsePacingCurve(form.pacing_curve),
+        prize_tier: form.prize_tier,
+        campaign_id: parseCampaignId(form.campaign_id)
       });
     } else {
       if (!form.quantity_given || isNaN(parseInt(form.quantity_given)) || parseInt(form.quantity_given) <= 0) {
@@ -114,7 +215,11 @@ export function ProductPrizeManagement() {
       createPrizeMutation.mutate({
         name: form.name,
         description: form.description,
-        quantity: quantityGiven
+        quantity: quantityGiven,
+        win_probability: winProbability,
+        pacing_curve: parsePacingCurve(form.pacing_curve),
+        prize_tier: form.prize_tier,
+        campaign_id: parseCampaignId(form.campaign_id)
       });
     }
   };
@@ -126,11 +231,18 @@ export function ProductPrizeManagement() {
         name: prize.name,
         description: prize.description,
         quantity_given: prize.total_quantity.toString(),
-        quantity_remaining: prize.available_quantity.toString()
+        quantity_remaining: prize.available_quantity.toString(),
+        restock_quantity: '',
+        win_probability: prize.win_probability === null || prize.win_probability === undefined
+          ? ''
+          : String(Number(prize.win_probability)),
+        pacing_curve: prize.pacing_curve || RANDOM_DRAW,
+        prize_tier: prize.prize_tier || 'standard',
+        campaign_id: prize.campaign_id ? String(prize.campaign_id) : NO_CAMPAIGN
       });
     } else {
       setEditingPrize(null);
-      setForm({ name: '', description: '', quantity_given: '', quantity_remaining: '' });
+      setForm({ name: '', description: '', quantity_given: '', quantity_remaining: '', restock_quantity: '', win_probability: '', pacing_curve: RANDOM_DRAW, prize_tier: 'standard', campaign_id: NO_CAMPAIGN });
     }
     setDialogOpen(true);
   };
@@ -172,8 +284,11 @@ export function ProductPrizeManagement() {
               <TableRow className="bg-admin-secondary/10">
                 <TableHead className="text-admin-text font-semibold">Name</TableHead>
                 <TableHead className="text-admin-text font-semibold">Description</TableHead>
+                <TableHead className="text-admin-text font-semibold">Campaign</TableHead>
                 <TableHead className="text-admin-text font-semibold">Quantity Given</TableHead>
                 <TableHead className="text-admin-text font-semibold">Quantity Remaining</TableHead>
+                <TableHead className="text-admin-text font-semibold">In Warehouse</TableHead>
+                <TableHead className="text-admin-text font-semibold">Win Odds</TableHead>
                 <TableHead className="text-admin-text font-semibold">Created At</TableHead>
                 <TableHead className="text-right text-admin-text font-semibold">Actions</TableHead>
               </TableRow>
@@ -181,21 +296,27 @@ export function ProductPrizeManagement() {
             <TableBody>
               {isLoading ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8 text-admin-text">
+                  <TableCell colSpan={9} className="text-center py-8 text-admin-text">
                     Loading product prizes...
                   </TableCell>
                 </TableRow>
               ) : prizes.length === 0 ? (
                 <TableRow>
-                  <TableCell colSpan={6} className="text-center py-8 text-admin-text">
+                  <TableCell colSpan={9} className="text-center py-8 text-admin-text">
                     No product prizes found. Create your first prize!
                   </TableCell>
                 </TableRow>
               ) : (
                 prizes.map((prize) => (
                   <TableRow key={prize.id} className="border-admin-border">
-                    <TableCell className="font-medium text-admin-text">{prize.name}</TableCell>
+                    <TableCell className="font-medium text-admin-text">
+                      <div>{prize.name}</div>
+                      {prize.prize_tier && prize.prize_tier !== 'standard' && (
+                        <div className="text-xs font-normal text-admin-text/70">{PRIZE_TIER_LABELS[prize.prize_tier]}</div>
+                      )}
+                    </TableCell>
                     <TableCell className="text-admin-text">{prize.description}</TableCell>
+                    <TableCell className="text-admin-text">{getCampaignName(prize.campaign_id)}</TableCell>
                     <TableCell className="text-admin-text">{prize.total_quantity || 0}</TableCell>
                     <TableCell className="text-admin-text">
                       <span className={`font-medium ${
@@ -208,6 +329,13 @@ export function ProductPrizeManagement() {
                         {prize.available_quantity || 0}
                       </span>
                     </TableCell>
+                    <TableCell className="text-admin-text">{prize.warehouse_quantity || 0}</TableCell>
+                    <TableCell className="text-admin-text">
+                      <div>{formatOdds(prize.win_probability)}</div>
+                      {prize.pacing_curve && (
+                        <div className="text-xs text-admin-text/70">Paced: {PACING_CURVE_LABELS[prize.pacing_curve]}</div>
+                      )}
+                    </TableCell>
                     <TableCell className="text-admin-text">
                       {new Date(prize.created_at).toLocaleDateString()}
                     </TableCell>
@@ -296,6 +424,88 @@ export function ProductPrizeManagement() {
                 required
               />
             </div>
+            <div>
+              <Label htmlFor="campaign_id" className="text-admin-text font-medium">Campaign</Label>
+              <Select
+                value={form.campaign_id}
+                onValueChange={(value) => setForm({ ...form, campaign_id: value })}
+              >
+                <SelectTrigger id="campaign_id" className="text-admin-text bg-admin-bg border-admin-border">
+                  <SelectValue placeholder="No campaign" />
+                </SelectTrigger>
+                <SelectContent className="bg-admin-card border-admin-border">
+                  <SelectItem value={NO_CAMPAIGN}>No campaign</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={String(campaign.id)}>
+                      {campaign.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-admin-text/60 mt-1">
+                The campaign whose prize pool this prize belongs to.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="prize_tier" className="text-admin-text font-medium">Tier</Label>
+              <Select
+                value={form.prize_tier}
+                onValueChange={(value) => setForm({ ...form, prize_tier: value as PrizeTier })}
+              >
+                <SelectTrigger id="prize_tier" className="text-admin-text bg-admin-bg border-admin-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-admin-card border-admin-border">
+                  {(Object.keys(PRIZE_TIER_LABELS) as PrizeTier[]).map((tier) => (
+                    <SelectItem key={tier} value={tier}>
+                      {PRIZE_TIER_LABELS[tier]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-admin-text/60 mt-1">
+                A consolation prize has no slice of its own: while it is in stock, it is given on every Try Again slice.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="win_probability" className="text-admin-text font-medium">Win Probability (%)</Label>
+              <Input
+                id="win_probability"
+                type="number"
+                min="0"
+                max="100"
+                step="0.001"
+                value={form.win_probability}
+                onChange={(e) => setForm({ ...form, win_probability: e.target.value })}
+                placeholder="Leave empty for default odds (e.g. 0.5 = 1 in 200 spins)"
+                className="text-admin-text bg-admin-bg border-admin-border placeholder:text-admin-text/50"
+              />
+              <p className="text-xs text-admin-text/60 mt-1">
+                Chance that a spin lands on this prize. Does not change the size of its slice on the wheel.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="pacing_curve" className="text-admin-text font-medium">Pacing</Label>
+              <Select
+                value={form.pacing_curve}
+                onValueChange={(value) => setForm({ ...form, pacing_curve: value })}
+              >
+                <SelectTrigger id="pacing_curve" className="text-admin-text bg-admin-bg border-admin-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-admin-card border-admin-border">
+                  <SelectItem value={RANDOM_DRAW}>Random draw</SelectItem>
+                  {(Object.keys(PACING_CURVE_LABELS) as PacingCurve[]).map((curve) => (
+                    <SelectItem key={curve} value={curve}>
+                      {PACING_CURVE_LABELS[curve]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-admin-text/60 mt-1">
+                Spread the stock over the campaign's dates. While the prize is behind plan its odds go up, and it is held back when ahead.
+              </p>
+            </div>
             {!editingPrize && (
               <div>
                 <Label htmlFor="quantity_given" className="text-admin-text font-medium">Quantity Given *</Label>
@@ -305,7 +515,7 @@ export function ProductPrizeManagement() {
                   min="1"
                   value={form.quantity_given}
                   onChange={(e) => setForm({ ...form, quantity_given: e.target.value })}
-                  placeholder="Enter total quantity to give out"
+                  placeholder="Enter total quantity to give out, kept in the warehouse"
                   className="text-admin-text bg-admin-bg border-admin-border placeholder:text-admin-text/50"
                   required
                 />
@@ -331,8 +541,21 @@ export function ProductPrizeManagement() {
                     className="text-admin-text/60 bg-admin-secondary/20 border-admin-border"
                   />
                 </div>
+                <div className="col-span-2">
+                  <Label htmlFor="restock_quantity" className="text-admin-text font-medium">Add to Warehouse</Label>
+                  <Input
+                    id="restock_quantity"
+                    type="number"
+                    min="0"
+                    value={form.restock_quantity}
+                    onChange={(e) => setForm({ ...form, restock_quantity: e.target.value })}
+                    placeholder="Units of new stock, if any"
+                    className="text-admin-text bg-admin-bg border-admin-border placeholder:text-admin-text/50"
+                  />
+                </div>
               </div>
             )}
+            {editingPrize && <PrizeCaps productId={editingPrize.id} />}
           </div>
           <DialogFooter>
             <Button 
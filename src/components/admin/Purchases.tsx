@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { useQuery } from "@tanstack/react-query";
+import axios from "axios";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye } from "lucide-react";
+import { Campaign } from "@/utils/campaignUtils";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+const ALL_CAMPAIGNS = "all";
+
+interface Purchase {
+  id: number;
+  campaign_id: number;
+  agent_id: string;
+  agent_name: string | null;
+  user_contact: string | null;
+  receipt_number: string;
+  till: string | null;
+  skus: string[];
+  amount: number;
+  has_photo: boolean;
+  used_at: string | null;
+  // The spin the purchase was played on, once it has been recorded
+  spin_result_id: number | null;
+  prize_label: string | null;
+  is_win: boolean | null;
+  created_at: string;
+}
+
+interface SalesGroup {
+  purchases: number;
+  amount: number;
+  wins: number;
+}
+
+// Sales attributed to one campaign
+interface PurchaseReport extends SalesGroup {
+  played: number;
+  by_sku: (SalesGroup & { sku: string })[];
+  by_agent: (SalesGroup & { agent_id: string; agent_name: string | null })[];
+}
+
+const fetchCampaigns = async (): Promise<Campaign[]> => {
+  const response = await axios.get(`${API_URL}/campaigns`);
+  return response.data;
+};
+
+const fetchPurchases = async (campaignId: string): Promise<Purchase[]> => {
+  const params = campaignId === ALL_CAMPAIGNS ? {} : { campaign_id: campaignId };
+  const response = await axios.get(`${API_URL}/purchases`, { params });
+  return response.data;
+};
+
+const fetchReport = async (campaignId: string): Promise<PurchaseReport> => {
+  const response = await axios.get(`${API_URL}/purchases/report`, { params: { campaign_id: campaignId } });
+  return response.data;
+};
+
+const formatAmount = (amount: number) => amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function Purchases() {
+  const [campaignFilter, setCampaignFilter] = useState(ALL_CAMPAIGNS);
+  // Object URL of the receipt photo being viewed
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
+  const { data: campaigns = [] } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: fetchCampaigns
+  });
+  const { data: purchases = [], isLoading, error } = useQuery({
+    queryKey: ['purchases', campaignFilter],
+    queryFn: () => fetchPurchases(campaignFilter)
+  });
+  const { data: report } = useQuery({
+    queryKey: ['purchaseReport', campaignFilter],
+    queryFn: () => fetchReport(campaignFilter),
+    enabled: campaignFilter !== ALL_CAMPAIGNS
+  });
+
+  // The photo needs the admin's token, so it is fetched rather than linked to
+  const openPhoto = async (purchaseId: number) => {
+    try {
+      const response = await axios.get(`${API_URL}/purchases/${purchaseId}/receipt`, { responseType: 'blob' });
+      setPhotoUrl(URL.createObjectURL(response.data));
+    } catch (error) {
+      console.error('Receipt photo error:', error);
+      toast.error("Failed to load the receipt photo");
+    }
+  };
+
+  const closePhoto = () => {
+    if (photoUrl) {
+      URL.revokeObjectURL(photoUrl);
+    }
+    setPhotoUrl(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {report && (
+        <Card className="bg-admin-card border-admin-border">
+          <CardHeader className="bg-admin-secondary/20">
+            <CardTitle className="text-admin-text">Sales Attribution</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4 text-admin-text">
+            <div className="grid grid-cols-4 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{report.purchases}</div>
+                <div className="text-xs text-admin-text/70">Receipts</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{formatAmount(report.amount)}</div>
+                <div className="text-xs text-admin-text/70">Sales</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.played}</div>
+                <div className="text-xs text-admin-text/70">Played</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.wins}</div>
+                <div className="text-xs text-admin-text/70">Won a prize</div>
+              </div>
+            </div>
+            <div className="grid md:grid-cols-2 gap-4">
+              {report.by_sku.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-admin-secondary/10">
+                      <TableHead className="text-admin-text font-semibold">SKU</TableHead>
+                      <TableHead className="text-right text-admin-text font-semibold">Receipts</TableHead>
+                      <TableHead className="text-right text-admin-text font-semibold">Wins</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.by_sku.map((group) => (
+                      <TableRow key={group.sku} className="border-admin-border">
+                        <TableCell className="text-admin-text">{group.sku}</TableCell>
+                        <TableCell className="text-right text-admin-text">{group.purchases}</TableCell>
+                        <TableCell className="text-right text-admin-text">{group.wins}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {report.by_agent.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-admin-secondary/10">
+                      <TableHead className="text-admin-text font-semibold">BA</TableHead>
+                      <TableHead className="text-right text-admin-text font-semibold">Receipts</TableHead>
+                      <TableHead className="text-right text-admin-text font-semibold">Sales</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.by_agent.map((group) => (
+                      <TableRow key={group.agent_id} className="border-admin-border">
+                        <TableCell className="text-admin-text">{group.agent_name || group.agent_id}</TableCell>
+                        <TableCell className="text-right text-admin-text">{group.purchases}</TableCell>
+                        <TableCell className="text-right text-admin-text">{formatAmount(group.amount)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+            <p className="text-xs text-admin-text/60">
+              A receipt with several SKUs counts once for each of them.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="flex justify-between items-center gap-4 text-admin-text">
+            <span>Purchases</span>
+            <Select value={campaignFilter} onValueChange={setCampaignFilter}>
+              <SelectTrigger className="w-[220px] text-admin-text bg-admin-bg border-admin-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CAMPAIGNS}>All campaigns</SelectItem>
+                {campaigns.filter((campaign) => campaign.purchase_settings).map((campaign) => (
+                  <SelectItem key={campaign.id} value={String(campaign.id)}>
+                    {campaign.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-admin-secondary/10">
+                <TableHead className="text-admin-text font-semibold">Date</TableHead>
+                <TableHead className="text-admin-text font-semibold">Receipt</TableHead>
+                <TableHead className="text-admin-text font-semibold">SKUs</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Amount</TableHead>
+                <TableHead className="text-admin-text font-semibold">BA</TableHead>
+                <TableHead className="text-admin-text font-semibold">Customer</TableHead>
+                <TableHead className="text-admin-text font-semibold">Spin</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Photo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {error ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-red-600">
+                    Error loading purchases: {error.message}
+                  </TableCell>
+                </TableRow>
+              ) : isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-admin-text">
+                    Loading purchases...
+                  </TableCell>
+                </TableRow>
+              ) : purchases.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="text-center py-8 text-admin-text">
+                    No purchases yet. Turn on Proof of Purchase in a campaign to have BAs enter receipts.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                purchases.map((purchase) => (
+                  <TableRow key={purchase.id} className="border-admin-border">
+                    <TableCell className="text-admin-text text-sm whitespace-nowrap">
+                      {format(new Date(purchase.created_at), 'dd MMM yyyy HH:mm')}
+                    </TableCell>
+                    <TableCell className="text-admin-text">
+                      <div className="font-medium">{purchase.receipt_number}</div>
+                      {purchase.till && <div className="text-xs text-admin-text/70">{purchase.till}</div>}
+                    </TableCell>
+                    <TableCell className="text-admin-text text-sm">{purchase.skus.join(', ')}</TableCell>
+                    <TableCell className="text-right text-admin-text">{formatAmount(purchase.amount)}</TableCell>
+                    <TableCell className="text-admin-text">{purchase.agent_name || purchase.agent_id}</TableCell>
+                    <TableCell className="text-admin-text text-sm">{purchase.user_contact || '-'}</TableCell>
+                    <TableCell className="text-admin-text text-sm">
+                      {purchase.spin_result_id ? (
+                        <span className={purchase.is_win ? 'font-semibold text-green-700' : ''}>{purchase.prize_label}</span>
+                      ) : (
+                        <span className="text-admin-text/60">{purchase.used_at ? 'Drawn' : 'Not played'}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {purchase.has_photo && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openPhoto(purchase.id)}
+                          className="text-admin-primary hover:text-admin-primary hover:bg-admin-secondary/20"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!photoUrl} onOpenChange={(open) => !open && closePhoto()}>
+        <DialogContent className="bg-admin-card border-admin-border max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-admin-text">Receipt Photo</DialogTitle>
+            <DialogDescription className="text-admin-text/80">
+              As uploaded by the BA before the customer played
+            </DialogDescription>
+          </DialogHeader>
+          {photoUrl && <img src={photoUrl} alt="Receipt" className="w-full rounded" />}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
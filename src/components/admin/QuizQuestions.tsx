@@ -0,0 +1,454 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { toast } from "sonner";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Edit, Trash2 } from "lucide-react";
+import { Campaign } from "@/utils/campaignUtils";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+const ALL_CAMPAIGNS = "all";
+// Questions without a campaign are asked in every campaign with a quiz
+const SHARED = "shared";
+
+interface QuizQuestion {
+  id: number;
+  campaign_id: number | null;
+  question: string;
+  options: string[];
+  correct_option: number;
+  is_active: boolean;
+}
+
+// How customers of one campaign did on its quiz
+interface QuizReport {
+  attempts: number;
+  passed: number;
+  played: number;
+  questions: { question_id: number; question: string; asked: number; correct: number }[];
+}
+
+const emptyForm = {
+  campaign_id: SHARED,
+  question: '',
+  // One option per line
+  options: '',
+  correct_option: '0',
+  is_active: true
+};
+
+type QuestionForm = typeof emptyForm;
+
+const fetchCampaigns = async (): Promise<Campaign[]> => {
+  const response = await axios.get(`${API_URL}/campaigns`);
+  return response.data;
+};
+
+const fetchQuestions = async (campaignId: string): Promise<QuizQuestion[]> => {
+  const params = campaignId === ALL_CAMPAIGNS ? {} : { campaign_id: campaignId };
+  const response = await axios.get(`${API_URL}/quiz-questions`, { params });
+  return response.data;
+};
+
+const fetchReport = async (campaignId: string): Promise<QuizReport> => {
+  const response = await axios.get(`${API_URL}/quiz-questions/report`, { params: { campaign_id: campaignId } });
+  return response.data;
+};
+
+const textToOptions = (text: string) => text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+const toPercent = (count: number, total: number) => (total > 0 ? `${Math.round((count / total) * 100)}%` : '-');
+
+// Prefer the validation message returned by the API
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
+export function QuizQuestions() {
+  const [campaignFilter, setCampaignFilter] = useState(ALL_CAMPAIGNS);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingQuestion, setEditingQuestion] = useState<QuizQuestion | null>(null);
+  const [form, setForm] = useState<QuestionForm>(emptyForm);
+
+  const queryClient = useQueryClient();
+
+  const { data: campaigns = [] } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: fetchCampaigns
+  });
+
+  const { data: questions = [], isLoading, error } = useQuery({
+    queryKey: ['quizQuestions', campaignFilter],
+    queryFn: () => fetchQuestions(campaignFilter)
+  });
+
+  const { data: report } = useQuery({
+    queryKey: ['quizReport', campaignFilter],
+    queryFn: () => fetchReport(campaignFilter),
+    enabled: campaignFilter !== ALL_CAMPAIGNS
+  });
+
+  const campaignName = (campaignId: number | null) =>
+    campaignId === null ? 'All campaigns' : campaigns.find((campaign) => campaign.id === campaignId)?.name || `#${campaignId}`;
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingQuestion(null);
+    setForm(emptyForm);
+  };
+
+  const saveQuestionMutation = useMutation({
+    mutationFn: async ({ id, ...data }: Record<string, unknown> & { id?: number }) => {
+      const response = id
+        ? await axios.put(`${API_URL}/quiz-questions/${id}`, data)
+        : await axios.post(`${API_URL}/quiz-questions`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success(editingQuestion ? "Question updated successfully" : "Question added successfully");
+      queryClient.invalidateQueries({ queryKey: ['quizQuestions'] });
+      closeDialog();
+    },
+    onError: (error) => {
+      console.error('Save quiz question error:', error);
+      toast.error(getErrorMessage(error, "Failed to save question"));
+    }
+  });
+
+  const deleteQuestionMutation = useMutation({
+    mutationFn: (id: number) => axios.delete(`${API_URL}/quiz-questions/${id}`),
+    onSuccess: () => {
+      toast.success("Question deleted successfully");
+      queryClient.invalidateQueries({ queryKey: ['quizQuestions'] });
+    },
+    onError: (error) => {
+      console.error('Delete quiz question error:', error);
+      toast.error(getErrorMessage(error, "Failed to delete question"));
+    }
+  });
+
+  const options = textToOptions(form.options);
+
+  const handleSubmit = () => {
+    if (!form.question.trim()) {
+      toast.error("Please enter the question");
+      return;
+    }
+    if (options.length < 2 || options.length > 6) {
+      toast.error("A question needs 2 to 6 answers, one per line");
+      return;
+    }
+    if (Number(form.correct_option) >= options.length) {
+      toast.error("Please choose the correct answer");
+      return;
+    }
+
+    saveQuestionMutation.mutate({
+      id: editingQuestion?.id,
+      campaign_id: form.campaign_id === SHARED ? null : Number(form.campaign_id),
+      question: form.question.trim(),
+      options,
+      correct_option: Number(form.correct_option),
+      is_active: form.is_active
+    });
+  };
+
+  const openDialog = (question?: QuizQuestion) => {
+    if (question) {
+      setEditingQuestion(question);
+      setForm({
+        campaign_id: question.campaign_id === null ? SHARED : String(question.campaign_id),
+        question: question.question,
+        options: question.options.join('\n'),
+        correct_option: String(question.correct_option),
+        is_active: question.is_active
+      });
+    } else {
+      setEditingQuestion(null);
+      setForm({
+        ...emptyForm,
+        campaign_id: campaignFilter === ALL_CAMPAIGNS ? SHARED : campaignFilter
+      });
+    }
+    setDialogOpen(true);
+  };
+
+  const inputClassName = "text-admin-text bg-admin-bg border-admin-border placeholder:text-admin-text/50";
+
+  return (
+    <div className="space-y-6 bg-admin-bg p-6 rounded-lg">
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="flex justify-between items-center gap-4 text-admin-text">
+            <span>Quiz Questions</span>
+            <div className="flex items-center gap-2">
+              <Select value={campaignFilter} onValueChange={setCampaignFilter}>
+                <SelectTrigger className="w-[220px] text-admin-text bg-admin-bg border-admin-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CAMPAIGNS}>All questions</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={String(campaign.id)}>
+                      {campaign.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => openDialog()}
+                className="flex items-center gap-2 bg-admin-primary hover:bg-admin-primary/90 text-white"
+              >
+                <Plus className="h-4 w-4" />
+                Add Question
+              </Button>
+            </div>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-admin-secondary/10">
+                <TableHead className="text-admin-text font-semibold">Question</TableHead>
+                <TableHead className="text-admin-text font-semibold">Answers</TableHead>
+                <TableHead className="text-admin-text font-semibold">Asked In</TableHead>
+                <TableHead className="text-admin-text font-semibold">Status</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {error ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-red-600">
+                    Error loading questions: {error.message}
+                  </TableCell>
+                </TableRow>
+              ) : isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-admin-text">
+                    Loading questions...
+                  </TableCell>
+                </TableRow>
+              ) : questions.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-admin-text">
+                    No questions yet. Campaigns with a quiz are played without one until questions are added.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                questions.map((question) => (
+                  <TableRow key={question.id} className="border-admin-border">
+                    <TableCell className="font-medium text-admin-text">{question.question}</TableCell>
+                    <TableCell className="text-admin-text text-sm">
+                      {question.options.map((option, i) => (
+                        <div key={i} className={i === question.correct_option ? 'font-semibold text-green-700' : 'text-admin-text/70'}>
+                          {option}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-admin-text">{campaignName(question.campaign_id)}</TableCell>
+                    <TableCell>
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${question.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'}`}>
+                        {question.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openDialog(question)}
+                        className="text-admin-primary hover:text-admin-primary hover:bg-admin-secondary/20"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="bg-admin-card border-admin-border">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle className="text-admin-text">Delete Question</AlertDialogTitle>
+                            <AlertDialogDescription className="text-admin-text/80">
+                              Are you sure you want to delete this question? Answers customers already gave stay in the quiz report. To stop asking it for now, make it inactive instead.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel className="text-admin-text bg-admin-secondary hover:bg-admin-secondary/80">
+                              Cancel
+                            </AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => deleteQuestionMutation.mutate(question.id)}
+                              className="bg-red-600 hover:bg-red-700 text-white"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <Card className="bg-admin-card border-admin-border">
+          <CardHeader className="bg-admin-secondary/20">
+            <CardTitle className="text-admin-text">Quiz Engagement</CardTitle>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4 text-admin-text">
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <div className="text-2xl font-bold">{report.attempts}</div>
+                <div className="text-xs text-admin-text/70">Quizzes answered</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{toPercent(report.passed, report.attempts)}</div>
+                <div className="text-xs text-admin-text/70">Passed</div>
+              </div>
+              <div>
+                <div className="text-2xl font-bold">{report.played}</div>
+                <div className="text-xs text-admin-text/70">Went on to play</div>
+              </div>
+            </div>
+            {report.questions.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-admin-secondary/10">
+                    <TableHead className="text-admin-text font-semibold">Question</TableHead>
+                    <TableHead className="text-right text-admin-text font-semibold">Asked</TableHead>
+                    <TableHead className="text-right text-admin-text font-semibold">Answered Correctly</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.questions.map((question) => (
+                    <TableRow key={question.question_id} className="border-admin-border">
+                      <TableCell className="text-admin-text">{question.question}</TableCell>
+                      <TableCell className="text-right text-admin-text">{question.asked}</TableCell>
+                      <TableCell className="text-right text-admin-text">{toPercent(question.correct, question.asked)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Add/Edit Dialog */}
+      <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : closeDialog())}>
+        <DialogContent className="bg-admin-card border-admin-border max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-admin-text">
+              {editingQuestion ? 'Edit Question' : 'Add Question'}
+            </DialogTitle>
+            <DialogDescription className="text-admin-text/80">
+              Customers answer questions from the bank before they play in campaigns with a quiz
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="quiz_campaign" className="text-admin-text font-medium">Asked In</Label>
+              <Select value={form.campaign_id} onValueChange={(value) => setForm({ ...form, campaign_id: value })}>
+                <SelectTrigger id="quiz_campaign" className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-admin-card border-admin-border">
+                  <SelectItem value={SHARED}>All campaigns</SelectItem>
+                  {campaigns.map((campaign) => (
+                    <SelectItem key={campaign.id} value={String(campaign.id)}>
+                      {campaign.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="quiz_question" className="text-admin-text font-medium">Question *</Label>
+              <Input
+                id="quiz_question"
+                value={form.question}
+                onChange={(e) => setForm({ ...form, question: e.target.value })}
+                placeholder="What size is Ilara Maziwa?"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <Label htmlFor="quiz_options" className="text-admin-text font-medium">Answers *</Label>
+              <Textarea
+                id="quiz_options"
+                value={form.options}
+                onChange={(e) => setForm({ ...form, options: e.target.value })}
+                placeholder={"250ml\n500ml\n1 litre"}
+                rows={4}
+                className={inputClassName}
+              />
+              <p className="text-xs text-admin-text/60 mt-1">
+                One answer per line, 2 to 6 answers, in the order customers see them.
+              </p>
+            </div>
+            <div>
+              <Label htmlFor="quiz_correct" className="text-admin-text font-medium">Correct Answer *</Label>
+              <Select
+                value={form.correct_option}
+                onValueChange={(value) => setForm({ ...form, correct_option: value })}
+                disabled={options.length === 0}
+              >
+                <SelectTrigger id="quiz_correct" className={inputClassName}>
+                  <SelectValue placeholder="Enter the answers first" />
+                </SelectTrigger>
+                <SelectContent className="bg-admin-card border-admin-border">
+                  {options.map((option, i) => (
+                    <SelectItem key={i} value={String(i)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-3">
+              <Switch
+                id="quiz_active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+              <Label htmlFor="quiz_active" className="text-admin-text font-medium">Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={closeDialog}
+              className="text-admin-text bg-admin-secondary hover:bg-admin-secondary/80 border-admin-border"
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={saveQuestionMutation.isPending}
+              className="bg-admin-primary hover:bg-admin-primary/90 text-white"
+            >
+              {saveQuestionMutation.isPending ? 'Saving...' : editingQuestion ? 'Update Question' : 'Add Question'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { toast } from "sonner";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Ban, CheckCircle } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+import { CLAIM_STATUS_CLASSES, CLAIM_STATUS_LABELS, ClaimStatus } from "@/utils/claimUtils";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+type FlagStatus = 'open' | 'dismissed' | 'voided' | 'all';
+type ReviewAction = 'dismiss' | 'void';
+
+// A suspicious pattern found by one of the fraud rules
+interface SpinFlag {
+  id: number;
+  rule: string;
+  details: string;
+  status: Exclude<FlagStatus, 'all'>;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewed_by: string | null;
+  review_note: string | null;
+}
+
+// A spin with the flags raised against it
+interface FlaggedSpin {
+  id: number;
+  date: string;
+  agent_id: string | null;
+  agent_name: string | null;
+  user_name: string;
+  user_contact: string;
+  prize_label: string;
+  is_win: boolean;
+  ip_address: string | null;
+  claim_status: ClaimStatus | null;
+  flags: SpinFlag[];
+}
+
+const RULE_LABELS: Record<string, string> = {
+  device_velocity: 'Many spins from one device',
+  ip_velocity: 'Many spins from one IP address',
+  agent_win_rate: 'Agent win rate above the odds',
+  similar_registrations: 'Similar registrations',
+  outside_campaign_hours: 'Outside campaign hours',
+};
+
+const fetchFlaggedSpins = async (status: FlagStatus): Promise<FlaggedSpin[]> => {
+  const response = await axios.get(`${API_URL}/spin-reviews`, { params: { status } });
+  return response.data;
+};
+
+// Prefer the validation message returned by the API
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
+export function SpinReviews() {
+  const [status, setStatus] = useState<FlagStatus>('open');
+  const [reviewing, setReviewing] = useState<{ spin: FlaggedSpin; action: ReviewAction } | null>(null);
+  const [note, setNote] = useState('');
+  const { can } = useAuth();
+
+  const queryClient = useQueryClient();
+
+  const { data: spins = [], isLoading, error } = useQuery({
+    queryKey: ['spinReviews', status],
+    queryFn: () => fetchFlaggedSpins(status)
+  });
+
+  const closeDialog = () => {
+    setReviewing(null);
+    setNote('');
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: ({ id, action, note }: { id: number; action: ReviewAction; note: string }) =>
+      axios.post(`${API_URL}/spin-reviews/${id}/${action}`, { note }),
+    onSuccess: (response, { action }) => {
+      toast.success(action === 'void'
+        ? response.data.stock_returned ? "Win voided and the prize returned to stock" : "Win voided"
+        : "Flags dismissed");
+      queryClient.invalidateQueries({ queryKey: ['spinReviews'] });
+      queryClient.invalidateQueries({ queryKey: ['spinResults'] });
+      closeDialog();
+    },
+    onError: (error) => {
+      console.error('Review spin error:', error);
+      toast.error(getErrorMessage(error, "Failed to save the review"));
+    }
+  });
+
+  if (error) {
+    return (
+      <Card className="bg-admin-card border-admin-border">
+        <CardContent className="p-6 text-center">
+          <p className="text-red-600">Error loading flagged spins: {error.message}</p>
+          <Button
+            onClick={() => queryClient.invalidateQueries({ queryKey: ['spinReviews'] })}
+            className="mt-4 bg-admin-primary hover:bg-admin-primary/90 text-white"
+          >
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 bg-admin-bg p-6 rounded-lg">
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="flex justify-between items-center text-admin-text">
+            <span>Fraud Review Queue</span>
+            <Select value={status} onValueChange={(value) => setStatus(value as FlagStatus)}>
+              <SelectTrigger className="w-[160px] text-admin-text bg-admin-bg border-admin-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="dismissed">Dismissed</SelectItem>
+                <SelectItem value="voided">Voided</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-admin-secondary/10">
+                <TableHead className="text-admin-text font-semibold">Played</TableHead>
+                <TableHead className="text-admin-text font-semibold">Agent</TableHead>
+                <TableHead className="text-admin-text font-semibold">Customer</TableHead>
+                <TableHead className="text-admin-text font-semibold">Prize</TableHead>
+                <TableHead className="text-admin-text font-semibold">Flags</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Review</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-admin-text">
+                    Loading flagged spins...
+                  </TableCell>
+                </TableRow>
+              ) : spins.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-admin-text">
+                    No flagged spins found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                spins.map((spin) => {
+                  const isOpen = spin.flags.some((flag) => flag.status === 'open');
+                  const reviewed = spin.flags.find((flag) => flag.reviewed_at);
+                  return (
+                    <TableRow key={spin.id} className="border-admin-border">
+                      <TableCell className="text-admin-text">
+                        <div>{new Date(spin.date).toLocaleString()}</div>
+                        <div className="text-xs text-admin-text/70">Spin #{spin.id}{spin.ip_address ? ` · ${spin.ip_address}` : ''}</div>
+                      </TableCell>
+                      <TableCell className="text-admin-text">{spin.agent_name || spin.agent_id || '-'}</TableCell>
+                      <TableCell className="text-admin-text">
+                        <div>{spin.user_name}</div>
+                        <div className="text-xs text-admin-text/70">{spin.user_contact}</div>
+                      </TableCell>
+                      <TableCell className="text-admin-text">
+                        <div>{spin.prize_label}</div>
+                        {spin.claim_status && (
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${CLAIM_STATUS_CLASSES[spin.claim_status]}`}>
+                            {CLAIM_STATUS_LABELS[spin.claim_status]}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-admin-text">
+                        {spin.flags.map((flag) => (
+                          <div key={flag.id} className="mb-1">
+                            <div className="font-medium">{RULE_LABELS[flag.rule] || flag.rule}</div>
+                            <div className="text-xs text-admin-text/70">{flag.details}</div>
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!isOpen ? (
+                          <div className="text-xs text-admin-text/70">
+                            <div className={reviewed?.status === 'voided' ? "text-red-700 font-medium" : "text-green-700 font-medium"}>
+                              {reviewed?.status === 'voided' ? 'Voided' : 'Dismissed'} by {reviewed?.reviewed_by}
+                            </div>
+                            {reviewed?.review_note && <div>{reviewed.review_note}</div>}
+                          </div>
+                        ) : can("fraud:review") ? (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setReviewing({ spin, action: 'dismiss' })}
+                              className="text-admin-primary hover:text-admin-primary hover:bg-admin-secondary/20"
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Dismiss
+                            </Button>
+                            {spin.claim_status === 'unclaimed' || spin.claim_status === 'expired' ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setReviewing({ spin, action: 'void' })}
+                                className="text-red-600 hover:text-red-800 hover:bg-red-50"
+                              >
+                                <Ban className="h-4 w-4 mr-1" />
+                                Void Win
+                              </Button>
+                            ) : null}
+                          </div>
+                        ) : (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Open</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="bg-admin-card border-admin-border">
+          <DialogHeader>
+            <DialogTitle className="text-admin-text">
+              {reviewing?.action === 'void' ? 'Void Win' : 'Dismiss Flags'}
+            </DialogTitle>
+            <DialogDescription className="text-admin-text/80">
+              {reviewing?.action === 'void'
+                ? `The claim code for ${reviewing.spin.prize_label} stops working and the prize goes back into stock.`
+                : 'The spin is fine. Note why, for example who the BA checked with.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Review note"
+            maxLength={500}
+            className="text-admin-text bg-admin-bg border-admin-border placeholder:text-admin-text/50"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={() => reviewing && reviewMutation.mutate({ id: reviewing.spin.id, action: reviewing.action, note })}
+              disabled={reviewMutation.isPending}
+              className={reviewing?.action === 'void'
+                ? "bg-red-600 hover:bg-red-700 text-white"
+                : "bg-admin-primary hover:bg-admin-primary/90 text-white"}
+            >
+              {reviewMutation.isPending ? "Saving..." : reviewing?.action === 'void' ? "Void Win" : "Dismiss"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
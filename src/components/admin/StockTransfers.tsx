@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { toast } from "sonner";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowRight } from "lucide-react";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+// Select value for the warehouse, which the API expects as a missing agent ID
+const WAREHOUSE = "warehouse";
+
+interface StockTransfer {
+  id: number;
+  product_id: string;
+  product_name: string | null;
+  from_agent_id: string | null;
+  from_agent_name: string | null;
+  to_agent_id: string | null;
+  to_agent_name: string | null;
+  quantity: number;
+  actor: string;
+  reason: string | null;
+  created_at: string;
+}
+
+interface AgentOption {
+  agent_id: string;
+  name: string;
+}
+
+// Something the chosen source holds that can be moved
+interface StockOption {
+  product_id: string;
+  product_name: string;
+  campaign_id: number | null;
+  available_quantity: number;
+}
+
+const emptyForm = {
+  from: WAREHOUSE,
+  to: '',
+  stock: '',
+  quantity: '',
+  reason: ''
+};
+
+const fetchTransfers = async (): Promise<StockTransfer[]> => {
+  const response = await axios.get(`${API_URL}/stock-transfers`);
+  return response.data;
+};
+
+const fetchAgents = async (): Promise<AgentOption[]> => {
+  const response = await axios.get(`${API_URL}/agents`);
+  return response.data;
+};
+
+const fetchStockOptions = async (from: string): Promise<StockOption[]> => {
+  const response = await axios.get(`${API_URL}/inventory`, { params: { agent_id: from, available_only: true } });
+  return response.data;
+};
+
+// Prefer the validation message returned by the API
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
+const holderName = (agentId: string | null, agentName: string | null) =>
+  agentId ? agentName || agentId : 'Warehouse';
+
+const stockKey = (option: StockOption) => `${option.product_id}:${option.campaign_id ?? ''}`;
+
+export function StockTransfers() {
+  const [form, setForm] = useState(emptyForm);
+
+  const queryClient = useQueryClient();
+
+  const { data: transfers = [], isLoading, error } = useQuery({
+    queryKey: ['stockTransfers'],
+    queryFn: fetchTransfers
+  });
+
+  const { data: agents = [] } = useQuery({
+    queryKey: ['agents'],
+    queryFn: fetchAgents
+  });
+
+  const { data: stockOptions = [] } = useQuery({
+    queryKey: ['transferStockOptions', form.from],
+    queryFn: () => fetchStockOptions(form.from)
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (data: Record<string, unknown>) => {
+      const response = await axios.post(`${API_URL}/stock-transfers`, data);
+      return response.data;
+    },
+    onSuccess: () => {
+      toast.success("Stock transferred successfully");
+      queryClient.invalidateQueries({ queryKey: ['stockTransfers'] });
+      queryClient.invalidateQueries({ queryKey: ['transferStockOptions'] });
+      queryClient.invalidateQueries({ queryKey: ['inventoryMovements'] });
+      queryClient.invalidateQueries({ queryKey: ['productPrizes'] });
+      setForm(emptyForm);
+    },
+    onError: (error) => {
+      console.error('Stock transfer error:', error);
+      toast.error(getErrorMessage(error, "Failed to transfer stock"));
+    }
+  });
+
+  const handleSubmit = () => {
+    const stock = stockOptions.find((option) => stockKey(option) === form.stock);
+    const quantity = parseInt(form.quantity, 10);
+
+    if (!form.to || !stock || !(quantity > 0)) {
+      toast.error("Please choose where the stock goes, the product and a quantity");
+      return;
+    }
+
+    if (form.from === form.to) {
+      toast.error("Stock must move between two different holders");
+      return;
+    }
+
+    if (quantity > stock.available_quantity) {
+      toast.error(`Only ${stock.available_quantity} ${stock.product_name} available to transfer`);
+      return;
+    }
+
+    transferMutation.mutate({
+      product_id: stock.product_id,
+      campaign_id: stock.campaign_id,
+      from_agent_id: form.from === WAREHOUSE ? null : form.from,
+      to_agent_id: form.to === WAREHOUSE ? null : form.to,
+      quantity,
+      reason: form.reason.trim() || undefined
+    });
+  };
+
+  const selectClassName = "w-full text-admin-text bg-admin-bg border-admin-border";
+
+  const holderOptions = (
+    <>
+      <SelectItem value={WAREHOUSE}>Warehouse</SelectItem>
+      {agents.map((agent) => (
+        <SelectItem key={agent.agent_id} value={agent.agent_id}>{agent.name}</SelectItem>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="space-y-6 bg-admin-bg p-6 rounded-lg">
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="text-admin-text">Transfer Stock</CardTitle>
+        </CardHeader>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-3 items-end">
+            <div className="space-y-2">
+              <Label className="text-admin-text">From</Label>
+              <Select value={form.from} onValueChange={(value) => setForm({ ...form, from: value, stock: '' })}>
+                <SelectTrigger className={selectClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>{holderOptions}</SelectContent>
+              </Select>
+            </div>
+            <ArrowRight className="hidden md:block h-5 w-5 mb-2 text-admin-text" />
+            <div className="space-y-2">
+              <Label className="text-admin-text">To</Label>
+              <Select value={form.to} onValueChange={(value) => setForm({ ...form, to: value })}>
+                <SelectTrigger className={selectClassName}>
+                  <SelectValue placeholder="Choose where the stock goes" />
+                </SelectTrigger>
+                <SelectContent>{holderOptions}</SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label className="text-admin-text">Product</Label>
+              <Select value={form.stock} onValueChange={(value) => setForm({ ...form, stock: value })}>
+                <SelectTrigger className={selectClassName}>
+                  <SelectValue placeholder={stockOptions.length === 0 ? "No stock to transfer" : "Choose a product"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {stockOptions.map((option) => (
+                    <SelectItem key={stockKey(option)} value={stockKey(option)}>
+                      {option.product_name} ({option.available_quantity} available)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transferQuantity" className="text-admin-text">Quantity</Label>
+              <Input
+                id="transferQuantity"
+                type="number"
+                min={1}
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+                className="bg-admin-bg border-admin-border text-admin-text"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transferReason" className="text-admin-text">Reason</Label>
+              <Input
+                id="transferReason"
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                placeholder="e.g. End of shift return"
+                className="bg-admin-bg border-admin-border text-admin-text"
+              />
+            </div>
+          </div>
+          <Button
+            onClick={handleSubmit}
+            disabled={transferMutation.isPending}
+            className="bg-admin-primary hover:bg-admin-primary/90 text-white"
+          >
+            {transferMutation.isPending ? "Transferring..." : "Transfer"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="text-admin-text">Recent Transfers</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-admin-secondary/10">
+                <TableHead className="text-admin-text font-semibold">When</TableHead>
+                <TableHead className="text-admin-text font-semibold">Product</TableHead>
+                <TableHead className="text-admin-text font-semibold">From</TableHead>
+                <TableHead className="text-admin-text font-semibold">To</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Quantity</TableHead>
+                <TableHead className="text-admin-text font-semibold">By</TableHead>
+                <TableHead className="text-admin-text font-semibold">Reason</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {error ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-red-600">
+                    Error loading transfers: {error.message}
+                  </TableCell>
+                </TableRow>
+              ) : isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-admin-text">
+                    Loading transfers...
+                  </TableCell>
+                </TableRow>
+              ) : transfers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-admin-text">
+                    No stock has been transferred yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                transfers.map((transfer) => (
+                  <TableRow key={transfer.id} className="border-admin-border">
+                    <TableCell className="text-admin-text whitespace-nowrap">
+                      {new Date(transfer.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-admin-text">{transfer.product_name || transfer.product_id}</TableCell>
+                    <TableCell className="text-admin-text">{holderName(transfer.from_agent_id, transfer.from_agent_name)}</TableCell>
+                    <TableCell className="text-admin-text">{holderName(transfer.to_agent_id, transfer.to_agent_name)}</TableCell>
+                    <TableCell className="text-right font-medium text-admin-text">{transfer.quantity}</TableCell>
+                    <TableCell className="text-admin-text">{transfer.actor}</TableCell>
+                    <TableCell className="text-admin-text">{transfer.reason || '-'}</TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
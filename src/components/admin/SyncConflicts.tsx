@@ -0,0 +1,214 @@
+import React, { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import axios from "axios";
+import { toast } from "sonner";
+import { Table, TableHeader, TableRow, TableHead, TableBody, TableCell } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle } from "lucide-react";
+import { useAuth } from "@/context/AuthContext";
+
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+type ConflictStatus = 'open' | 'resolved' | 'all';
+
+// An offline spin that could not be synced cleanly
+interface SyncConflict {
+  id: number;
+  idempotency_key: string;
+  spin_result_id: number | null;
+  agent_id: string | null;
+  agent_name: string | null;
+  reason: string;
+  payload: {
+    name?: string;
+    email?: string;
+    prize_label?: string;
+    played_at?: string;
+    has_spin_token?: boolean;
+  };
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  resolution_note: string | null;
+}
+
+const fetchConflicts = async (status: ConflictStatus): Promise<SyncConflict[]> => {
+  const response = await axios.get(`${API_URL}/spins/conflicts`, { params: { status } });
+  return response.data;
+};
+
+// Prefer the validation message returned by the API
+const getErrorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) && error.response?.data?.message) || fallback;
+
+export function SyncConflicts() {
+  const [status, setStatus] = useState<ConflictStatus>('open');
+  const [resolving, setResolving] = useState<SyncConflict | null>(null);
+  const [note, setNote] = useState('');
+  const { can } = useAuth();
+
+  const queryClient = useQueryClient();
+
+  const { data: conflicts = [], isLoading, error } = useQuery({
+    queryKey: ['syncConflicts', status],
+    queryFn: () => fetchConflicts(status)
+  });
+
+  const closeDialog = () => {
+    setResolving(null);
+    setNote('');
+  };
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, note }: { id: number; note: string }) =>
+      axios.post(`${API_URL}/spins/conflicts/${id}/resolve`, { note }),
+    onSuccess: () => {
+      toast.success("Conflict marked as resolved");
+      queryClient.invalidateQueries({ queryKey: ['syncConflicts'] });
+      closeDialog();
+    },
+    onError: (error) => {
+      console.error('Resolve conflict error:', error);
+      toast.error(getErrorMessage(error, "Failed to resolve conflict"));
+    }
+  });
+
+  if (error) {
+    return (
+      <Card className="bg-admin-card border-admin-border">
+        <CardContent className="p-6 text-center">
+          <p className="text-red-600">Error loading sync conflicts: {error.message}</p>
+          <Button
+            onClick={() => queryClient.invalidateQueries({ queryKey: ['syncConflicts'] })}
+            className="mt-4 bg-admin-primary hover:bg-admin-primary/90 text-white"
+          >
+            Retry
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 bg-admin-bg p-6 rounded-lg">
+      <Card className="bg-admin-card border-admin-border">
+        <CardHeader className="bg-admin-secondary/20">
+          <CardTitle className="flex justify-between items-center text-admin-text">
+            <span>Offline Sync Conflicts</span>
+            <Select value={status} onValueChange={(value) => setStatus(value as ConflictStatus)}>
+              <SelectTrigger className="w-[160px] text-admin-text bg-admin-bg border-admin-border">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="resolved">Resolved</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-admin-secondary/10">
+                <TableHead className="text-admin-text font-semibold">Played</TableHead>
+                <TableHead className="text-admin-text font-semibold">Agent</TableHead>
+                <TableHead className="text-admin-text font-semibold">Customer</TableHead>
+                <TableHead className="text-admin-text font-semibold">Prize</TableHead>
+                <TableHead className="text-admin-text font-semibold">Problem</TableHead>
+                <TableHead className="text-right text-admin-text font-semibold">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-admin-text">
+                    Loading sync conflicts...
+                  </TableCell>
+                </TableRow>
+              ) : conflicts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-admin-text">
+                    No sync conflicts found.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                conflicts.map((conflict) => (
+                  <TableRow key={conflict.id} className="border-admin-border">
+                    <TableCell className="text-admin-text">
+                      {new Date(conflict.payload.played_at || conflict.created_at).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-admin-text">{conflict.agent_name || conflict.agent_id || '-'}</TableCell>
+                    <TableCell className="text-admin-text">
+                      <div>{conflict.payload.name || 'Anonymous'}</div>
+                      <div className="text-xs text-admin-text/70">{conflict.payload.email || ''}</div>
+                    </TableCell>
+                    <TableCell className="text-admin-text">{conflict.payload.prize_label || '-'}</TableCell>
+                    <TableCell className="text-admin-text">
+                      <div>{conflict.reason}</div>
+                      <div className="text-xs text-admin-text/70">
+                        {conflict.spin_result_id ? `Recorded as spin #${conflict.spin_result_id}` : 'Not recorded'}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {conflict.resolved_at ? (
+                        <div className="text-xs text-admin-text/70">
+                          <div className="text-green-700 font-medium">Resolved by {conflict.resolved_by}</div>
+                          {conflict.resolution_note && <div>{conflict.resolution_note}</div>}
+                        </div>
+                      ) : can("sync:resolve") ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setResolving(conflict)}
+                          className="text-admin-primary hover:text-admin-primary hover:bg-admin-secondary/20"
+                        >
+                          <CheckCircle className="h-4 w-4 mr-1" />
+                          Resolve
+                        </Button>
+                      ) : (
+                        <span className="px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">Open</span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!resolving} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="bg-admin-card border-admin-border">
+          <DialogHeader>
+            <DialogTitle className="text-admin-text">Resolve Conflict</DialogTitle>
+            <DialogDescription className="text-admin-text/80">
+              {resolving?.reason}. Note how it was handled, for example where the prize came from.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Resolution note"
+            maxLength={500}
+            className="text-admin-text bg-admin-bg border-admin-border placeholder:text-admin-text/50"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancel</Button>
+            <Button
+              onClick={() => resolving && resolveMutation.mutate({ id: resolving.id, note })}
+              disabled={resolveMutation.isPending}
+              className="bg-admin-primary hover:bg-admin-primary/90 text-white"
+            >
+              {resolveMutation.isPending ? "Saving..." : "Mark Resolved"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useRef, useState } from "react";
+import { WheelSector } from "@/utils/spinWheelUtils";
+import { GameModeProps } from "./types";
+
+const BOX_COUNT = 6;
+// How long the opened box is shown before the prize is announced
+const REVEAL_DELAY_MS = 1500;
+
+// Pick-a-box: the customer picks one of a row of closed boxes, which opens on the drawn prize.
+// The boxes that were not picked stay closed; they never held anything.
+export function PickBoxGame({ campaign, isPlaying, play, onRevealed }: GameModeProps) {
+  const [pickedBox, setPickedBox] = useState<number | null>(null);
+  const [prize, setPrize] = useState<WheelSector | null>(null);
+  // The prize announcement still to come, cleared if the game goes away first
+  const timersRef = useRef<{ reveal?: number }>({});
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => window.clearTimeout(timers.reveal);
+  }, []);
+
+  const handlePick = async (box: number) => {
+    if (isPlaying || pickedBox !== null) return;
+
+    setPickedBox(box);
+    const outcome = await play();
+    if (!outcome) {
+      setPickedBox(null);
+      return;
+    }
+
+    const sector = outcome.sectors[outcome.sectorIndex];
+    setPrize(sector);
+    timersRef.current.reveal = window.setTimeout(() => onRevealed(sector), REVEAL_DELAY_MS);
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-xl px-2">
+      <p className="mb-4 text-center text-black/70 text-sm sm:text-base">
+        {pickedBox === null ? "Pick a box to open it" : prize ? "Your box is open!" : "Opening your box..."}
+      </p>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 sm:gap-4 w-full">
+        {Array.from({ length: BOX_COUNT }, (_, box) => {
+          const isPicked = pickedBox === box;
+          const openPrize = isPicked ? prize : null;
+          return (
+            <button
+              key={box}
+              type="button"
+              onClick={() => handlePick(box)}
+              disabled={pickedBox !== null && !isPicked}
+              aria-label={openPrize ? "Box " + (box + 1) + ": " + openPrize.label : "Open box " + (box + 1)}
+              className={
+                "aspect-square rounded-xl border-4 flex flex-col items-center justify-center p-2 text-center shadow-lg transition-transform " +
+                (openPrize ? "scale-105 " : isPicked ? "animate-pulse " : pickedBox === null ? "hover:scale-105 " : "opacity-50 ") +
+                (openPrize ? "border-yellow-400" : "border-white bg-blue-800")
+              }
+              style={openPrize
+                ? { backgroundColor: openPrize.color, color: openPrize.text }
+                : { backgroundColor: campaign?.primary_color || undefined }}
+            >
+              {openPrize ? (
+                <span className="text-base sm:text-xl font-bold break-words">{openPrize.label}</span>
+              ) : (
+                <>
+                  <span className="text-4xl sm:text-5xl">🎁</span>
+                  <span className="mt-1 text-white font-semibold">{box + 1}</span>
+                </>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
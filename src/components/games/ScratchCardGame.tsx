@@ -0,0 +1,144 @@
+import { PointerEvent, useEffect, useRef, useState } from "react";
+import { WheelSector } from "@/utils/spinWheelUtils";
+import { GameModeProps } from "./types";
+
+const CARD_WIDTH = 320;
+const CARD_HEIGHT = 200;
+const SCRATCH_RADIUS = 22;
+// Share of the coating that has to be scratched off before the rest falls away
+const REVEAL_THRESHOLD = 0.5;
+// How long the uncovered prize is shown before it is announced
+const REVEAL_DELAY_MS = 800;
+
+// Share of the coating scratched off, sampled every few pixels
+const getScratchedShare = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return 1;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let cleared = 0;
+  let sampled = 0;
+  for (let i = 3; i < data.length; i += 4 * 16) {
+    sampled++;
+    if (data[i] === 0) cleared++;
+  }
+  return sampled > 0 ? cleared / sampled : 1;
+};
+
+// Scratch card: the first scratch draws the outcome, which is printed under the coating
+export function ScratchCardGame({ campaign, isPlaying, play, onRevealed }: GameModeProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [prize, setPrize] = useState<WheelSector | null>(null);
+  const [isRevealed, setIsRevealed] = useState(false);
+  // The prize announcement still to come, cleared if the game goes away first
+  const timersRef = useRef<{ reveal?: number }>({});
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => window.clearTimeout(timers.reveal);
+  }, []);
+
+  // Cover the card with the scratch-off coating
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    ctx.fillStyle = "#9ca3af";
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = "#ffffff";
+    ctx.font = "bold 24px sans-serif";
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText("Scratch here", canvas.width / 2, canvas.height / 2);
+  }, []);
+
+  const reveal = (sector: WheelSector) => {
+    if (isRevealed) return;
+    setIsRevealed(true);
+    timersRef.current.reveal = window.setTimeout(() => onRevealed(sector), REVEAL_DELAY_MS);
+  };
+
+  const startGame = async () => {
+    if (isPlaying || prize) return;
+    const outcome = await play();
+    if (outcome) {
+      setPrize(outcome.sectors[outcome.sectorIndex]);
+    }
+  };
+
+  const scratch = (event: PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+
+    // Pointer position in canvas pixels, whatever size the card is shown at
+    const bounds = canvas.getBoundingClientRect();
+    const x = (event.clientX - bounds.left) * (canvas.width / bounds.width);
+    const y = (event.clientY - bounds.top) * (canvas.height / bounds.height);
+    ctx.globalCompositeOperation = "destination-out";
+    ctx.beginPath();
+    ctx.arc(x, y, SCRATCH_RADIUS, 0, 2 * Math.PI);
+    ctx.fill();
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLCanvasElement>) => {
+    if (!prize) {
+      startGame();
+      return;
+    }
+    scratch(event);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLCanvasElement>) => {
+    // Scratching only starts once there is a prize under the coating
+    if (!prize || isRevealed || event.buttons === 0) return;
+    scratch(event);
+  };
+
+  const handlePointerUp = () => {
+    const canvas = canvasRef.current;
+    if (!prize || !canvas) return;
+    if (getScratchedShare(canvas) >= REVEAL_THRESHOLD) {
+      reveal(prize);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full px-2">
+      <p className="mb-4 text-center text-black/70 text-sm sm:text-base">
+        {!prize ? (isPlaying ? "Getting your card ready..." : "Tap the card to start scratching") : isRevealed ? "Here's your prize!" : "Scratch to reveal your prize"}
+      </p>
+      <div
+        className="relative w-full max-w-[320px] rounded-xl overflow-hidden shadow-lg border-4 border-white"
+        style={{ aspectRatio: CARD_WIDTH + " / " + CARD_HEIGHT, backgroundColor: prize ? prize.color : campaign?.primary_color || "#1e40af" }}
+      >
+        {prize && (
+          <div
+            className="absolute inset-0 flex items-center justify-center p-4 text-center"
+            style={{ color: prize.text }}
+          >
+            <span className="text-2xl sm:text-3xl font-bold break-words">{prize.label}</span>
+          </div>
+        )}
+        <canvas
+          ref={canvasRef}
+          width={CARD_WIDTH}
+          height={CARD_HEIGHT}
+          className={"absolute inset-0 w-full h-full touch-none cursor-pointer transition-opacity duration-500 " + (isRevealed ? "opacity-0 pointer-events-none" : "")}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          aria-hidden="true"
+        />
+      </div>
+      <button
+        type="button"
+        onClick={() => (prize ? reveal(prize) : startGame())}
+        disabled={isRevealed || (isPlaying && !prize)}
+        className="mt-4 px-6 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold disabled:opacity-50"
+      >
+        {prize ? "Reveal all" : "Start scratching"}
+      </button>
+    </div>
+  );
+}
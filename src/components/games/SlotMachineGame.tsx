@@ -0,0 +1,119 @@
+import { useEffect, useRef, useState } from "react";
+import { WheelSector } from "@/utils/spinWheelUtils";
+import { GameModeProps, GameOutcome } from "./types";
+
+const REEL_COUNT = 3;
+const REEL_TICK_MS = 90;
+// When each reel stops after the outcome is drawn, left to right
+const REEL_STOP_MS = [1200, 1800, 2400];
+// How long the stopped reels are shown before the prize is announced
+const REVEAL_DELAY_MS = 600;
+
+const pickRandom = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+// Where the reels stop: three of the prize for a win, and never three of a kind otherwise
+const getReelStops = (sector: WheelSector, symbols: string[]): string[] => {
+  if (sector.isWin) {
+    return Array(REEL_COUNT).fill(sector.label);
+  }
+  const others = symbols.filter((symbol) => symbol !== sector.label);
+  if (others.length === 0) {
+    return Array(REEL_COUNT).fill(sector.label);
+  }
+  const stops = [pickRandom(symbols), pickRandom(symbols), sector.label];
+  if (stops[0] === stops[1] && stops[1] === stops[2]) {
+    stops[0] = pickRandom(others);
+  }
+  // Shuffle so the odd one out is not always on the same reel
+  return stops.sort(() => Math.random() - 0.5);
+};
+
+// Three-reel slot machine: the reels stop on three of the drawn prize when it is a win
+export function SlotMachineGame({ sectors, campaign, isPlaying, play, onRevealed }: GameModeProps) {
+  // Every prize appears once on each reel
+  const symbols = Array.from(new Set(sectors.map((sector) => sector.label)));
+  const [reels, setReels] = useState<string[]>(() => Array(REEL_COUNT).fill(symbols[0] || ""));
+  const [stoppedReels, setStoppedReels] = useState(REEL_COUNT);
+  const [hasPlayed, setHasPlayed] = useState(false);
+  // The reels' tick and the stops and reveal still to come, cleared if the game goes away first
+  const timersRef = useRef<{ tick?: number; timeouts: number[] }>({ timeouts: [] });
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => {
+      window.clearInterval(timers.tick);
+      timers.timeouts.forEach((id) => window.clearTimeout(id));
+    };
+  }, []);
+
+  const handlePull = async () => {
+    if (isPlaying || hasPlayed) return;
+    setHasPlayed(true);
+    const timers = timersRef.current;
+
+    // The reels spin while the outcome is drawn
+    let stopped = 0;
+    setStoppedReels(0);
+    timers.tick = window.setInterval(() => {
+      setReels((current) => current.map((symbol, reel) => (reel < stopped ? symbol : pickRandom(symbols))));
+    }, REEL_TICK_MS);
+
+    let outcome: GameOutcome | null = null;
+    try {
+      outcome = await play();
+    } finally {
+      if (!outcome) {
+        window.clearInterval(timers.tick);
+        setStoppedReels(REEL_COUNT);
+        setHasPlayed(false);
+      }
+    }
+    if (!outcome) return;
+
+    const sector = outcome.sectors[outcome.sectorIndex];
+    const stops = getReelStops(sector, Array.from(new Set(outcome.sectors.map((s) => s.label))));
+    REEL_STOP_MS.forEach((delay, reel) => {
+      timers.timeouts.push(window.setTimeout(() => {
+        stopped = reel + 1;
+        setStoppedReels(stopped);
+        setReels((current) => current.map((symbol, i) => (i === reel ? stops[reel] : symbol)));
+        if (stopped === REEL_COUNT) {
+          window.clearInterval(timers.tick);
+          timers.timeouts.push(window.setTimeout(() => onRevealed(sector), REVEAL_DELAY_MS));
+        }
+      }, delay));
+    });
+  };
+
+  return (
+    <div className="flex flex-col items-center w-full max-w-xl px-2">
+      <div
+        className="w-full rounded-2xl p-4 sm:p-6 shadow-lg border-4 border-yellow-400"
+        style={{ backgroundColor: campaign?.primary_color || "#1e40af" }}
+      >
+        <div className="grid grid-cols-3 gap-2 sm:gap-3" aria-live="polite">
+          {reels.map((symbol, reel) => (
+            <div
+              key={reel}
+              className={
+                "h-24 sm:h-32 rounded-lg bg-white flex items-center justify-center p-2 text-center font-bold text-sm sm:text-lg break-words " +
+                (reel < stoppedReels ? "" : "blur-[1px]")
+              }
+              style={{ color: campaign?.primary_color || "#1e40af" }}
+            >
+              {symbol}
+            </div>
+          ))}
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={handlePull}
+        disabled={isPlaying || hasPlayed}
+        className="mt-4 px-8 py-3 rounded-full bg-red-600 hover:bg-red-700 text-white text-lg font-bold shadow-lg disabled:opacity-50"
+      >
+        {hasPlayed ? "Good luck!" : "Pull the lever"}
+      </button>
+    </div>
+  );
+}
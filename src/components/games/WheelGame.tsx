@@ -0,0 +1,101 @@
+import { useRef, useState } from "react";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { WheelCanvas } from "@/components/wheel/WheelCanvas";
+import { DEFAULT_LOGO } from "@/utils/campaignUtils";
+import { spinWheel } from "@/utils/spinWheelUtils";
+import { GameModeProps } from "./types";
+
+// The spin wheel: spins until the drawn sector stops under the pointer
+export function WheelGame({ sectors, campaign, play, onRevealed }: GameModeProps) {
+  const [wheelCanvas, setWheelCanvas] = useState<HTMLCanvasElement | null>(null);
+  // The next spin starts where the last one stopped, so the wheel never jumps back
+  const rotationRef = useRef(0);
+  const pointerRef = useRef<HTMLDivElement>(null);
+  const isMobile = useIsMobile();
+
+  // The pointer flicks as each sector boundary passes it
+  const flickPointer = () => {
+    pointerRef.current?.animate?.(
+      [{ transform: "rotate(-20deg)" }, { transform: "rotate(0deg)" }],
+      { duration: 120, easing: "ease-out" }
+    );
+  };
+
+  const handleSpin = async () => {
+    const outcome = await play();
+    if (!outcome) return;
+
+    // Trigger the spin animation towards the drawn sector
+    const spinResult = spinWheel(wheelCanvas, outcome.sectorIndex, outcome.sectors, onRevealed, {
+      fromRotation: rotationRef.current,
+      onTick: flickPointer,
+    });
+    if (spinResult === undefined) {
+      // Without a canvas to spin, the customer is shown the outcome straight away
+      onRevealed(outcome.sectors[outcome.sectorIndex]);
+      return;
+    }
+    rotationRef.current = await spinResult;
+  };
+
+  const handleCanvasReady = (canvas: HTMLCanvasElement) => {
+    setWheelCanvas(canvas);
+  };
+
+  // Determine wheel container size based on device - 3/4 of screen
+  // Using string concatenation instead of template literals for older browsers
+  const wheelSizeClass = isMobile
+    ? "w-[75vw] h-[75vw] max-w-[400px] max-h-[400px]"
+    : "w-[60vw] h-[60vw] max-w-[600px] max-h-[600px]";
+
+  return (
+    <div className="flex flex-col items-center w-full">
+      <div className={"relative " + wheelSizeClass + " mx-auto"}>
+        <WheelCanvas sectors={sectors} onCanvasReady={handleCanvasReady} />
+
+        {/* Pointer at 12 o'clock; the sector under its tip is the one won */}
+        <div
+          ref={pointerRef}
+          className="absolute left-1/2 -top-[3%] -ml-[4%] w-[8%] h-[10%] z-10 pointer-events-none origin-top drop-shadow-md"
+          aria-hidden="true"
+        >
+          <div className="w-full h-full bg-red-600 [clip-path:polygon(0_0,100%_0,50%_100%)]" />
+        </div>
+
+        {/* Spin Area - the whole wheel is clickable */}
+        <div
+          className="absolute top-0 left-0 w-full h-full"
+          onClick={handleSpin}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') {
+              handleSpin();
+            }
+          }}
+          tabIndex={0}
+          role="button"
+          aria-label="Spin the wheel"
+        />
+
+        {/* Center button with logo */}
+        <div
+          className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-[15%] h-[15%] rounded-full cursor-pointer bg-white border-2 border-gray-300 flex items-center justify-center shadow-lg"
+          onClick={handleSpin}
+          onKeyPress={(e) => {
+            if (e.key === 'Enter' || e.key === ' ') {
+              handleSpin();
+            }
+          }}
+          tabIndex={0}
+          role="button"
+          aria-label="Spin the wheel center button"
+        >
+          <img
+            src={campaign?.logo_url || DEFAULT_LOGO}
+            alt={campaign ? `${campaign.name} Logo` : "Ilara Logo"}
+            className="w-[80%] h-[80%] object-contain"
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
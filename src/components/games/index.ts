@@ -0,0 +1,23 @@
+import { ComponentType } from "react";
+import { GameMode } from "@/utils/campaignUtils";
+import { GameModeProps } from "./types";
+import { PickBoxGame } from "./PickBoxGame";
+import { ScratchCardGame } from "./ScratchCardGame";
+import { SlotMachineGame } from "./SlotMachineGame";
+import { WheelGame } from "./WheelGame";
+
+// Game played for each game mode a campaign can choose
+export const GAME_COMPONENTS: Record<GameMode, ComponentType<GameModeProps>> = {
+  wheel: WheelGame,
+  scratch_card: ScratchCardGame,
+  pick_a_box: PickBoxGame,
+  slot_machine: SlotMachineGame,
+};
+
+// Heading shown above each game
+export const GAME_TITLES: Record<GameMode, string> = {
+  wheel: "Spin The Wheel",
+  scratch_card: "Scratch To Win",
+  pick_a_box: "Pick A Box",
+  slot_machine: "Pull The Lever",
+};
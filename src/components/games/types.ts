@@ -0,0 +1,22 @@
+import { Campaign } from "@/utils/campaignUtils";
+import { WheelSector } from "@/utils/spinWheelUtils";
+
+// Outcome a game reveals, drawn by the server or, while offline, on the device
+export interface GameOutcome {
+  sectorIndex: number;
+  // Prizes the outcome was drawn from, in display order
+  sectors: WheelSector[];
+}
+
+// Contract between the prize engine and a game. A game never picks an outcome itself: it asks
+// for one with play and calls onRevealed once the customer has seen it.
+export interface GameModeProps {
+  // Prizes on offer, in display order
+  sectors: WheelSector[];
+  campaign?: Campaign | null;
+  // True from the customer starting the game until the outcome has been revealed
+  isPlaying: boolean;
+  // Resolves with null when the game cannot be played; the customer has already been told why
+  play: () => Promise<GameOutcome | null>;
+  onRevealed: (sector: WheelSector) => void;
+}
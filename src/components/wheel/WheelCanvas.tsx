@@ -1,12 +1,13 @@
 
 import { useEffect, useRef } from "react";
-import { WheelSector, wheelSectors } from "@/utils/spinWheelUtils";
+import { WheelSector } from "@/utils/spinWheelUtils";
 
 interface WheelCanvasProps {
+  sectors: WheelSector[];
   onCanvasReady: (canvas: HTMLCanvasElement) => void;
 }
 
-export function WheelCanvas({ onCanvasReady }: WheelCanvasProps) {
+export function WheelCanvas({ sectors, onCanvasReady }: WheelCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -32,7 +33,7 @@ export function WheelCanvas({ onCanvasReady }: WheelCanvasProps) {
     const rad = dia / 2;
     const PI = Math.PI;
     const TAU = 2 * PI;
-    const arc = TAU / wheelSectors.length;
+    const arc = TAU / sectors.length;
 
     // Clear the canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
@@ -100,8 +101,8 @@ export function WheelCanvas({ onCanvasReady }: WheelCanvasProps) {
     };
 
     // Draw all sectors initially
-    for (var i = 0; i < wheelSectors.length; i++) {
-      drawSector(wheelSectors[i], i);
+    for (var i = 0; i < sectors.length; i++) {
+      drawSector(sectors[i], i);
     }
 
     // Draw smaller center circle with white background
@@ -125,14 +126,14 @@ export function WheelCanvas({ onCanvasReady }: WheelCanvasProps) {
     // Notify parent that canvas is ready
     onCanvasReady(canvas);
 
-  }, [canvasRef.current ? (canvasRef.current.parentElement ? canvasRef.current.parentElement.clientWidth : 0) : 0]); 
+  }, [sectors, canvasRef.current ? (canvasRef.current.parentElement ? canvasRef.current.parentElement.clientWidth : 0) : 0]); 
 
   return (
     <canvas
       ref={canvasRef}
-      className="w-full h-auto rounded-full transition-transform cursor-pointer"
+      className="w-full h-auto rounded-full cursor-pointer"
       style={{WebkitTapHighlightColor: 'rgba(0,0,0,0)'}}
-      aria-label="Prize wheel with Mazila Bottles, Cookware Set, Cooking Apron, and Induction Cooker prizes"
+      aria-label={"Prize wheel with " + sectors.filter((s) => s.isWin).map((s) => s.label).join(", ") + " prizes"}
     />
   );
 }
@@ -1,44 +1,188 @@
 
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useState, useLayoutEffect, useCallback } from "react";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { toast } from "sonner";
+
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+const ACCESS_TOKEN_KEY = "admin-auth-token";
+const REFRESH_TOKEN_KEY = "admin-refresh-token";
+const USER_KEY = "admin-user";
+
+export type AdminRole = "super_admin" | "campaign_manager" | "ba" | "viewer";
+
+export type Permission =
+  | "stats:view"
+  | "results:export"
+  | "results:delete"
+  | "agents:manage"
+  | "products:manage"
+  | "campaigns:manage"
+  | "inventory:view"
+  | "inventory:manage"
+  | "sync:resolve"
+  | "fraud:review";
+
+export interface AdminUser {
+  id: number;
+  username: string;
+  role: AdminRole;
+  agent_id: string | null;
+  permissions: Permission[];
+}
 
 interface AuthContextType {
   isAuthenticated: boolean;
+  user: AdminUser | null;
+  can: (permission: Permission) => boolean;
   login: (username: string, password: string) => Promise<boolean>;
   logout: () => void;
 }
 
+interface AdminSession {
+  access_token: string;
+  refresh_token: string;
+  user: AdminUser;
+}
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const saveSession = (session: AdminSession) => {
+  localStorage.setItem(ACCESS_TOKEN_KEY, session.access_token);
+  localStorage.setItem(REFRESH_TOKEN_KEY, session.refresh_token);
+  localStorage.setItem(USER_KEY, JSON.stringify(session.user));
+};
+
+const loadUser = (): AdminUser | null => {
+  try {
+    return JSON.parse(localStorage.getItem(USER_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const clearSession = () => {
+  localStorage.removeItem(ACCESS_TOKEN_KEY);
+  localStorage.removeItem(REFRESH_TOKEN_KEY);
+  localStorage.removeItem(USER_KEY);
+};
+
+const isAuthRequest = (url?: string) => !!url && url.startsWith(`${API_URL}/auth/`);
+
+// Refresh tokens are single use, so concurrent 401s share one refresh request
+let refreshRequest: Promise<string | null> | null = null;
+
+const refreshSession = (): Promise<string | null> => {
+  if (!refreshRequest) {
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    refreshRequest = (refreshToken
+      ? axios
+          .post<AdminSession>(`${API_URL}/auth/refresh`, { refresh_token: refreshToken })
+          .then((response) => {
+            saveSession(response.data);
+            return response.data.access_token;
+          })
+          .catch(() => null)
+      : Promise.resolve(null)
+    ).finally(() => {
+      refreshRequest = null;
+    });
+  }
+  return refreshRequest;
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(false);
+  const [user, setUser] = useState<AdminUser | null>(loadUser);
+  // An expired access token is refreshed on the first request, so a refresh token is enough.
+  // Sessions saved without the admin's role have to sign in again.
+  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(
+    () => !!localStorage.getItem(REFRESH_TOKEN_KEY) && !!loadUser()
+  );
 
-  // Check if user is already logged in on mount
-  useEffect(() => {
-    const token = localStorage.getItem("admin-auth-token");
-    if (token) {
-      setIsAuthenticated(true);
-    }
+  const endSession = useCallback(() => {
+    clearSession();
+    setIsAuthenticated(false);
+    setUser(null);
   }, []);
 
-  // Simple admin login function - in a real app, this would call an API
+  // Send the access token with every API request and refresh it when it expires. A layout effect
+  // runs before the effects of the pages inside the provider, so their first requests go out
+  // with the token.
+  useLayoutEffect(() => {
+    const requestInterceptor = axios.interceptors.request.use((config) => {
+      const token = localStorage.getItem(ACCESS_TOKEN_KEY);
+      if (token && config.url?.startsWith(API_URL) && !isAuthRequest(config.url)) {
+        config.headers.set("Authorization", `Bearer ${token}`);
+      }
+      return config;
+    });
+
+    const responseInterceptor = axios.interceptors.response.use(
+      (response) => response,
+      async (error: AxiosError) => {
+        const request = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+        if (error.response?.status !== 401 || !request || request._retried || isAuthRequest(request.url)) {
+          return Promise.reject(error);
+        }
+
+        const token = await refreshSession();
+        if (!token) {
+          if (localStorage.getItem(REFRESH_TOKEN_KEY)) {
+            toast.error("Your session has expired. Please sign in again.");
+          }
+          endSession();
+          return Promise.reject(error);
+        }
+
+        // The role may have changed since the last token was issued
+        setUser(loadUser());
+
+        request._retried = true;
+        request.headers.set("Authorization", `Bearer ${token}`);
+        return axios(request);
+      }
+    );
+
+    return () => {
+      axios.interceptors.request.eject(requestInterceptor);
+      axios.interceptors.response.eject(responseInterceptor);
+    };
+  }, [endSession]);
+
   const login = async (username: string, password: string): Promise<boolean> => {
-    // For demo purposes - hardcoded credentials
-    // In production, this should use a secure authentication system
-    if (username === "admin" && password === "admin123") {
-      localStorage.setItem("admin-auth-token", "demo-token");
+    try {
+      const response = await axios.post<AdminSession>(`${API_URL}/auth/login`, { username, password });
+      saveSession(response.data);
+      setUser(response.data.user);
       setIsAuthenticated(true);
       return true;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        return false;
+      }
+      throw error;
     }
-    return false;
   };
 
   const logout = () => {
-    localStorage.removeItem("admin-auth-token");
-    setIsAuthenticated(false);
+    const refreshToken = localStorage.getItem(REFRESH_TOKEN_KEY);
+    if (refreshToken) {
+      axios.post(`${API_URL}/auth/logout`, { refresh_token: refreshToken }).catch((error) => {
+        console.error("Error signing out:", error);
+      });
+    }
+    endSession();
   };
 
+  // Used to hide actions the admin's role does not allow; the API enforces the same rules
+  const can = useCallback(
+    (permission: Permission) => !!user?.permissions?.includes(permission),
+    [user]
+  );
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, user, can, login, logout }}>
       {children}
     </AuthContext.Provider>
   );
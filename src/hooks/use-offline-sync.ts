@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "@/components/ui/use-toast";
+import { countPendingSpins } from "@/utils/offlineStore";
+import { OFFLINE_QUEUE_EVENT, refreshAllowance, syncPendingSpins } from "@/utils/offlineSync";
+
+// How often queued spins are retried and the offline allowance refreshed while online
+const SYNC_INTERVAL = 60000;
+
+// Keeps queued spins flowing to the server and the offline allowance fresh for the signed in agent
+export function useOfflineSync(agentId?: string, campaignSlug?: string) {
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+
+  const updatePendingCount = useCallback(() => {
+    countPendingSpins().then(setPendingCount).catch((error) => {
+      console.error("Error counting offline spins:", error);
+    });
+  }, []);
+
+  const syncNow = useCallback(async () => {
+    if (!agentId || !navigator.onLine || syncingRef.current) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const summary = await syncPendingSpins();
+      if (summary.conflicts + summary.rejected > 0) {
+        toast({
+          title: "Offline spins synced",
+          description: `${summary.conflicts + summary.rejected} spin(s) need an admin to review them.`,
+        });
+      }
+      await refreshAllowance(agentId, campaignSlug);
+    } catch (error) {
+      console.error("Error syncing offline spins:", error);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+      updatePendingCount();
+    }
+  }, [agentId, campaignSlug, updatePendingCount]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    window.addEventListener(OFFLINE_QUEUE_EVENT, updatePendingCount);
+    const intervalId = setInterval(syncNow, SYNC_INTERVAL);
+
+    updatePendingCount();
+    syncNow();
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.removeEventListener(OFFLINE_QUEUE_EVENT, updatePendingCount);
+      clearInterval(intervalId);
+    };
+  }, [syncNow, updatePendingCount]);
+
+  return { isOnline, pendingCount, isSyncing, syncNow };
+}
@@ -8,3 +8,12 @@ import './index.css'
 document.title = "ilara";
 
 createRoot(document.getElementById("root")!).render(<App />);
+
+// The service worker lets a kiosk reload the wheel while it is offline
+if (import.meta.env.PROD && 'serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  });
+}
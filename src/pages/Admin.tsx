@@ -7,17 +7,28 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { FileText, LogOut, Trash2, RefreshCw, Filter, Calendar, AlertTriangle, PieChart, BarChart3, ChevronRight, Package, Home, Award } from "lucide-react";
+import { FileText, LogOut, Trash2, RefreshCw, Filter, Calendar, AlertTriangle, PieChart, BarChart3, ChevronRight, Package, Home, Award, Megaphone, CloudOff, History, ArrowLeftRight, ShieldAlert, TrendingDown, HelpCircle, Receipt } from "lucide-react";
 import { Pagination, PaginationContent, PaginationItem, PaginationLink, PaginationNext, PaginationPrevious } from "@/components/ui/pagination";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import { useAuth } from "../context/AuthContext";
+import { useAuth, AdminRole, Permission } from "../context/AuthContext";
 import { useNavigate } from "react-router-dom";
 import { StatsDisplay } from "@/components/admin/StatsDisplay";
 import { AgentManagement } from "@/components/admin/AgentManagement";
 import { ProductPrizeManagement } from "@/components/admin/ProductPrizeManagement";
+import { CampaignManagement } from "@/components/admin/CampaignManagement";
+import { SyncConflicts } from "@/components/admin/SyncConflicts";
+import { SpinReviews } from "@/components/admin/SpinReviews";
+import { InventoryLedger } from "@/components/admin/InventoryLedger";
+import { StockTransfers } from "@/components/admin/StockTransfers";
+import { PrizePacing } from "@/components/admin/PrizePacing";
+import { QuizQuestions } from "@/components/admin/QuizQuestions";
+import { Purchases } from "@/components/admin/Purchases";
+import { Campaign } from "@/utils/campaignUtils";
+import { CLAIM_STATUS_CLASSES, CLAIM_STATUS_LABELS, ClaimStatus } from "@/utils/claimUtils";
+import { PRIZE_TIER_LABELS, PrizeTier } from "@/utils/spinWheelUtils";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
@@ -25,10 +36,26 @@ import { cn } from "@/lib/utils";
 // API base URL - use environment variable or fallback to the API path
 const API_URL = import.meta.env.VITE_API_URL || "/api";
 
+// Value of the campaign filter that shows every campaign
+const ALL_CAMPAIGNS = "all";
+
+// Value of the claim filter that shows every spin
+const ALL_CLAIMS = "all";
+
+// Query parameters that scope a request to the selected campaign
+const campaignParams = (campaignId: string) =>
+  campaignId === ALL_CAMPAIGNS ? {} : { campaign_id: campaignId };
+
+// Function to fetch campaigns for the campaign filter
+const fetchCampaigns = async (): Promise<Campaign[]> => {
+  const response = await axios.get(`${API_URL}/campaigns`);
+  return response.data;
+};
+
 // Function to fetch spin results
-const fetchSpinResults = async () => {
+const fetchSpinResults = async (campaignId: string) => {
   try {
-    const response = await axios.get(`${API_URL}/spin-results`);
+    const response = await axios.get(`${API_URL}/spin-results`, { params: campaignParams(campaignId) });
     console.log("Spin results response:", response);
     console.log("Spin results data:", response.data);
     
@@ -46,9 +73,9 @@ const fetchSpinResults = async () => {
 };
 
 // Function to fetch spin stats
-const fetchSpinStats = async () => {
+const fetchSpinStats = async (campaignId: string) => {
   try {
-    const response = await axios.get(`${API_URL}/spin-results/stats`);
+    const response = await axios.get(`${API_URL}/spin-results/stats`, { params: campaignParams(campaignId) });
     console.log("Spin stats fetched:", response.data);
     return response.data;
   } catch (error) {
@@ -81,22 +108,54 @@ const deleteAllSpinResults = async (ids: number[]) => {
 };
 
 // Function to download data
-const downloadData = (format: string) => {
-  // Generate the download URL
-  const url = `${API_URL}/admin/results/export?format=${format}`;
-  
-  // Create a temporary link element
-  const link = document.createElement("a");
-  link.href = url;
-  link.target = "_blank";
-  link.download = `results.${format}`;
-  
-  // Trigger the download
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  
-  toast.success(`Downloading spin results in ${format} format`);
+const downloadData = async (format: string, campaignId: string) => {
+  const params = new URLSearchParams({ format, ...campaignParams(campaignId) });
+
+  try {
+    // Fetched through axios so the export request carries the admin's access token
+    const response = await axios.get(`${API_URL}/admin/results/export?${params.toString()}`, {
+      responseType: "blob"
+    });
+    const url = URL.createObjectURL(response.data);
+
+    // Create a temporary link element
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `results.${format}`;
+
+    // Trigger the download
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+
+    toast.success(`Downloading spin results in ${format} format`);
+  } catch (error) {
+    console.error("Error downloading spin results:", error);
+    toast.error("Failed to download spin results");
+  }
+};
+
+// Tabs without a permission are available to every admin
+const ADMIN_TABS: { key: string; label: string; icon: typeof Home; permission?: Permission }[] = [
+  { key: "dashboard", label: "Dashboard", icon: Home },
+  { key: "products", label: "Prize Management", icon: Package, permission: "products:manage" },
+  { key: "campaigns", label: "Campaigns", icon: Megaphone, permission: "campaigns:manage" },
+  { key: "quiz", label: "Quiz", icon: HelpCircle, permission: "campaigns:manage" },
+  { key: "agents", label: "Agents", icon: Award, permission: "agents:manage" },
+  { key: "transfers", label: "Stock Transfers", icon: ArrowLeftRight, permission: "inventory:manage" },
+  { key: "ledger", label: "Stock Ledger", icon: History, permission: "inventory:view" },
+  { key: "pacing", label: "Prize Pacing", icon: TrendingDown, permission: "inventory:view" },
+  { key: "purchases", label: "Purchases", icon: Receipt, permission: "stats:view" },
+  { key: "sync", label: "Offline Sync", icon: CloudOff, permission: "stats:view" },
+  { key: "reviews", label: "Fraud Review", icon: ShieldAlert, permission: "stats:view" },
+];
+
+const ROLE_LABELS: Record<AdminRole, string> = {
+  super_admin: "Super Admin",
+  campaign_manager: "Campaign Manager",
+  ba: "Brand Ambassador",
+  viewer: "Viewer",
 };
 
 const Admin = () => {
@@ -106,9 +165,11 @@ const Admin = () => {
   const [selectedResult, setSelectedResult] = useState<number | null>(null);
   const [dateFrom, setDateFrom] = useState<Date>();
   const [dateTo, setDateTo] = useState<Date>();
+  const [campaignFilter, setCampaignFilter] = useState(ALL_CAMPAIGNS);
+  const [claimFilter, setClaimFilter] = useState<ClaimStatus | typeof ALL_CLAIMS>(ALL_CLAIMS);
   const [showStats, setShowStats] = useState(false);
   const itemsPerPage = 50;
-  const { logout } = useAuth();
+  const { logout, user, can } = useAuth();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
 
@@ -126,11 +187,16 @@ const Admin = () => {
     error: resultsError,
     refetch: refetchResults
   } = useQuery({
-    queryKey: ['spinResults'],
-    queryFn: fetchSpinResults,
+    queryKey: ['spinResults', campaignFilter],
+    queryFn: () => fetchSpinResults(campaignFilter),
     retry: 1
   });
 
+  const { data: campaigns = [] } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: fetchCampaigns
+  });
+
   // Ensure spinResults is always an array
   const spinResults = Array.isArray(spinResultsData) ? spinResultsData : [];
 
@@ -149,8 +215,8 @@ const Admin = () => {
     error: statsError,
     refetch: refetchStats
   } = useQuery({
-    queryKey: ['spinStats'],
-    queryFn: fetchSpinStats,
+    queryKey: ['spinStats', campaignFilter],
+    queryFn: () => fetchSpinStats(campaignFilter),
     enabled: showStats, // Only fetch when stats are being shown
   });
 
@@ -203,7 +269,10 @@ const Admin = () => {
       matchesDateRange = matchesDateRange && resultDate <= toDate;
     }
     
-    return matchesDateRange;
+    // Claim filtering only matches wins, which are the only spins with a claim status
+    const matchesClaim = claimFilter === ALL_CLAIMS || result.claim_status === claimFilter;
+    
+    return matchesDateRange && matchesClaim;
   });
 
   // Pagination logic for filtered results
@@ -253,6 +322,8 @@ const Admin = () => {
   const handleResetFilters = () => {
     setDateFrom(undefined);
     setDateTo(undefined);
+    setCampaignFilter(ALL_CAMPAIGNS);
+    setClaimFilter(ALL_CLAIMS);
     setResultsPage(1);
   };
 
@@ -262,6 +333,22 @@ const Admin = () => {
         return <AgentManagement />;
       case "products":
         return <ProductPrizeManagement />;
+      case "campaigns":
+        return <CampaignManagement />;
+      case "quiz":
+        return <QuizQuestions />;
+      case "purchases":
+        return <Purchases />;
+      case "transfers":
+        return <StockTransfers />;
+      case "ledger":
+        return <InventoryLedger />;
+      case "pacing":
+        return <PrizePacing />;
+      case "sync":
+        return <SyncConflicts />;
+      case "reviews":
+        return <SpinReviews />;
       default:
         return (
           <div className="space-y-4 md:space-y-6 bg-admin-bg min-h-screen p-4 rounded-lg">
@@ -318,16 +405,64 @@ const Admin = () => {
               </Card>
             )}
 
-            {/* Date Filter Section */}
+            {/* Filter Section */}
             <Card className="mb-4 md:mb-6 shadow-lg border-l-4 border-l-admin-primary bg-admin-card">
               <CardHeader className="bg-admin-secondary/20 border-b border-admin-border p-4 md:p-6">
                 <CardTitle className="flex items-center gap-2 text-admin-text text-lg md:text-xl">
                   <Calendar className="h-4 w-4 md:h-5 md:w-5 text-admin-primary" />
-                  Date Filter
+                  Filters
                 </CardTitle>
               </CardHeader>
               <CardContent className="p-4 md:p-6">
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 md:gap-4">
+                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 md:gap-4">
+                  {/* Campaign */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-admin-text">Campaign</label>
+                    <Select
+                      value={campaignFilter}
+                      onValueChange={(value) => {
+                        setCampaignFilter(value);
+                        setResultsPage(1);
+                      }}
+                    >
+                      <SelectTrigger className="w-full border-admin-border text-admin-text">
+                        <SelectValue placeholder="All campaigns" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-admin-card border-admin-border">
+                        <SelectItem value={ALL_CAMPAIGNS}>All campaigns</SelectItem>
+                        {campaigns.map((campaign) => (
+                          <SelectItem key={campaign.id} value={String(campaign.id)}>
+                            {campaign.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {/* Claim Status */}
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium text-admin-text">Prize Claim</label>
+                    <Select
+                      value={claimFilter}
+                      onValueChange={(value) => {
+                        setClaimFilter(value as ClaimStatus | typeof ALL_CLAIMS);
+                        setResultsPage(1);
+                      }}
+                    >
+                      <SelectTrigger className="w-full border-admin-border text-admin-text">
+                        <SelectValue placeholder="All spins" />
+                      </SelectTrigger>
+                      <SelectContent className="bg-admin-card border-admin-border">
+                        <SelectItem value={ALL_CLAIMS}>All spins</SelectItem>
+                        {(Object.keys(CLAIM_STATUS_LABELS) as ClaimStatus[]).map((status) => (
+                          <SelectItem key={status} value={status}>
+                            {CLAIM_STATUS_LABELS[status]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   {/* Date From */}
                   <div className="space-y-2">
                     <label className="text-sm font-medium text-admin-text">From Date</label>
@@ -420,47 +555,51 @@ const Admin = () => {
                       <RefreshCw className="mr-1 h-3 w-3 md:h-4 md:w-4" /> 
                       <span className="hidden sm:inline">Refresh</span>
                     </Button>
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => downloadData('csv')}
-                      className="text-green-600 border-green-300 hover:bg-green-50 dark:text-green-400 dark:border-green-700 dark:hover:bg-green-950 text-xs"
-                    >
-                      <FileText className="mr-1 h-3 w-3 md:h-4 md:w-4" /> 
-                      <span className="hidden sm:inline">Export CSV</span>
-                      <span className="sm:hidden">CSV</span>
-                    </Button>
-                    <AlertDialog>
-                      <AlertDialogTrigger asChild>
-                        <Button 
-                          variant="outline" 
-                          size="sm"
-                          className="text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-950 text-xs"
-                          disabled={spinResults.length === 0}
-                        >
-                          <Trash2 className="mr-1 h-3 w-3 md:h-4 md:w-4" /> 
-                          <span className="hidden sm:inline">Delete All</span>
-                          <span className="sm:hidden">Del All</span>
-                        </Button>
-                      </AlertDialogTrigger>
-                      <AlertDialogContent className="bg-admin-card border-admin-border">
-                        <AlertDialogHeader>
-                          <AlertDialogTitle className="text-admin-text">Are you absolutely sure?</AlertDialogTitle>
-                          <AlertDialogDescription className="text-admin-text/80">
-                            This action cannot be undone. This will permanently delete all spin results from the database.
-                          </AlertDialogDescription>
-                        </AlertDialogHeader>
-                        <AlertDialogFooter>
-                          <AlertDialogCancel className="border-admin-border text-admin-text">Cancel</AlertDialogCancel>
-                          <AlertDialogAction 
-                            onClick={handleDeleteAll}
-                            className="bg-red-600 hover:bg-red-700 text-white"
+                    {can("results:export") && (
+                      <Button 
+                        variant="outline" 
+                        size="sm"
+                        onClick={() => downloadData('csv', campaignFilter)}
+                        className="text-green-600 border-green-300 hover:bg-green-50 dark:text-green-400 dark:border-green-700 dark:hover:bg-green-950 text-xs"
+                      >
+                        <FileText className="mr-1 h-3 w-3 md:h-4 md:w-4" /> 
+                        <span className="hidden sm:inline">Export CSV</span>
+                        <span className="sm:hidden">CSV</span>
+                      </Button>
+                    )}
+                    {can("results:delete") && (
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button 
+                            variant="outline" 
+                            size="sm"
+                            className="text-red-600 border-red-300 hover:bg-red-50 dark:text-red-400 dark:border-red-700 dark:hover:bg-red-950 text-xs"
+                            disabled={spinResults.length === 0}
                           >
-                            Delete All
-                          </AlertDialogAction>
-                        </AlertDialogFooter>
-                      </AlertDialogContent>
-                    </AlertDialog>
+                            <Trash2 className="mr-1 h-3 w-3 md:h-4 md:w-4" /> 
+                            <span className="hidden sm:inline">Delete All</span>
+                            <span className="sm:hidden">Del All</span>
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent className="bg-admin-card border-admin-border">
+                          <AlertDialogHeader>
+                            <AlertDialogTitle className="text-admin-text">Are you absolutely sure?</AlertDialogTitle>
+                            <AlertDialogDescription className="text-admin-text/80">
+                              This action cannot be undone. This will permanently delete all spin results from the database.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel className="border-admin-border text-admin-text">Cancel</AlertDialogCancel>
+                            <AlertDialogAction 
+                              onClick={handleDeleteAll}
+                              className="bg-red-600 hover:bg-red-700 text-white"
+                            >
+                              Delete All
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    )}
                   </div>
                 </CardTitle>
               </CardHeader>
@@ -475,6 +614,7 @@ const Admin = () => {
                         <TableHead className="text-admin-text font-semibold">Agent</TableHead>
                         <TableHead className="text-admin-text font-semibold">Prize</TableHead>
                         <TableHead className="text-admin-text font-semibold">Result</TableHead>
+                        <TableHead className="text-admin-text font-semibold">Claim</TableHead>
                         <TableHead className="text-admin-text font-semibold">Date</TableHead>
                         <TableHead className="text-right text-admin-text font-semibold">Actions</TableHead>
                       </TableRow>
@@ -482,13 +622,13 @@ const Admin = () => {
                     <TableBody>
                       {resultsLoading ? (
                         <TableRow>
-                          <TableCell colSpan={8} className="text-center py-8 text-admin-text">
+                          <TableCell colSpan={9} className="text-center py-8 text-admin-text">
                             Loading results...
                           </TableCell>
                         </TableRow>
                       ) : resultsError ? (
                         <TableRow>
-                          <TableCell colSpan={8} className="text-center py-8">
+                          <TableCell colSpan={9} className="text-center py-8">
                             <div className="flex flex-col items-center gap-2">
                               <AlertTriangle className="h-8 w-8 text-red-500" />
                               <p className="text-red-500">Error loading results</p>
@@ -504,7 +644,7 @@ const Admin = () => {
                         </TableRow>
                       ) : paginatedResults.length === 0 ? (
                         <TableRow>
-                          <TableCell colSpan={8} className="text-center py-8 text-admin-text">
+                          <TableCell colSpan={9} className="text-center py-8 text-admin-text">
                             No results found
                           </TableCell>
                         </TableRow>
@@ -515,7 +655,15 @@ const Admin = () => {
                             <TableCell className="text-admin-text">{result.email}</TableCell>
                             <TableCell className="text-admin-text">{result.location}</TableCell>
                             <TableCell className="text-admin-text">{result.agent_name || 'N/A'}</TableCell>
-                            <TableCell className="text-admin-text">{result.prize}</TableCell>
+                            <TableCell className="text-admin-text">
+                              <div>{result.prize}</div>
+                              {result.is_win && result.prize_tier && (
+                                <div className="text-xs text-admin-text/60">{PRIZE_TIER_LABELS[result.prize_tier as PrizeTier]}</div>
+                              )}
+                              {result.cap_reason && (
+                                <div className="text-xs text-admin-text/60">{result.cap_reason}</div>
+                              )}
+                            </TableCell>
                             <TableCell>
                               <span className={`px-2 py-1 rounded-full text-xs font-medium ${
                                 result.is_win 
@@ -525,18 +673,27 @@ const Admin = () => {
                                 {result.is_win ? 'WIN' : 'TRY AGAIN'}
                               </span>
                             </TableCell>
+                            <TableCell className="text-admin-text">
+                              {result.claim_status ? (
+                                <span className={`px-2 py-1 rounded-full text-xs font-medium ${CLAIM_STATUS_CLASSES[result.claim_status as ClaimStatus]}`}>
+                                  {CLAIM_STATUS_LABELS[result.claim_status as ClaimStatus]}
+                                </span>
+                              ) : '-'}
+                            </TableCell>
                             <TableCell className="text-admin-text">
                               {new Date(result.date).toLocaleDateString()}
                             </TableCell>
                             <TableCell className="text-right">
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                onClick={() => handleDeleteConfirm(result.id)}
-                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </Button>
+                              {can("results:delete") && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDeleteConfirm(result.id)}
+                                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              )}
                             </TableCell>
                           </TableRow>
                         ))
@@ -607,6 +764,11 @@ const Admin = () => {
               <h1 className="text-xl font-semibold text-admin-text">Admin Panel</h1>
             </div>
             <div className="flex items-center space-x-4">
+              {user && (
+                <span className="hidden sm:inline text-sm text-admin-text/70">
+                  {user.username} · {ROLE_LABELS[user.role]}
+                </span>
+              )}
               <ThemeToggle />
               <Button
                 onClick={handleLogout}
@@ -625,11 +787,7 @@ const Admin = () => {
       <nav className="bg-admin-card shadow-sm border-b border-admin-border">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex space-x-8">
-            {[
-              { key: "dashboard", label: "Dashboard", icon: Home },
-              { key: "products", label: "Prize Management", icon: Package },
-              { key: "agents", label: "Agents", icon: Award },
-            ].map(({ key, label, icon: Icon }) => (
+            {ADMIN_TABS.filter(({ permission }) => !permission || can(permission)).map(({ key, label, icon: Icon }) => (
               <button
                 key={key}
                 onClick={() => setActiveTab(key)}
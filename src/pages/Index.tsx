@@ -1,115 +1,289 @@
 
 import { useState } from "react";
-import { SpinWheel } from "@/components/SpinWheel";
-import { UserForm } from "@/components/UserForm";
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { PrizeGame } from "@/components/PrizeGame";
+import { GAME_TITLES } from "@/components/games";
+import { CustomerDetails, UserForm } from "@/components/UserForm";
+import { QuizGate } from "@/components/QuizGate";
+import { PurchaseGate } from "@/components/PurchaseGate";
+import { DeviceLogin } from "@/components/DeviceLogin";
+import { SyncIndicator } from "@/components/SyncIndicator";
 import { WinnerModal } from "@/components/WinnerModal";
 import { Toaster } from "@/components/ui/toaster";
+import { ToastAction } from "@/components/ui/toast";
 import { toast } from "@/components/ui/use-toast";
+import { fetchCampaign } from "@/utils/campaignUtils";
+import { DeviceAgent, DeviceSessionError, getDeviceAgent, logoutDevice } from "@/utils/deviceSession";
+import { queueSpin } from "@/utils/offlineSync";
+import { fetchQuiz, Quiz, QuizResult } from "@/utils/quizUtils";
+import { checkSpinEligibility, PrizeTier, SpinCustomer, SpinEligibility } from "@/utils/spinWheelUtils";
+import { useOfflineSync } from "@/hooks/use-offline-sync";
 
 // Get the proper API URL based on environment variable or fallback to API path
 const API_URL = import.meta.env.VITE_API_URL || "/api";
-interface UserData {
-  name: string;
-  email: string;
-  location: string;
-  agentName: string;
-}
+type UserData = CustomerDetails;
+
+// A verified phone number identifies the customer; unverified numbers are only sent while offline
+const toSpinCustomer = (user: UserData, quizAttemptId?: string | null, purchaseId?: number | null): SpinCustomer => ({
+  user_contact: user.phone,
+  verification_token: user.verificationToken,
+  quiz_attempt_id: quizAttemptId || undefined,
+  purchase_id: purchaseId || undefined,
+});
 
 export type Prize = {
   label: string;
   isWin: boolean;
+  // Grand, standard or consolation; unset for losing spins
+  tier?: PrizeTier | null;
+  spinToken?: string;
+  // Set when the spin was drawn offline from this allowance
+  allowanceId?: string;
+  // Code the winner shows a BA to collect the prize
+  claimCode?: string | null;
+  claimExpiresAt?: string | null;
 };
 
 export default function Index() {
+  // Campaign pages live at /c/:slug; the root page plays without a campaign
+  const { slug } = useParams<{ slug?: string }>();
+  const { data: campaign, isLoading: isCampaignLoading, isError: isCampaignError } = useQuery({
+    queryKey: ['campaign', slug],
+    queryFn: () => fetchCampaign(slug as string),
+    enabled: !!slug,
+  });
+  // Spins are recorded against the BA this device is signed in as
+  const [deviceAgent, setDeviceAgent] = useState<DeviceAgent | null>(getDeviceAgent);
   const [userData, setUserData] = useState<UserData | null>(null);
   const [showSpinner, setShowSpinner] = useState(false);
   const [prizeWon, setPrizeWon] = useState<Prize | null>(null);
   const [showWinModal, setShowWinModal] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  // Set when the customer has played as often as the campaign allows
+  const [ineligible, setIneligible] = useState<SpinEligibility | null>(null);
+  // The campaign's quiz while the customer answers it, and the attempt they play with after
+  const [quiz, setQuiz] = useState<Quiz | null>(null);
+  const [quizAttemptId, setQuizAttemptId] = useState<string | null>(null);
+  // Whether the BA is entering the customer's receipt, and the purchase they play with after
+  const [isEnteringPurchase, setIsEnteringPurchase] = useState(false);
+  const [purchaseId, setPurchaseId] = useState<number | null>(null);
+  const { isOnline, pendingCount, isSyncing, syncNow } = useOfflineSync(deviceAgent?.agent_id, campaign?.slug);
+
+  const handleFormSubmit = async (data: UserData) => {
+    // The draw checks again, so a customer is still let through when the check cannot be made
+    const eligibility = await checkSpinEligibility(toSpinCustomer(data), campaign?.slug).catch((error) => {
+      console.error("Error checking eligibility:", error);
+      return null;
+    });
+    if (eligibility && !eligibility.eligible) {
+      setIneligible(eligibility);
+      return false;
+    }
+
+    // The receipt comes first, so a customer who has not bought anything does not answer the quiz
+    if (campaign?.purchase_settings) {
+      setUserData(data);
+      setIsEnteringPurchase(true);
+      return true;
+    }
+    return startQuizOrGame(data);
+  };
+
+  // Show the campaign's quiz, or the game when there is none. Resolves to false when the quiz
+  // could not be loaded.
+  const startQuizOrGame = async (data: UserData) => {
+    if (campaign?.quiz_settings) {
+      const loaded = await fetchQuiz(campaign.slug).catch((error: Error) => error);
+      // The quiz needs the server, so customers wait for the connection rather than playing without it
+      if (loaded instanceof Error) {
+        console.error("Error loading quiz:", loaded);
+        toast({
+          title: "Could not load the quiz",
+          description: loaded instanceof TypeError
+            ? "The quiz can only be played while the device is online. Please reconnect and try again."
+            : loaded.message,
+          variant: "destructive",
+        });
+        if (loaded instanceof DeviceSessionError) {
+          handleDeviceSignedOut();
+        }
+        return false;
+      }
+      if (loaded.questions.length > 0) {
+        setUserData(data);
+        setQuiz(loaded);
+        return true;
+      }
+    }
 
-  const handleFormSubmit = (data: UserData) => {
     setUserData(data);
     setShowSpinner(true);
+    return true;
   };
 
-  const handleSpinEnd = async (prize: Prize) => {
-    if (userData) {
-      try {
-        setIsLoading(true);
-        console.log(`Sending result to backend: ${API_URL}/spin-results`);
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 30000);
-
-        const payload: any = {
-          name: userData.name,
-          email: userData.email,
-          location: userData.location,
-          agent_name: userData.agentName,
-          prize: prize.label,
-          is_win: prize.isWin,
-        };
-
-        const response = await fetch(`${API_URL}/spin-results`, {
-          method: 'POST',
-          signal: controller.signal,
-          mode: 'cors',
-          cache: 'no-cache',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(payload),
-        });
+  const handlePurchaseComplete = async (enteredPurchaseId: number) => {
+    setIsEnteringPurchase(false);
+    setPurchaseId(enteredPurchaseId);
+    if (userData && !(await startQuizOrGame(userData))) {
+      setUserData(null);
+      setPurchaseId(null);
+    }
+  };
 
-        clearTimeout(timeoutId);
+  const handlePurchaseCancel = () => {
+    setIsEnteringPurchase(false);
+    setUserData(null);
+  };
 
-        let responseData: any;
-        try {
-          responseData = await response.json();
-        } catch (parseError) {
-          console.error('Failed to parse response JSON:', parseError);
-          throw new Error(`Server returned invalid JSON response (Status: ${response.status})`);
-        }
+  const handleQuizComplete = (result: QuizResult) => {
+    setQuiz(null);
+    // The quiz has told the customer they did not earn a game, so the form is ready for the next one
+    if (!result.earns_spin) {
+      setUserData(null);
+      setPurchaseId(null);
+      return;
+    }
+    setQuizAttemptId(result.attempt_id);
+    setShowSpinner(true);
+  };
 
-        if (!response.ok) {
-          console.error('Server error response:', responseData);
-          if (response.status === 503) {
-            throw new Error('Service temporarily unavailable. Please try again in a few moments.');
-          } else if (response.status === 400) {
-            throw new Error(responseData.message || 'Invalid data provided');
-          } else if (response.status === 409) {
-            throw new Error('This result has already been recorded');
-          } else {
-            throw new Error(responseData.message || `Server error: ${response.status}`);
-          }
-        }
+  const handleNotEligible = (eligibility: SpinEligibility) => {
+    setShowSpinner(false);
+    setUserData(null);
+    setQuizAttemptId(null);
+    setPurchaseId(null);
+    setIneligible(eligibility);
+  };
+
+  // Keep the spin on the device until it can be synced, and show the customer their prize
+  const queueOfflineSpin = async (prize: Prize, user: UserData, idempotencyKey?: string) => {
+    try {
+      await queueSpin({
+        idempotency_key: idempotencyKey,
+        name: user.name,
+        email: user.email,
+        phone: user.phone,
+        location: user.location,
+        spin_token: prize.spinToken,
+        allowance_id: prize.allowanceId,
+        prize_label: prize.label,
+        is_win: prize.isWin,
+      });
+      toast({ title: 'Saved on this device', description: 'This spin will be synced when the connection is back.' });
+      setPrizeWon({ label: prize.label, isWin: prize.isWin, tier: prize.tier });
+      setShowWinModal(true);
+    } catch (error) {
+      console.error('Error queueing offline spin:', error);
+      toast({
+        title: 'Saving Error',
+        description: 'Could not save this spin on the device.',
+        variant: 'destructive',
+      });
+    }
+  };
 
-        console.log('Saved spin result:', responseData);
+  // Every attempt to record a spin sends the same idempotency key, so a retry after a timeout
+  // returns the result the server already recorded instead of recording the spin twice
+  const submitSpinResult = async (prize: Prize, user: UserData, idempotencyKey: string) => {
+    try {
+      setIsLoading(true);
+      console.log(`Sending result to backend: ${API_URL}/spin-results`);
 
-        setPrizeWon(prize);
-        setShowWinModal(true);
-        
-        // Update win history if needed
-        // Note: Prize inventory checking is now handled on the backend
-      } catch (error: any) {
-        console.error('Error saving spin result:', error);
-        
-        // Check if it's a "No prize available" error from backend
-        if (error.message && error.message.includes('No prize available')) {
-          toast({ title: 'TRY AGAIN', description: 'That prize is no longer available. Please spin again!' });
-          setPrizeWon({ label: "TRY AGAIN", isWin: false });
-          setShowWinModal(true);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 30000);
+
+      const payload: any = {
+        name: user.name,
+        user_contact: user.phone,
+        email: user.email,
+        location: user.location,
+        spin_token: prize.spinToken,
+        idempotency_key: idempotencyKey,
+      };
+
+      const response = await fetch(`${API_URL}/spin-results`, {
+        method: 'POST',
+        signal: controller.signal,
+        mode: 'cors',
+        cache: 'no-cache',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify(payload),
+      });
+
+      clearTimeout(timeoutId);
+
+      let responseData: any;
+      try {
+        responseData = await response.json();
+      } catch (parseError) {
+        console.error('Failed to parse response JSON:', parseError);
+        throw new Error(`Server returned invalid JSON response (Status: ${response.status})`);
+      }
+
+      if (!response.ok) {
+        console.error('Server error response:', responseData);
+        if (response.status === 503) {
+          throw new Error('Service temporarily unavailable. Please try again in a few moments.');
+        } else if (response.status === 400) {
+          throw new Error(responseData.message || 'Invalid data provided');
+        } else if (response.status === 409) {
+          throw new Error('This result has already been recorded');
         } else {
-          toast({
-            title: 'Saving Error',
-            description: error.message || 'Could not save to server. Please try again.',
-            variant: 'destructive',
-          });
+          throw new Error(responseData.message || `Server error: ${response.status}`);
         }
-      } finally {
-        setIsLoading(false);
       }
+
+      console.log('Saved spin result:', responseData);
+
+      // Show the outcome recorded by the server
+      setPrizeWon({
+        label: responseData.prize || prize.label,
+        isWin: !!responseData.is_win,
+        tier: responseData.prize_tier,
+        claimCode: responseData.claim_code,
+        claimExpiresAt: responseData.claim_expires_at,
+      });
+      setShowWinModal(true);
+      
+      // Update win history if needed
+      // Note: Prize inventory checking is now handled on the backend
+    } catch (error: any) {
+      console.error('Error saving spin result:', error);
+      
+      // The server could not be reached, so the spin is synced later instead of being lost
+      if ((error instanceof TypeError || error.name === 'AbortError') && prize.spinToken) {
+        await queueOfflineSpin(prize, user, idempotencyKey);
+      } else if (error.message && error.message.includes('No prize available')) {
+        // Check if it's a "No prize available" error from backend
+        toast({ title: 'TRY AGAIN', description: 'That prize is no longer available. Please spin again!' });
+        setPrizeWon({ label: "TRY AGAIN", isWin: false });
+        setShowWinModal(true);
+      } else {
+        toast({
+          title: 'Saving Error',
+          description: error.message || 'Could not save to server. Please try again.',
+          variant: 'destructive',
+          action: (
+            <ToastAction altText="Retry saving this spin" onClick={() => submitSpinResult(prize, user, idempotencyKey)}>
+              Retry
+            </ToastAction>
+          ),
+        });
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSpinEnd = async (prize: Prize) => {
+    if (userData && prize.allowanceId) {
+      await queueOfflineSpin(prize, userData);
+    } else if (userData) {
+      await submitSpinResult(prize, userData, crypto.randomUUID());
     } else {
       // Fallback if no user data (should not happen)
       setPrizeWon(prize);
@@ -121,18 +295,139 @@ export default function Index() {
     setShowWinModal(false);
     setShowSpinner(false);
     setUserData(null);
+    setQuizAttemptId(null);
+    setPurchaseId(null);
     setPrizeWon(null);
   };
 
+  const handleDeviceSignedOut = () => {
+    setDeviceAgent(null);
+    setShowSpinner(false);
+    setUserData(null);
+    setQuiz(null);
+    setQuizAttemptId(null);
+    setIsEnteringPurchase(false);
+    setPurchaseId(null);
+  };
+
+  const handleDeviceLogout = async () => {
+    await logoutDevice();
+    handleDeviceSignedOut();
+  };
+
+  const handleNextCustomer = () => {
+    setIneligible(null);
+  };
+
+  const headingStyle = campaign?.primary_color ? { color: campaign.primary_color } : undefined;
+  const campaignUnavailable = !!slug && !isCampaignLoading && (isCampaignError || !campaign || !campaign.is_live);
+
+  if (slug && (isCampaignLoading || campaignUnavailable)) {
+    return (
+      <div className="min-h-screen bg-white p-4 flex flex-col items-center justify-center text-center">
+        {isCampaignLoading ? (
+          <p className="text-black/70">Loading...</p>
+        ) : (
+          <>
+            <h1 className="text-2xl sm:text-3xl font-bold text-black uppercase mb-4">
+              {campaign ? campaign.name : "Campaign not found"}
+            </h1>
+            <p className="text-black/70">
+              {isCampaignError
+                ? "We could not load this campaign. Please try again later."
+                : campaign
+                  ? "This campaign is not running right now. Please check back later."
+                  : "Please check the link and try again."}
+            </p>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  if (ineligible) {
+    return (
+      <div className="min-h-screen bg-white p-4 flex flex-col items-center justify-center text-center">
+        <h1
+          className="text-2xl sm:text-3xl font-bold text-black uppercase mb-4"
+          style={headingStyle}
+        >
+          Thanks for playing!
+        </h1>
+        <p className="text-black/70 mb-6">
+          {ineligible.message || "You cannot play again right now."}
+        </p>
+        <button
+          type="button"
+          onClick={handleNextCustomer}
+          className="px-6 py-3 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold"
+        >
+          Next customer
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-white p-4 sm:p-6 md:p-8 flex flex-col items-center justify-center">
       {!showSpinner ? (
         <div className="w-full max-w-4xl flex flex-col items-center">
-          <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold text-black mt-4 sm:mt-6 md:mt-8 mb-6 md:mb-8 uppercase text-center px-2">
-            Spin the Wheel and Win
+          <h1
+            className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold text-black mt-4 sm:mt-6 md:mt-8 mb-6 md:mb-8 uppercase text-center px-2"
+            style={headingStyle}
+          >
+            {campaign?.headline || "Spin the Wheel and Win"}
           </h1>
+          {campaign?.subheadline && (
+            <p className="text-sm sm:text-base text-black/70 text-center mb-6 px-2">
+              {campaign.subheadline}
+            </p>
+          )}
           <div className="w-full max-w-md px-3 sm:px-0">
-            <UserForm onSubmit={handleFormSubmit} />
+            {deviceAgent && isEnteringPurchase && campaign?.purchase_settings && userData ? (
+              <PurchaseGate
+                campaign={campaign}
+                settings={campaign.purchase_settings}
+                customer={toSpinCustomer(userData)}
+                defaultTill={userData.location}
+                onComplete={handlePurchaseComplete}
+                onCancel={handlePurchaseCancel}
+              />
+            ) : deviceAgent && quiz && campaign && userData ? (
+              <QuizGate
+                campaign={campaign}
+                quiz={quiz}
+                customer={toSpinCustomer(userData)}
+                onComplete={handleQuizComplete}
+              />
+            ) : deviceAgent ? (
+              <>
+                <UserForm onSubmit={handleFormSubmit} />
+                <p className="mt-3 text-center text-xs sm:text-sm text-black/60">
+                  BA: {deviceAgent.name}
+                  <Link to="/redeem" className="ml-2 underline hover:text-black">
+                    Redeem prize
+                  </Link>
+                  <button
+                    type="button"
+                    onClick={handleDeviceLogout}
+                    className="ml-2 underline hover:text-black"
+                  >
+                    Sign out
+                  </button>
+                </p>
+                <div className="mt-2">
+                  <SyncIndicator
+                    isOnline={isOnline}
+                    pendingCount={pendingCount}
+                    isSyncing={isSyncing}
+                    onSync={syncNow}
+                  />
+                </div>
+              </>
+            ) : (
+              <DeviceLogin onSignedIn={setDeviceAgent} />
+            )}
           </div>
         </div>
       ) : (
@@ -140,17 +435,27 @@ export default function Index() {
           {/* Animated disclaimer */}
           <div className="mb-2 sm:mb-3 text-center animate-fade-in">
             <p className="text-xs sm:text-sm text-black/70 animate-pulse">
-              Everyone should win a merchandise prize
+              {campaign?.terms_text || "Everyone should win a merchandise prize"}
             </p>
           </div>
           
-          <h1 className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold text-black mt-4 sm:mt-6 md:mt-8 mb-6 md:mb-8 uppercase text-center px-2">
-            Spin The Wheel
+          <h1
+            className="text-2xl sm:text-3xl md:text-4xl lg:text-5xl font-bold text-black mt-4 sm:mt-6 md:mt-8 mb-6 md:mb-8 uppercase text-center px-2"
+            style={headingStyle}
+          >
+            {GAME_TITLES[campaign?.game_mode || "wheel"] || GAME_TITLES.wheel}
           </h1>
           
           <div className="flex justify-center w-full px-2 sm:px-4">
             <div className="w-full flex justify-center">
-              <SpinWheel onSpinEnd={handleSpinEnd} />
+              <PrizeGame
+                agentId={deviceAgent?.agent_id}
+                campaign={campaign}
+                customer={userData ? toSpinCustomer(userData, quizAttemptId, purchaseId) : undefined}
+                onSpinEnd={handleSpinEnd}
+                onNotEligible={handleNotEligible}
+                onDeviceSignedOut={handleDeviceSignedOut}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,181 @@
+import { useCallback, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/sonner";
+import { DeviceLogin } from "@/components/DeviceLogin";
+import { ClaimScanner } from "@/components/ClaimScanner";
+import { DeviceAgent, DeviceSessionError, getDeviceAgent } from "@/utils/deviceSession";
+import {
+  canScanClaimCodes,
+  Claim,
+  ClaimError,
+  CLAIM_STATUS_CLASSES,
+  CLAIM_STATUS_LABELS,
+  fetchClaim,
+  formatClaimCode,
+  redeemClaim,
+} from "@/utils/claimUtils";
+
+// Where a BA looks up a winner's claim code and records that the prize was handed over
+export default function Redeem() {
+  const [deviceAgent, setDeviceAgent] = useState<DeviceAgent | null>(getDeviceAgent);
+  const [code, setCode] = useState("");
+  const [claim, setClaim] = useState<Claim | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleError = useCallback((error: unknown, fallback: string) => {
+    console.error(fallback, error);
+    if (error instanceof DeviceSessionError) {
+      setDeviceAgent(null);
+    }
+    if (error instanceof ClaimError && error.claim) {
+      setClaim(error.claim);
+    }
+    toast.error(error instanceof Error ? error.message : fallback);
+  }, []);
+
+  const lookUp = useCallback(async (value: string) => {
+    if (!value.trim()) {
+      toast.error("Please enter a claim code");
+      return;
+    }
+    setIsLoading(true);
+    setClaim(null);
+    try {
+      setClaim(await fetchClaim(value));
+    } catch (error) {
+      handleError(error, "Could not look up the claim code");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [handleError]);
+
+  const handleScanned = useCallback((value: string) => {
+    setIsScanning(false);
+    setCode(value);
+    lookUp(value);
+  }, [lookUp]);
+
+  const handleScanError = useCallback((message: string) => {
+    setIsScanning(false);
+    toast.error(message);
+  }, []);
+
+  const handleRedeem = async () => {
+    if (!claim) return;
+    setIsLoading(true);
+    try {
+      setClaim(await redeemClaim(claim.claim_code));
+      toast.success(`${claim.prize} handed over to ${claim.winner_name}`);
+    } catch (error) {
+      handleError(error, "Could not redeem the prize");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setCode("");
+    setClaim(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-white p-4 sm:p-6 md:p-8 flex flex-col items-center justify-center">
+      <div className="w-full max-w-md px-3 sm:px-0">
+        <h1 className="text-2xl sm:text-3xl md:text-4xl font-bold text-black mb-6 uppercase text-center">
+          Redeem a Prize
+        </h1>
+
+        {!deviceAgent ? (
+          <DeviceLogin onSignedIn={setDeviceAgent} />
+        ) : (
+          <div className="w-full p-6 sm:p-8 bg-gradient-to-br from-white via-blue-50 to-blue-100 rounded-xl shadow-xl border border-blue-200 space-y-5">
+            {isScanning ? (
+              <ClaimScanner
+                onDetected={handleScanned}
+                onClose={() => setIsScanning(false)}
+                onError={handleScanError}
+              />
+            ) : (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  lookUp(code);
+                }}
+                className="space-y-3"
+              >
+                <Label htmlFor="claimCode" className="text-sm sm:text-base font-semibold text-blue-800">Claim Code</Label>
+                <Input
+                  id="claimCode"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="e.g. K7QM-3XTA"
+                  autoCapitalize="characters"
+                  autoComplete="off"
+                  className="text-sm sm:text-base bg-white border-2 border-blue-200 focus:border-blue-500 text-blue-800 rounded-lg uppercase tracking-widest"
+                />
+                <div className="flex gap-2">
+                  <Button
+                    type="submit"
+                    disabled={isLoading}
+                    className="flex-1 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold"
+                  >
+                    {isLoading && !claim ? "Looking up..." : "Look Up"}
+                  </Button>
+                  {canScanClaimCodes() && (
+                    <Button type="button" variant="outline" onClick={() => setIsScanning(true)}>
+                      Scan QR
+                    </Button>
+                  )}
+                </div>
+              </form>
+            )}
+
+            {claim && (
+              <div className="rounded-lg border border-blue-200 bg-white p-4 space-y-2 text-sm text-blue-900">
+                <div className="flex items-center justify-between">
+                  <span className="font-mono font-semibold tracking-widest">{formatClaimCode(claim.claim_code)}</span>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${CLAIM_STATUS_CLASSES[claim.status]}`}>
+                    {CLAIM_STATUS_LABELS[claim.status]}
+                  </span>
+                </div>
+                <p className="text-lg font-bold">{claim.prize}</p>
+                <p>Winner: {claim.winner_name} ({claim.winner_contact})</p>
+                <p>Won: {new Date(claim.won_at).toLocaleString()}{claim.agent_name ? ` with ${claim.agent_name}` : ""}</p>
+                {claim.status === "claimed" && claim.claimed_at && (
+                  <p>Handed over: {new Date(claim.claimed_at).toLocaleString()} by {claim.claimed_by_agent}</p>
+                )}
+                {(claim.status === "unclaimed" || claim.status === "expired") && claim.expires_at && (
+                  <p>{claim.status === "expired" ? "Expired" : "Expires"}: {new Date(claim.expires_at).toLocaleString()}</p>
+                )}
+
+                {claim.status === "unclaimed" ? (
+                  <Button
+                    type="button"
+                    onClick={handleRedeem}
+                    disabled={isLoading}
+                    className="w-full mt-2 bg-green-600 hover:bg-green-700 text-white font-semibold"
+                  >
+                    {isLoading ? "Saving..." : "Hand Over Prize"}
+                  </Button>
+                ) : (
+                  <Button type="button" variant="outline" onClick={reset} className="w-full mt-2">
+                    Next Claim
+                  </Button>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <p className="mt-4 text-center text-xs sm:text-sm text-black/60">
+          {deviceAgent && <>BA: {deviceAgent.name} · </>}
+          <Link to="/" className="underline hover:text-black">Back to the wheel</Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { ServerWheelSector, WheelPalette } from "@/utils/spinWheelUtils";
+
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+export interface CampaignSector {
+  label: string;
+  is_win: boolean;
+}
+
+// Limits on how often one customer can play; a rule that is not set does not limit anything
+export interface EligibilityRules {
+  max_spins_per_day?: number;
+  max_spins_per_campaign?: number;
+  max_spins_per_outlet?: number;
+  cooldown_minutes?: number;
+  max_wins?: number;
+}
+
+// Game customers play on the campaign page; every game reveals an outcome drawn by the server
+export type GameMode = "wheel" | "scratch_card" | "pick_a_box" | "slot_machine";
+
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+  wheel: "Spin the wheel",
+  scratch_card: "Scratch card",
+  pick_a_box: "Pick a box",
+  slot_machine: "Slot machine",
+};
+
+// Product quiz customers answer before they play, with questions from the admin's question bank
+export interface QuizSettings {
+  question_count: number;
+  // Correct answers needed to play
+  pass_mark: number;
+  // Whether a customer who fails still plays, for the consolation prize only
+  consolation_on_fail: boolean;
+}
+
+// Proof of purchase customers need to play; each receipt plays once in the campaign
+export interface PurchaseSettings {
+  // SKUs in the promotion, one of which must be on the receipt; any product counts when empty
+  skus: string[];
+  // Lowest receipt total that can play
+  min_amount: number | null;
+  // Whether the BA must upload a photo of the receipt
+  require_photo: boolean;
+}
+
+export interface Campaign {
+  id: number;
+  slug: string;
+  name: string;
+  start_date: string | null;
+  end_date: string | null;
+  logo_url: string | null;
+  primary_color: string | null;
+  secondary_color: string | null;
+  text_color: string | null;
+  headline: string | null;
+  subheadline: string | null;
+  terms_text: string | null;
+  sectors: CampaignSector[] | null;
+  eligibility_rules: EligibilityRules | null;
+  game_mode: GameMode;
+  quiz_settings: QuizSettings | null;
+  purchase_settings: PurchaseSettings | null;
+  allowed_origin: string | null;
+  is_active: boolean;
+  is_live: boolean;
+}
+
+export const DEFAULT_LOGO = "/lovable-uploads/dea1f866-73e1-425a-915f-a3c933e3204c.png";
+
+const campaignCacheKey = (slug: string) => `campaign:${slug}`;
+
+// Load the public details of a campaign from its slug. The last copy is kept so a kiosk
+// that loses its connection can keep playing the campaign offline.
+export const fetchCampaign = async (slug: string): Promise<Campaign | null> => {
+  let response: Response;
+  try {
+    response = await fetch(`${API_URL}/campaigns/${encodeURIComponent(slug)}`, {
+      mode: 'cors',
+      cache: 'no-cache',
+      headers: { 'Accept': 'application/json' },
+    });
+  } catch (error) {
+    const cached = localStorage.getItem(campaignCacheKey(slug));
+    if (cached) {
+      return JSON.parse(cached);
+    }
+    throw error;
+  }
+
+  if (response.status === 404) {
+    localStorage.removeItem(campaignCacheKey(slug));
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Could not load the campaign (Status: ${response.status})`);
+  }
+
+  const campaign = await response.json();
+  localStorage.setItem(campaignCacheKey(slug), JSON.stringify(campaign));
+  return campaign;
+};
+
+// Colours of the wheel for a campaign, leaving unset colours to the default wheel
+export function getCampaignPalette(campaign?: Campaign | null): WheelPalette {
+  return {
+    win: campaign?.primary_color || undefined,
+    tryAgain: campaign?.secondary_color || undefined,
+    text: campaign?.text_color || undefined,
+  };
+}
+
+// Whether the campaign can be played while the device is offline. Campaigns whose customers are
+// checked by the server before each game, by their receipt, the quiz or the eligibility rules, cannot.
+export function canPlayOffline(campaign?: Campaign | null): boolean {
+  return !campaign?.purchase_settings && !campaign?.quiz_settings && !campaign?.eligibility_rules;
+}
+
+// The campaign's own sector list, shaped like sectors returned by the backend
+export function getCampaignSectors(campaign?: Campaign | null): ServerWheelSector[] | null {
+  if (!campaign?.sectors || campaign.sectors.length === 0) {
+    return null;
+  }
+  return campaign.sectors.map((sector, index) => ({
+    index,
+    label: sector.label,
+    is_win: sector.is_win,
+    product_id: null,
+  }));
+}
@@ -0,0 +1,90 @@
+import { clearDeviceSession, deviceHeaders, DeviceSessionError } from "@/utils/deviceSession";
+
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+export type ClaimStatus = "unclaimed" | "claimed" | "expired" | "voided";
+
+// A won prize as returned by the claims API
+export interface Claim {
+  claim_code: string;
+  spin_result_id: number;
+  prize: string;
+  winner_name: string;
+  winner_contact: string;
+  agent_id: string | null;
+  agent_name: string | null;
+  won_at: string;
+  expires_at: string | null;
+  claimed_at: string | null;
+  claimed_by_agent: string | null;
+  status: ClaimStatus;
+}
+
+// Thrown when a claim cannot be redeemed; the claim is included when the code was found
+export class ClaimError extends Error {
+  claim?: Claim;
+
+  constructor(message: string, claim?: Claim) {
+    super(message);
+    this.claim = claim;
+  }
+}
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  unclaimed: "Not collected",
+  claimed: "Handed over",
+  expired: "Expired",
+  voided: "Voided",
+};
+
+export const CLAIM_STATUS_CLASSES: Record<ClaimStatus, string> = {
+  unclaimed: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
+  claimed: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
+  expired: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200",
+  voided: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
+};
+
+// The Barcode Detection API is not in the TypeScript DOM types yet
+interface BarcodeDetectorLike {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+export const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// Scanning needs a camera and a browser with the Barcode Detection API; codes can always be typed instead
+export const canScanClaimCodes = () => !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+// Image URL of the QR code for a claim code
+export const getClaimQrUrl = (code: string) => `${API_URL}/claims/${encodeURIComponent(code)}/qr.svg`;
+
+// Codes are printed in groups of four, e.g. K7QM-3XTA
+export const formatClaimCode = (code: string) => code.replace(/(.{4})(?=.)/g, "$1-");
+
+const claimRequest = async (path: string, method: "GET" | "POST"): Promise<Claim> => {
+  const response = await fetch(`${API_URL}/claims/${path}`, {
+    method,
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: { 'Accept': 'application/json', ...deviceHeaders() },
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    if (response.status === 401) {
+      clearDeviceSession();
+      throw new DeviceSessionError('This device has been signed out. Please sign in again.');
+    }
+    throw new ClaimError(data.message || `Could not load the claim (Status: ${response.status})`, data.claim);
+  }
+
+  return data;
+};
+
+// Look up a won prize by the code the winner shows
+export const fetchClaim = (code: string) => claimRequest(encodeURIComponent(code.trim()), "GET");
+
+// Record that the prize was handed over by the agent this device is signed in as
+export const redeemClaim = (code: string) => claimRequest(`${encodeURIComponent(code.trim())}/redeem`, "POST");
@@ -0,0 +1,79 @@
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+const DEVICE_TOKEN_KEY = "ba-device-token";
+const DEVICE_AGENT_KEY = "ba-device-agent";
+
+// The agent (BA) this kiosk or tablet is signed in as
+export interface DeviceAgent {
+  agent_id: string;
+  name: string;
+  location: string;
+}
+
+// Thrown when the server no longer accepts the device session
+export class DeviceSessionError extends Error {}
+
+export const getDeviceToken = (): string | null => localStorage.getItem(DEVICE_TOKEN_KEY);
+
+export const getDeviceAgent = (): DeviceAgent | null => {
+  if (!getDeviceToken()) {
+    return null;
+  }
+  try {
+    return JSON.parse(localStorage.getItem(DEVICE_AGENT_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+export const clearDeviceSession = () => {
+  localStorage.removeItem(DEVICE_TOKEN_KEY);
+  localStorage.removeItem(DEVICE_AGENT_KEY);
+};
+
+// Headers that identify the device to the spin endpoints
+export const deviceHeaders = (): Record<string, string> => {
+  const token = getDeviceToken();
+  return token ? { 'X-Device-Token': token } : {};
+};
+
+// Sign the device in as an agent with their agent code and PIN
+export const loginDevice = async (agentCode: string, pin: string): Promise<DeviceAgent> => {
+  const response = await fetch(`${API_URL}/devices/login`, {
+    method: 'POST',
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    },
+    body: JSON.stringify({ agent_code: agentCode, pin }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `Could not sign in (Status: ${response.status})`);
+  }
+
+  localStorage.setItem(DEVICE_TOKEN_KEY, data.device_token);
+  localStorage.setItem(DEVICE_AGENT_KEY, JSON.stringify(data.agent));
+  return data.agent;
+};
+
+// Sign the device out, even if the server cannot be reached
+export const logoutDevice = async () => {
+  const headers = deviceHeaders();
+  clearDeviceSession();
+
+  try {
+    await fetch(`${API_URL}/devices/logout`, {
+      method: 'POST',
+      mode: 'cors',
+      cache: 'no-cache',
+      headers: { 'Accept': 'application/json', ...headers },
+    });
+  } catch (error) {
+    console.error('Error signing out device:', error);
+  }
+};
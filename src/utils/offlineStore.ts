@@ -0,0 +1,106 @@
+// IndexedDB storage for spins played while the device is offline
+const DB_NAME = "ilara-offline";
+const DB_VERSION = 1;
+const PENDING_SPINS_STORE = "pendingSpins";
+const ALLOWANCES_STORE = "allowances";
+
+// A spin waiting to be sent to the server
+export interface PendingSpin {
+  idempotency_key: string;
+  played_at: string;
+  name: string;
+  email: string;
+  phone?: string;
+  location: string;
+  // Spins drawn online but not saved carry their spin token
+  spin_token?: string;
+  // Spins drawn offline carry the allowance they were drawn from
+  allowance_id?: string;
+  prize_label?: string;
+  is_win?: boolean;
+}
+
+// Sector of the offline wheel, with the weight the server would draw it with
+export interface AllowanceSector {
+  index: number;
+  label: string;
+  is_win: boolean;
+  product_id: string | number | null;
+  draw_weight: number;
+}
+
+// What the device may give away while offline, per agent and campaign
+export interface OfflineAllowance {
+  key: string;
+  allowance_id: string;
+  campaign_id: number | null;
+  expires_at: string;
+  sectors: AllowanceSector[];
+  items: { label: string; product_id: string | number | null; quantity: number }[];
+  // Offline wins drawn from this allowance so far, by prize label
+  used: Record<string, number>;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PENDING_SPINS_STORE)) {
+          db.createObjectStore(PENDING_SPINS_STORE, { keyPath: "idempotency_key" });
+        }
+        if (!db.objectStoreNames.contains(ALLOWANCES_STORE)) {
+          db.createObjectStore(ALLOWANCES_STORE, { keyPath: "key" });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run a single request against one store and resolve with its result
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = makeRequest(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const addPendingSpin = (spin: PendingSpin) =>
+  runRequest<IDBValidKey>(PENDING_SPINS_STORE, "readwrite", (store) => store.put(spin));
+
+// Pending spins, oldest first
+export const getPendingSpins = async (): Promise<PendingSpin[]> => {
+  const spins = await runRequest<PendingSpin[]>(PENDING_SPINS_STORE, "readonly", (store) => store.getAll());
+  return spins.sort((a, b) => a.played_at.localeCompare(b.played_at));
+};
+
+export const countPendingSpins = () =>
+  runRequest<number>(PENDING_SPINS_STORE, "readonly", (store) => store.count());
+
+export const removePendingSpin = (idempotencyKey: string) =>
+  runRequest<undefined>(PENDING_SPINS_STORE, "readwrite", (store) => store.delete(idempotencyKey));
+
+export const getAllowance = (key: string) =>
+  runRequest<OfflineAllowance | undefined>(ALLOWANCES_STORE, "readonly", (store) => store.get(key));
+
+export const saveAllowance = (allowance: OfflineAllowance) =>
+  runRequest<IDBValidKey>(ALLOWANCES_STORE, "readwrite", (store) => store.put(allowance));
+
+export const removeAllowance = (key: string) =>
+  runRequest<undefined>(ALLOWANCES_STORE, "readwrite", (store) => store.delete(key));
@@ -0,0 +1,171 @@
+import { deviceHeaders } from "@/utils/deviceSession";
+import {
+  addPendingSpin,
+  getAllowance,
+  getPendingSpins,
+  OfflineAllowance,
+  PendingSpin,
+  removeAllowance,
+  removePendingSpin,
+  saveAllowance,
+} from "@/utils/offlineStore";
+import { ServerWheelSector } from "@/utils/spinWheelUtils";
+
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+// Fired on window whenever the queue of pending spins changes
+export const OFFLINE_QUEUE_EVENT = "offline-queue-changed";
+
+// The server accepts at most this many spins per sync request
+const SYNC_BATCH_SIZE = 100;
+
+// Outcome drawn on the device from its offline allowance
+export interface OfflineDraw {
+  allowance_id: string;
+  sector_index: number;
+  prize_label: string;
+  is_win: boolean;
+  sectors: ServerWheelSector[];
+}
+
+export interface SyncSummary {
+  synced: number;
+  conflicts: number;
+  rejected: number;
+}
+
+interface SyncResult {
+  idempotency_key: string;
+  status: "synced" | "duplicate" | "conflict" | "rejected";
+  reason?: string;
+}
+
+const allowanceKey = (agentId: string, campaignSlug?: string) => `${agentId}:${campaignSlug || ""}`;
+
+const notifyQueueChanged = () => window.dispatchEvent(new Event(OFFLINE_QUEUE_EVENT));
+
+// Fetch a fresh offline allowance so the device can keep playing if the connection drops
+export const refreshAllowance = async (agentId: string, campaignSlug?: string): Promise<void> => {
+  const response = await fetch(`${API_URL}/spins/allowance`, {
+    method: 'POST',
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...deviceHeaders()
+    },
+    body: JSON.stringify({ campaign: campaignSlug }),
+  });
+
+  // Campaigns that check each customer on the server get no allowance, and one saved before the
+  // campaign started checking is dropped
+  if (response.status === 409) {
+    await removeAllowance(allowanceKey(agentId, campaignSlug));
+    return;
+  }
+  if (!response.ok) {
+    throw new Error(`Could not load the offline allowance (Status: ${response.status})`);
+  }
+
+  const data = await response.json();
+  await saveAllowance({ ...data, key: allowanceKey(agentId, campaignSlug), used: {} });
+};
+
+// Pick a sector by draw weight, leaving out prizes the allowance has run out of
+const pickOfflineSector = (allowance: OfflineAllowance) => {
+  const candidates = allowance.sectors.filter((sector) => {
+    if (sector.draw_weight <= 0) return false;
+    if (!sector.is_win) return true;
+    const item = allowance.items.find((i) => i.label === sector.label);
+    return !!item && (allowance.used[sector.label] || 0) < item.quantity;
+  });
+
+  const totalWeight = candidates.reduce((sum, sector) => sum + sector.draw_weight, 0);
+  let roll = Math.random() * totalWeight;
+  for (const sector of candidates) {
+    roll -= sector.draw_weight;
+    if (roll < 0) return sector;
+  }
+  return candidates[candidates.length - 1];
+};
+
+// Draw a spin on the device when the server cannot be reached
+export const drawOfflineSpin = async (agentId: string, campaignSlug?: string): Promise<OfflineDraw> => {
+  const allowance = await getAllowance(allowanceKey(agentId, campaignSlug));
+  if (!allowance || new Date(allowance.expires_at) < new Date()) {
+    throw new Error('This device is offline and cannot play until it reconnects');
+  }
+
+  const sector = pickOfflineSector(allowance);
+  if (!sector) {
+    throw new Error('No prizes are available offline. Please reconnect to continue.');
+  }
+
+  if (sector.is_win) {
+    allowance.used[sector.label] = (allowance.used[sector.label] || 0) + 1;
+    await saveAllowance(allowance);
+  }
+
+  return {
+    allowance_id: allowance.allowance_id,
+    sector_index: sector.index,
+    prize_label: sector.label,
+    is_win: sector.is_win,
+    sectors: allowance.sectors,
+  };
+};
+
+// Keep a spin on the device until it can be synced. A spin that may already have reached the
+// server keeps the idempotency key it was sent with, so it is not recorded twice.
+export const queueSpin = async (
+  spin: Omit<PendingSpin, 'idempotency_key' | 'played_at'> & { idempotency_key?: string }
+) => {
+  await addPendingSpin({
+    ...spin,
+    idempotency_key: spin.idempotency_key || crypto.randomUUID(),
+    played_at: new Date().toISOString(),
+  });
+  notifyQueueChanged();
+};
+
+// Send queued spins to the server. Spins the server has answered for are removed from the queue,
+// including conflicts and rejections, which admins review on the server.
+export const syncPendingSpins = async (): Promise<SyncSummary> => {
+  const summary: SyncSummary = { synced: 0, conflicts: 0, rejected: 0 };
+  const pending = await getPendingSpins();
+
+  for (let i = 0; i < pending.length; i += SYNC_BATCH_SIZE) {
+    const response = await fetch(`${API_URL}/spins/sync`, {
+      method: 'POST',
+      mode: 'cors',
+      cache: 'no-cache',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...deviceHeaders()
+      },
+      body: JSON.stringify({ spins: pending.slice(i, i + SYNC_BATCH_SIZE) }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Could not sync offline spins (Status: ${response.status})`);
+    }
+
+    const { results } = await response.json() as { results: SyncResult[] };
+    for (const result of results) {
+      await removePendingSpin(result.idempotency_key);
+      if (result.status === 'conflict') {
+        summary.conflicts++;
+      } else if (result.status === 'rejected') {
+        summary.rejected++;
+      } else {
+        summary.synced++;
+      }
+    }
+    notifyQueueChanged();
+  }
+
+  return summary;
+};
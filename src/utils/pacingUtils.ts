@@ -0,0 +1,37 @@
+// How a paced prize's stock is spread over its campaign
+export type PacingCurve = "even_daily" | "even_hourly" | "front_loaded" | "back_loaded";
+
+export const PACING_CURVE_LABELS: Record<PacingCurve, string> = {
+  even_daily: "Even per day",
+  even_hourly: "Even per hour",
+  front_loaded: "Front-loaded",
+  back_loaded: "Back-loaded",
+};
+
+export interface BurnDownPoint {
+  at: string;
+  planned_remaining: number | null;
+  // Null for points in the future
+  actual_remaining: number | null;
+}
+
+// Planned and actual stock of one prize over its campaign
+export interface PrizeBurnDown {
+  product_id: number;
+  product_name: string;
+  pacing_curve: PacingCurve | null;
+  total: number;
+  given: number;
+  remaining: number;
+  planned_given: number | null;
+  // Win probability (percent) pacing sets for the next draw; null when the configured odds apply
+  probability: number | null;
+  points: BurnDownPoint[];
+}
+
+export interface CampaignPacing {
+  campaign_id: number;
+  start_date: string;
+  end_date: string;
+  products: PrizeBurnDown[];
+}
@@ -0,0 +1,58 @@
+import { deviceHeaders } from "@/utils/deviceSession";
+
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+// Kenyan mobile numbers as customers type them: 0712 345 678, 712345678, 254712345678 or +254712345678
+const KENYAN_MOBILE_PATTERN = /^(?:\+?254|0)?([17]\d{8})$/;
+const E164_PATTERN = /^\+[1-9]\d{7,14}$/;
+
+export const OTP_LENGTH = 6;
+
+export interface OtpSent {
+  phone: string;
+  expires_at: string;
+  resend_after_seconds: number;
+}
+
+export interface PhoneVerification {
+  phone: string;
+  verification_token: string;
+  expires_at: string;
+}
+
+// Normalise a phone number to E.164 the way the backend does, or return null if it is not valid
+export function normalizePhone(phone: string): string | null {
+  const value = phone.trim().replace(/[\s()-]/g, "");
+  const kenyan = value.match(KENYAN_MOBILE_PATTERN);
+  if (kenyan) {
+    return `+254${kenyan[1]}`;
+  }
+  return E164_PATTERN.test(value) ? value : null;
+}
+
+const postOtp = async <T>(path: string, body: Record<string, string>): Promise<T> => {
+  const response = await fetch(`${API_URL}/otp/${path}`, {
+    method: 'POST',
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...deviceHeaders()
+    },
+    body: JSON.stringify(body),
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || `Could not verify the phone number (Status: ${response.status})`);
+  }
+  return data;
+};
+
+// Text a one-time code to the customer's phone
+export const sendOtp = (phone: string) => postOtp<OtpSent>('send', { phone });
+
+// Check the code the customer received; the token proves the number when they play
+export const verifyOtp = (phone: string, code: string) => postOtp<PhoneVerification>('verify', { phone, code });
@@ -0,0 +1,102 @@
+import { clearDeviceSession, deviceHeaders, DeviceSessionError } from "@/utils/deviceSession";
+import { SpinCustomer } from "@/utils/spinWheelUtils";
+
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+// Receipt photos are resized on the device, so uploads stay small on a mobile connection
+const RECEIPT_PHOTO_MAX_SIDE = 1600;
+const RECEIPT_PHOTO_QUALITY = 0.8;
+
+// The receipt a customer plays with, as the BA enters it
+export interface PurchaseDetails {
+  receipt_number: string;
+  // Till or outlet the receipt was printed at
+  till: string;
+  skus: string[];
+  amount: number;
+}
+
+export interface RegisteredPurchase {
+  // Sent to the draw
+  purchase_id: number;
+  require_photo: boolean;
+}
+
+const throwResponseError = async (response: Response, action: string): Promise<never> => {
+  if (response.status === 401) {
+    clearDeviceSession();
+    throw new DeviceSessionError('This device has been signed out. Please ask the BA to sign in again.');
+  }
+  const data = await response.json().catch(() => ({}));
+  throw new Error(data.message || `Could not ${action} (Status: ${response.status})`);
+};
+
+// Enter the customer's receipt; a receipt already used in the campaign is refused
+export const registerPurchase = async (
+  campaignSlug: string,
+  customer: SpinCustomer,
+  purchase: PurchaseDetails
+): Promise<RegisteredPurchase> => {
+  const response = await fetch(`${API_URL}/spins/purchase`, {
+    method: 'POST',
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...deviceHeaders()
+    },
+    body: JSON.stringify({ campaign: campaignSlug, ...customer, ...purchase }),
+  });
+
+  if (!response.ok) {
+    await throwResponseError(response, 'enter the receipt');
+  }
+  return response.json();
+};
+
+// Scale a photo down to fit RECEIPT_PHOTO_MAX_SIDE and re-encode it as a JPEG. The original is
+// sent when the browser cannot read it.
+const shrinkPhoto = async (file: File): Promise<Blob> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const scale = Math.min(1, RECEIPT_PHOTO_MAX_SIDE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', RECEIPT_PHOTO_QUALITY));
+    return blob || file;
+  } catch (error) {
+    console.error('Could not resize receipt photo:', error);
+    return file;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// Upload a photo of the receipt of an entered purchase
+export const uploadReceiptPhoto = async (purchaseId: number, file: File): Promise<void> => {
+  const photo = await shrinkPhoto(file);
+  const response = await fetch(`${API_URL}/spins/purchase/${purchaseId}/receipt`, {
+    method: 'PUT',
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': photo.type || 'image/jpeg',
+      'Accept': 'application/json',
+      ...deviceHeaders()
+    },
+    body: photo,
+  });
+
+  if (!response.ok) {
+    await throwResponseError(response, 'upload the receipt photo');
+  }
+};
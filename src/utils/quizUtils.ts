@@ -0,0 +1,72 @@
+import { clearDeviceSession, deviceHeaders, DeviceSessionError } from "@/utils/deviceSession";
+import { SpinCustomer } from "@/utils/spinWheelUtils";
+
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+// A question as the customer sees it; the correct option stays on the server
+export interface QuizQuestion {
+  id: number;
+  question: string;
+  options: string[];
+}
+
+export interface Quiz {
+  pass_mark: number;
+  consolation_on_fail: boolean;
+  // Empty when the question bank has nothing for the campaign, so the customer plays straight away
+  questions: QuizQuestion[];
+}
+
+export interface QuizAnswer {
+  question_id: number;
+  // Position of the chosen option
+  option: number;
+}
+
+// The marked quiz; earns_spin says whether the customer plays, with attempt_id sent to the draw
+export interface QuizResult {
+  attempt_id: string;
+  passed: boolean;
+  correct_count: number;
+  question_count: number;
+  earns_spin: boolean;
+  expires_at: string;
+}
+
+const postQuiz = async <T>(path: string, body: object, action: string): Promise<T> => {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: 'POST',
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...deviceHeaders()
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      clearDeviceSession();
+      throw new DeviceSessionError('This device has been signed out. Please ask the BA to sign in again.');
+    }
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.message || `Could not ${action} (Status: ${response.status})`);
+  }
+
+  return response.json();
+};
+
+// Pick the questions for the next customer
+export const fetchQuiz = (campaignSlug: string): Promise<Quiz> =>
+  postQuiz<Quiz>('/spins/quiz', { campaign: campaignSlug }, 'load the quiz');
+
+// Mark the customer's answers on the server
+export const submitQuizAnswers = (
+  campaignSlug: string,
+  customer: SpinCustomer,
+  answers: QuizAnswer[]
+): Promise<QuizResult> =>
+  postQuiz<QuizResult>('/spins/quiz/answers', { campaign: campaignSlug, ...customer, answers }, 'check the answers');
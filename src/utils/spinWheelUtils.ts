@@ -1,12 +1,26 @@
 
 import { toast } from "@/components/ui/use-toast";
+import { clearDeviceSession, deviceHeaders, DeviceSessionError } from "@/utils/deviceSession";
+import { animateSpin, SpinTick } from "@/utils/wheelAnimation";
+
+// Tier of a winning prize; consolation prizes take the place of "Try Again" while in stock
+export type PrizeTier = "grand" | "standard" | "consolation";
+
+export const PRIZE_TIER_LABELS: Record<PrizeTier, string> = {
+  grand: "Grand prize",
+  standard: "Standard prize",
+  consolation: "Consolation prize",
+};
 
 export interface WheelSector {
   color: string;
   text: string;
   label: string;
   isWin: boolean;
+  tier?: PrizeTier | null;
   image?: string;
+  // Relative odds used by the server-side draw; does not change the sector size
+  weight?: number;
 }
 
 
@@ -16,7 +30,10 @@ export interface WheelSector {
   text: string;
   label: string;
   isWin: boolean;
+  tier?: PrizeTier | null;
   image?: string;
+  // Relative odds used by the server-side draw; does not change the sector size
+  weight?: number;
 }
 
 export const wheelSectors: WheelSector[] = [
@@ -75,62 +92,213 @@ export const wheelSectors: WheelSector[] = [
 ];
 
 
-// Function to determine which sector the wheel landed on based on final angle
-export function getFinalSector(degrees: number, sectors: WheelSector[]): WheelSector {
-  // Convert degrees to sectors
-  // Each sector occupies (360 / number of sectors) degrees
-  const sectorAngle = 360 / sectors.length;
-  const normalizedDegrees = degrees % 360;
-  
-  // Calculate sector index (account for clockwise rotation)
-  // We need to find the opposite sector since the wheel spins clockwise
-  const sectorIndex = Math.floor(normalizedDegrees / sectorAngle);
-  const finalIndex = (sectors.length - sectorIndex - 1) % sectors.length;
-  
-  return sectors[finalIndex];
+// Get the proper API URL based on environment variable or fallback to API path
+const API_URL = import.meta.env.VITE_API_URL || "/api";
+
+// Wheel sector as returned by the backend
+export interface ServerWheelSector {
+  index: number;
+  label: string;
+  is_win: boolean;
+  tier?: PrizeTier | null;
+  product_id: string | number | null;
+}
+
+// Outcome drawn by the server before the wheel starts spinning
+export interface SpinDraw {
+  spin_token: string;
+  sector_index: number;
+  prize_label: string;
+  is_win: boolean;
+  prize_tier?: PrizeTier | null;
+  expires_at: string;
+  sectors?: ServerWheelSector[];
+}
+
+// The customer about to play: their verified phone number's token, or the contact they entered,
+// the quiz they answered when the campaign has one and the receipt when it needs a purchase
+export interface SpinCustomer {
+  user_contact?: string;
+  verification_token?: string;
+  quiz_attempt_id?: string;
+  purchase_id?: number;
+}
+
+// Whether a customer may play, checked against the campaign's eligibility rules
+export interface SpinEligibility {
+  eligible: boolean;
+  reason?: string;
+  message?: string;
+  retry_after_seconds?: number;
+}
+
+// Thrown when the server will not draw a spin because the customer has played too often
+export class SpinNotAllowedError extends Error {
+  constructor(public eligibility: SpinEligibility) {
+    super(eligibility.message || "You cannot play again right now");
+  }
+}
+
+// Why the server refused to draw a spin for a customer who is otherwise eligible
+export type SpinRefusalCode =
+  | "campaign_not_found"
+  | "campaign_not_running"
+  | "phone_not_verified"
+  | "quiz_required"
+  | "receipt_required"
+  | "receipt_played"
+  | "spin_in_progress"
+  | "no_prize_available";
+
+// Thrown when the server will not draw a spin until the BA fixes something; the message can be shown as is
+export class SpinRefusedError extends Error {
+  constructor(public code: SpinRefusalCode, message: string) {
+    super(message);
+  }
+}
+
+// Sector colours of a campaign; unset colours fall back to the default wheel
+export interface WheelPalette {
+  win?: string;
+  tryAgain?: string;
+  text?: string;
+}
+
+// Convert backend sectors into drawable sectors, reusing the artwork of known prizes
+export function toWheelSectors(sectors: ServerWheelSector[], palette: WheelPalette = {}): WheelSector[] {
+  return sectors.map((sector) => {
+    const known = wheelSectors.find(
+      (s) => s.isWin && s.label.toLowerCase() === sector.label.toLowerCase()
+    );
+    // Consolation prizes keep the colour of the "Try Again" sectors they stand in for
+    const isPremium = sector.is_win && sector.tier !== "consolation";
+    return {
+      color: isPremium ? palette.win || "#1e40af" : palette.tryAgain || "#dc2626",
+      text: palette.text || "#ffffff",
+      label: sector.label,
+      isWin: sector.is_win,
+      tier: sector.tier,
+      image: known?.image,
+    };
+  });
 }
 
-// Send result to backend
-export const sendSpinResultToBackend = async (sector: WheelSector) => {
-  try {
-    // This will be implemented when we connect to the backend
-    console.log("Sending result to backend:", sector);
-  } catch (error) {
-    console.error("Error sending result to backend:", error);
+// Fetch the wheel for the agent running the device, built from their current stock
+export const fetchCurrentWheel = async (
+  agentId: string,
+  campaignSlug?: string,
+  palette?: WheelPalette
+): Promise<WheelSector[]> => {
+  const params = new URLSearchParams({ agent_id: agentId });
+  if (campaignSlug) {
+    params.set('campaign', campaignSlug);
+  }
+
+  const response = await fetch(
+    `${API_URL}/prize-distribution/current-wheel?${params.toString()}`,
+    {
+      mode: 'cors',
+      cache: 'no-cache',
+      headers: { 'Accept': 'application/json' },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Could not load the wheel (Status: ${response.status})`);
+  }
+
+  const data = await response.json();
+  return toWheelSectors(data.wheel_configuration.sectors, palette);
+};
+
+// Check a customer against the eligibility rules before they reach the wheel
+export const checkSpinEligibility = async (
+  customer: SpinCustomer,
+  campaignSlug?: string
+): Promise<SpinEligibility> => {
+  const response = await fetch(`${API_URL}/spins/eligibility`, {
+    method: 'POST',
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...deviceHeaders()
+    },
+    body: JSON.stringify({ campaign: campaignSlug, ...customer }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Could not check eligibility (Status: ${response.status})`);
+  }
+
+  return response.json();
+};
+
+// Ask the backend to draw the spin outcome for the agent the device is signed in as
+export const requestSpinDraw = async (campaignSlug?: string, customer?: SpinCustomer): Promise<SpinDraw> => {
+  const response = await fetch(`${API_URL}/spins/draw`, {
+    method: 'POST',
+    mode: 'cors',
+    cache: 'no-cache',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      ...deviceHeaders()
+    },
+    body: JSON.stringify({ campaign: campaignSlug, ...customer }),
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new SpinNotAllowedError(await response.json());
+    }
+    if (response.status === 401) {
+      clearDeviceSession();
+      throw new DeviceSessionError('This device has been signed out. Please ask the BA to sign in again.');
+    }
+    const data = await response.json().catch(() => ({}));
+    if (data.code) {
+      throw new SpinRefusedError(data.code, data.message || 'Could not start the spin');
+    }
+    throw new Error(`Could not start the spin (Status: ${response.status})`);
   }
+
+  return response.json();
 };
 
-// Function to animate wheel spinning with a random end position
+export interface SpinWheelOptions {
+  // Rotation the wheel was left at by the last spin
+  fromRotation?: number;
+  onTick?: (tick: SpinTick) => void;
+}
+
+// Animate the wheel on the canvas until the sector drawn by the server stops under the pointer.
+// Resolves with the rotation the wheel stopped at.
 export const spinWheel = (
   canvas: HTMLCanvasElement | null,
-  onSpinComplete: (sector: WheelSector) => void
-): number | undefined => {
+  targetIndex: number,
+  sectors: WheelSector[],
+  onSpinComplete: (sector: WheelSector) => void,
+  { fromRotation = 0, onTick }: SpinWheelOptions = {}
+): Promise<number> | undefined => {
   if (!canvas) return undefined;
-  
-  // Calculate a random number of full rotations (5-10) plus a random ending position
-  const spinRevolutions = 5 + Math.random() * 5; // 5-10 full revolutions
-  const spinAngle = spinRevolutions * 360 + Math.floor(Math.random() * 360);
-  
-  // Set up the animation
-  canvas.style.transition = "transform 4s cubic-bezier(0.1, 0.25, 0.1, 1.0)";
-  canvas.style.transform = `rotate(${spinAngle}deg)`;
-  
+
   toast({
     title: "Spinning the wheel...",
     description: "Good luck!",
   });
-  
-  // When spin is done, determine the winner
-  setTimeout(() => {
-    // Calculate which sector the wheel landed on
-    const finalSector = getFinalSector(spinAngle, wheelSectors);
-    
-    // Notify parent component
-    onSpinComplete(finalSector);
-    
-    // Log result to backend (not used directly in this component)
-    sendSpinResultToBackend(finalSector);
-  }, 4000);
-  
-  return spinAngle;
+
+  return animateSpin({
+    targetIndex,
+    sectorCount: sectors.length,
+    fromRotation,
+    onFrame: (rotation) => {
+      canvas.style.transform = `rotate(${rotation}deg)`;
+    },
+    onTick,
+  }).then((landing) => {
+    onSpinComplete(sectors[landing.sectorIndex]);
+    return landing.rotation;
+  });
 };
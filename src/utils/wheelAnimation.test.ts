@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  animateSpin,
+  getLandingRotation,
+  getSectorAtPointer,
+  normalizeAngle,
+  POINTER_ANGLE,
+  SpinTick,
+} from "@/utils/wheelAnimation";
+
+// Wheels from a single sector up to far more than a campaign would ever configure
+const SECTOR_COUNTS = Array.from({ length: 72 }, (_, i) => i + 1);
+
+describe("normalizeAngle", () => {
+  it("brings angles into [0, 360)", () => {
+    expect(normalizeAngle(0)).toBe(0);
+    expect(normalizeAngle(360)).toBe(0);
+    expect(normalizeAngle(-90)).toBe(270);
+    expect(normalizeAngle(725)).toBe(5);
+  });
+});
+
+describe("getSectorAtPointer", () => {
+  it("finds the sector drawn under the pointer at 12 o'clock", () => {
+    // Unturned, the pointer at 270 degrees sits in the last quarter of the wheel
+    expect(getSectorAtPointer(0, 4)).toBe(3);
+    // Turning the wheel clockwise brings the sectors before it under the pointer
+    expect(getSectorAtPointer(90, 4)).toBe(2);
+    expect(getSectorAtPointer(180, 4)).toBe(1);
+    expect(getSectorAtPointer(270, 4)).toBe(0);
+  });
+});
+
+describe("getLandingRotation", () => {
+  it("lands on the target for every sector count and index", () => {
+    for (const sectorCount of SECTOR_COUNTS) {
+      for (let targetIndex = 0; targetIndex < sectorCount; targetIndex++) {
+        for (const offset of [undefined, 0, 0.2, 0.5, 0.8, 1]) {
+          const rotation = getLandingRotation(targetIndex, sectorCount, { offset, turns: 5 });
+          expect(getSectorAtPointer(rotation, sectorCount), `${targetIndex} of ${sectorCount} at ${offset}`).toBe(targetIndex);
+        }
+      }
+    }
+  });
+
+  it("lands on the target from any starting rotation", () => {
+    for (const sectorCount of SECTOR_COUNTS) {
+      for (let targetIndex = 0; targetIndex < sectorCount; targetIndex++) {
+        const fromRotation = Math.random() * 100000;
+        const rotation = getLandingRotation(targetIndex, sectorCount, { fromRotation });
+        expect(getSectorAtPointer(rotation, sectorCount)).toBe(targetIndex);
+      }
+    }
+  });
+
+  it("lands on the target under a pointer placed anywhere", () => {
+    for (const pointerAngle of [0, 90, 180, POINTER_ANGLE, 33.3]) {
+      for (const sectorCount of [2, 6, 7, 12]) {
+        for (let targetIndex = 0; targetIndex < sectorCount; targetIndex++) {
+          const rotation = getLandingRotation(targetIndex, sectorCount, { pointerAngle });
+          expect(getSectorAtPointer(rotation, sectorCount, pointerAngle)).toBe(targetIndex);
+        }
+      }
+    }
+  });
+
+  it("keeps the pointer off the edges of the sector", () => {
+    const sectorCount = 8;
+    const sectorAngle = 360 / sectorCount;
+    for (const offset of [-1, 0, 1, 2]) {
+      const rotation = getLandingRotation(3, sectorCount, { offset, turns: 5 });
+      const into = normalizeAngle(POINTER_ANGLE - rotation) - 3 * sectorAngle;
+      expect(into).toBeGreaterThanOrEqual(0.2 * sectorAngle - 1e-9);
+      expect(into).toBeLessThanOrEqual(0.8 * sectorAngle + 1e-9);
+    }
+  });
+
+  it("turns clockwise at least the given number of full turns", () => {
+    const fromRotation = 123;
+    for (const turns of [0, 5, 8]) {
+      const rotation = getLandingRotation(2, 6, { fromRotation, turns });
+      expect(rotation).toBeGreaterThanOrEqual(fromRotation + turns * 360);
+      expect(rotation).toBeLessThan(fromRotation + (turns + 1) * 360);
+    }
+  });
+});
+
+describe("animateSpin", () => {
+  let now = 0;
+  let frames: FrameRequestCallback[] = [];
+
+  // Runs queued animation frames, 16ms apart, until the animation stops asking for more
+  const runFrames = () => {
+    while (frames.length > 0) {
+      const queued = frames;
+      frames = [];
+      now += 16;
+      queued.forEach((callback) => callback(now));
+    }
+  };
+
+  beforeEach(() => {
+    now = 0;
+    frames = [];
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => frames.push(callback));
+    vi.stubGlobal("cancelAnimationFrame", () => {
+      frames = [];
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("resolves on the target sector for every sector count", async () => {
+    for (const sectorCount of SECTOR_COUNTS) {
+      const targetIndex = sectorCount - 1;
+      const spin = animateSpin({ targetIndex, sectorCount, duration: 200, onFrame: () => {} });
+      runFrames();
+      const landing = await spin;
+      expect(landing.sectorIndex).toBe(targetIndex);
+      expect(getSectorAtPointer(landing.rotation, sectorCount)).toBe(targetIndex);
+    }
+  });
+
+  it("draws frames that only turn forwards and end on the landing rotation", async () => {
+    const rotations: number[] = [];
+    const spin = animateSpin({ targetIndex: 1, sectorCount: 6, duration: 500, fromRotation: 40, onFrame: (r) => rotations.push(r) });
+    runFrames();
+    const landing = await spin;
+
+    expect(rotations.length).toBeGreaterThan(2);
+    rotations.slice(1).forEach((rotation, i) => expect(rotation).toBeGreaterThanOrEqual(rotations[i]));
+    expect(rotations[rotations.length - 1]).toBe(landing.rotation);
+  });
+
+  it("ticks once for each sector boundary passed, with the sector it leads into", async () => {
+    const sectorCount = 8;
+    const ticks: SpinTick[] = [];
+    const spin = animateSpin({
+      targetIndex: 5,
+      sectorCount,
+      duration: 300,
+      turns: 5,
+      onFrame: () => {},
+      onTick: (tick) => ticks.push(tick),
+    });
+    runFrames();
+    const landing = await spin;
+
+    const sectorAngle = 360 / sectorCount;
+    const boundaries = Math.floor((landing.rotation - POINTER_ANGLE) / sectorAngle) - Math.floor(-POINTER_ANGLE / sectorAngle);
+    expect(ticks).toHaveLength(boundaries);
+    expect(ticks[ticks.length - 1].sectorIndex).toBe(5);
+    ticks.forEach((tick) => {
+      expect(getSectorAtPointer(tick.rotation + sectorAngle / 2, sectorCount)).toBe(tick.sectorIndex);
+    });
+  });
+
+  it("rejects with an AbortError when stopped", async () => {
+    const controller = new AbortController();
+    const spin = animateSpin({ targetIndex: 0, sectorCount: 4, duration: 1000, onFrame: () => {}, signal: controller.signal });
+    controller.abort();
+    await expect(spin).rejects.toMatchObject({ name: "AbortError" });
+  });
+});
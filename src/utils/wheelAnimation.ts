@@ -0,0 +1,164 @@
+// Spin animation for the prize wheel. Angles are in degrees and follow the canvas: 0 is
+// 3 o'clock and angles grow clockwise, so sector i of n is drawn from i * 360 / n to
+// (i + 1) * 360 / n. The wheel is turned clockwise by its rotation, and the pointer stays still.
+
+// The pointer is drawn above the wheel, at 12 o'clock
+export const POINTER_ANGLE = 270;
+
+export type EasingFunction = (progress: number) => number;
+
+// Progress curves for the spin, from 0 at the start to 1 when the wheel stops. Each one starts
+// fast and slows to a stop, like a wheel slowed by friction.
+export const EASINGS = {
+  // Constant friction: the wheel slows down by the same amount every moment
+  friction: (t: number) => 1 - (1 - t) * (1 - t),
+  // Drag grows with speed, so the wheel slows quickly and then creeps to a stop
+  drag: (t: number) => (1 - Math.exp(-5 * t)) / (1 - Math.exp(-5)),
+  easeOutCubic: (t: number) => 1 - Math.pow(1 - t, 3),
+  easeOutQuart: (t: number) => 1 - Math.pow(1 - t, 4),
+} satisfies Record<string, EasingFunction>;
+
+export type EasingName = keyof typeof EASINGS;
+
+const DEFAULT_DURATION_MS = 5000;
+const DEFAULT_EASING: EasingName = "friction";
+const MIN_TURNS = 5;
+const MAX_TURNS = 8;
+// Where inside the target sector the pointer may stop, away from the edges so it never looks like a tie
+const MIN_OFFSET = 0.2;
+const MAX_OFFSET = 0.8;
+
+// Bring an angle into [0, 360)
+export const normalizeAngle = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+// The sector under the pointer when the wheel is turned by the given rotation
+export function getSectorAtPointer(rotation: number, sectorCount: number, pointerAngle = POINTER_ANGLE): number {
+  const sectorAngle = 360 / sectorCount;
+  // The point of the wheel under the pointer, in the wheel's own angles
+  const wheelAngle = normalizeAngle(pointerAngle - rotation);
+  return Math.floor(wheelAngle / sectorAngle) % sectorCount;
+}
+
+export interface LandingOptions {
+  // Rotation the wheel starts from; the landing is always further clockwise
+  fromRotation?: number;
+  // Full turns before the wheel reaches the target; random from 5 to 8 when not set
+  turns?: number;
+  // Where inside the sector the pointer stops, as a fraction of the way through it from
+  // MIN_OFFSET (0.2) to MAX_OFFSET (0.8); values outside are clamped. Random when not set.
+  offset?: number;
+  pointerAngle?: number;
+}
+
+// The rotation that stops the target sector under the pointer, after the given number of turns
+export function getLandingRotation(targetIndex: number, sectorCount: number, options: LandingOptions = {}): number {
+  const {
+    fromRotation = 0,
+    turns = MIN_TURNS + Math.floor(Math.random() * (MAX_TURNS - MIN_TURNS + 1)),
+    offset = MIN_OFFSET + Math.random() * (MAX_OFFSET - MIN_OFFSET),
+    pointerAngle = POINTER_ANGLE,
+  } = options;
+  const sectorAngle = 360 / sectorCount;
+  // Kept off the sector's edges, where rounding could put the pointer on its neighbour
+  const safeOffset = Math.min(Math.max(offset, MIN_OFFSET), MAX_OFFSET);
+
+  // The rotation, up to whole turns, that puts the chosen point of the sector under the pointer
+  const landing = normalizeAngle(pointerAngle - (targetIndex + safeOffset) * sectorAngle);
+  const start = fromRotation + turns * 360;
+  return start + normalizeAngle(landing - start);
+}
+
+// Emitted each time a sector boundary passes the pointer
+export interface SpinTick {
+  // The sector now under the pointer
+  sectorIndex: number;
+  // Rotation at which the boundary passed
+  rotation: number;
+}
+
+export interface SpinLanding {
+  sectorIndex: number;
+  rotation: number;
+}
+
+export interface SpinAnimationOptions extends LandingOptions {
+  targetIndex: number;
+  sectorCount: number;
+  duration?: number;
+  easing?: EasingName | EasingFunction;
+  // Draws the wheel at a rotation; called on every animation frame
+  onFrame: (rotation: number) => void;
+  onTick?: (tick: SpinTick) => void;
+  // Stops the animation; the promise then rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+// Spin the wheel to the target sector with requestAnimationFrame. Resolves once the wheel has
+// stopped, with the sector under the pointer, which is always the target.
+export function animateSpin(options: SpinAnimationOptions): Promise<SpinLanding> {
+  const {
+    targetIndex,
+    sectorCount,
+    duration = DEFAULT_DURATION_MS,
+    easing = DEFAULT_EASING,
+    onFrame,
+    onTick,
+    signal,
+    fromRotation = 0,
+    pointerAngle = POINTER_ANGLE,
+  } = options;
+  const ease = typeof easing === "function" ? easing : EASINGS[easing];
+  const targetRotation = getLandingRotation(targetIndex, sectorCount, { ...options, fromRotation, pointerAngle });
+  const distance = targetRotation - fromRotation;
+  const sectorAngle = 360 / sectorCount;
+  // Boundaries that have passed the pointer, counted from an arbitrary origin
+  const boundariesPassed = (rotation: number) => Math.floor((rotation - pointerAngle) / sectorAngle);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("The spin was stopped", "AbortError"));
+      return;
+    }
+
+    let frame = 0;
+    let startTime: number | null = null;
+    let lastBoundary = boundariesPassed(fromRotation);
+
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      reject(new DOMException("The spin was stopped", "AbortError"));
+    };
+    signal?.addEventListener("abort", stop, { once: true });
+
+    const step = (time: number) => {
+      if (startTime === null) startTime = time;
+      const progress = duration > 0 ? Math.min((time - startTime) / duration, 1) : 1;
+      // The last frame lands exactly on the target, whatever the easing returns at 1
+      const rotation = progress < 1 ? fromRotation + distance * ease(progress) : targetRotation;
+      onFrame(rotation);
+
+      // The wheel only turns forwards, so every boundary passed since the last frame is reported,
+      // with the sector it leads into
+      const boundary = boundariesPassed(rotation);
+      if (onTick) {
+        for (let passed = lastBoundary + 1; passed <= boundary; passed++) {
+          const boundaryRotation = pointerAngle + passed * sectorAngle;
+          onTick({
+            sectorIndex: getSectorAtPointer(boundaryRotation + sectorAngle / 2, sectorCount, pointerAngle),
+            rotation: boundaryRotation,
+          });
+        }
+      }
+      lastBoundary = Math.max(lastBoundary, boundary);
+
+      if (progress < 1) {
+        frame = requestAnimationFrame(step);
+        return;
+      }
+      signal?.removeEventListener("abort", stop);
+      resolve({ sectorIndex: getSectorAtPointer(rotation, sectorCount, pointerAngle), rotation });
+    };
+
+    frame = requestAnimationFrame(step);
+  });
+}